@@ -2,4 +2,5 @@
  * Adapters for integrating Audiio Algo with different environments
  */
 
-export { createUIPluginAdapter, audiioAlgoUIPlugin } from './ui-adapter';
+export { createUIPluginAdapter, audiioAlgoUIPlugin, toUIAudioFeatures } from './ui-adapter';
+export type { UIAudioFeatures } from './ui-adapter';
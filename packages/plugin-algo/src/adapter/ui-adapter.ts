@@ -1,16 +1,27 @@
 /**
  * UI Adapter - Bridges Audiio Algo plugin to the UI integration layer
  *
- * This is a simplified adapter that provides a UI-compatible interface.
- * Full integration with ml-core will be completed in the UI package.
+ * Wraps a live AudiioAlgorithm instance in the shape the UI expects.
+ * Capabilities are read from the algorithm, so a provider that is disabled
+ * or failed to load is reported as unavailable.
  */
 
+import type {
+  AudioFeatures,
+  MLCoreEndpoints,
+  ScoreExplanation,
+  ScoringContext,
+  Track,
+  TrainingStatus,
+} from '@audiio/ml-sdk';
 import { AUDIIO_ALGO_MANIFEST } from '../manifest';
+import { AudiioAlgorithm, type AlgorithmCapabilities } from '../algorithm/audiio-algorithm';
+import type { BlendedRadioSeed, HarmonicRadioSeed } from '../algorithm/radio-generator';
 
 /**
  * Audio features type matching UI expectations
  */
-interface UIAudioFeatures {
+export interface UIAudioFeatures {
   bpm?: number;
   key?: string;
   mode?: 'major' | 'minor';
@@ -23,57 +34,154 @@ interface UIAudioFeatures {
   speechiness?: number;
 }
 
+const NO_CAPABILITIES: AlgorithmCapabilities = {
+  audioFeatures: false,
+  emotionDetection: false,
+  lyricsAnalysis: false,
+  fingerprinting: false,
+  embeddings: false,
+  neuralScoring: false,
+};
+
 /**
  * Create a UI-compatible plugin wrapper for AudiioAlgorithm
+ *
+ * @param algorithm - Algorithm instance; initialised by `initialize(endpoints)`
+ *   unless the host has already done so
  */
-export function createUIPluginAdapter() {
+export function createUIPluginAdapter(algorithm: AudiioAlgorithm = new AudiioAlgorithm()) {
   let initialized = false;
+  let ownsAlgorithm = false;
+
+  const requireAlgorithm = (): AudiioAlgorithm => {
+    if (!initialized) {
+      throw new Error('Audiio Algorithm adapter is not initialized');
+    }
+    return algorithm;
+  };
 
   return {
     manifest: {
       id: AUDIIO_ALGO_MANIFEST.id,
       name: AUDIIO_ALGO_MANIFEST.name,
       version: AUDIIO_ALGO_MANIFEST.version,
-      capabilities: {
-        audioFeatures: true,
-        emotionDetection: true,
-        lyricsAnalysis: true,
-        fingerprinting: true,
-        embeddings: true,
-        neuralScoring: true,
+      get capabilities(): AlgorithmCapabilities {
+        return initialized ? algorithm.getCapabilities() : { ...NO_CAPABILITIES };
       },
     },
 
-    async initialize(): Promise<void> {
+    /**
+     * @param endpoints - Core endpoints; required unless the host has already
+     *   initialised the algorithm
+     */
+    async initialize(endpoints?: MLCoreEndpoints): Promise<void> {
       if (initialized) return;
+
+      if (endpoints) {
+        await algorithm.initialize(endpoints);
+        ownsAlgorithm = true;
+      } else if (!algorithm.isScoringReady()) {
+        throw new Error('Audiio Algorithm adapter needs core endpoints: the algorithm is not initialized');
+      }
+
       initialized = true;
       console.log('[UIAdapter] Audiio Algorithm adapter ready');
     },
 
     async dispose(): Promise<void> {
+      if (initialized && ownsAlgorithm) {
+        await algorithm.dispose();
+      }
       initialized = false;
+      ownsAlgorithm = false;
     },
 
-    async getAudioFeatures(_trackId: string): Promise<UIAudioFeatures | null> {
-      // Audio features will be provided through the full ml-core integration
-      return null;
+    async getAudioFeatures(trackId: string): Promise<UIAudioFeatures | null> {
+      const features = await requireAlgorithm().getAudioFeatures(trackId);
+      return features ? toUIAudioFeatures(features) : null;
     },
 
-    async findSimilar(_trackId: string, _limit: number): Promise<string[]> {
-      // Similarity search will be provided through the full ml-core integration
-      return [];
+    async findSimilar(trackId: string, limit: number): Promise<string[]> {
+      const similar = await requireAlgorithm().findSimilar(trackId, limit);
+      return similar.map(track => track.id);
     },
 
+    /**
+     * Score a track for the current listener (score 0-1)
+     */
     async scoreTrack(
-      _track: unknown,
-      _context: unknown
+      track: Track,
+      context?: Partial<ScoringContext>
     ): Promise<{ score: number; confidence: number }> {
-      // Scoring will be provided through the full ml-core integration
-      return { score: 0.5, confidence: 0 };
+      const [score] = await requireAlgorithm().scoreBatch([track], buildContext(context));
+      return { score: score.finalScore / 100, confidence: score.confidence };
+    },
+
+    /**
+     * Why a recently scored track got its score
+     */
+    async explain(trackId: string): Promise<ScoreExplanation | null> {
+      try {
+        return await requireAlgorithm().explainScore(trackId);
+      } catch {
+        // Track has not been scored recently
+        return null;
+      }
+    },
+
+    async generateRadio(
+      seed: HarmonicRadioSeed | BlendedRadioSeed,
+      count: number,
+      context?: Partial<ScoringContext>
+    ): Promise<Track[]> {
+      return requireAlgorithm().generateRadio(seed, count, buildContext(context));
+    },
+
+    getTrainingStatus(): TrainingStatus {
+      return requireAlgorithm().getTrainingStatus();
+    },
+
+    async findDuplicates() {
+      return requireAlgorithm().findDuplicates();
     },
   };
 }
 
+/**
+ * Map analysed audio features to the UI shape
+ */
+export function toUIAudioFeatures(features: AudioFeatures): UIAudioFeatures {
+  return {
+    bpm: features.bpm,
+    key: features.key,
+    mode: features.mode,
+    energy: features.energy,
+    danceability: features.danceability,
+    acousticness: features.acousticness,
+    instrumentalness: features.instrumentalness,
+    valence: features.valence,
+    loudness: features.loudness,
+    speechiness: features.speechiness,
+  };
+}
+
+/**
+ * Scoring context for "now", overridden by what the UI knows
+ */
+function buildContext(context: Partial<ScoringContext> = {}): ScoringContext {
+  const now = new Date();
+  const defaults: ScoringContext = {
+    hourOfDay: now.getHours(),
+    dayOfWeek: now.getDay(),
+    isWeekend: [0, 6].includes(now.getDay()),
+    sessionTracks: [],
+    sessionArtists: [],
+    sessionGenres: [],
+  };
+
+  return { ...defaults, ...context };
+}
+
 /**
  * Export singleton factory
  */
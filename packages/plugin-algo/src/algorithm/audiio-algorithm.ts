@@ -8,6 +8,7 @@ import {
   type Track,
   type ScoredTrack,
   type AggregatedFeatures,
+  type AudioFeatures,
   type TrackScore,
   type ScoringContext,
   type TrainingDataset,
@@ -15,42 +16,195 @@ import {
   type TrainingStatus,
   type UserEvent,
   type FeatureProvider,
-  type RadioSeed,
   type ScoreExplanation,
+  type MLCoreEndpoints,
+  type MoodCategory,
 } from '@audiio/ml-sdk';
 
 import { AUDIIO_ALGO_MANIFEST } from '../manifest';
 import { HybridScorer } from '../scoring/hybrid-scorer';
 import { NeuralScorer } from '../scoring/neural-scorer';
 import { Trainer } from '../training/trainer';
-import { RadioGenerator } from './radio-generator';
+import type { EvaluationReport } from '../training/evaluator';
+import type { ModelVersionInfo } from '../scoring/model-registry';
+import {
+  RadioGenerator,
+  type HarmonicRadioSeed,
+  type BlendedRadioSeed,
+  type WeightedRadioSeed,
+} from './radio-generator';
+import {
+  setHarmonicMixOptions,
+  setSessionFlowOptions,
+  setNegativeFeedbackStore,
+} from '../pipeline/register';
+import type { HarmonicMixOptions } from '../mixing/harmonic-mix';
+import type { EnergyCurveShape } from '../mixing/sequence-optimizer';
+import {
+  NegativeFeedbackStore,
+  toFeedbackRef,
+  type NegativeRule,
+  type NegativeRuleType,
+} from '../feedback/negative-feedback';
+import {
+  ProfileManager,
+  type ListenerProfile,
+  type ProfileSession,
+} from '../profiles/profile-manager';
+import type { ProfileHistory } from '../profiles/profile-history';
+import {
+  HistoryBootstrap,
+  type BootstrapSummary,
+  type ImportedHistory,
+} from '../profiles/history-bootstrap';
+import {
+  AnalysisQueue,
+  type AnalysisJob,
+  type AnalysisKind,
+  type AnalysisProgress,
+  type AnalysisProgressListener,
+  type JobPriority,
+} from '../jobs/analysis-queue';
+import { AnalysisWorkerPool } from '../jobs/worker-pool';
 
 // Providers (lazy loaded)
+import { FeatureStore, hashAudio } from '../providers/feature-store';
 import type { EssentiaProvider } from '../providers/essentia/essentia-provider';
-import type { EmotionProvider } from '../providers/emotion/emotion-provider';
-import type { LyricsProvider } from '../providers/lyrics/lyrics-provider';
+import type { BeatAnalysisCapability, BeatGrid } from '../providers/essentia/beat-grid';
+import {
+  LoudnessStore,
+  DEFAULT_REFERENCE_LOUDNESS,
+  type LoudnessCapability,
+  type TrackLoudness,
+} from '../providers/essentia/loudness-store';
+import type {
+  EmotionProvider,
+  EmotionModelVersion,
+} from '../providers/emotion/emotion-provider';
+import {
+  EmotionLabelStore,
+  type EmotionLabel,
+  type EmotionLabelSource,
+} from '../providers/emotion/emotion-labels';
+import {
+  EmotionTrainer,
+  type EmotionTrainingProgress,
+  type EmotionTrainingReport,
+} from '../training/emotion-trainer';
+import type {
+  LyricsProvider,
+  MultilingualLyricsFeatures,
+} from '../providers/lyrics/lyrics-provider';
+import type { SyncedLyricLine } from '../providers/lyrics/mood-arc';
+import type { LyricsLexicon } from '../providers/lyrics/lexicons';
 import type { FingerprintProvider } from '../providers/fingerprint/fingerprint-provider';
 import type { EmbeddingProvider } from '../providers/embeddings/embedding-provider';
+import type { RecallLevel } from '../providers/embeddings/hnsw-index';
+import type {
+  StructureProvider,
+  StructureCapability,
+} from '../providers/structure/structure-provider';
+import type { PreviewWindow, SongStructure } from '../providers/structure/segmentation';
+
+/**
+ * Features that initialised and are available to hosts
+ */
+export interface AlgorithmCapabilities {
+  audioFeatures: boolean;
+  emotionDetection: boolean;
+  lyricsAnalysis: boolean;
+  /** Loaded on first use; true while enabled unless loading failed */
+  fingerprinting: boolean;
+  embeddings: boolean;
+  /** A trained model is loaded */
+  neuralScoring: boolean;
+}
+
+/**
+ * Decoded mono PCM of a track, supplied by the host
+ */
+export type AnalysisAudioSource = (
+  trackId: string
+) => Promise<{ buffer: ArrayBuffer; sampleRate: number } | null>;
+
+export interface AnalysisOptions {
+  /** Decodes a track's audio; without it only embeddings are computed */
+  audioSource?: AnalysisAudioSource;
+  /** URL of the bundled analysis worker; without it audio is analysed inline */
+  workerUrl?: string | URL;
+}
+
+// Persist the fingerprint and embedding indexes every N analysed tracks
+const ANALYSIS_FLUSH_INTERVAL = 25;
+
+// Tracks offered to weak label sources per emotion training run
+const MAX_WEAK_LABEL_TRACKS = 200;
+
+/**
+ * Scoring, model, training and radio state of one listener profile
+ */
+interface ProfileRuntime {
+  profileId: string;
+  endpoints: MLCoreEndpoints;
+  history: ProfileHistory;
+  bootstrap: HistoryBootstrap;
+  neuralScorer: NeuralScorer;
+  hybridScorer: HybridScorer;
+  trainer: Trainer;
+  radioGenerator: RadioGenerator;
+}
 
 export class AudiioAlgorithm extends BaseAlgorithm {
   manifest: AlgorithmManifest = AUDIIO_ALGO_MANIFEST;
 
   // Core components
-  private hybridScorer!: HybridScorer;
-  private neuralScorer!: NeuralScorer;
-  private trainer!: Trainer;
-  private radioGenerator!: RadioGenerator;
+  private profileManager!: ProfileManager;
+  private runtimes = new Map<string, ProfileRuntime>();
+  private activeRuntimes: ProfileRuntime[] = [];
+  private loudnessStore!: LoudnessStore;
+  private featureStore!: FeatureStore;
+  private negativeFeedback!: NegativeFeedbackStore;
 
   // Providers (lazy loaded)
   private essentiaProvider?: EssentiaProvider;
   private emotionProvider?: EmotionProvider;
   private lyricsProvider?: LyricsProvider;
   private fingerprintProvider?: FingerprintProvider;
+  private fingerprintLoadFailed = false;
   private embeddingProvider?: EmbeddingProvider;
+  private structureProvider?: StructureProvider;
+
+  // Background analysis
+  private analysisQueue!: AnalysisQueue;
+  private workerPool: AnalysisWorkerPool | null = null;
+  private analysisOptions: AnalysisOptions = {};
+  private analysedSinceFlush = 0;
+
+  // Emotion model fine-tuning
+  private emotionLabels!: EmotionLabelStore;
+  private emotionLabelSources = new Map<string, EmotionLabelSource>();
+  private emotionTrainer?: EmotionTrainer;
 
   // Feature providers exposed to core
   featureProviders: FeatureProvider[] = [];
 
+  // Components of the primary active profile
+  private get hybridScorer(): HybridScorer {
+    return this.activeRuntimes[0].hybridScorer;
+  }
+
+  private get neuralScorer(): NeuralScorer {
+    return this.activeRuntimes[0].neuralScorer;
+  }
+
+  private get trainer(): Trainer {
+    return this.activeRuntimes[0].trainer;
+  }
+
+  private get radioGenerator(): RadioGenerator {
+    return this.activeRuntimes[0].radioGenerator;
+  }
+
   // ============================================================================
   // Lifecycle
   // ============================================================================
@@ -58,18 +212,39 @@ export class AudiioAlgorithm extends BaseAlgorithm {
   protected async onInitialize(): Promise<void> {
     this.log('Initializing Audiio Algorithm...');
 
-    // Initialize neural scorer
-    this.neuralScorer = new NeuralScorer();
-    await this.neuralScorer.initialize(this.endpoints);
-
-    // Initialize hybrid scorer
-    this.hybridScorer = new HybridScorer(this.endpoints, this.neuralScorer, this.settings);
-
-    // Initialize trainer
-    this.trainer = new Trainer(this.endpoints, this.neuralScorer);
-
-    // Initialize radio generator
-    this.radioGenerator = new RadioGenerator(this.endpoints, this.hybridScorer);
+    // Persisted provider analysis, shared by providers and scorers
+    this.featureStore = new FeatureStore(this.endpoints, {
+      maxEntries: this.getSetting('featureStoreSize', 20000),
+    });
+    await this.featureStore.load();
+
+    // User mood tags for emotion model fine-tuning
+    this.emotionLabels = new EmotionLabelStore(this.endpoints);
+    await this.emotionLabels.load();
+
+    // Persisted "don't play this" rules
+    this.negativeFeedback = new NegativeFeedbackStore(
+      this.endpoints,
+      async trackId => this.embeddingProvider?.getEmbedding(trackId) ?? null
+    );
+    await this.negativeFeedback.load();
+    setNegativeFeedbackStore(this.negativeFeedback);
+
+    // Scorers, models and radio sessions of the active listener profiles
+    this.profileManager = new ProfileManager(this.endpoints);
+    await this.profileManager.load();
+    await this.activateSession();
+
+    setHarmonicMixOptions(this.getHarmonicMixSettings());
+    setSessionFlowOptions({
+      energyCurve: this.getSetting('sessionFlowCurve', 'arc') as EnergyCurveShape,
+    });
+
+    // Persisted loudness / ReplayGain values
+    this.loudnessStore = new LoudnessStore(
+      this.endpoints,
+      this.getSetting('loudnessReference', DEFAULT_REFERENCE_LOUDNESS)
+    );
 
     // Initialize providers based on settings
     await this.initializeProviders();
@@ -77,6 +252,19 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     // Register feature providers with core
     this.registerProviders();
 
+    // Background analysis, resuming jobs left from the last session
+    this.analysisQueue = new AnalysisQueue(this.endpoints, job => this.runAnalysisJob(job), {
+      concurrency: this.getSetting('analysisConcurrency', 2),
+      idleOnly: this.getSetting('trainOnIdle', true),
+    });
+    this.analysisQueue.onProgress(progress => {
+      if (progress.job && progress.pending === 0 && progress.running === 0) {
+        void this.flushAnalysisIndexes();
+      }
+    });
+    await this.analysisQueue.load();
+    this.updateAnalysisQueue();
+
     // Check if training needed
     if (this.getSetting('autoTrain', true)) {
       const needsTraining = await this.needsTraining?.() ?? false;
@@ -90,9 +278,37 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     this.log('Initialized successfully');
   }
 
+  /**
+   * Whether initialisation finished and tracks can be scored
+   */
+  isScoringReady(): boolean {
+    return this.activeRuntimes.length > 0;
+  }
+
+  /**
+   * What actually initialised; disabled or failed providers report false.
+   * The fingerprint provider loads on first use and reports true until it fails to.
+   */
+  getCapabilities(): AlgorithmCapabilities {
+    return {
+      audioFeatures: !!this.essentiaProvider,
+      emotionDetection: !!this.emotionProvider,
+      lyricsAnalysis: !!this.lyricsProvider,
+      fingerprinting: !!this.fingerprintProvider ||
+        (!this.fingerprintLoadFailed && !!this.getSetting('enableFingerprinting', true)),
+      embeddings: !!this.embeddingProvider,
+      neuralScoring: this.isScoringReady() && this.neuralScorer.isReady(),
+    };
+  }
+
   protected async onDispose(): Promise<void> {
     this.log('Disposing...');
 
+    // Stop background analysis
+    await this.analysisQueue?.dispose();
+    this.workerPool?.terminate();
+    this.workerPool = null;
+
     // Unregister providers
     for (const provider of this.featureProviders) {
       this.endpoints.features.unregister(provider.id);
@@ -104,9 +320,15 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     await this.lyricsProvider?.dispose?.();
     await this.fingerprintProvider?.dispose?.();
     await this.embeddingProvider?.dispose?.();
+    await this.structureProvider?.dispose?.();
+    await this.featureStore?.dispose();
 
     // Dispose components
-    await this.neuralScorer.dispose();
+    for (const runtime of this.runtimes.values()) {
+      await runtime.history.flush();
+      await runtime.neuralScorer.dispose();
+    }
+    this.runtimes.clear();
 
     this.log('Disposed');
   }
@@ -124,6 +346,7 @@ export class AudiioAlgorithm extends BaseAlgorithm {
           this.getSetting('audioAnalysisQuality', 'balanced')
         );
         await this.essentiaProvider.initialize();
+        await this.essentiaProvider.useFeatureStore(this.featureStore);
         this.log('Essentia provider initialized');
       } catch (error) {
         this.warn('Failed to initialize Essentia provider:', error);
@@ -136,6 +359,8 @@ export class AudiioAlgorithm extends BaseAlgorithm {
         const { EmotionProvider } = await import('../providers/emotion/emotion-provider');
         this.emotionProvider = new EmotionProvider();
         await this.emotionProvider.initialize(this.endpoints);
+        await this.emotionProvider.useFeatureStore(this.featureStore);
+        this.emotionTrainer = new EmotionTrainer(this.emotionProvider);
         this.log('Emotion provider initialized');
       } catch (error) {
         this.warn('Failed to initialize Emotion provider:', error);
@@ -148,6 +373,7 @@ export class AudiioAlgorithm extends BaseAlgorithm {
         const { LyricsProvider } = await import('../providers/lyrics/lyrics-provider');
         this.lyricsProvider = new LyricsProvider();
         await this.lyricsProvider.initialize(this.endpoints);
+        await this.lyricsProvider.useFeatureStore(this.featureStore);
         this.log('Lyrics provider initialized');
       } catch (error) {
         this.warn('Failed to initialize Lyrics provider:', error);
@@ -158,7 +384,9 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     if (this.getSetting('enableEmbeddings', true)) {
       try {
         const { EmbeddingProvider } = await import('../providers/embeddings/embedding-provider');
-        this.embeddingProvider = new EmbeddingProvider();
+        this.embeddingProvider = new EmbeddingProvider(
+          () => this.getSetting('similarityRecall', 'balanced') as RecallLevel
+        );
         await this.embeddingProvider.initialize(this.endpoints);
         this.log('Embedding provider initialized');
       } catch (error) {
@@ -166,6 +394,18 @@ export class AudiioAlgorithm extends BaseAlgorithm {
       }
     }
 
+    // Song structure
+    if (this.getSetting('enableStructureAnalysis', true)) {
+      try {
+        const { StructureProvider } = await import('../providers/structure/structure-provider');
+        this.structureProvider = new StructureProvider();
+        await this.structureProvider.initialize(this.endpoints);
+        this.log('Structure provider initialized');
+      } catch (error) {
+        this.warn('Failed to initialize Structure provider:', error);
+      }
+    }
+
     // Fingerprinting (lazy - only load when needed)
     // Will be loaded on first fingerprinting request
   }
@@ -173,11 +413,13 @@ export class AudiioAlgorithm extends BaseAlgorithm {
   private registerProviders(): void {
     // Essentia audio features
     if (this.essentiaProvider) {
-      this.featureProviders.push({
+      const essentiaFeatureProvider: FeatureProvider & BeatAnalysisCapability & LoudnessCapability = {
         id: 'audiio-algo:essentia',
         priority: 100,
         capabilities: {
           audioAnalysis: true,
+          beatAnalysis: true,
+          loudnessAnalysis: true,
           emotionDetection: false,
           lyricsAnalysis: false,
           similarity: false,
@@ -195,7 +437,14 @@ export class AudiioAlgorithm extends BaseAlgorithm {
         analyzeAudioBuffer: async (buffer, sampleRate) => {
           return this.essentiaProvider?.analyzeBuffer(buffer, sampleRate) ?? null;
         },
-      });
+        getBeatGrid: async (trackId) => {
+          return this.essentiaProvider?.getBeatGrid(trackId) ?? null;
+        },
+        getLoudness: async (trackId) => {
+          return this.getLoudness(trackId);
+        },
+      };
+      this.featureProviders.push(essentiaFeatureProvider);
     }
 
     // Emotion features
@@ -276,6 +525,32 @@ export class AudiioAlgorithm extends BaseAlgorithm {
       });
     }
 
+    // Song structure
+    if (this.structureProvider) {
+      const structureFeatureProvider: FeatureProvider & StructureCapability = {
+        id: 'audiio-algo:structure',
+        priority: 100,
+        capabilities: {
+          audioAnalysis: false,
+          structureAnalysis: true,
+          emotionDetection: false,
+          lyricsAnalysis: false,
+          similarity: false,
+          fingerprinting: false,
+          embeddings: false,
+          canAnalyzeUrl: false,
+          canAnalyzeFile: false,
+          canAnalyzeBuffer: true,
+          supportsRealtime: false,
+          requiresWasm: false,
+        },
+        getSongStructure: async (trackId) => {
+          return this.structureProvider?.getStructure(trackId) ?? null;
+        },
+      };
+      this.featureProviders.push(structureFeatureProvider);
+    }
+
     // Register all providers with core
     for (const provider of this.featureProviders) {
       this.endpoints.features.register(provider);
@@ -291,33 +566,84 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     features: AggregatedFeatures,
     context: ScoringContext
   ): Promise<TrackScore> {
-    return this.hybridScorer.score(track, features, context);
+    if (this.activeRuntimes.length === 1) {
+      return this.hybridScorer.score(track, features, context);
+    }
+
+    const perProfile: TrackScore[] = await Promise.all(
+      this.activeRuntimes.map(runtime => runtime.hybridScorer.score(track, features, context))
+    );
+    return this.combineGroupScores(perProfile.map(score => [score]))[0];
   }
 
   async scoreBatch(
     tracks: Track[],
     context: ScoringContext
   ): Promise<TrackScore[]> {
-    return this.hybridScorer.scoreBatch(tracks, context);
+    if (this.activeRuntimes.length === 1) {
+      return this.hybridScorer.scoreBatch(tracks, context);
+    }
+
+    const perProfile = await Promise.all(
+      this.activeRuntimes.map(runtime => runtime.hybridScorer.scoreBatch(tracks, context))
+    );
+    return this.combineGroupScores(perProfile);
+  }
+
+  /**
+   * Group mode: combine each profile's scores by the lowest or the average
+   * satisfaction. With `min` the least keen listener's score is used as-is.
+   *
+   * @param perProfile - Scores per active profile, aligned by track
+   */
+  private combineGroupScores(perProfile: TrackScore[][]): TrackScore[] {
+    const { groupStrategy } = this.profileManager.getSession();
+
+    return perProfile[0].map((_, i) => {
+      const scores = perProfile.map(profileScores => profileScores[i]);
+
+      if (groupStrategy === 'min') {
+        const lowest = scores.reduce((min, score) => (score.finalScore < min.finalScore ? score : min));
+        return {
+          ...lowest,
+          explanation: [...lowest.explanation, `Picked for all ${scores.length} listeners`],
+        };
+      }
+
+      const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+      return {
+        ...scores[0],
+        finalScore: mean(scores.map(s => s.finalScore)),
+        confidence: mean(scores.map(s => s.confidence)),
+        explanation: [...scores[0].explanation, `Balanced across ${scores.length} listeners`],
+      };
+    });
   }
 
   async rankCandidates(
     candidates: Track[],
     context: ScoringContext
   ): Promise<ScoredTrack[]> {
-    const scores = await this.scoreBatch(candidates, context);
+    // Blocked tracks never reach scoring
+    const allowed = await this.negativeFeedback.apply(candidates, toFeedbackRef);
+    const scores = await this.scoreBatch(allowed.map(a => a.track), context);
 
     return scores
-      .map((score, index) => ({
-        ...candidates[index],
-        score: {
-          trackId: score.trackId,
-          finalScore: score.finalScore,
-          confidence: score.confidence,
-          components: score.components as unknown as Record<string, number | undefined>,
-          explanation: score.explanation,
-        },
-      }))
+      .map((score, index) => {
+        const { track, verdict } = allowed[index];
+        return {
+          ...track,
+          score: {
+            trackId: score.trackId,
+            finalScore: score.finalScore * verdict.scoreFactor,
+            confidence: score.confidence,
+            components: score.components as unknown as Record<string, number | undefined>,
+            explanation: verdict.rule
+              ? [...score.explanation, 'Similar to a track you asked for less of']
+              : score.explanation,
+          },
+        };
+      })
       .sort((a, b) => b.score.finalScore - a.score.finalScore);
   }
 
@@ -333,9 +659,46 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     return this.trainer.getStatus();
   }
 
+  /**
+   * Offline evaluation report from the last training run
+   */
+  getLastEvaluation(): EvaluationReport | undefined {
+    return this.trainer.getLastEvaluation();
+  }
+
+  /**
+   * Stored model versions, newest first
+   */
+  listModelVersions(): ModelVersionInfo[] {
+    return this.neuralScorer.listVersions();
+  }
+
+  /**
+   * Activate a stored model version and stop training from replacing it
+   */
+  async pinModelVersion(version: number): Promise<void> {
+    await this.neuralScorer.pinVersion(version);
+  }
+
+  async unpinModelVersion(): Promise<void> {
+    await this.neuralScorer.unpinVersion();
+  }
+
+  /**
+   * Roll back to a stored model version (default: the previous one)
+   */
+  async rollbackModel(version?: number): Promise<number> {
+    return this.neuralScorer.rollback(version);
+  }
+
   async needsTraining(): Promise<boolean> {
-    const newEvents = await this.endpoints.training.getNewEventCount();
-    const lastInfo = await this.endpoints.training.getLastTrainingInfo();
+    if (this.neuralScorer.getPinnedVersion() !== null) {
+      return false;
+    }
+
+    const { endpoints } = this.activeRuntimes[0];
+    const newEvents = await endpoints.training.getNewEventCount();
+    const lastInfo = await endpoints.training.getLastTrainingInfo();
 
     if (!lastInfo) {
       return newEvents >= 50;
@@ -347,25 +710,339 @@ export class AudiioAlgorithm extends BaseAlgorithm {
 
   private async trainAsync(): Promise<void> {
     try {
-      const dataset = await this.endpoints.training.getFullDataset();
+      const { endpoints } = this.activeRuntimes[0];
+      const dataset = await endpoints.training.getFullDataset();
       await this.train(dataset);
     } catch (error) {
       this.error('Async training failed:', error);
     }
   }
 
+  // ============================================================================
+  // History Bootstrap
+  // ============================================================================
+
+  /**
+   * Seed a profile from listening history imported from another service
+   * (e.g. Sposify's Spotify import) and train its first model on it, so
+   * recommendations are personal from the first session. Repeated imports
+   * add to the earlier ones.
+   *
+   * @param options.profileId - Defaults to the primary active profile
+   * @param options.train - Train right away (default true); otherwise the
+   *   imported listens count towards the next scheduled training
+   */
+  async bootstrapFromHistory(
+    history: ImportedHistory,
+    options: { profileId?: string; train?: boolean } = {}
+  ): Promise<BootstrapSummary & { training?: TrainingResult }> {
+    const runtime = options.profileId
+      ? await this.getRuntime(options.profileId)
+      : this.activeRuntimes[0];
+
+    const summary = await runtime.bootstrap.import(history);
+    runtime.hybridScorer.invalidatePreferences();
+    this.log(`Bootstrapped profile ${runtime.profileId} from ${summary.listens} imported listens`);
+
+    if (options.train === false || runtime.neuralScorer.getPinnedVersion() !== null) {
+      return summary;
+    }
+
+    const dataset = await runtime.endpoints.training.getFullDataset();
+    const training = await runtime.trainer.train(dataset);
+    return { ...summary, trained: training.success, training };
+  }
+
+  /**
+   * Imported history of a profile, or null if nothing was imported
+   */
+  async getBootstrapSummary(profileId?: string): Promise<BootstrapSummary | null> {
+    const runtime = profileId ? await this.getRuntime(profileId) : this.activeRuntimes[0];
+    return runtime.bootstrap.getSummary();
+  }
+
+  /**
+   * Forget a profile's imported history; trained models are kept
+   */
+  async clearBootstrap(profileId?: string): Promise<void> {
+    const runtime = profileId ? await this.getRuntime(profileId) : this.activeRuntimes[0];
+    await runtime.bootstrap.clear();
+    runtime.hybridScorer.invalidatePreferences();
+  }
+
   // ============================================================================
   // Radio
   // ============================================================================
 
   async generateRadio(
-    seed: RadioSeed,
+    seed: HarmonicRadioSeed | BlendedRadioSeed,
     count: number,
     context: ScoringContext
   ): Promise<Track[]> {
     return this.radioGenerator.generate(seed, count, context);
   }
 
+  /**
+   * Current seed weights of a blended radio, as evolved by likes and skips
+   */
+  getRadioBlend(seed: BlendedRadioSeed): WeightedRadioSeed[] | null {
+    return this.radioGenerator.getBlendWeights(seed);
+  }
+
+  private getHarmonicMixSettings(): HarmonicMixOptions {
+    return {
+      enabled: this.getSetting('harmonicMixing', false),
+      bpmTolerance: this.getSetting('harmonicBpmTolerance', 0.06),
+      allowHalfDoubleTime: this.getSetting('harmonicHalfDoubleTime', true),
+      allowEnergyBoost: this.getSetting('harmonicEnergyBoost', true),
+    };
+  }
+
+  // ============================================================================
+  // Beat Grid & Loudness
+  // ============================================================================
+
+  /**
+   * Analyze a track's audio, caching its features, beat grid and structure
+   */
+  async analyzeTrack(
+    trackId: string,
+    buffer: ArrayBuffer,
+    sampleRate: number
+  ): Promise<AudioFeatures | null> {
+    await this.structureProvider?.analyzeAudio(trackId, new Float32Array(buffer), sampleRate);
+
+    if (!this.essentiaProvider) return null;
+
+    const features = await this.essentiaProvider.analyzeBuffer(buffer, sampleRate, trackId);
+
+    const loudness = await this.essentiaProvider.getLoudness(trackId);
+    if (loudness) {
+      await this.loudnessStore.record(trackId, loudness);
+    }
+
+    return features;
+  }
+
+  /**
+   * Audio features from Essentia analysis
+   */
+  async getAudioFeatures(trackId: string): Promise<AudioFeatures | null> {
+    return this.essentiaProvider?.getAudioFeatures(trackId) ?? null;
+  }
+
+  /**
+   * Beats, downbeats and mix cue points for beat-matched crossfades
+   */
+  async getBeatGrid(trackId: string): Promise<BeatGrid | null> {
+    return this.essentiaProvider?.getBeatGrid(trackId) ?? null;
+  }
+
+  /**
+   * EBU R128 loudness and ReplayGain values for volume normalisation
+   */
+  async getLoudness(trackId: string): Promise<TrackLoudness | null> {
+    return this.loudnessStore.get(trackId);
+  }
+
+  /**
+   * Compute album gain over an album's tracks (stored on each track)
+   */
+  async computeAlbumGain(trackIds: string[]): Promise<{ albumGain: number; albumPeak: number } | null> {
+    return this.loudnessStore.computeAlbumGain(trackIds);
+  }
+
+  // ============================================================================
+  // Song Structure
+  // ============================================================================
+
+  /**
+   * Labelled sections (intro/verse/chorus/bridge/outro) of an analyzed track
+   */
+  async getSongStructure(trackId: string): Promise<SongStructure | null> {
+    return this.structureProvider?.getStructure(trackId) ?? null;
+  }
+
+  /**
+   * Best 30-second preview window, for Discover previews and skip-to-hook
+   */
+  async getPreviewWindow(trackId: string): Promise<PreviewWindow | null> {
+    return this.structureProvider?.getPreviewWindow(trackId) ?? null;
+  }
+
+  // ============================================================================
+  // Emotion Model
+  // ============================================================================
+
+  /**
+   * Tag a track with the mood the user hears in it
+   */
+  async tagMood(trackId: string, mood: MoodCategory): Promise<void> {
+    await this.emotionLabels.tag(trackId, mood);
+  }
+
+  async untagMood(trackId: string): Promise<boolean> {
+    return this.emotionLabels.untag(trackId);
+  }
+
+  getMoodTag(trackId: string): MoodCategory | null {
+    return this.emotionLabels.getTag(trackId);
+  }
+
+  /**
+   * Add a source of weak valence/energy labels (e.g. Sposify audio features)
+   */
+  registerEmotionLabelSource(source: EmotionLabelSource): void {
+    this.emotionLabelSources.set(source.id, source);
+  }
+
+  unregisterEmotionLabelSource(sourceId: string): boolean {
+    return this.emotionLabelSources.delete(sourceId);
+  }
+
+  /**
+   * Fine-tune the emotion model on mood tags and weak labels. The new model
+   * is kept only if it agrees with held-out labels better than the current one.
+   *
+   * @param trackIds - Tracks to request weak labels for; defaults to
+   *   recently listened tracks
+   * @throws If emotion detection is off or no audio source is configured
+   */
+  async trainEmotionModel(
+    trackIds?: string[],
+    onProgress?: (progress: EmotionTrainingProgress) => void
+  ): Promise<EmotionTrainingReport> {
+    const { audioSource } = this.analysisOptions;
+    if (!this.emotionTrainer) {
+      throw new Error('Emotion detection is not available');
+    }
+    if (!audioSource) {
+      throw new Error('No audio source configured (see configureAnalysis)');
+    }
+
+    const labels: EmotionLabel[] = [
+      ...this.emotionLabels.getLabels(),
+      ...await this.collectWeakEmotionLabels(trackIds),
+    ];
+
+    const report = await this.emotionTrainer.train(labels, audioSource, onProgress);
+    this.log(`Emotion training: ${report.reason}`);
+    return report;
+  }
+
+  listEmotionModelVersions(): EmotionModelVersion[] {
+    return this.emotionProvider?.listModelVersions() ?? [];
+  }
+
+  private async collectWeakEmotionLabels(trackIds?: string[]): Promise<EmotionLabel[]> {
+    if (this.emotionLabelSources.size === 0) return [];
+
+    let tracks: Track[];
+    if (trackIds) {
+      const found: Array<Track | null> = await Promise.all(
+        trackIds.slice(0, MAX_WEAK_LABEL_TRACKS).map(id => this.endpoints.library.getTrack(id))
+      );
+      tracks = found.filter((track): track is Track => !!track);
+    } else {
+      const dataset = await this.endpoints.training.getFullDataset();
+      const byId = new Map<string, Track>();
+      for (const sample of [...dataset.positive, ...dataset.partial, ...dataset.negative]) {
+        byId.set(sample.track.id, sample.track);
+      }
+      tracks = [...byId.values()].slice(-MAX_WEAK_LABEL_TRACKS);
+    }
+
+    const labels = new Map<string, EmotionLabel>();
+    for (const source of this.emotionLabelSources.values()) {
+      const pending = tracks.filter(track => !labels.has(track.id));
+      if (pending.length === 0) break;
+
+      try {
+        const found = await source.getLabels(pending);
+        for (const [trackId, { valence, energy }] of found) {
+          labels.set(trackId, { trackId, valence, arousal: energy, source: 'weak' });
+        }
+      } catch (error) {
+        this.warn(`Emotion label source ${source.id} failed:`, error);
+      }
+    }
+
+    return [...labels.values()];
+  }
+
+  // ============================================================================
+  // Lyrics
+  // ============================================================================
+
+  /**
+   * Add or replace the sentiment and theme lexicon for a language
+   */
+  registerLyricsLexicon(lexicon: LyricsLexicon): boolean {
+    if (!this.lyricsProvider) return false;
+    this.lyricsProvider.registerLexicon(lexicon);
+    return true;
+  }
+
+  /**
+   * Analyze a track's synced lyrics, including the time-aligned mood arc
+   */
+  async analyzeSyncedLyrics(
+    trackId: string,
+    lines: SyncedLyricLine[]
+  ): Promise<MultilingualLyricsFeatures | null> {
+    return this.lyricsProvider?.analyzeSyncedLyrics(lines, trackId) ?? null;
+  }
+
+  // ============================================================================
+  // Negative Feedback
+  // ============================================================================
+
+  /**
+   * Active "don't play this" rules, newest first
+   */
+  listFeedbackRules(type?: NegativeRuleType): NegativeRule[] {
+    return this.negativeFeedback.list(type);
+  }
+
+  /**
+   * Remove a rule by id
+   */
+  async removeFeedbackRule(ruleId: string): Promise<boolean> {
+    return this.negativeFeedback.remove(ruleId);
+  }
+
+  async blockTrack(trackId: string, label?: string): Promise<NegativeRule> {
+    return this.negativeFeedback.blockTrack(trackId, label);
+  }
+
+  async blockArtist(artistId: string, label?: string): Promise<NegativeRule> {
+    return this.negativeFeedback.blockArtist(artistId, label);
+  }
+
+  /**
+   * Hide a genre for a number of days
+   */
+  async muteGenre(genre: string, days: number): Promise<NegativeRule> {
+    return this.negativeFeedback.muteGenre(genre, days);
+  }
+
+  /**
+   * Play fewer tracks that sound like this one
+   *
+   * @returns The rule, or null if the track has no embedding yet
+   */
+  async lessLikeThis(trackId: string, label?: string): Promise<NegativeRule | null> {
+    try {
+      return await this.negativeFeedback.lessLikeThis(trackId, {
+        label,
+        threshold: this.getSetting('lessLikeThisThreshold', 0.85),
+      });
+    } catch (error) {
+      this.warn('Cannot add "less like this" rule:', error);
+      return null;
+    }
+  }
+
   // ============================================================================
   // Similarity
   // ============================================================================
@@ -397,13 +1074,29 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     return tracks;
   }
 
+  /**
+   * Drop tracks that left the library from the similarity index
+   */
+  async removeFromIndex(trackIds: string[]): Promise<void> {
+    await this.embeddingProvider?.removeTracks(trackIds);
+    await this.fingerprintProvider?.removeTracks(trackIds);
+    await this.featureStore.remove(trackIds);
+  }
+
   // ============================================================================
   // Events
   // ============================================================================
 
   async onUserEvent(event: UserEvent): Promise<void> {
-    // Update scorer's real-time state
-    this.hybridScorer.handleEvent(event);
+    // Guests listen without teaching any profile
+    if (this.isRecordingEvents()) {
+      for (const runtime of this.activeRuntimes) {
+        // Update scorer's real-time state
+        await runtime.hybridScorer.handleEvent(event);
+        runtime.radioGenerator.handleEvent(event);
+        await this.recordProfileEvent(runtime, event);
+      }
+    }
 
     // Clear relevant caches
     if ('track' in event) {
@@ -411,6 +1104,415 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     }
   }
 
+  /**
+   * Add an event to a profile's own history
+   */
+  private async recordProfileEvent(runtime: ProfileRuntime, event: UserEvent): Promise<void> {
+    if (!('track' in event)) return;
+
+    try {
+      const audio = event.type === 'listen'
+        ? await runtime.endpoints.features.getAudio(event.track.id)
+        : null;
+      await runtime.history.record(event, audio?.energy);
+    } catch (error) {
+      this.warn(`Failed to record event for profile ${runtime.profileId}:`, error);
+    }
+  }
+
+  // ============================================================================
+  // Listener Profiles
+  // ============================================================================
+
+  listProfiles(): ListenerProfile[] {
+    return this.profileManager.list();
+  }
+
+  async createProfile(name: string): Promise<ListenerProfile> {
+    return this.profileManager.create(name);
+  }
+
+  async renameProfile(profileId: string, name: string): Promise<boolean> {
+    return this.profileManager.rename(profileId, name);
+  }
+
+  /**
+   * Remove a profile; its stored model and history are kept
+   */
+  async removeProfile(profileId: string): Promise<boolean> {
+    const removed = await this.profileManager.remove(profileId);
+    if (!removed) return false;
+
+    await this.activateSession();
+    const runtime = this.runtimes.get(profileId);
+    if (runtime) {
+      await runtime.history.flush();
+      await runtime.neuralScorer.dispose();
+      this.runtimes.delete(profileId);
+    }
+    return true;
+  }
+
+  getProfileSession(): ProfileSession {
+    return this.profileManager.getSession();
+  }
+
+  /**
+   * Listen as a single profile
+   */
+  async switchProfile(profileId: string): Promise<ProfileSession> {
+    return this.updateSession({ mode: 'single', activeProfileIds: [profileId] });
+  }
+
+  /**
+   * Guest mode: recommendations from the current profile, no events recorded
+   */
+  async setGuestMode(enabled: boolean): Promise<ProfileSession> {
+    return this.updateSession({ mode: enabled ? 'guest' : 'single' });
+  }
+
+  /**
+   * Group mode: score tracks for several profiles at once. Radio sessions
+   * follow the first profile; every active profile learns from events.
+   */
+  async startGroupSession(
+    profileIds: string[],
+    strategy: ProfileSession['groupStrategy'] = 'min'
+  ): Promise<ProfileSession> {
+    return this.updateSession({ mode: 'group', activeProfileIds: profileIds, groupStrategy: strategy });
+  }
+
+  /**
+   * Whether listening should be recorded; false in guest mode so the host
+   * can skip its own history as well
+   */
+  isRecordingEvents(): boolean {
+    return this.profileManager.getSession().mode !== 'guest';
+  }
+
+  private async updateSession(session: Partial<ProfileSession>): Promise<ProfileSession> {
+    const updated = await this.profileManager.setSession(session);
+    await this.activateSession();
+    return updated;
+  }
+
+  /**
+   * Load the runtimes of the session's active profiles
+   */
+  private async activateSession(): Promise<void> {
+    const runtimes: ProfileRuntime[] = [];
+    for (const profileId of this.profileManager.getSession().activeProfileIds) {
+      runtimes.push(await this.getRuntime(profileId));
+    }
+    this.activeRuntimes = runtimes;
+  }
+
+  private async getRuntime(profileId: string): Promise<ProfileRuntime> {
+    const existing = this.runtimes.get(profileId);
+    if (existing) return existing;
+
+    const opened = await this.profileManager.openProfile(profileId);
+    const { history } = opened;
+
+    // Imported listening history, layered under the profile's own
+    const bootstrap = new HistoryBootstrap(opened.endpoints);
+    await bootstrap.load();
+    const endpoints: MLCoreEndpoints = {
+      ...opened.endpoints,
+      user: bootstrap.createUserEndpoint(opened.endpoints.user),
+      training: bootstrap.createTrainingEndpoint(opened.endpoints.training),
+    };
+
+    const neuralScorer = new NeuralScorer();
+    await neuralScorer.initialize(endpoints, {
+      historySize: this.getSetting('modelHistorySize', 5),
+      rollbackThreshold: this.getSetting('autoRollbackThreshold', 0.05),
+    });
+
+    const hybridScorer = new HybridScorer(endpoints, neuralScorer, this.settings, this.featureStore);
+    await hybridScorer.initialize();
+
+    const runtime: ProfileRuntime = {
+      profileId,
+      endpoints,
+      history,
+      bootstrap,
+      neuralScorer,
+      hybridScorer,
+      trainer: new Trainer(endpoints, neuralScorer, this.settings),
+      radioGenerator: new RadioGenerator(
+        endpoints,
+        hybridScorer,
+        this.getHarmonicMixSettings(),
+        this.negativeFeedback
+      ),
+    };
+
+    this.runtimes.set(profileId, runtime);
+    this.log(`Loaded profile ${profileId}`);
+    return runtime;
+  }
+
+  // ============================================================================
+  // Background Analysis
+  // ============================================================================
+
+  /**
+   * Set where background analysis gets audio from and whether it runs in
+   * workers. Background analysis is held until an audio source is set.
+   */
+  configureAnalysis(options: AnalysisOptions): void {
+    if (options.workerUrl !== this.analysisOptions.workerUrl) {
+      this.workerPool?.terminate();
+      this.workerPool = null;
+    }
+    this.analysisOptions = { ...options };
+    this.updateAnalysisQueue();
+  }
+
+  /**
+   * Run queued analysis only while there is an audio source to analyse
+   */
+  private updateAnalysisQueue(): void {
+    if (!this.analysisQueue) return;
+
+    if (this.analysisOptions.audioSource) {
+      this.analysisQueue.resume();
+    } else {
+      this.analysisQueue.pause();
+      this.log('Background analysis is waiting for an audio source (see configureAnalysis)');
+    }
+  }
+
+  /**
+   * Queue tracks for background analysis. Work already done is skipped.
+   */
+  enqueueAnalysis(
+    trackIds: string[],
+    priority: JobPriority = 'queue',
+    kinds?: AnalysisKind[]
+  ): void {
+    this.analysisQueue.enqueue(trackIds, priority, kinds);
+  }
+
+  cancelAnalysis(trackIds: string[]): void {
+    this.analysisQueue.cancel(trackIds);
+  }
+
+  /**
+   * Queue the whole library for background analysis (fingerprints, audio
+   * features, structure, emotion and embeddings)
+   */
+  async indexLibrary(tracks: Track[]): Promise<void> {
+    this.enqueueAnalysis(tracks.map(track => track.id), 'backfill');
+    this.log(`Queued ${tracks.length} tracks for background analysis`);
+  }
+
+  getAnalysisProgress(): AnalysisProgress {
+    return this.analysisQueue.getProgress();
+  }
+
+  /**
+   * Subscribe to background analysis progress
+   *
+   * @returns Unsubscribe function
+   */
+  onAnalysisProgress(listener: AnalysisProgressListener): () => void {
+    return this.analysisQueue.onProgress(listener);
+  }
+
+  /**
+   * Report playback state. The playing track is analysed first; with
+   * "Train When Idle" on, other analysis and training wait for playback
+   * to stop.
+   */
+  setPlaybackState(playing: boolean, currentTrackId?: string): void {
+    const wasIdle = this.analysisQueue.isIdle();
+    this.analysisQueue.setPlaybackActive(playing);
+
+    if (playing && currentTrackId) {
+      this.analysisQueue.enqueue([currentTrackId], 'playing');
+    }
+
+    if (!playing && !wasIdle) {
+      void this.trainWhenIdle();
+    }
+  }
+
+  private async trainWhenIdle(): Promise<void> {
+    if (!this.getSetting('autoTrain', true) || !this.getSetting('trainOnIdle', true)) return;
+
+    const { state } = this.getTrainingStatus();
+    if (state === 'preparing' || state === 'training' || state === 'saving') return;
+
+    if (await this.needsTraining()) {
+      this.log('Playback idle, training...');
+      await this.trainAsync();
+    }
+  }
+
+  private async runAnalysisJob(job: AnalysisJob): Promise<void> {
+    const kinds = await this.getRemainingAnalysis(job);
+
+    const audioKinds = kinds.filter(kind => kind !== 'embedding');
+    const { audioSource } = this.analysisOptions;
+    if (audioKinds.length > 0) {
+      // Fail the attempt rather than complete a job that analysed nothing
+      if (!audioSource) {
+        throw new Error('No audio source configured (see configureAnalysis)');
+      }
+      const audio = await audioSource(job.trackId);
+      if (!audio) {
+        throw new Error(`No audio available for ${job.trackId}`);
+      }
+      await this.analyzeJobAudio(job.trackId, audio.buffer, audio.sampleRate, audioKinds);
+    }
+
+    // Embeddings are built from the features stored above
+    if (kinds.includes('embedding')) {
+      await this.embeddingProvider?.indexTrack(job.trackId);
+    }
+
+    if (++this.analysedSinceFlush >= ANALYSIS_FLUSH_INTERVAL) {
+      await this.flushAnalysisIndexes();
+    }
+  }
+
+  /**
+   * Kinds a job still needs, skipping disabled providers and finished work
+   */
+  private async getRemainingAnalysis(job: AnalysisJob): Promise<AnalysisKind[]> {
+    const { trackId } = job;
+    const remaining: AnalysisKind[] = [];
+
+    for (const kind of job.kinds) {
+      let needed = false;
+      switch (kind) {
+        case 'audio':
+          needed = !!this.essentiaProvider && !(await this.essentiaProvider.getAudioFeatures(trackId));
+          break;
+        case 'structure':
+          needed = !!this.structureProvider && !(await this.structureProvider.getStructure(trackId));
+          break;
+        case 'emotion':
+          needed = !!this.emotionProvider && !(await this.emotionProvider.getEmotionFeatures(trackId));
+          break;
+        case 'fingerprint': {
+          const provider = await this.ensureFingerprintProvider();
+          needed = !!provider && !provider.hasFingerprint(trackId);
+          break;
+        }
+        case 'embedding':
+          needed = !!this.embeddingProvider;
+          break;
+      }
+      if (needed) remaining.push(kind);
+    }
+
+    return remaining;
+  }
+
+  private async analyzeJobAudio(
+    trackId: string,
+    buffer: ArrayBuffer,
+    sampleRate: number,
+    kinds: AnalysisKind[]
+  ): Promise<void> {
+    const contentHash = hashAudio(new Float32Array(buffer), sampleRate);
+
+    // The emotion model stays on this thread; run it before the buffer is
+    // transferred to a worker
+    if (kinds.includes('emotion') && this.emotionProvider) {
+      const emotion = await this.emotionProvider.analyzeAudio(new Float32Array(buffer), sampleRate);
+      if (emotion) {
+        this.emotionProvider.cacheFeatures(trackId, emotion, contentHash);
+      }
+    }
+
+    const workerKinds = kinds.filter(kind => kind !== 'emotion');
+    if (workerKinds.length === 0) return;
+
+    const pool = this.getWorkerPool();
+    if (!pool) {
+      await this.analyzeAudioInline(trackId, buffer, sampleRate, workerKinds);
+      return;
+    }
+
+    const result = await pool.analyze({
+      trackId,
+      buffer,
+      sampleRate,
+      kinds: workerKinds,
+      quality: this.getSetting('audioAnalysisQuality', 'balanced'),
+    });
+
+    if (result.features) {
+      await this.essentiaProvider?.storeAnalysis(
+        trackId,
+        { features: result.features, beatGrid: result.beatGrid, loudness: result.loudness },
+        contentHash
+      );
+    }
+    if (result.loudness) {
+      await this.loudnessStore.record(trackId, result.loudness);
+    }
+    if (result.structure) {
+      await this.structureProvider?.storeStructure(trackId, result.structure);
+    }
+    if (result.fingerprint) {
+      this.fingerprintProvider?.addFingerprint(trackId, result.fingerprint);
+    }
+  }
+
+  /**
+   * Fallback when workers are unavailable: analyse on this thread
+   */
+  private async analyzeAudioInline(
+    trackId: string,
+    buffer: ArrayBuffer,
+    sampleRate: number,
+    kinds: AnalysisKind[]
+  ): Promise<void> {
+    if (kinds.includes('structure')) {
+      await this.structureProvider?.analyzeAudio(trackId, new Float32Array(buffer), sampleRate);
+    }
+
+    if (kinds.includes('fingerprint')) {
+      await this.fingerprintProvider?.indexBuffer(trackId, buffer, sampleRate);
+    }
+
+    if (kinds.includes('audio') && this.essentiaProvider) {
+      await this.essentiaProvider.analyzeBuffer(buffer, sampleRate, trackId);
+      const loudness = await this.essentiaProvider.getLoudness(trackId);
+      if (loudness) {
+        await this.loudnessStore.record(trackId, loudness);
+      }
+    }
+  }
+
+  private getWorkerPool(): AnalysisWorkerPool | null {
+    if (this.workerPool?.hasFailed()) {
+      // Analyse inline until the worker options change
+      return null;
+    }
+
+    const { workerUrl } = this.analysisOptions;
+    if (!this.workerPool && workerUrl && AnalysisWorkerPool.isSupported()) {
+      this.workerPool = new AnalysisWorkerPool(workerUrl, this.getSetting('analysisConcurrency', 2));
+    }
+    return this.workerPool;
+  }
+
+  private async flushAnalysisIndexes(): Promise<void> {
+    this.analysedSinceFlush = 0;
+    try {
+      await this.fingerprintProvider?.flush();
+      await this.embeddingProvider?.flush();
+    } catch (error) {
+      this.warn('Failed to save analysis indexes:', error);
+    }
+  }
+
   // ============================================================================
   // Fingerprinting (On Demand)
   // ============================================================================
@@ -428,20 +1530,23 @@ export class AudiioAlgorithm extends BaseAlgorithm {
       const { FingerprintProvider } = await import('../providers/fingerprint/fingerprint-provider');
       this.fingerprintProvider = new FingerprintProvider();
       await this.fingerprintProvider.initialize(this.endpoints);
+      this.fingerprintLoadFailed = false;
       this.log('Fingerprint provider initialized on demand');
       return this.fingerprintProvider;
     } catch (error) {
+      this.fingerprintProvider = undefined;
+      this.fingerprintLoadFailed = true;
       this.warn('Failed to initialize Fingerprint provider:', error);
       return null;
     }
   }
 
-  async indexLibrary(tracks: Track[]): Promise<void> {
+  async fingerprintTrack(trackId: string, buffer: ArrayBuffer, sampleRate: number): Promise<boolean> {
     const provider = await this.ensureFingerprintProvider();
     if (!provider) {
-      throw new Error('Fingerprinting not available');
+      return false;
     }
-    await provider.indexTracks(tracks);
+    return provider.indexBuffer(trackId, buffer, sampleRate);
   }
 
   async findDuplicates(): Promise<import('@audiio/ml-sdk').DuplicateResult[]> {
@@ -460,6 +1565,17 @@ export class AudiioAlgorithm extends BaseAlgorithm {
     return provider.identify(audioPath);
   }
 
+  async identifyBuffer(
+    buffer: ArrayBuffer,
+    sampleRate: number
+  ): Promise<import('@audiio/ml-sdk').TrackMatch[]> {
+    const provider = await this.ensureFingerprintProvider();
+    if (!provider) {
+      return [];
+    }
+    return provider.identifyBuffer(buffer, sampleRate);
+  }
+
   // ============================================================================
   // Explanation
   // ============================================================================
@@ -3,4 +3,14 @@
  */
 
 export { AudiioAlgorithm } from './audiio-algorithm';
+export type {
+  AlgorithmCapabilities,
+  AnalysisAudioSource,
+  AnalysisOptions,
+} from './audiio-algorithm';
 export { RadioGenerator } from './radio-generator';
+export type {
+  HarmonicRadioSeed,
+  BlendedRadioSeed,
+  WeightedRadioSeed,
+} from './radio-generator';
@@ -7,29 +7,104 @@ import type {
   RadioSeed,
   ScoringContext,
   MLCoreEndpoints,
+  MoodCategory,
+  UserEvent,
+  AudioFeatures,
 } from '@audiio/ml-sdk';
-import type { HybridScorer } from '../scoring/hybrid-scorer';
+import type { HybridScorer, SeedReference } from '../scoring/hybrid-scorer';
+import {
+  DEFAULT_HARMONIC_MIX,
+  orderHarmonically,
+  resolveHarmonicMix,
+  toHarmonicTrack,
+  type HarmonicMixOptions,
+  type HarmonicTrack,
+} from '../mixing/harmonic-mix';
+import { toFeedbackRef, type NegativeFeedbackStore } from '../feedback/negative-feedback';
+
+/**
+ * Radio seed with generator options
+ */
+export type HarmonicRadioSeed = RadioSeed & {
+  /** Order output as a DJ-style harmonic mix (true, or options overriding settings) */
+  harmonicMix?: boolean | Partial<HarmonicMixOptions>;
+};
+
+/**
+ * A seed and its share of a blended radio
+ */
+export interface WeightedRadioSeed {
+  seed: RadioSeed;
+  weight: number;
+}
+
+/**
+ * Radio blended from several seeds, e.g. three tracks and an artist,
+ * leaning towards a mood
+ */
+export interface BlendedRadioSeed {
+  type: 'blend';
+  /** Stable id of the blend; the radio session is kept per id */
+  id: string;
+  name?: string;
+  seeds: WeightedRadioSeed[];
+  harmonicMix?: boolean | Partial<HarmonicMixOptions>;
+}
+
+interface BlendState {
+  seeds: RadioSeed[];
+  initialWeights: number[];
+  /** Current weights, normalised to sum to 1 */
+  weights: number[];
+  references?: SeedReference[];
+}
 
 const SEED_WEIGHT_INITIAL = 0.7;
 const SEED_WEIGHT_DECAY = 0.02;
 const SEED_WEIGHT_MIN = 0.3;
 
+// How far a like/skip moves the blend towards/away from the seeds a track resembles
+const BLEND_LEARNING_RATE = 0.5;
+// No seed drops below this share of its initial weight
+const BLEND_MIN_RATIO = 0.25;
+// Minimum share of the candidate pool fetched for each seed
+const BLEND_MIN_POOL_SHARE = 0.15;
+// Representative tracks per artist/playlist seed
+const SEED_REFERENCE_TRACKS = 5;
+const MAX_TRACKED_BLEND_TRACKS = 500;
+
+function isBlendedSeed(seed: RadioSeed | BlendedRadioSeed): seed is BlendedRadioSeed {
+  return seed.type === 'blend';
+}
+
 export class RadioGenerator {
   private endpoints: MLCoreEndpoints;
   private scorer: HybridScorer;
   private sessionTracks: Map<string, Set<string>> = new Map(); // seedId -> played trackIds
   private seedDrift: Map<string, number> = new Map(); // seedId -> drift amount
-
-  constructor(endpoints: MLCoreEndpoints, scorer: HybridScorer) {
+  private lastMixed: Map<string, HarmonicTrack<null>> = new Map(); // seedId -> last harmonic track
+  private blends: Map<string, BlendState> = new Map(); // seedId -> blend weights
+  private blendTracks: Map<string, { sessionKey: string; seedSimilarity: number[] }> = new Map();
+  private harmonicDefaults: HarmonicMixOptions;
+  private negativeFeedback?: NegativeFeedbackStore;
+
+  constructor(
+    endpoints: MLCoreEndpoints,
+    scorer: HybridScorer,
+    harmonicDefaults: HarmonicMixOptions = DEFAULT_HARMONIC_MIX,
+    negativeFeedback?: NegativeFeedbackStore
+  ) {
     this.endpoints = endpoints;
     this.scorer = scorer;
+    this.harmonicDefaults = harmonicDefaults;
+    this.negativeFeedback = negativeFeedback;
   }
 
   /**
    * Generate radio tracks from a seed
    */
   async generate(
-    seed: RadioSeed,
+    seed: HarmonicRadioSeed | BlendedRadioSeed,
     count: number,
     context: ScoringContext
   ): Promise<Track[]> {
@@ -50,28 +125,42 @@ export class RadioGenerator {
       SEED_WEIGHT_INITIAL - drift * SEED_WEIGHT_DECAY
     );
 
+    const blend = isBlendedSeed(seed) ? this.getBlend(sessionKey, seed) : null;
+
     // Get candidates based on seed type
-    const candidates = await this.getCandidatesForSeed(seed, count * 3, context);
+    const candidates = blend
+      ? await this.getCandidatesForBlend(blend, count * 3, context)
+      : await this.getCandidatesForSeed(seed as RadioSeed, count * 3, context);
 
-    // Filter out already played
-    const freshCandidates = candidates.filter(t => !playedTracks.has(t.id));
+    // Filter out already played and blocked tracks
+    const allowed = await this.applyNegativeFeedback(
+      candidates.filter(t => !playedTracks.has(t.id))
+    );
+    const freshCandidates = allowed.map(a => a.track);
 
     // Score candidates with radio context
     const radioContext: ScoringContext = {
       ...context,
       queueMode: 'radio',
       radioSeed: {
-        ...seed,
+        ...(blend ? this.getDominantSeed(blend) : (seed as RadioSeed)),
         drift: drift,
       },
     };
 
-    const scores = await this.scorer.scoreBatch(freshCandidates, radioContext);
+    const scores = blend
+      ? await this.scoreBlend(sessionKey, blend, freshCandidates, radioContext, seedWeight)
+      : await this.scorer.scoreBatch(freshCandidates, radioContext);
 
-    // Apply seed weight to maintain focus
-    const adjustedScores = scores.map(score => ({
+    // Apply seed weight to maintain focus, and "less like this" suppression.
+    // Blended scores already weigh seed similarity by seedWeight.
+    const adjustedScores = scores.map((score, i) => ({
       ...score,
-      finalScore: score.finalScore * seedWeight + score.finalScore * (1 - seedWeight) * Math.random(),
+      finalScore:
+        (blend
+          ? score.finalScore
+          : score.finalScore * seedWeight + score.finalScore * (1 - seedWeight) * Math.random()) *
+        allowed[i].scoreFactor,
     }));
 
     // Sort by adjusted score
@@ -80,7 +169,12 @@ export class RadioGenerator {
       .sort((a, b) => b.score - a.score);
 
     // Select tracks with some randomness
-    const selected = this.selectWithVariety(sorted, count);
+    let selected = this.selectWithVariety(sorted, count);
+
+    const harmonicMix = resolveHarmonicMix(seed.harmonicMix, this.harmonicDefaults);
+    if (harmonicMix.enabled) {
+      selected = await this.orderForMix(sessionKey, selected, harmonicMix);
+    }
 
     // Record played tracks and update drift
     for (const track of selected) {
@@ -94,10 +188,218 @@ export class RadioGenerator {
   /**
    * Reset radio session for a seed
    */
-  resetSession(seed: RadioSeed): void {
+  resetSession(seed: RadioSeed | BlendedRadioSeed): void {
     const sessionKey = this.getSessionKey(seed);
     this.sessionTracks.delete(sessionKey);
     this.seedDrift.delete(sessionKey);
+    this.lastMixed.delete(sessionKey);
+    this.blends.delete(sessionKey);
+
+    for (const [trackId, entry] of this.blendTracks) {
+      if (entry.sessionKey === sessionKey) this.blendTracks.delete(trackId);
+    }
+  }
+
+  /**
+   * Current weights of a blended radio session, or null if it hasn't started
+   */
+  getBlendWeights(seed: BlendedRadioSeed): WeightedRadioSeed[] | null {
+    const blend = this.blends.get(this.getSessionKey(seed));
+    if (!blend) return null;
+
+    return blend.seeds.map((s, i) => ({ seed: s, weight: blend.weights[i] }));
+  }
+
+  /**
+   * Evolve blends from feedback on their tracks: likes shift weight towards
+   * the seeds the track resembles, skips and dislikes shift it away
+   */
+  handleEvent(event: UserEvent): void {
+    if (!('track' in event)) return;
+
+    const direction =
+      event.type === 'like' ? 1 : event.type === 'skip' || event.type === 'dislike' ? -1 : 0;
+    if (direction === 0) return;
+
+    const entry = this.blendTracks.get(event.track.id);
+    const blend = entry && this.blends.get(entry.sessionKey);
+    if (!entry || !blend) return;
+
+    const similarity = entry.seedSimilarity;
+    const meanSimilarity = similarity.reduce((sum, v) => sum + v, 0) / similarity.length;
+
+    const weights = blend.weights.map(
+      (w, i) => w * Math.exp(direction * BLEND_LEARNING_RATE * (similarity[i] - meanSimilarity))
+    );
+    blend.weights = this.normalizeBlend(weights, blend.initialWeights);
+  }
+
+  /**
+   * Get or start the blend state of a session
+   */
+  private getBlend(sessionKey: string, seed: BlendedRadioSeed): BlendState {
+    let blend = this.blends.get(sessionKey);
+    if (!blend) {
+      const seeds = seed.seeds.filter(s => s.weight > 0);
+      if (seeds.length === 0) {
+        throw new Error(`Blended radio ${seed.id} has no weighted seeds`);
+      }
+
+      const total = seeds.reduce((sum, s) => sum + s.weight, 0);
+      const initialWeights = seeds.map(s => s.weight / total);
+
+      blend = {
+        seeds: seeds.map(s => s.seed),
+        initialWeights,
+        weights: [...initialWeights],
+      };
+      this.blends.set(sessionKey, blend);
+    }
+    return blend;
+  }
+
+  /**
+   * Normalise weights to sum to 1, keeping every seed above its floor
+   */
+  private normalizeBlend(weights: number[], initialWeights: number[]): number[] {
+    const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+    const floored = weights.map((w, i) =>
+      Math.max(w / total, initialWeights[i] * BLEND_MIN_RATIO)
+    );
+    const flooredTotal = floored.reduce((sum, w) => sum + w, 0);
+    return floored.map(w => w / flooredTotal);
+  }
+
+  private getDominantSeed(blend: BlendState): RadioSeed {
+    const top = blend.weights.indexOf(Math.max(...blend.weights));
+    return blend.seeds[top];
+  }
+
+  /**
+   * Pool candidates from every seed, in proportion to its current weight
+   */
+  private async getCandidatesForBlend(
+    blend: BlendState,
+    limit: number,
+    context: ScoringContext
+  ): Promise<Track[]> {
+    const pools = await Promise.all(
+      blend.seeds.map((seed, i) => {
+        const share = Math.max(BLEND_MIN_POOL_SHARE, blend.weights[i]);
+        return this.getCandidatesForSeed(seed, Math.ceil(limit * share), context);
+      })
+    );
+
+    const seen = new Set<string>();
+    return pools.flat().filter(t => {
+      if (seen.has(t.id)) return false;
+      seen.add(t.id);
+      return true;
+    });
+  }
+
+  /**
+   * Score candidates against every seed of the blend and remember which seeds
+   * each track resembles, for drift tracking
+   */
+  private async scoreBlend(
+    sessionKey: string,
+    blend: BlendState,
+    tracks: Track[],
+    context: ScoringContext,
+    seedWeight: number
+  ): Promise<Array<{ finalScore: number }>> {
+    if (!blend.references) {
+      blend.references = await Promise.all(blend.seeds.map(seed => this.resolveSeedReference(seed)));
+    }
+
+    const references = blend.references.map((reference, i) => ({
+      ...reference,
+      weight: blend.weights[i],
+    }));
+    const blended = await this.scorer.scoreBlend(tracks, context, references, seedWeight);
+
+    tracks.forEach((track, i) => {
+      this.blendTracks.delete(track.id);
+      this.blendTracks.set(track.id, { sessionKey, seedSimilarity: blended[i].seedSimilarity });
+    });
+    while (this.blendTracks.size > MAX_TRACKED_BLEND_TRACKS) {
+      const oldest = this.blendTracks.keys().next().value;
+      if (oldest === undefined) break;
+      this.blendTracks.delete(oldest);
+    }
+
+    return blended.map(b => b.score);
+  }
+
+  /**
+   * Resolve what candidates are compared against for a seed
+   */
+  private async resolveSeedReference(seed: RadioSeed): Promise<SeedReference> {
+    const reference: SeedReference = {
+      weight: 0,
+      label: seed.name || seed.id,
+      artistIds: new Set(),
+      genres: new Set(),
+      audio: [],
+    };
+
+    let tracks: Track[] = [];
+    switch (seed.type) {
+      case 'track': {
+        const track = await this.endpoints.library.getTrack(seed.id);
+        if (track) tracks = [track];
+        break;
+      }
+      case 'artist':
+        reference.artistIds.add(seed.id);
+        tracks = (await this.endpoints.library.getTracksByArtist(seed.id)).slice(0, SEED_REFERENCE_TRACKS);
+        break;
+      case 'genre':
+        reference.genres.add(seed.id);
+        break;
+      case 'mood':
+        reference.mood = seed.id as MoodCategory;
+        break;
+      case 'playlist':
+        tracks = (await this.endpoints.library.getPlaylistTracks(seed.id)).slice(0, SEED_REFERENCE_TRACKS);
+        break;
+    }
+
+    for (const track of tracks) {
+      if (track.artistId) reference.artistIds.add(track.artistId);
+      if (track.genre) reference.genres.add(track.genre);
+    }
+
+    const audio = await Promise.all(tracks.map(t => this.endpoints.features.getAudio(t.id)));
+    reference.audio = audio.filter((a): a is AudioFeatures => !!a);
+
+    return reference;
+  }
+
+  /**
+   * Order selected tracks along Camelot-compatible key moves within the BPM
+   * tolerance, continuing from the last track of the previous batch
+   */
+  private async orderForMix(
+    sessionKey: string,
+    tracks: Track[],
+    options: HarmonicMixOptions
+  ): Promise<Track[]> {
+    const harmonicTracks = await Promise.all(
+      tracks.map(async track =>
+        toHarmonicTrack(track, await this.endpoints.features.getAudio(track.id))
+      )
+    );
+
+    const ordered = orderHarmonically(harmonicTracks, options, this.lastMixed.get(sessionKey));
+
+    const last = harmonicTracks.find(t => t.item === ordered[ordered.length - 1]);
+    if (last) {
+      this.lastMixed.set(sessionKey, { ...last, item: null });
+    }
+
+    return ordered;
   }
 
   /**
@@ -186,6 +488,20 @@ export class RadioGenerator {
     });
   }
 
+  /**
+   * Drop tracks blocked by negative feedback rules
+   */
+  private async applyNegativeFeedback(
+    tracks: Track[]
+  ): Promise<Array<{ track: Track; scoreFactor: number }>> {
+    if (!this.negativeFeedback) {
+      return tracks.map(track => ({ track, scoreFactor: 1 }));
+    }
+
+    const allowed = await this.negativeFeedback.apply(tracks, toFeedbackRef);
+    return allowed.map(({ track, verdict }) => ({ track, scoreFactor: verdict.scoreFactor }));
+  }
+
   /**
    * Select tracks with variety (not all top scores)
    */
@@ -249,7 +565,7 @@ export class RadioGenerator {
   /**
    * Get session key for a seed
    */
-  private getSessionKey(seed: RadioSeed): string {
+  private getSessionKey(seed: RadioSeed | BlendedRadioSeed): string {
     return `${seed.type}:${seed.id}`;
   }
 }
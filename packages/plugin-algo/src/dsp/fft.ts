@@ -0,0 +1,150 @@
+/**
+ * FFT - Radix-2 fast Fourier transform and spectrogram helpers
+ */
+
+// Twiddle factor tables, keyed by FFT size
+const twiddleCache = new Map<number, { cos: Float32Array; sin: Float32Array }>();
+
+function getTwiddles(n: number): { cos: Float32Array; sin: Float32Array } {
+  let twiddles = twiddleCache.get(n);
+  if (!twiddles) {
+    const cos = new Float32Array(n / 2);
+    const sin = new Float32Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos((-2 * Math.PI * k) / n);
+      sin[k] = Math.sin((-2 * Math.PI * k) / n);
+    }
+    twiddles = { cos, sin };
+    twiddleCache.set(n, twiddles);
+  }
+  return twiddles;
+}
+
+/**
+ * In-place radix-2 FFT. `real` and `imag` must have the same power-of-two length.
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  if (n !== imag.length || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two (got ${n})`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  // Butterflies
+  const twiddles = getTwiddles(n);
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = twiddles.cos[k * stride];
+        const sin = twiddles.sin[k * stride];
+
+        const a = start + k;
+        const b = a + half;
+        const tReal = real[b] * cos - imag[b] * sin;
+        const tImag = real[b] * sin + imag[b] * cos;
+
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+      }
+    }
+  }
+}
+
+/**
+ * Hann window of the given size
+ */
+export function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+  }
+  return window;
+}
+
+/**
+ * Magnitude spectrum of a windowed frame (first size / 2 bins)
+ */
+export function magnitudeSpectrum(
+  signal: Float32Array,
+  offset: number,
+  window: Float32Array
+): Float32Array {
+  const size = window.length;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    real[i] = (signal[offset + i] ?? 0) * window[i];
+  }
+
+  fft(real, imag);
+
+  const magnitude = new Float32Array(size / 2);
+  for (let k = 0; k < size / 2; k++) {
+    magnitude[k] = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]);
+  }
+  return magnitude;
+}
+
+/**
+ * Short-time magnitude spectrogram, one Float32Array per frame
+ */
+export function spectrogram(
+  signal: Float32Array,
+  frameSize: number,
+  hopSize: number
+): Float32Array[] {
+  const window = hannWindow(frameSize);
+  const frames: Float32Array[] = [];
+
+  for (let offset = 0; offset + frameSize <= signal.length; offset += hopSize) {
+    frames.push(magnitudeSpectrum(signal, offset, window));
+  }
+
+  return frames;
+}
+
+/**
+ * Linear-interpolation resampler
+ */
+export function resample(
+  audioData: Float32Array,
+  fromRate: number,
+  toRate: number
+): Float32Array {
+  if (fromRate === toRate) return audioData;
+
+  const ratio = fromRate / toRate;
+  const newLength = Math.floor(audioData.length / ratio);
+  const result = new Float32Array(newLength);
+
+  for (let i = 0; i < newLength; i++) {
+    const srcIndex = i * ratio;
+    const srcIndexFloor = Math.floor(srcIndex);
+    const srcIndexCeil = Math.min(srcIndexFloor + 1, audioData.length - 1);
+    const frac = srcIndex - srcIndexFloor;
+
+    result[i] = audioData[srcIndexFloor] * (1 - frac) + audioData[srcIndexCeil] * frac;
+  }
+
+  return result;
+}
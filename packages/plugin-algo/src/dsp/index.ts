@@ -0,0 +1,12 @@
+/**
+ * DSP helpers shared by the audio analysis providers
+ */
+
+export { fft, hannWindow, magnitudeSpectrum, spectrogram, resample } from './fft';
+export {
+  measureLoudness,
+  combineLoudness,
+  powerToLoudness,
+  amplitudeToDb,
+  type LoudnessMeasurement,
+} from './loudness';
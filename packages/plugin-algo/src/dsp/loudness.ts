@@ -0,0 +1,260 @@
+/**
+ * Loudness - EBU R128 / ITU-R BS.1770 measurement
+ *
+ * Integrated loudness uses K-weighted 400 ms blocks (75% overlap) with the
+ * absolute (-70 LUFS) and relative (-10 LU) gates; loudness range follows
+ * EBU Tech 3342 on 3 s windows; true peak is measured on a 4x oversampled
+ * signal.
+ */
+
+export interface LoudnessMeasurement {
+  /** Integrated loudness (LUFS) */
+  integrated: number;
+  /** Loudness range (LU) */
+  range: number;
+  /** True peak (dBTP) */
+  truePeak: number;
+  /** Mean power of the gated blocks, for combining tracks into an album */
+  gatedPower: number;
+  /** Number of 400 ms blocks that passed both gates */
+  gatedBlocks: number;
+}
+
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+// Loudness segments are 100 ms; blocks and windows are built from them
+const SEGMENTS_PER_SECOND = 10;
+const BLOCK_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+
+/**
+ * Measure loudness of a mono signal
+ */
+export function measureLoudness(audio: Float32Array, sampleRate: number): LoudnessMeasurement {
+  const segments = segmentPowers(kWeight(audio, sampleRate), sampleRate);
+
+  const blocks = windowPowers(segments, BLOCK_SEGMENTS);
+  const { power, count } = gatedMean(blocks, RELATIVE_GATE);
+
+  return {
+    integrated: count > 0 ? powerToLoudness(power) : -Infinity,
+    range: loudnessRange(windowPowers(segments, SHORT_TERM_SEGMENTS)),
+    truePeak: amplitudeToDb(truePeak(audio, sampleRate)),
+    gatedPower: power,
+    gatedBlocks: count,
+  };
+}
+
+/**
+ * Integrated loudness of several measurements played back to back (album)
+ */
+export function combineLoudness(measurements: LoudnessMeasurement[]): number {
+  let energy = 0;
+  let blocks = 0;
+  for (const m of measurements) {
+    energy += m.gatedPower * m.gatedBlocks;
+    blocks += m.gatedBlocks;
+  }
+  return blocks > 0 ? powerToLoudness(energy / blocks) : -Infinity;
+}
+
+export function powerToLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+export function amplitudeToDb(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+/**
+ * Apply the two-stage K-weighting filter (high shelf + high pass)
+ */
+function kWeight(audio: Float32Array, sampleRate: number): Float32Array {
+  // Pre-filter: high shelf, +4 dB above ~1.7 kHz
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // RLB filter: high pass at ~38 Hz
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return biquad(biquad(audio, shelf), highPass);
+}
+
+function biquad(
+  input: Float32Array,
+  c: { b0: number; b1: number; b2: number; a1: number; a2: number }
+): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = c.b0 * x + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+
+  return output;
+}
+
+/**
+ * Mean square of each 100 ms segment
+ */
+function segmentPowers(weighted: Float32Array, sampleRate: number): Float64Array {
+  const segmentLength = Math.round(sampleRate / SEGMENTS_PER_SECOND);
+  const count = Math.floor(weighted.length / segmentLength);
+  const powers = new Float64Array(count);
+
+  for (let s = 0; s < count; s++) {
+    let sum = 0;
+    const offset = s * segmentLength;
+    for (let i = 0; i < segmentLength; i++) {
+      const v = weighted[offset + i];
+      sum += v * v;
+    }
+    powers[s] = sum / segmentLength;
+  }
+
+  return powers;
+}
+
+/**
+ * Mean power of sliding windows of `length` segments, one per segment step
+ */
+function windowPowers(segments: Float64Array, length: number): number[] {
+  const windows: number[] = [];
+  let sum = 0;
+
+  for (let s = 0; s < segments.length; s++) {
+    sum += segments[s];
+    if (s >= length) sum -= segments[s - length];
+    if (s >= length - 1) windows.push(Math.max(0, sum) / length);
+  }
+
+  return windows;
+}
+
+/**
+ * Mean power of the windows passing the absolute and relative gates
+ */
+function gatedMean(powers: number[], relativeGate: number): { power: number; count: number } {
+  const absolute = powers.filter(p => powerToLoudness(p) > ABSOLUTE_GATE);
+  if (absolute.length === 0) return { power: 0, count: 0 };
+
+  const threshold = powerToLoudness(mean(absolute)) + relativeGate;
+  const gated = absolute.filter(p => powerToLoudness(p) > threshold);
+
+  return { power: gated.length > 0 ? mean(gated) : 0, count: gated.length };
+}
+
+/**
+ * Loudness range: spread between the 10th and 95th percentile of gated
+ * short-term loudness
+ */
+function loudnessRange(shortTerm: number[]): number {
+  const absolute = shortTerm.filter(p => powerToLoudness(p) > ABSOLUTE_GATE);
+  if (absolute.length === 0) return 0;
+
+  const threshold = powerToLoudness(mean(absolute)) + RANGE_RELATIVE_GATE;
+  const loudness = absolute
+    .map(powerToLoudness)
+    .filter(l => l > threshold)
+    .sort((a, b) => a - b);
+
+  if (loudness.length === 0) return 0;
+
+  const percentile = (p: number) =>
+    loudness[Math.min(loudness.length - 1, Math.round(p * (loudness.length - 1)))];
+  return percentile(0.95) - percentile(0.1);
+}
+
+/**
+ * Peak of the signal oversampled with a windowed-sinc polyphase filter
+ */
+function truePeak(audio: Float32Array, sampleRate: number): number {
+  const factor = sampleRate >= 176400 ? 1 : sampleRate >= 88200 ? 2 : 4;
+
+  let peak = 0;
+  for (let i = 0; i < audio.length; i++) {
+    const v = Math.abs(audio[i]);
+    if (v > peak) peak = v;
+  }
+  if (factor === 1) return peak;
+
+  const phases = interpolationPhases(factor);
+  const half = TRUE_PEAK_TAPS_PER_PHASE / 2;
+
+  for (let i = 0; i < audio.length; i++) {
+    for (let p = 1; p < factor; p++) {
+      const taps = phases[p];
+      let sum = 0;
+      for (let t = 0; t < TRUE_PEAK_TAPS_PER_PHASE; t++) {
+        const idx = i + t - half + 1;
+        if (idx >= 0 && idx < audio.length) sum += audio[idx] * taps[t];
+      }
+      const v = Math.abs(sum);
+      if (v > peak) peak = v;
+    }
+  }
+
+  return peak;
+}
+
+/**
+ * Filter taps for each fractional position between two samples
+ */
+function interpolationPhases(factor: number): Float64Array[] {
+  const half = TRUE_PEAK_TAPS_PER_PHASE / 2;
+  const phases: Float64Array[] = [];
+
+  for (let p = 0; p < factor; p++) {
+    const frac = p / factor;
+    const taps = new Float64Array(TRUE_PEAK_TAPS_PER_PHASE);
+    let sum = 0;
+
+    for (let t = 0; t < TRUE_PEAK_TAPS_PER_PHASE; t++) {
+      // Distance from the interpolated point to the input sample
+      const x = t - half + 1 - frac;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 * (1 + Math.cos((Math.PI * x) / (half + 1)));
+      taps[t] = sinc * window;
+      sum += taps[t];
+    }
+
+    // Unity gain at DC
+    for (let t = 0; t < TRUE_PEAK_TAPS_PER_PHASE; t++) taps[t] /= sum;
+    phases.push(taps);
+  }
+
+  return phases;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
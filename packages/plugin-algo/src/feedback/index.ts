@@ -0,0 +1,16 @@
+/**
+ * Negative feedback rules
+ */
+
+export { NegativeFeedbackStore, toFeedbackRef } from './negative-feedback';
+export type {
+  NegativeRule,
+  NegativeRuleType,
+  BlockTrackRule,
+  BlockArtistRule,
+  MuteGenreRule,
+  LessLikeThisRule,
+  FeedbackTrackRef,
+  FeedbackVerdict,
+  EmbeddingLookup,
+} from './negative-feedback';
@@ -0,0 +1,278 @@
+/**
+ * Negative Feedback - Persistent "don't play this" rules
+ *
+ * Blocked tracks and artists and muted genres are removed outright; "less
+ * like this" rules demote tracks whose embedding falls near the disliked
+ * track's. Rules are persisted in plugin storage and enforced wherever
+ * tracks are ranked or generated.
+ */
+
+import type { MLCoreEndpoints, Track } from '@audiio/ml-sdk';
+
+export type NegativeRuleType = 'block-track' | 'block-artist' | 'mute-genre' | 'less-like-this';
+
+interface BaseRule {
+  /** Stable id: `<type>:<target>` */
+  id: string;
+  createdAt: number;
+  /** Rule stops applying after this time */
+  expiresAt?: number;
+  /** Display name of what the rule targets */
+  label?: string;
+}
+
+export interface BlockTrackRule extends BaseRule {
+  type: 'block-track';
+  trackId: string;
+}
+
+export interface BlockArtistRule extends BaseRule {
+  type: 'block-artist';
+  artistId: string;
+}
+
+export interface MuteGenreRule extends BaseRule {
+  type: 'mute-genre';
+  genre: string;
+}
+
+export interface LessLikeThisRule extends BaseRule {
+  type: 'less-like-this';
+  trackId: string;
+  embedding: number[];
+  /** Cosine similarity above which tracks are suppressed */
+  threshold: number;
+  /** Score reduction at the threshold, growing to double at identical tracks (0-1) */
+  strength: number;
+}
+
+export type NegativeRule = BlockTrackRule | BlockArtistRule | MuteGenreRule | LessLikeThisRule;
+
+/**
+ * What the rules know about a track
+ */
+export interface FeedbackTrackRef {
+  id: string;
+  artistIds: string[];
+  genres: string[];
+}
+
+export interface FeedbackVerdict {
+  blocked: boolean;
+  /** Multiplier for the track's score (1 = unaffected) */
+  scoreFactor: number;
+  /** Rule that blocked or suppressed the track */
+  rule?: NegativeRule;
+}
+
+export type EmbeddingLookup = (trackId: string) => Promise<number[] | null>;
+
+const STORAGE_KEY = 'negative-feedback';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+const DEFAULT_SUPPRESSION_STRENGTH = 0.4;
+
+const ALLOWED: FeedbackVerdict = { blocked: false, scoreFactor: 1 };
+
+export class NegativeFeedbackStore {
+  private endpoints: MLCoreEndpoints;
+  private getEmbedding: EmbeddingLookup;
+  private rules = new Map<string, NegativeRule>();
+
+  constructor(endpoints: MLCoreEndpoints, getEmbedding: EmbeddingLookup) {
+    this.endpoints = endpoints;
+    this.getEmbedding = getEmbedding;
+  }
+
+  async load(): Promise<void> {
+    const stored: NegativeRule[] | null = await this.endpoints.storage.get<NegativeRule[]>(STORAGE_KEY);
+    this.rules = new Map((stored ?? []).map(rule => [rule.id, rule]));
+    this.pruneExpired();
+    console.log(`[NegativeFeedback] Loaded ${this.rules.size} rules`);
+  }
+
+  /**
+   * Active rules, newest first
+   */
+  list(type?: NegativeRuleType): NegativeRule[] {
+    this.pruneExpired();
+    return [...this.rules.values()]
+      .filter(rule => !type || rule.type === type)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  hasRules(): boolean {
+    this.pruneExpired();
+    return this.rules.size > 0;
+  }
+
+  async blockTrack(trackId: string, label?: string): Promise<BlockTrackRule> {
+    return this.add({ id: `block-track:${trackId}`, type: 'block-track', trackId, label, createdAt: Date.now() });
+  }
+
+  async blockArtist(artistId: string, label?: string): Promise<BlockArtistRule> {
+    return this.add({ id: `block-artist:${artistId}`, type: 'block-artist', artistId, label, createdAt: Date.now() });
+  }
+
+  /**
+   * Mute a genre for a number of days
+   */
+  async muteGenre(genre: string, days: number, label?: string): Promise<MuteGenreRule> {
+    const now = Date.now();
+    return this.add({
+      id: `mute-genre:${genre.toLowerCase()}`,
+      type: 'mute-genre',
+      genre,
+      label,
+      createdAt: now,
+      expiresAt: now + days * DAY_MS,
+    });
+  }
+
+  /**
+   * Suppress tracks that sound like the given one
+   *
+   * @throws If the track has no embedding yet
+   */
+  async lessLikeThis(
+    trackId: string,
+    options: { label?: string; threshold?: number; strength?: number } = {}
+  ): Promise<LessLikeThisRule> {
+    const embedding = await this.getEmbedding(trackId);
+    if (!embedding) {
+      throw new Error(`No embedding for track ${trackId}`);
+    }
+
+    return this.add({
+      id: `less-like-this:${trackId}`,
+      type: 'less-like-this',
+      trackId,
+      embedding,
+      threshold: options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+      strength: options.strength ?? DEFAULT_SUPPRESSION_STRENGTH,
+      label: options.label,
+      createdAt: Date.now(),
+    });
+  }
+
+  /**
+   * Remove a rule by id
+   *
+   * @returns Whether the rule existed
+   */
+  async remove(ruleId: string): Promise<boolean> {
+    if (!this.rules.delete(ruleId)) return false;
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Check a track against every rule
+   */
+  async evaluate(track: FeedbackTrackRef): Promise<FeedbackVerdict> {
+    const rules = this.list();
+    if (rules.length === 0) return ALLOWED;
+
+    const genres = new Set(track.genres.map(g => g.toLowerCase()));
+    let verdict = ALLOWED;
+    let embedding: number[] | null | undefined;
+
+    for (const rule of rules) {
+      switch (rule.type) {
+        case 'block-track':
+          if (rule.trackId === track.id) return { blocked: true, scoreFactor: 0, rule };
+          break;
+
+        case 'block-artist':
+          if (track.artistIds.includes(rule.artistId)) return { blocked: true, scoreFactor: 0, rule };
+          break;
+
+        case 'mute-genre':
+          if (genres.has(rule.genre.toLowerCase())) return { blocked: true, scoreFactor: 0, rule };
+          break;
+
+        case 'less-like-this': {
+          if (rule.trackId === track.id) return { blocked: true, scoreFactor: 0, rule };
+
+          if (embedding === undefined) embedding = await this.getEmbedding(track.id);
+          if (!embedding) break;
+
+          const similarity = cosineSimilarity(embedding, rule.embedding);
+          if (similarity < rule.threshold) break;
+
+          const closeness = (similarity - rule.threshold) / Math.max(1e-6, 1 - rule.threshold);
+          const factor = 1 - Math.min(1, rule.strength * (1 + closeness));
+          if (factor < verdict.scoreFactor) {
+            verdict = { blocked: false, scoreFactor: factor, rule };
+          }
+          break;
+        }
+      }
+    }
+
+    return verdict;
+  }
+
+  /**
+   * Drop blocked tracks and return verdicts for the rest, in input order
+   */
+  async apply<T>(
+    tracks: T[],
+    describe: (track: T) => FeedbackTrackRef
+  ): Promise<Array<{ track: T; verdict: FeedbackVerdict }>> {
+    if (!this.hasRules()) {
+      return tracks.map(track => ({ track, verdict: ALLOWED }));
+    }
+
+    const verdicts = await Promise.all(tracks.map(track => this.evaluate(describe(track))));
+    return tracks
+      .map((track, i) => ({ track, verdict: verdicts[i] }))
+      .filter(({ verdict }) => !verdict.blocked);
+  }
+
+  private async add<R extends NegativeRule>(rule: R): Promise<R> {
+    this.rules.set(rule.id, rule);
+    await this.save();
+    console.log(`[NegativeFeedback] Added rule ${rule.id}`);
+    return rule;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, rule] of this.rules) {
+      if (rule.expiresAt !== undefined && rule.expiresAt <= now) {
+        this.rules.delete(id);
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.endpoints.storage.set(STORAGE_KEY, [...this.rules.values()]);
+  }
+}
+
+/**
+ * Rule lookup fields of a library track
+ */
+export function toFeedbackRef(track: Track): FeedbackTrackRef {
+  return {
+    id: track.id,
+    artistIds: track.artistId ? [track.artistId] : [],
+    genres: track.genre ? [track.genre] : [],
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -2,7 +2,7 @@
  * Audiio Algo Extension Plugin
  *
  * This plugin provides EXTENSION capabilities beyond the core algorithm:
- * - Audio fingerprinting (Chromaprint-based duplicate detection)
+ * - Audio fingerprinting (spectral-landmark duplicate detection)
  * - Pipeline hooks for Discover "See All" integration
  *
  * Core algorithm functionality (scoring, training, providers) is now in @audiio/ml-core.
@@ -18,7 +18,9 @@ export {
   lyricsTransformer,
   audioFeaturesTransformer,
   sessionFlowTransformer,
+  negativeFeedbackTransformer,
   registerAlgoPipelineHooks,
+  setHarmonicMixOptions,
 } from './pipeline';
 
 // Manifest for extension plugin
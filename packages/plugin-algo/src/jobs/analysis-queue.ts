@@ -0,0 +1,319 @@
+/**
+ * Analysis Queue - Persistent background queue for track analysis
+ *
+ * Jobs are ordered by priority (currently playing > play queue > library
+ * backfill), then by age, and run with a concurrency limit. The pending
+ * list is persisted, so an interrupted backfill resumes after a restart.
+ * While playback is active and idle-only mode is on, only the playing
+ * track's job runs; everything else waits for playback to stop.
+ */
+
+import type { MLCoreEndpoints } from '@audiio/ml-sdk';
+
+export type AnalysisKind = 'audio' | 'structure' | 'fingerprint' | 'emotion' | 'embedding';
+
+export const ANALYSIS_KINDS: AnalysisKind[] = ['audio', 'structure', 'fingerprint', 'emotion', 'embedding'];
+
+export type JobPriority = 'playing' | 'queue' | 'backfill';
+
+export interface AnalysisJob {
+  trackId: string;
+  kinds: AnalysisKind[];
+  priority: JobPriority;
+  enqueuedAt: number;
+  attempts: number;
+}
+
+export interface AnalysisProgress {
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  /** Job that just finished, if any */
+  job?: { trackId: string; status: 'completed' | 'failed'; error?: string };
+  /** Whether non-playing jobs are held back by playback */
+  waitingForIdle: boolean;
+}
+
+export type AnalysisProgressListener = (progress: AnalysisProgress) => void;
+
+export type AnalysisHandler = (job: AnalysisJob) => Promise<void>;
+
+export interface AnalysisQueueOptions {
+  concurrency: number;
+  /** Hold back queue and backfill jobs during playback */
+  idleOnly: boolean;
+  maxAttempts: number;
+}
+
+interface QueueState {
+  version: number;
+  jobs: AnalysisJob[];
+}
+
+const STORAGE_KEY = 'analysis-queue';
+const STATE_VERSION = 1;
+// Coalesce writes of the pending list
+const SAVE_DELAY_MS = 2000;
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+  playing: 0,
+  queue: 1,
+  backfill: 2,
+};
+
+export class AnalysisQueue {
+  private endpoints: MLCoreEndpoints;
+  private handler: AnalysisHandler;
+  private options: AnalysisQueueOptions;
+  private pending = new Map<string, AnalysisJob>();
+  private running = new Map<string, AnalysisJob>();
+  private listeners = new Set<AnalysisProgressListener>();
+  private completed = 0;
+  private failed = 0;
+  private playbackActive = false;
+  private paused = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private drainWaiters: Array<() => void> = [];
+
+  constructor(
+    endpoints: MLCoreEndpoints,
+    handler: AnalysisHandler,
+    options: Partial<AnalysisQueueOptions> = {}
+  ) {
+    this.endpoints = endpoints;
+    this.handler = handler;
+    this.options = {
+      concurrency: options.concurrency ?? 2,
+      idleOnly: options.idleOnly ?? true,
+      maxAttempts: options.maxAttempts ?? 3,
+    };
+  }
+
+  /**
+   * Restore jobs left over from the last session
+   */
+  async load(): Promise<void> {
+    try {
+      const state: QueueState | null = await this.endpoints.storage.get<QueueState>(STORAGE_KEY);
+      if (!state || state.version !== STATE_VERSION) return;
+
+      for (const job of state.jobs) {
+        this.pending.set(job.trackId, job);
+      }
+      if (this.pending.size > 0) {
+        console.log(`[AnalysisQueue] Resuming ${this.pending.size} jobs`);
+      }
+    } catch (error) {
+      console.error('[AnalysisQueue] Failed to load jobs:', error);
+    }
+  }
+
+  /**
+   * Add tracks to the queue. A track already queued keeps its place, gains
+   * the new kinds and is promoted if the new priority is higher.
+   */
+  enqueue(trackIds: string[], priority: JobPriority, kinds: AnalysisKind[] = ANALYSIS_KINDS): void {
+    const now = Date.now();
+
+    for (const trackId of trackIds) {
+      const existing = this.pending.get(trackId);
+      if (existing) {
+        existing.kinds = [...new Set([...existing.kinds, ...kinds])];
+        if (PRIORITY_RANK[priority] < PRIORITY_RANK[existing.priority]) {
+          existing.priority = priority;
+        }
+        continue;
+      }
+
+      this.pending.set(trackId, { trackId, kinds: [...kinds], priority, enqueuedAt: now, attempts: 0 });
+    }
+
+    this.scheduleSave();
+    this.emit();
+    this.pump();
+  }
+
+  /**
+   * Drop queued jobs (running jobs finish)
+   */
+  cancel(trackIds: string[]): void {
+    for (const trackId of trackIds) {
+      this.pending.delete(trackId);
+    }
+    this.scheduleSave();
+    this.emit();
+  }
+
+  /**
+   * Tell the queue whether something is playing
+   */
+  setPlaybackActive(active: boolean): void {
+    if (this.playbackActive === active) return;
+    this.playbackActive = active;
+    this.emit();
+    this.pump();
+  }
+
+  setOptions(options: Partial<AnalysisQueueOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.pump();
+  }
+
+  isIdle(): boolean {
+    return !this.playbackActive;
+  }
+
+  getProgress(): AnalysisProgress {
+    return {
+      pending: this.pending.size,
+      running: this.running.size,
+      completed: this.completed,
+      failed: this.failed,
+      waitingForIdle: this.isHeldBack(),
+    };
+  }
+
+  /**
+   * Subscribe to progress events
+   *
+   * @returns Unsubscribe function
+   */
+  onProgress(listener: AnalysisProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Resolves when nothing runnable is left
+   */
+  whenDrained(): Promise<void> {
+    if (this.running.size === 0 && this.nextJob() === null) return Promise.resolve();
+    return new Promise(resolve => this.drainWaiters.push(resolve));
+  }
+
+  async dispose(): Promise<void> {
+    this.paused = true;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.save();
+    this.listeners.clear();
+  }
+
+  /**
+   * Start jobs until the concurrency limit is reached
+   */
+  private pump(): void {
+    if (this.paused) return;
+
+    const limit = this.isHeldBack() ? 1 : this.options.concurrency;
+    while (this.running.size < limit) {
+      const job = this.nextJob();
+      if (!job) break;
+
+      this.pending.delete(job.trackId);
+      this.running.set(job.trackId, job);
+      void this.run(job);
+    }
+
+    if (this.running.size === 0 && this.nextJob() === null) {
+      const waiters = this.drainWaiters;
+      this.drainWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  private async run(job: AnalysisJob): Promise<void> {
+    let outcome: AnalysisProgress['job'];
+
+    try {
+      job.attempts++;
+      await this.handler(job);
+      this.completed++;
+      outcome = { trackId: job.trackId, status: 'completed' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < this.options.maxAttempts) {
+        // Retry after everything else of the same priority
+        this.pending.set(job.trackId, { ...job, enqueuedAt: Date.now() });
+      } else {
+        this.failed++;
+        outcome = { trackId: job.trackId, status: 'failed', error: message };
+        console.warn(`[AnalysisQueue] Giving up on ${job.trackId}: ${message}`);
+      }
+    } finally {
+      this.running.delete(job.trackId);
+    }
+
+    this.scheduleSave();
+    this.emit(outcome);
+    this.pump();
+  }
+
+  private nextJob(): AnalysisJob | null {
+    const heldBack = this.isHeldBack();
+    let best: AnalysisJob | null = null;
+
+    for (const job of this.pending.values()) {
+      if (this.running.has(job.trackId)) continue;
+      if (heldBack && job.priority !== 'playing') continue;
+
+      if (
+        !best ||
+        PRIORITY_RANK[job.priority] < PRIORITY_RANK[best.priority] ||
+        (job.priority === best.priority && job.enqueuedAt < best.enqueuedAt)
+      ) {
+        best = job;
+      }
+    }
+
+    return best;
+  }
+
+  private isHeldBack(): boolean {
+    return this.options.idleOnly && this.playbackActive;
+  }
+
+  private emit(job?: AnalysisProgress['job']): void {
+    const progress = { ...this.getProgress(), job };
+    for (const listener of this.listeners) {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('[AnalysisQueue] Progress listener failed:', error);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    // Running jobs are saved too, so they are retried if the app quits mid-job
+    const jobs = [...this.pending.values(), ...this.running.values()];
+    const state: QueueState = { version: STATE_VERSION, jobs };
+
+    try {
+      await this.endpoints.storage.set(STORAGE_KEY, state);
+    } catch (error) {
+      console.error('[AnalysisQueue] Failed to save jobs:', error);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Analysis Worker - Runs audio analysis off the main thread
+ *
+ * Worker entry point: receives decoded PCM, runs Essentia features, beat grid
+ * and loudness, song structure and landmark fingerprinting, and posts the
+ * results back. Nothing here touches storage; the main thread stores results
+ * through the providers.
+ */
+
+import type { AudioFeatures } from '@audiio/ml-sdk';
+import { EssentiaProvider } from '../providers/essentia/essentia-provider';
+import type { BeatGrid } from '../providers/essentia/beat-grid';
+import { analyzeStructure, type SongStructure } from '../providers/structure/segmentation';
+import {
+  computeLandmarkFingerprint,
+  type LandmarkFingerprint,
+} from '../providers/fingerprint/landmark-fingerprint';
+import type { LoudnessMeasurement } from '../dsp';
+import type { AnalysisKind } from './analysis-queue';
+
+export type EssentiaQuality = 'fast' | 'balanced' | 'accurate';
+
+export interface AudioAnalysisRequest {
+  id: number;
+  trackId: string;
+  /** Mono PCM samples (Float32) */
+  buffer: ArrayBuffer;
+  sampleRate: number;
+  kinds: AnalysisKind[];
+  quality: EssentiaQuality;
+}
+
+export interface AudioAnalysisResult {
+  features?: AudioFeatures | null;
+  beatGrid?: BeatGrid | null;
+  loudness?: LoudnessMeasurement | null;
+  structure?: SongStructure | null;
+  fingerprint?: LandmarkFingerprint | null;
+}
+
+export type AudioAnalysisResponse =
+  | { id: number; result: AudioAnalysisResult }
+  | { id: number; error: string };
+
+interface WorkerScope {
+  onmessage: ((event: { data: AudioAnalysisRequest }) => void) | null;
+  postMessage(message: AudioAnalysisResponse, transfer?: Transferable[]): void;
+}
+
+const essentiaByQuality = new Map<EssentiaQuality, EssentiaProvider>();
+
+/**
+ * Analyse one track's audio (also usable without a worker)
+ */
+export async function runAudioAnalysis(
+  request: Omit<AudioAnalysisRequest, 'id'>
+): Promise<AudioAnalysisResult> {
+  const { trackId, buffer, sampleRate, kinds } = request;
+  const result: AudioAnalysisResult = {};
+
+  // Structure and fingerprint read the samples before Essentia sees them
+  if (kinds.includes('structure')) {
+    result.structure = analyzeStructure(new Float32Array(buffer), sampleRate);
+  }
+
+  if (kinds.includes('fingerprint')) {
+    const fingerprint = computeLandmarkFingerprint(new Float32Array(buffer), sampleRate);
+    result.fingerprint = fingerprint.hashes.length > 0 ? fingerprint : null;
+  }
+
+  if (kinds.includes('audio')) {
+    let essentia = essentiaByQuality.get(request.quality);
+    if (!essentia) {
+      essentia = new EssentiaProvider(request.quality);
+      essentiaByQuality.set(request.quality, essentia);
+    }
+
+    result.features = await essentia.analyzeBuffer(buffer, sampleRate, trackId);
+    result.beatGrid = await essentia.getBeatGrid(trackId);
+    result.loudness = await essentia.getLoudness(trackId);
+  }
+
+  return result;
+}
+
+/**
+ * Typed arrays in a result that can be moved instead of copied
+ */
+function transferables(result: AudioAnalysisResult): Transferable[] {
+  if (!result.fingerprint) return [];
+  return [result.fingerprint.hashes.buffer, result.fingerprint.times.buffer];
+}
+
+// Only wire up the message handler when loaded as a worker
+const scope = (typeof self !== 'undefined' ? self : undefined) as unknown as WorkerScope | undefined;
+const isWorker =
+  typeof (globalThis as { WorkerGlobalScope?: unknown }).WorkerGlobalScope !== 'undefined';
+
+if (scope && isWorker) {
+  scope.onmessage = async (event) => {
+    const { id, ...request } = event.data;
+
+    try {
+      const result = await runAudioAnalysis(request);
+      scope.postMessage({ id, result }, transferables(result));
+    } catch (error) {
+      scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
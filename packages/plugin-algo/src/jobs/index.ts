@@ -0,0 +1,22 @@
+/**
+ * Background analysis jobs
+ */
+
+export { AnalysisQueue, ANALYSIS_KINDS } from './analysis-queue';
+export type {
+  AnalysisKind,
+  AnalysisJob,
+  AnalysisProgress,
+  AnalysisProgressListener,
+  AnalysisHandler,
+  AnalysisQueueOptions,
+  JobPriority,
+} from './analysis-queue';
+export { AnalysisWorkerPool } from './worker-pool';
+export { runAudioAnalysis } from './analysis-worker';
+export type {
+  AudioAnalysisRequest,
+  AudioAnalysisResult,
+  AudioAnalysisResponse,
+  EssentiaQuality,
+} from './analysis-worker';
@@ -0,0 +1,153 @@
+/**
+ * Worker Pool - Fixed set of analysis workers
+ *
+ * Each worker runs one request at a time; callers wait for a free worker.
+ * A worker that crashes fails its request and is replaced, unless workers
+ * keep crashing before they answer anything, in which case the pool fails.
+ */
+
+import type {
+  AudioAnalysisRequest,
+  AudioAnalysisResponse,
+  AudioAnalysisResult,
+} from './analysis-worker';
+
+// Workers in a row that may crash before answering before the pool gives up
+const MAX_FAILED_STARTS = 3;
+
+interface PoolSlot {
+  worker: Worker;
+  busy: boolean;
+  /** The worker has answered at least once */
+  started: boolean;
+  /** Request in flight on this worker */
+  call: { id: number; resolve: (result: AudioAnalysisResult) => void; reject: (error: Error) => void } | null;
+}
+
+export class AnalysisWorkerPool {
+  private workerUrl: string | URL;
+  private slots: PoolSlot[] = [];
+  private waiting: Array<{ resolve: (slot: PoolSlot) => void; reject: (error: Error) => void }> = [];
+  private nextId = 1;
+  private terminated = false;
+  private failedStarts = 0;
+  private failed = false;
+
+  constructor(workerUrl: string | URL, size: number) {
+    this.workerUrl = workerUrl;
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.slots.push(this.createSlot());
+    }
+    console.log(`[AnalysisWorkerPool] Started ${this.slots.length} workers`);
+  }
+
+  /**
+   * Whether the environment can run analysis workers
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Whether workers kept crashing on start and the pool shut down
+   */
+  hasFailed(): boolean {
+    return this.failed;
+  }
+
+  /**
+   * Run an analysis request on the next free worker. The request's buffer
+   * is transferred to the worker and unusable afterwards.
+   */
+  async analyze(request: Omit<AudioAnalysisRequest, 'id'>): Promise<AudioAnalysisResult> {
+    if (this.terminated) {
+      throw new Error('Worker pool has been terminated');
+    }
+
+    const slot = await this.acquire();
+    const id = this.nextId++;
+
+    return new Promise<AudioAnalysisResult>((resolve, reject) => {
+      slot.call = { id, resolve, reject };
+      slot.worker.postMessage({ ...request, id }, [request.buffer]);
+    });
+  }
+
+  terminate(reason = 'Worker pool terminated'): void {
+    this.terminated = true;
+    for (const slot of this.slots) {
+      slot.call?.reject(new Error(reason));
+      slot.worker.terminate();
+    }
+    for (const waiter of this.waiting) {
+      waiter.reject(new Error(reason));
+    }
+    this.slots = [];
+    this.waiting = [];
+  }
+
+  private acquire(): Promise<PoolSlot> {
+    const free = this.slots.find(slot => !slot.busy);
+    if (free) {
+      free.busy = true;
+      return Promise.resolve(free);
+    }
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  private release(slot: PoolSlot): void {
+    slot.call = null;
+    const next = this.waiting.shift();
+    if (next) {
+      next.resolve(slot);
+    } else {
+      slot.busy = false;
+    }
+  }
+
+  private createSlot(): PoolSlot {
+    const slot = { busy: false, started: false, call: null } as PoolSlot;
+    this.startWorker(slot);
+    return slot;
+  }
+
+  private startWorker(slot: PoolSlot): void {
+    // The worker script uses ESM imports
+    slot.worker = new Worker(this.workerUrl, { type: 'module' });
+    slot.started = false;
+
+    slot.worker.onmessage = (event: MessageEvent<AudioAnalysisResponse>) => {
+      slot.started = true;
+      this.failedStarts = 0;
+      const call = slot.call;
+      if (!call || call.id !== event.data.id) return;
+
+      if ('error' in event.data) {
+        call.reject(new Error(event.data.error));
+      } else {
+        call.resolve(event.data.result);
+      }
+      this.release(slot);
+    };
+
+    slot.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      console.error('[AnalysisWorkerPool] Worker crashed:', event.message);
+
+      const call = slot.call;
+      slot.worker.terminate();
+      if (this.terminated) return;
+
+      if (!slot.started && ++this.failedStarts >= MAX_FAILED_STARTS) {
+        console.error(`[AnalysisWorkerPool] ${this.failedStarts} workers crashed on start, shutting down`);
+        this.failed = true;
+        this.terminate(`Analysis workers fail to start: ${event.message}`);
+        return;
+      }
+
+      this.startWorker(slot);
+      call?.reject(new Error(`Analysis worker crashed: ${event.message}`));
+      this.release(slot);
+    };
+  }
+}
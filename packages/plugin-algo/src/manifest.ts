@@ -75,6 +75,47 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
       ],
       category: 'Audio',
     },
+    {
+      key: 'loudnessReference',
+      label: 'Loudness Target',
+      description: 'Reference loudness (LUFS) used for track and album gain',
+      type: 'range',
+      default: -18,
+      min: -24,
+      max: -14,
+      step: 1,
+      category: 'Audio',
+    },
+    {
+      key: 'enableStructureAnalysis',
+      label: 'Song Structure',
+      description: 'Detect intro, verse, chorus and outro for previews and skip-to-hook',
+      type: 'boolean',
+      default: true,
+      category: 'Audio',
+    },
+    {
+      key: 'featureStoreSize',
+      label: 'Stored Analyses',
+      description: 'Analysis results kept on disk across restarts; least recently used are dropped first',
+      type: 'range',
+      default: 20000,
+      min: 1000,
+      max: 100000,
+      step: 1000,
+      category: 'Audio',
+    },
+    {
+      key: 'analysisConcurrency',
+      label: 'Background Analysis Jobs',
+      description: 'Tracks analysed at the same time in the background',
+      type: 'range',
+      default: 2,
+      min: 1,
+      max: 4,
+      step: 1,
+      category: 'Audio',
+    },
 
     // === Emotion Detection ===
     {
@@ -100,7 +141,7 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
     {
       key: 'enableFingerprinting',
       label: 'Audio Fingerprinting',
-      description: 'Enable Chromaprint fingerprinting for track identification',
+      description: 'Enable audio fingerprinting for track identification',
       type: 'boolean',
       default: true,
       category: 'Fingerprint',
@@ -123,6 +164,19 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
       default: true,
       category: 'Similarity',
     },
+    {
+      key: 'similarityRecall',
+      label: 'Similarity Accuracy',
+      description: 'Trade search speed for accuracy. Link density only changes for tracks indexed after a restart',
+      type: 'select',
+      default: 'balanced',
+      options: [
+        { value: 'fast', label: 'Fast' },
+        { value: 'balanced', label: 'Balanced' },
+        { value: 'accurate', label: 'Accurate' },
+      ],
+      category: 'Similarity',
+    },
 
     // === Scoring ===
     {
@@ -138,6 +192,25 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
       ],
       category: 'Scoring',
     },
+    {
+      key: 'adaptiveExploration',
+      label: 'Learn Exploration',
+      description: 'Learn how much discovery you enjoy; the exploration level becomes the starting point',
+      type: 'boolean',
+      default: true,
+      category: 'Scoring',
+    },
+    {
+      key: 'lessLikeThisThreshold',
+      label: '"Less Like This" Reach',
+      description: 'How similar a track must be to one you asked for less of before it is demoted',
+      type: 'range',
+      default: 0.85,
+      min: 0.6,
+      max: 0.98,
+      step: 0.01,
+      category: 'Scoring',
+    },
     {
       key: 'mlWeight',
       label: 'ML Weight',
@@ -157,6 +230,20 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
       default: true,
       category: 'Scoring',
     },
+    {
+      key: 'sessionFlowCurve',
+      label: 'Session Energy Curve',
+      description: 'Energy shape to follow when ordering Discover sections',
+      type: 'select',
+      default: 'arc',
+      options: [
+        { value: 'arc', label: 'Warm-up, peak, cool-down' },
+        { value: 'build', label: 'Build up' },
+        { value: 'wind-down', label: 'Wind down' },
+        { value: 'flat', label: 'Steady' },
+      ],
+      category: 'Scoring',
+    },
     {
       key: 'enableTemporalMatching',
       label: 'Time-Based Matching',
@@ -166,6 +253,43 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
       category: 'Scoring',
     },
 
+    // === Mixing ===
+    {
+      key: 'harmonicMixing',
+      label: 'Harmonic Mixing',
+      description: 'Order radio and queue tracks by Camelot-compatible keys and BPM',
+      type: 'boolean',
+      default: false,
+      category: 'Mixing',
+    },
+    {
+      key: 'harmonicBpmTolerance',
+      label: 'Pitch Shift Tolerance',
+      description: 'Maximum tempo change between consecutive tracks (fraction of BPM)',
+      type: 'range',
+      default: 0.06,
+      min: 0.02,
+      max: 0.16,
+      step: 0.01,
+      category: 'Mixing',
+    },
+    {
+      key: 'harmonicHalfDoubleTime',
+      label: 'Half/Double-Time Matching',
+      description: 'Treat half and double tempo as compatible',
+      type: 'boolean',
+      default: true,
+      category: 'Mixing',
+    },
+    {
+      key: 'harmonicEnergyBoost',
+      label: 'Energy Boost Moves',
+      description: 'Allow key moves up the Camelot wheel that raise energy',
+      type: 'boolean',
+      default: true,
+      category: 'Mixing',
+    },
+
     // === Training ===
     {
       key: 'autoTrain',
@@ -178,11 +302,33 @@ export const AUDIIO_ALGO_MANIFEST: AlgorithmManifest = {
     {
       key: 'trainOnIdle',
       label: 'Train When Idle',
-      description: 'Train model when app is idle',
+      description: 'Train model and run background analysis when playback is idle',
       type: 'boolean',
       default: true,
       category: 'Training',
     },
+    {
+      key: 'modelHistorySize',
+      label: 'Model History',
+      description: 'Number of trained model versions to keep for rollback',
+      type: 'range',
+      default: 5,
+      min: 2,
+      max: 10,
+      step: 1,
+      category: 'Training',
+    },
+    {
+      key: 'autoRollbackThreshold',
+      label: 'Auto-Rollback Threshold',
+      description: 'Roll back a new model if validation accuracy drops by more than this',
+      type: 'range',
+      default: 0.05,
+      min: 0,
+      max: 0.2,
+      step: 0.01,
+      category: 'Training',
+    },
   ],
 
   icon: 'https://audiio.app/icons/algo.svg',
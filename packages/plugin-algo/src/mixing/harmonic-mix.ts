@@ -0,0 +1,249 @@
+/**
+ * Harmonic Mix - Camelot-wheel key moves and BPM pitch-shift matching
+ *
+ * Keys are mapped onto the Camelot wheel (1-12, A = minor, B = major). Moves a
+ * DJ can mix without a key clash are the same code, ±1 on the wheel, the
+ * relative major/minor and, optionally, the "energy boost" moves up the wheel.
+ */
+
+import type { AudioFeatures } from '@audiio/ml-sdk';
+
+export type CamelotLetter = 'A' | 'B';
+
+export interface CamelotCode {
+  number: number; // 1-12
+  letter: CamelotLetter;
+}
+
+export type CamelotMove = 'same' | 'adjacent' | 'relative' | 'energy-boost';
+
+export interface HarmonicMixOptions {
+  enabled: boolean;
+  /** Maximum pitch shift as a fraction of the outgoing BPM (0.06 = ±6%) */
+  bpmTolerance: number;
+  /** Match tracks at half or double tempo */
+  allowHalfDoubleTime: boolean;
+  /** Allow +2 / +7 wheel moves that lift the energy */
+  allowEnergyBoost: boolean;
+}
+
+export const DEFAULT_HARMONIC_MIX: HarmonicMixOptions = {
+  enabled: false,
+  bpmTolerance: 0.06,
+  allowHalfDoubleTime: true,
+  allowEnergyBoost: true,
+};
+
+/** Key, mode and tempo of a track, as far as they are known */
+export interface HarmonicTrack<T> {
+  item: T;
+  key?: string;
+  mode?: 'major' | 'minor';
+  bpm?: number;
+}
+
+// Pitch classes, with both enharmonic spellings
+const PITCH_CLASSES: Record<string, number> = {
+  C: 0, 'B#': 0, 'C#': 1, Db: 1, D: 2, 'D#': 3, Eb: 3, E: 4, Fb: 4,
+  F: 5, 'E#': 5, 'F#': 6, Gb: 6, G: 7, 'G#': 8, Ab: 8, A: 9,
+  'A#': 10, Bb: 10, B: 11, Cb: 11,
+};
+
+const MOVE_COMPATIBILITY: Record<CamelotMove, number> = {
+  same: 1,
+  adjacent: 0.9,
+  relative: 0.8,
+  'energy-boost': 0.6,
+};
+
+// Cost used when a track's key or tempo is unknown
+const UNKNOWN_COST = 0.5;
+
+/**
+ * Camelot code for a key, e.g. ('A', 'minor') -> 8A.
+ * Accepts keys with a trailing "m" for minor ("F#m").
+ */
+export function toCamelot(key: string, mode?: 'major' | 'minor'): CamelotCode | null {
+  let root = key.trim();
+  let minor = mode === 'minor';
+
+  if (root.length > 1 && root.endsWith('m')) {
+    root = root.slice(0, -1);
+    minor = true;
+  }
+
+  const pitchClass = PITCH_CLASSES[root];
+  if (pitchClass === undefined) return null;
+
+  // Minor keys share the number of their relative major (three semitones up)
+  const majorPitchClass = minor ? (pitchClass + 3) % 12 : pitchClass;
+
+  // Each step round the circle of fifths is one step on the wheel; C major is 8B
+  const number = ((majorPitchClass * 7) % 12 + 7) % 12 + 1;
+
+  return { number, letter: minor ? 'A' : 'B' };
+}
+
+export function formatCamelot(code: CamelotCode): string {
+  return `${code.number}${code.letter}`;
+}
+
+/**
+ * Classify the move between two Camelot codes, or null if it clashes
+ */
+export function getCamelotMove(
+  from: CamelotCode,
+  to: CamelotCode,
+  allowEnergyBoost = true
+): CamelotMove | null {
+  const steps = (to.number - from.number + 12) % 12;
+
+  if (from.letter === to.letter) {
+    if (steps === 0) return 'same';
+    if (steps === 1 || steps === 11) return 'adjacent';
+    if (allowEnergyBoost && (steps === 2 || steps === 7)) return 'energy-boost';
+    return null;
+  }
+
+  return steps === 0 ? 'relative' : null;
+}
+
+/**
+ * Key compatibility (0-1) between two keys on the Camelot wheel
+ */
+export function getCamelotCompatibility(
+  fromKey: string,
+  fromMode: 'major' | 'minor' | undefined,
+  toKey: string,
+  toMode: 'major' | 'minor' | undefined,
+  allowEnergyBoost = true
+): number {
+  const from = toCamelot(fromKey, fromMode);
+  const to = toCamelot(toKey, toMode);
+  if (!from || !to) return 0;
+
+  const move = getCamelotMove(from, to, allowEnergyBoost);
+  return move ? MOVE_COMPATIBILITY[move] : 0;
+}
+
+/**
+ * Smallest pitch shift (fraction of the outgoing BPM) needed to beatmatch,
+ * optionally treating half and double time as the same tempo
+ */
+export function getPitchShift(fromBpm: number, toBpm: number, allowHalfDoubleTime = true): number {
+  if (fromBpm <= 0 || toBpm <= 0) return Infinity;
+
+  const ratios = allowHalfDoubleTime ? [1, 2, 0.5] : [1];
+  return Math.min(...ratios.map(ratio => Math.abs(toBpm * ratio - fromBpm) / fromBpm));
+}
+
+export function isTempoCompatible(
+  fromBpm: number,
+  toBpm: number,
+  options: Pick<HarmonicMixOptions, 'bpmTolerance' | 'allowHalfDoubleTime'>
+): boolean {
+  return getPitchShift(fromBpm, toBpm, options.allowHalfDoubleTime) <= options.bpmTolerance;
+}
+
+/**
+ * Cost of mixing from one track into the next. Compatible transitions cost
+ * less than 1; key clashes and out-of-range tempos cost 1 or more each.
+ */
+export function getHarmonicTransitionCost(
+  from: Omit<HarmonicTrack<unknown>, 'item'>,
+  to: Omit<HarmonicTrack<unknown>, 'item'>,
+  options: HarmonicMixOptions
+): number {
+  let keyCost = UNKNOWN_COST;
+  if (from.key && to.key) {
+    const compatibility = getCamelotCompatibility(
+      from.key, from.mode, to.key, to.mode, options.allowEnergyBoost
+    );
+    keyCost = compatibility > 0 ? 1 - compatibility : 1.5;
+  }
+
+  let tempoCost = UNKNOWN_COST;
+  if (from.bpm && to.bpm) {
+    const shift = getPitchShift(from.bpm, to.bpm, options.allowHalfDoubleTime);
+    tempoCost = shift <= options.bpmTolerance
+      ? (shift / Math.max(options.bpmTolerance, 1e-6)) * 0.3
+      : 1 + Math.min(1, (shift - options.bpmTolerance) * 5);
+  }
+
+  return keyCost + tempoCost;
+}
+
+/**
+ * Reorder tracks so consecutive tracks mix harmonically.
+ *
+ * Greedy walk from `previous` (or the first track): each step takes the
+ * remaining track with the cheapest transition, with a small penalty for
+ * tracks ranked further down so relevance is not thrown away.
+ */
+export function orderHarmonically<T>(
+  tracks: HarmonicTrack<T>[],
+  options: HarmonicMixOptions,
+  previous?: Omit<HarmonicTrack<unknown>, 'item'>,
+  rankWeight = 0.5
+): T[] {
+  if (tracks.length <= 1) return tracks.map(t => t.item);
+
+  const remaining = tracks.map((track, rank) => ({ track, rank }));
+  const ordered: HarmonicTrack<T>[] = [];
+  let current = previous;
+
+  if (!current) {
+    const first = remaining.shift()!;
+    ordered.push(first.track);
+    current = first.track;
+  }
+
+  while (remaining.length > 0) {
+    let bestIdx = 0;
+    let bestCost = Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const { track, rank } = remaining[i];
+      const cost =
+        getHarmonicTransitionCost(current, track, options) +
+        (rank / tracks.length) * rankWeight;
+
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIdx = i;
+      }
+    }
+
+    const next = remaining.splice(bestIdx, 1)[0].track;
+    ordered.push(next);
+    current = next;
+  }
+
+  return ordered.map(t => t.item);
+}
+
+/**
+ * Build a harmonic track from audio features
+ */
+export function toHarmonicTrack<T>(item: T, features?: AudioFeatures | null): HarmonicTrack<T> {
+  return {
+    item,
+    key: features?.key,
+    mode: features?.mode,
+    bpm: features?.bpm,
+  };
+}
+
+/**
+ * Resolve a seed or request option against defaults (usually from settings)
+ */
+export function resolveHarmonicMix(
+  options: boolean | Partial<HarmonicMixOptions> | undefined,
+  defaults: HarmonicMixOptions = DEFAULT_HARMONIC_MIX
+): HarmonicMixOptions {
+  if (options === undefined) return defaults;
+  if (typeof options === 'boolean') {
+    return { ...defaults, enabled: options };
+  }
+  return { ...defaults, enabled: true, ...options };
+}
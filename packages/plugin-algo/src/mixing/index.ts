@@ -0,0 +1,6 @@
+/**
+ * Mixing utilities
+ */
+
+export * from './harmonic-mix';
+export * from './sequence-optimizer';
@@ -0,0 +1,241 @@
+/**
+ * Sequence Optimizer - Orders a set of tracks as a whole
+ *
+ * Minimises the summed transition cost between consecutive tracks plus the
+ * distance of each track from a target energy curve. Starts from a greedy
+ * sequence and improves it with simulated annealing over 2-opt reversals and
+ * swaps until the time budget runs out.
+ */
+
+import { DEFAULT_ENERGY_CURVE } from '@audiio/ml-sdk';
+
+export type EnergyCurveShape = 'arc' | 'build' | 'wind-down' | 'flat';
+
+export interface SequenceOptimizerOptions {
+  /** Wall-clock budget for the annealing phase */
+  timeBudgetMs: number;
+  /** Weight of the target-curve term relative to transition costs */
+  curveWeight: number;
+}
+
+export const DEFAULT_SEQUENCE_OPTIONS: SequenceOptimizerOptions = {
+  timeBudgetMs: 40,
+  curveWeight: 0.5,
+};
+
+export interface SequenceResult {
+  order: number[];
+  cost: number;
+  /** Cost of the greedy starting sequence, for comparison */
+  greedyCost: number;
+  iterations: number;
+}
+
+// Share of the sequence spent warming up and cooling down in an arc
+const WARM_UP_SHARE = 0.25;
+const COOL_DOWN_SHARE = 0.2;
+// Energy range of the arc around the hour's base energy
+const ARC_LOW = 0.2;
+const ARC_HIGH = 0.2;
+// Check the clock every this many iterations
+const CLOCK_INTERVAL = 64;
+
+/**
+ * Target energy per position, centred on the typical energy for the hour
+ */
+export function buildTargetEnergyCurve(
+  hour: number,
+  length: number,
+  shape: EnergyCurveShape = 'arc'
+): number[] {
+  const base = getBaseEnergy(hour);
+  const curve: number[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const position = length > 1 ? i / (length - 1) : 0;
+    let energy: number;
+
+    switch (shape) {
+      case 'build':
+        energy = base - ARC_LOW + position * (ARC_LOW + ARC_HIGH);
+        break;
+      case 'wind-down':
+        energy = base + ARC_HIGH - position * (ARC_LOW + ARC_HIGH);
+        break;
+      case 'flat':
+        energy = base;
+        break;
+      case 'arc':
+      default:
+        if (position < WARM_UP_SHARE) {
+          // Warm-up: ease in from below the base energy
+          energy = base - ARC_LOW + smoothStep(position / WARM_UP_SHARE) * (ARC_LOW + ARC_HIGH);
+        } else if (position > 1 - COOL_DOWN_SHARE) {
+          // Cool-down: ease back below the base energy
+          const t = (position - (1 - COOL_DOWN_SHARE)) / COOL_DOWN_SHARE;
+          energy = base + ARC_HIGH - smoothStep(t) * (ARC_LOW + ARC_HIGH);
+        } else {
+          energy = base + ARC_HIGH;
+        }
+        break;
+    }
+
+    curve.push(Math.max(0.1, Math.min(0.95, energy)));
+  }
+
+  return curve;
+}
+
+/**
+ * Find a low-cost ordering of `n` items.
+ *
+ * @param transitionCost - Cost of playing item `to` directly after item `from`
+ * @param positionCost - Cost of placing an item at a position in the sequence
+ */
+export function optimizeSequence(
+  n: number,
+  transitionCost: (from: number, to: number) => number,
+  positionCost: (item: number, position: number) => number,
+  options: Partial<SequenceOptimizerOptions> = {}
+): SequenceResult {
+  const { timeBudgetMs, curveWeight } = { ...DEFAULT_SEQUENCE_OPTIONS, ...options };
+
+  if (n <= 1) {
+    return { order: n === 1 ? [0] : [], cost: 0, greedyCost: 0, iterations: 0 };
+  }
+
+  // Precompute costs so the annealing loop only does lookups
+  const transitions = new Float64Array(n * n);
+  const positions = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      transitions[i * n + j] = i === j ? 0 : transitionCost(i, j);
+      positions[i * n + j] = positionCost(i, j) * curveWeight;
+    }
+  }
+
+  const costOf = (order: number[], from: number, to: number): number => {
+    // Cost of positions [from, to] and the transitions into and within them
+    let cost = 0;
+    for (let k = Math.max(0, from); k <= Math.min(n - 1, to); k++) {
+      cost += positions[order[k] * n + k];
+      if (k > 0) cost += transitions[order[k - 1] * n + order[k]];
+    }
+    if (to + 1 < n) cost += transitions[order[to] * n + order[to + 1]];
+    return cost;
+  };
+
+  const order = greedySequence(n, transitions, positions);
+  let cost = costOf(order, 0, n - 1);
+  const greedyCost = cost;
+
+  if (n <= 3 || timeBudgetMs <= 0) {
+    return { order, cost, greedyCost, iterations: 0 };
+  }
+
+  let best = [...order];
+  let bestCost = cost;
+
+  // Start hot enough to accept an average transition's worth of worse moves
+  let meanTransition = 0;
+  for (let i = 0; i < transitions.length; i++) meanTransition += transitions[i];
+  meanTransition /= n * (n - 1);
+  const startTemperature = Math.max(1e-3, meanTransition);
+  const endTemperature = startTemperature * 1e-3;
+
+  const startTime = Date.now();
+  const maxIterations = Math.min(200000, n * n * 50);
+  let temperature = startTemperature;
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    if (iterations % CLOCK_INTERVAL === 0) {
+      const progress = (Date.now() - startTime) / timeBudgetMs;
+      if (progress >= 1) break;
+      temperature = startTemperature * Math.pow(endTemperature / startTemperature, progress);
+    }
+    iterations++;
+
+    let i = Math.floor(Math.random() * n);
+    let j = Math.floor(Math.random() * n);
+    if (i === j) continue;
+    if (i > j) [i, j] = [j, i];
+
+    const useSwap = Math.random() < 0.3;
+    const before = costOf(order, i, j);
+
+    if (useSwap) {
+      [order[i], order[j]] = [order[j], order[i]];
+    } else {
+      reverse(order, i, j);
+    }
+
+    const delta = costOf(order, i, j) - before;
+
+    if (delta <= 0 || Math.random() < Math.exp(-delta / temperature)) {
+      cost += delta;
+      if (cost < bestCost - 1e-9) {
+        bestCost = cost;
+        best = [...order];
+      }
+    } else if (useSwap) {
+      [order[i], order[j]] = [order[j], order[i]];
+    } else {
+      reverse(order, i, j);
+    }
+  }
+
+  return { order: best, cost: bestCost, greedyCost, iterations };
+}
+
+/**
+ * Nearest-neighbour sequence starting from the best fit for the first position
+ */
+function greedySequence(n: number, transitions: Float64Array, positions: Float64Array): number[] {
+  const used = new Uint8Array(n);
+  const order: number[] = [];
+
+  let first = 0;
+  for (let i = 1; i < n; i++) {
+    if (positions[i * n] < positions[first * n]) first = i;
+  }
+  order.push(first);
+  used[first] = 1;
+
+  while (order.length < n) {
+    const last = order[order.length - 1];
+    const position = order.length;
+    let bestIdx = -1;
+    let bestCost = Infinity;
+
+    for (let i = 0; i < n; i++) {
+      if (used[i]) continue;
+      const cost = transitions[last * n + i] + positions[i * n + position];
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIdx = i;
+      }
+    }
+
+    order.push(bestIdx);
+    used[bestIdx] = 1;
+  }
+
+  return order;
+}
+
+function reverse(order: number[], from: number, to: number): void {
+  for (let a = from, b = to; a < b; a++, b--) {
+    [order[a], order[b]] = [order[b], order[a]];
+  }
+}
+
+function smoothStep(t: number): number {
+  const x = Math.max(0, Math.min(1, t));
+  return x * x * (3 - 2 * x);
+}
+
+function getBaseEnergy(hour: number): number {
+  const value = (DEFAULT_ENERGY_CURVE as ArrayLike<number>)[((Math.floor(hour) % 24) + 24) % 24];
+  return typeof value === 'number' ? value : 0.5;
+}
@@ -13,6 +13,13 @@ import type {
 import type { UnifiedTrack } from '@audiio/core';
 import type { AudioFeatures } from '@audiio/ml-sdk';
 import { EssentiaProvider } from '../providers/essentia/essentia-provider';
+import {
+  DEFAULT_HARMONIC_MIX,
+  getCamelotCompatibility,
+  orderHarmonically,
+  toHarmonicTrack,
+  type HarmonicMixOptions,
+} from '../mixing/harmonic-mix';
 
 const PLUGIN_ID = 'algo';
 
@@ -40,34 +47,6 @@ const MOOD_ENERGY_MAP: Record<string, string> = {
   relaxed: 'low',
 };
 
-// Key compatibility (circle of fifths)
-const KEY_COMPATIBILITY: Record<string, string[]> = {
-  C: ['C', 'G', 'F', 'Am', 'Em', 'Dm'],
-  G: ['G', 'D', 'C', 'Em', 'Bm', 'Am'],
-  D: ['D', 'A', 'G', 'Bm', 'F#m', 'Em'],
-  A: ['A', 'E', 'D', 'F#m', 'C#m', 'Bm'],
-  E: ['E', 'B', 'A', 'C#m', 'G#m', 'F#m'],
-  B: ['B', 'F#', 'E', 'G#m', 'D#m', 'C#m'],
-  'F#': ['F#', 'C#', 'B', 'D#m', 'A#m', 'G#m'],
-  F: ['F', 'C', 'Bb', 'Dm', 'Am', 'Gm'],
-  Bb: ['Bb', 'F', 'Eb', 'Gm', 'Dm', 'Cm'],
-  Eb: ['Eb', 'Bb', 'Ab', 'Cm', 'Gm', 'Fm'],
-  Ab: ['Ab', 'Eb', 'Db', 'Fm', 'Cm', 'Bbm'],
-  Db: ['Db', 'Ab', 'Gb', 'Bbm', 'Fm', 'Ebm'],
-  // Minor keys
-  Am: ['Am', 'Em', 'Dm', 'C', 'G', 'F'],
-  Em: ['Em', 'Bm', 'Am', 'G', 'D', 'C'],
-  Bm: ['Bm', 'F#m', 'Em', 'D', 'A', 'G'],
-  'F#m': ['F#m', 'C#m', 'Bm', 'A', 'E', 'D'],
-  'C#m': ['C#m', 'G#m', 'F#m', 'E', 'B', 'A'],
-  'G#m': ['G#m', 'D#m', 'C#m', 'B', 'F#', 'E'],
-  Dm: ['Dm', 'Am', 'Gm', 'F', 'C', 'Bb'],
-  Gm: ['Gm', 'Dm', 'Cm', 'Bb', 'F', 'Eb'],
-  Cm: ['Cm', 'Gm', 'Fm', 'Eb', 'Bb', 'Ab'],
-  Fm: ['Fm', 'Cm', 'Bbm', 'Ab', 'Eb', 'Db'],
-  Bbm: ['Bbm', 'Fm', 'Ebm', 'Db', 'Ab', 'Gb'],
-};
-
 export const audioFeaturesTransformer: ResultTransformer = {
   id: `${PLUGIN_ID}:audio-features`,
   pluginId: PLUGIN_ID,
@@ -103,6 +82,9 @@ export const audioFeaturesTransformer: ResultTransformer = {
     const essentiaProvider = getEssentiaProvider();
     if (!essentiaProvider) return results;
 
+    // Reference track the results continue from
+    const lastTrackFeatures = await getLastTrackFeatures(context, essentiaProvider);
+
     // Score each track by audio features
     const scored: Array<{ track: UnifiedTrack; score: number; features?: AudioFeatures }> =
       [];
@@ -116,13 +98,22 @@ export const audioFeaturesTransformer: ResultTransformer = {
       }
 
       // Calculate audio features match score
-      const score = calculateAudioScore(features, energyProfile, context);
+      const score = calculateAudioScore(features, energyProfile, context, lastTrackFeatures);
       scored.push({ track, score, features });
     }
 
     // Sort by score descending
     scored.sort((a, b) => b.score - a.score);
 
+    // Harmonic mix: walk the ranked tracks along Camelot-compatible moves
+    if (harmonicMix.enabled) {
+      return orderHarmonically(
+        scored.map((s) => toHarmonicTrack(s.track, s.features)),
+        harmonicMix,
+        lastTrackFeatures ? toHarmonicTrack(null, lastTrackFeatures) : undefined
+      );
+    }
+
     // Return sorted tracks
     return scored.map((s) => s.track);
   },
@@ -134,7 +125,8 @@ export const audioFeaturesTransformer: ResultTransformer = {
 function calculateAudioScore(
   features: AudioFeatures,
   energyProfile: { bpmMin: number; bpmMax: number; loudnessMin: number; loudnessMax: number },
-  context: PipelineContext
+  context: PipelineContext,
+  lastTrackFeatures: AudioFeatures | null
 ): number {
   let score = 0.5;
 
@@ -164,19 +156,15 @@ function calculateAudioScore(
     score += 0.2 * (1 - distanceFromCenter / rangeSize);
   }
 
-  // Key compatibility (0-0.15) - if we have a reference key
-  if (features.key && context.currentResults.length > 0) {
-    // Check key compatibility with recently played/queued tracks
-    const lastTrackKey = getLastTrackKey(context);
-    if (lastTrackKey) {
-      const keyStr = `${features.key}${features.mode === 'minor' ? 'm' : ''}`;
-      const compatible = KEY_COMPATIBILITY[lastTrackKey] || [];
-      if (compatible.includes(keyStr)) {
-        score += 0.15;
-      } else if (keyStr === lastTrackKey) {
-        score += 0.1; // Same key
-      }
-    }
+  // Key compatibility on the Camelot wheel (0-0.15)
+  if (features.key && lastTrackFeatures?.key) {
+    score += 0.15 * getCamelotCompatibility(
+      lastTrackFeatures.key,
+      lastTrackFeatures.mode,
+      features.key,
+      features.mode,
+      harmonicMix.allowEnergyBoost
+    );
   }
 
   // Danceability bonus for party/energetic moods (0-0.1)
@@ -192,16 +180,20 @@ function calculateAudioScore(
 }
 
 /**
- * Get key of last track in current results
+ * Get audio features of the last track in current results
  */
-function getLastTrackKey(_context: PipelineContext): string | null {
-  // Would need to look up audio features for last track
-  // Simplified: return null for now
-  return null;
+async function getLastTrackFeatures(
+  context: PipelineContext,
+  provider: EssentiaProvider
+): Promise<AudioFeatures | null> {
+  const lastTrack = context.currentResults[context.currentResults.length - 1];
+  if (!lastTrack) return null;
+  return provider.getAudioFeatures(lastTrack.id);
 }
 
 // Singleton provider instance
 let essentiaProviderInstance: EssentiaProvider | null = null;
+let harmonicMix: HarmonicMixOptions = DEFAULT_HARMONIC_MIX;
 
 /**
  * Get essentia provider instance
@@ -216,3 +208,10 @@ function getEssentiaProvider(): EssentiaProvider | null {
 export function setEssentiaProvider(provider: EssentiaProvider): void {
   essentiaProviderInstance = provider;
 }
+
+/**
+ * Set harmonic mix options (from plugin settings)
+ */
+export function setHarmonicMixOptions(options: HarmonicMixOptions): void {
+  harmonicMix = options;
+}
@@ -7,10 +7,18 @@
  * - Lyrics sentiment analysis
  * - Audio feature matching (BPM, energy, key)
  * - Session flow optimization
+ * - Harmonic (Camelot) mixing
+ * - Hard negative feedback rules
  */
 
 export { emotionTransformer } from './emotion-transformer';
 export { lyricsTransformer } from './lyrics-transformer';
 export { audioFeaturesTransformer } from './audio-features-transformer';
 export { sessionFlowTransformer } from './session-flow-transformer';
-export { registerAlgoPipelineHooks } from './register';
+export { negativeFeedbackTransformer } from './negative-feedback-transformer';
+export {
+  registerAlgoPipelineHooks,
+  setHarmonicMixOptions,
+  setSessionFlowOptions,
+  setNegativeFeedbackStore,
+} from './register';
@@ -2,7 +2,8 @@
  * Lyrics Transformer
  *
  * Filters and reorders tracks based on lyrics sentiment analysis.
- * Uses the LyricsProvider to match tracks to requested mood/theme.
+ * Uses the LyricsProvider to match tracks to requested mood/theme, and the
+ * lyric mood arc (from synced lyrics) to match how the mood develops.
  */
 
 import type {
@@ -13,6 +14,7 @@ import type {
 import type { UnifiedTrack } from '@audiio/core';
 import type { LyricsFeatures } from '@audiio/ml-sdk';
 import { LyricsProvider } from '../providers/lyrics/lyrics-provider';
+import type { LyricsMoodArc, MoodArcShape } from '../providers/lyrics/mood-arc';
 
 const PLUGIN_ID = 'algo';
 
@@ -43,6 +45,21 @@ const MOOD_SENTIMENT_MAP: Record<string, { min: number; max: number }> = {
   focus: { min: -0.3, max: 0.3 }, // Neutral sentiment for focus
 };
 
+// How each mood wants the lyrics to develop: chorus lift direction and arc shapes
+const MOOD_ARC_MAP: Record<string, { lift: number; shapes: MoodArcShape[] }> = {
+  happy: { lift: 1, shapes: ['rising', 'peaking'] },
+  uplifting: { lift: 1, shapes: ['rising', 'peaking'] },
+  energetic: { lift: 1, shapes: ['rising', 'peaking'] },
+  party: { lift: 1, shapes: ['rising', 'steady'] },
+  romantic: { lift: 1, shapes: ['rising', 'steady'] },
+  sad: { lift: -1, shapes: ['falling', 'valley'] },
+  melancholic: { lift: -1, shapes: ['falling', 'valley'] },
+  angry: { lift: -1, shapes: ['falling', 'steady'] },
+  chill: { lift: 0, shapes: ['steady'] },
+  peaceful: { lift: 0, shapes: ['steady'] },
+  focus: { lift: 0, shapes: ['steady'] },
+};
+
 export const lyricsTransformer: ResultTransformer = {
   id: `${PLUGIN_ID}:lyrics`,
   pluginId: PLUGIN_ID,
@@ -92,7 +109,10 @@ export const lyricsTransformer: ResultTransformer = {
       }
 
       // Calculate lyrics match score
-      const score = calculateLyricsScore(lyrics, sentimentRange, matchingThemes);
+      let score = calculateLyricsScore(lyrics, sentimentRange, matchingThemes);
+      if (lyrics.moodArc) {
+        score = Math.max(0, Math.min(1, score + calculateArcScore(lyrics.moodArc, queryMood)));
+      }
       scored.push({ track, score });
     }
 
@@ -158,6 +178,32 @@ function calculateLyricsScore(
   return Math.max(0, Math.min(1, score));
 }
 
+/**
+ * Adjustment (-0.15 to 0.15) for how the lyric mood develops over the track
+ */
+function calculateArcScore(arc: LyricsMoodArc, mood: string): number {
+  const target = MOOD_ARC_MAP[mood];
+  if (!target) return 0;
+
+  let score = 0;
+
+  // Chorus lift (0-0.1): a chorus that lifts for uplifting moods, drops
+  // for sad ones, stays level for calm ones
+  const lift = Math.max(-1, Math.min(1, arc.chorusLift));
+  if (target.lift === 0) {
+    score += 0.1 * (1 - Math.abs(lift)) - 0.05;
+  } else {
+    score += 0.1 * lift * target.lift;
+  }
+
+  // Overall shape (0-0.05)
+  if (target.shapes.includes(arc.shape)) {
+    score += 0.05;
+  }
+
+  return Math.max(-0.15, Math.min(0.15, score));
+}
+
 // Singleton provider instance
 let lyricsProviderInstance: LyricsProvider | null = null;
 
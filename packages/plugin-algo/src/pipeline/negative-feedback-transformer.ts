@@ -0,0 +1,64 @@
+/**
+ * Negative Feedback Transformer
+ *
+ * Removes blocked tracks, artists and muted genres from Discover results and
+ * pushes "less like this" matches down the list. Runs after the other
+ * transformers, which re-score and re-sort, so the demotion is applied to
+ * the final order.
+ */
+
+import type {
+  ResultTransformer,
+  PipelineContext,
+  StructuredSectionQuery,
+} from '@audiio/sdk';
+import type { UnifiedTrack } from '@audiio/core';
+import type { NegativeFeedbackStore } from '../feedback/negative-feedback';
+
+const PLUGIN_ID = 'algo';
+
+export const negativeFeedbackTransformer: ResultTransformer = {
+  id: `${PLUGIN_ID}:negative-feedback`,
+  pluginId: PLUGIN_ID,
+  priority: 10, // Lowest priority - runs after everything else ranks
+  name: 'Negative Feedback',
+  description: 'Hides blocked tracks, artists and muted genres, and demotes tracks like ones you disliked',
+  enabledByDefault: true,
+
+  canTransform(_query: StructuredSectionQuery): boolean {
+    return !!negativeFeedbackInstance?.hasRules();
+  },
+
+  async transform(
+    results: UnifiedTrack[],
+    _context: PipelineContext
+  ): Promise<UnifiedTrack[]> {
+    const store = negativeFeedbackInstance;
+    if (!store) return results;
+
+    const allowed = await store.apply(results, track => ({
+      id: track.id,
+      artistIds: (track.artists ?? []).map((artist: { id: string }) => artist.id),
+      genres: track.genres ?? [],
+    }));
+
+    // Keep the incoming order, scaled down for suppressed tracks
+    return allowed
+      .map(({ track, verdict }, i) => ({
+        track,
+        score: (1 - i / allowed.length) * verdict.scoreFactor,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map(s => s.track);
+  },
+};
+
+// Singleton store instance
+let negativeFeedbackInstance: NegativeFeedbackStore | null = null;
+
+/**
+ * Set negative feedback store (called during plugin initialization)
+ */
+export function setNegativeFeedbackStore(store: NegativeFeedbackStore): void {
+  negativeFeedbackInstance = store;
+}
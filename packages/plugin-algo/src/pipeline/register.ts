@@ -10,21 +10,32 @@ import { lyricsTransformer, setLyricsProvider } from './lyrics-transformer';
 import {
   audioFeaturesTransformer,
   setEssentiaProvider as setAudioEssentiaProvider,
+  setHarmonicMixOptions as setAudioHarmonicMixOptions,
 } from './audio-features-transformer';
 import {
   sessionFlowTransformer,
   setEssentiaProvider as setFlowEssentiaProvider,
   setEmotionProvider as setFlowEmotionProvider,
+  setHarmonicMixOptions as setFlowHarmonicMixOptions,
+  setSessionFlowOptions,
+  type SessionFlowOptions,
 } from './session-flow-transformer';
+import {
+  negativeFeedbackTransformer,
+  setNegativeFeedbackStore,
+} from './negative-feedback-transformer';
 import { EmotionProvider } from '../providers/emotion/emotion-provider';
 import { LyricsProvider } from '../providers/lyrics/lyrics-provider';
 import { EssentiaProvider } from '../providers/essentia/essentia-provider';
+import type { HarmonicMixOptions } from '../mixing/harmonic-mix';
+import type { NegativeFeedbackStore } from '../feedback/negative-feedback';
 
 /**
  * Register all algorithm plugin pipeline hooks
  *
  * @param pipeline - The pipeline API from the app
  * @param providers - Provider instances to inject
+ * @param options - Transformer settings
  */
 export function registerAlgoPipelineHooks(
   pipeline: PluginPipelineAPI,
@@ -32,7 +43,12 @@ export function registerAlgoPipelineHooks(
     emotion?: EmotionProvider;
     lyrics?: LyricsProvider;
     essentia?: EssentiaProvider;
-  }
+    negativeFeedback?: NegativeFeedbackStore;
+  },
+  options: {
+    harmonicMix?: HarmonicMixOptions;
+    sessionFlow?: Partial<SessionFlowOptions>;
+  } = {}
 ): void {
   console.log('[AlgoPipeline] Registering pipeline hooks...');
 
@@ -54,8 +70,22 @@ export function registerAlgoPipelineHooks(
     console.log('[AlgoPipeline] Essentia provider injected');
   }
 
+  if (providers.negativeFeedback) {
+    setNegativeFeedbackStore(providers.negativeFeedback);
+    console.log('[AlgoPipeline] Negative feedback store injected');
+  }
+
+  if (options.harmonicMix) {
+    setHarmonicMixOptions(options.harmonicMix);
+  }
+
+  if (options.sessionFlow) {
+    setSessionFlowOptions(options.sessionFlow);
+  }
+
   // Register transformers
   const transformers = [
+    negativeFeedbackTransformer,
     emotionTransformer,
     lyricsTransformer,
     audioFeaturesTransformer,
@@ -79,6 +109,17 @@ export function registerAlgoPipelineHooks(
   );
 }
 
+export { setSessionFlowOptions, setNegativeFeedbackStore };
+
+/**
+ * Update harmonic mix options for the audio features and session flow transformers
+ */
+export function setHarmonicMixOptions(options: HarmonicMixOptions): void {
+  setAudioHarmonicMixOptions(options);
+  setFlowHarmonicMixOptions(options);
+  console.log(`[AlgoPipeline] Harmonic mixing ${options.enabled ? 'enabled' : 'disabled'}`);
+}
+
 /**
  * Unregister all algorithm plugin pipeline hooks
  */
@@ -2,7 +2,9 @@
  * Session Flow Transformer
  *
  * Optimizes track order for smooth energy and mood transitions.
- * Creates a natural flow that avoids jarring changes between tracks.
+ * Orders the whole list against a target energy curve within a time budget,
+ * so it avoids jarring changes between tracks without painting itself into a
+ * corner at the end.
  */
 
 import type {
@@ -14,6 +16,18 @@ import type { UnifiedTrack } from '@audiio/core';
 import type { AudioFeatures, EmotionFeatures } from '@audiio/ml-sdk';
 import { EssentiaProvider } from '../providers/essentia/essentia-provider';
 import { EmotionProvider } from '../providers/emotion/emotion-provider';
+import {
+  DEFAULT_HARMONIC_MIX,
+  getHarmonicTransitionCost,
+  type HarmonicMixOptions,
+} from '../mixing/harmonic-mix';
+import {
+  DEFAULT_SEQUENCE_OPTIONS,
+  buildTargetEnergyCurve,
+  optimizeSequence,
+  type EnergyCurveShape,
+  type SequenceOptimizerOptions,
+} from '../mixing/sequence-optimizer';
 
 const PLUGIN_ID = 'algo';
 
@@ -22,11 +36,18 @@ const MAX_ENERGY_JUMP = 0.4;
 const MAX_AROUSAL_JUMP = 0.35;
 const MAX_BPM_JUMP = 30;
 
+export interface SessionFlowOptions extends SequenceOptimizerOptions {
+  /** Shape of the target energy curve (default: warm-up -> peak -> cool-down) */
+  energyCurve: EnergyCurveShape;
+}
+
 interface TrackFeatures {
   track: UnifiedTrack;
   energy: number;
   arousal: number;
   bpm: number;
+  key?: string;
+  mode?: 'major' | 'minor';
 }
 
 export const sessionFlowTransformer: ResultTransformer = {
@@ -65,12 +86,16 @@ export const sessionFlowTransformer: ResultTransformer = {
       let energy = 0.5;
       let arousal = 0.5;
       let bpm = 120;
+      let key: string | undefined;
+      let mode: 'major' | 'minor' | undefined;
 
       // Get audio features
       if (essentiaProvider) {
         const audio = await essentiaProvider.getAudioFeatures(track.id);
         if (audio) {
           bpm = audio.bpm || 120;
+          key = audio.key;
+          mode = audio.mode;
           // Estimate energy from loudness and BPM
           energy = estimateEnergy(audio);
         }
@@ -86,7 +111,7 @@ export const sessionFlowTransformer: ResultTransformer = {
         }
       }
 
-      tracksWithFeatures.push({ track, energy, arousal, bpm });
+      tracksWithFeatures.push({ track, energy, arousal, bpm, key, mode });
     }
 
     // Optimize track order for flow
@@ -123,7 +148,7 @@ function estimateEnergy(audio: AudioFeatures): number {
 }
 
 /**
- * Optimize track order for smooth transitions
+ * Optimize track order for smooth transitions along a target energy curve
  */
 function optimizeFlow(
   tracks: TrackFeatures[],
@@ -132,111 +157,46 @@ function optimizeFlow(
   if (tracks.length <= 2) return tracks;
 
   // Determine target energy curve based on time of day
-  const hour = context.hour;
-  const targetCurve = getTargetEnergyCurve(hour, tracks.length);
-
-  // Use greedy algorithm to build optimal sequence
-  const result: TrackFeatures[] = [];
-  const remaining = [...tracks];
-
-  // Start with track closest to initial target energy
-  const firstTarget = targetCurve[0];
-  let bestFirst = 0;
-  let bestFirstDiff = Infinity;
-
-  for (let i = 0; i < remaining.length; i++) {
-    const diff = Math.abs(remaining[i].energy - firstTarget);
-    if (diff < bestFirstDiff) {
-      bestFirstDiff = diff;
-      bestFirst = i;
-    }
-  }
-
-  result.push(remaining.splice(bestFirst, 1)[0]);
-
-  // Greedily add tracks that minimize transition cost
-  while (remaining.length > 0) {
-    const last = result[result.length - 1];
-    const position = result.length;
-    const targetEnergy = targetCurve[Math.min(position, targetCurve.length - 1)];
-
-    let bestIdx = 0;
-    let bestScore = Infinity;
-
-    for (let i = 0; i < remaining.length; i++) {
-      const candidate = remaining[i];
-
-      // Calculate transition cost
-      const energyJump = Math.abs(candidate.energy - last.energy);
-      const arousalJump = Math.abs(candidate.arousal - last.arousal);
-      const bpmJump = Math.abs(candidate.bpm - last.bpm);
-
-      // Penalize jumps that exceed thresholds
-      let penalty = 0;
-      if (energyJump > MAX_ENERGY_JUMP) penalty += (energyJump - MAX_ENERGY_JUMP) * 2;
-      if (arousalJump > MAX_AROUSAL_JUMP) penalty += (arousalJump - MAX_AROUSAL_JUMP) * 2;
-      if (bpmJump > MAX_BPM_JUMP) penalty += (bpmJump - MAX_BPM_JUMP) / 30;
-
-      // Score includes target alignment and transition smoothness
-      const targetDiff = Math.abs(candidate.energy - targetEnergy);
-      const score = targetDiff * 0.5 + penalty;
-
-      if (score < bestScore) {
-        bestScore = score;
-        bestIdx = i;
-      }
-    }
+  const targetCurve = buildTargetEnergyCurve(context.hour, tracks.length, flowOptions.energyCurve);
 
-    result.push(remaining.splice(bestIdx, 1)[0]);
-  }
+  const result = optimizeSequence(
+    tracks.length,
+    (from, to) => getTransitionCost(tracks[from], tracks[to]),
+    (item, position) => Math.abs(tracks[item].energy - targetCurve[position]),
+    flowOptions
+  );
 
-  return result;
+  return result.order.map((i) => tracks[i]);
 }
 
 /**
- * Get target energy curve based on time of day and playlist length
+ * Cost of playing one track after another
  */
-function getTargetEnergyCurve(hour: number, length: number): number[] {
-  // Determine base energy level by time of day
-  let baseEnergy: number;
-  if (hour >= 6 && hour < 10) {
-    // Morning: start low, build up
-    baseEnergy = 0.4;
-  } else if (hour >= 10 && hour < 14) {
-    // Late morning/lunch: moderate-high
-    baseEnergy = 0.65;
-  } else if (hour >= 14 && hour < 18) {
-    // Afternoon: moderate
-    baseEnergy = 0.55;
-  } else if (hour >= 18 && hour < 22) {
-    // Evening: moderate-high, then taper
-    baseEnergy = 0.6;
-  } else {
-    // Night: low
-    baseEnergy = 0.35;
-  }
-
-  // Create curve that peaks in the middle third
-  const curve: number[] = [];
-  for (let i = 0; i < length; i++) {
-    const position = i / (length - 1); // 0 to 1
-
-    // Bell curve peaking at 0.4-0.6 position
-    const peakPosition = 0.5;
-    const peakWidth = 0.4;
-    const bellValue =
-      Math.exp(-Math.pow((position - peakPosition) / peakWidth, 2)) * 0.2;
-
-    const energy = baseEnergy + bellValue;
-    curve.push(Math.max(0.2, Math.min(0.9, energy)));
+function getTransitionCost(last: TrackFeatures, candidate: TrackFeatures): number {
+  const energyJump = Math.abs(candidate.energy - last.energy);
+  const arousalJump = Math.abs(candidate.arousal - last.arousal);
+  const bpmJump = Math.abs(candidate.bpm - last.bpm);
+
+  // Small cost for any change, steep penalty for jumps that exceed thresholds
+  let cost = (energyJump + arousalJump) * 0.25;
+  if (energyJump > MAX_ENERGY_JUMP) cost += (energyJump - MAX_ENERGY_JUMP) * 2;
+  if (arousalJump > MAX_AROUSAL_JUMP) cost += (arousalJump - MAX_AROUSAL_JUMP) * 2;
+
+  if (harmonicMix.enabled) {
+    // Key moves and pitch-shift tolerance replace the raw BPM limit
+    cost += getHarmonicTransitionCost(last, candidate, harmonicMix);
+  } else if (bpmJump > MAX_BPM_JUMP) {
+    cost += (bpmJump - MAX_BPM_JUMP) / 30;
   }
 
-  return curve;
+  return cost;
 }
 
 // Singleton provider instances
 let essentiaProviderInstance: EssentiaProvider | null = null;
 let emotionProviderInstance: EmotionProvider | null = null;
+let harmonicMix: HarmonicMixOptions = DEFAULT_HARMONIC_MIX;
+let flowOptions: SessionFlowOptions = { ...DEFAULT_SEQUENCE_OPTIONS, energyCurve: 'arc' };
 
 function getEssentiaProvider(): EssentiaProvider | null {
   return essentiaProviderInstance;
@@ -253,3 +213,11 @@ export function setEssentiaProvider(provider: EssentiaProvider): void {
 export function setEmotionProvider(provider: EmotionProvider): void {
   emotionProviderInstance = provider;
 }
+
+export function setHarmonicMixOptions(options: HarmonicMixOptions): void {
+  harmonicMix = options;
+}
+
+export function setSessionFlowOptions(options: Partial<SessionFlowOptions>): void {
+  flowOptions = { ...flowOptions, ...options };
+}
@@ -0,0 +1,557 @@
+/**
+ * History Bootstrap - Cold start from imported listening history
+ *
+ * Turns listening history imported from another service (e.g. a Spotify
+ * export read by Sposify) into training samples, artist and genre
+ * affinities and an energy-by-hour curve. These are layered over a
+ * profile's `endpoints.user` and `endpoints.training`, so a new listener's
+ * scorer and model start from their past listening instead of neutral
+ * preferences.
+ */
+
+import type {
+  MLCoreEndpoints,
+  Track,
+  TrainingDataset,
+  UserPreferences,
+  TemporalPatterns,
+} from '@audiio/ml-sdk';
+import { buildFeatureVector, DEFAULT_ENERGY_CURVE } from '@audiio/ml-sdk';
+import {
+  EVENT_WEIGHTS,
+  TOP_LIMIT,
+  addEvidence,
+  affinity,
+  topEntries,
+  type AffinityStats,
+} from './profile-history';
+
+type TrainingSample = TrainingDataset['positive'][number];
+
+/**
+ * One play from an imported history
+ */
+export interface ImportedListen {
+  track: Track;
+  /** When playback ended (epoch ms) */
+  timestamp: number;
+  msPlayed: number;
+  /** Length of the track in ms, for the completion ratio */
+  totalMs?: number;
+  skipped?: boolean;
+  /** The track is among the user's saved tracks */
+  liked?: boolean;
+  /** Audio energy (0-1), when the importer knows it */
+  energy?: number;
+}
+
+export interface ImportedHistory {
+  listens: ImportedListen[];
+  /** Saved tracks, including ones never played */
+  likedTracks?: Track[];
+}
+
+export interface BootstrapSummary {
+  importedAt: number;
+  listens: number;
+  tracks: number;
+  samples: { positive: number; negative: number; partial: number };
+  topArtists: number;
+  topGenres: number;
+  /** Whether a model has been trained since the last import */
+  trained: boolean;
+}
+
+interface StoredListen {
+  trackId: string;
+  timestamp: number;
+  /** Share of the track played, 0-1 */
+  completion: number;
+  skipped: boolean;
+}
+
+interface BootstrapState {
+  version: number;
+  importedAt: number;
+  trained: boolean;
+  tracks: Record<string, Track>;
+  liked: string[];
+  energy: Record<string, number>;
+  /** Oldest first */
+  listens: StoredListen[];
+}
+
+const STORAGE_KEY = 'history-bootstrap';
+const STATE_VERSION = 1;
+
+// Plays shorter than this count as skips (Spotify's own stream threshold)
+const MIN_LISTEN_MS = 30000;
+// Share of a track played that counts as listened through
+const COMPLETED_RATIO = 0.8;
+// Listens kept; the oldest are dropped past this
+const MAX_LISTENS = 50000;
+// Most recent listens turned into training samples
+const MAX_SAMPLES = 5000;
+// Tracks whose energy is looked up from features when the importer gave none
+const MAX_ENERGY_LOOKUPS = 500;
+// Listens needed in an hour before its imported energy is used
+const MIN_HOUR_LISTENS = 5;
+
+export class HistoryBootstrap {
+  private endpoints: MLCoreEndpoints;
+  private state: BootstrapState | null = null;
+
+  // Derived from the stored listens
+  private artists: Record<string, AffinityStats> = {};
+  private genres: Record<string, AffinityStats> = {};
+  private energyByHour: Array<{ sum: number; count: number }> = createHours();
+  private lastPlayed = new Map<string, number>();
+
+  /**
+   * @param endpoints - Profile-scoped endpoints (storage is already prefixed)
+   */
+  constructor(endpoints: MLCoreEndpoints) {
+    this.endpoints = endpoints;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const state: BootstrapState | null = await this.endpoints.storage.get<BootstrapState>(STORAGE_KEY);
+      if (state && state.version === STATE_VERSION) {
+        this.state = state;
+        this.derive();
+      }
+    } catch (error) {
+      console.error('[HistoryBootstrap] Failed to load imported history:', error);
+    }
+  }
+
+  /**
+   * Add imported listens. Listens already imported (same track and time)
+   * are ignored, so importing the same export twice is harmless.
+   */
+  async import(history: ImportedHistory): Promise<BootstrapSummary> {
+    const state: BootstrapState = this.state ?? {
+      version: STATE_VERSION,
+      importedAt: 0,
+      trained: false,
+      tracks: {},
+      liked: [],
+      energy: {},
+      listens: [],
+    };
+
+    const seen = new Set(state.listens.map(listenKey));
+    const liked = new Set(state.liked);
+    const before = { listens: state.listens.length, liked: liked.size };
+
+    for (const listen of history.listens) {
+      if (!listen.track?.id || !Number.isFinite(listen.timestamp)) continue;
+
+      const stored: StoredListen = {
+        trackId: listen.track.id,
+        timestamp: listen.timestamp,
+        completion: completionOf(listen),
+        skipped: !!listen.skipped || listen.msPlayed < MIN_LISTEN_MS,
+      };
+      if (seen.has(listenKey(stored))) continue;
+      seen.add(listenKey(stored));
+
+      state.listens.push(stored);
+      state.tracks[listen.track.id] = listen.track;
+      if (listen.liked) liked.add(listen.track.id);
+      if (listen.energy !== undefined) state.energy[listen.track.id] = listen.energy;
+    }
+
+    for (const track of history.likedTracks ?? []) {
+      state.tracks[track.id] = track;
+      liked.add(track.id);
+    }
+
+    // Anything new needs a training run before it reaches the model
+    if (state.listens.length > before.listens || liked.size > before.liked) {
+      state.trained = false;
+    }
+
+    state.listens.sort((a, b) => a.timestamp - b.timestamp);
+    state.listens = state.listens.slice(-MAX_LISTENS);
+    state.liked = [...liked];
+    state.importedAt = Date.now();
+    pruneTracks(state);
+
+    await this.lookupEnergy(state);
+
+    this.state = state;
+    this.derive();
+    await this.save();
+
+    const summary = this.getSummary()!;
+    console.log(
+      `[HistoryBootstrap] Imported ${summary.listens} listens of ${summary.tracks} tracks`
+    );
+    return summary;
+  }
+
+  /**
+   * What has been imported, or null before the first import
+   */
+  getSummary(): BootstrapSummary | null {
+    if (!this.state) return null;
+
+    const liked = new Set(this.state.liked);
+    const played = new Set<string>();
+    const samples = { positive: 0, negative: 0, partial: 0 };
+    this.state.listens.forEach((listen, i) => {
+      played.add(listen.trackId);
+      if (i >= this.state!.listens.length - MAX_SAMPLES) {
+        samples[classify(listen, liked.has(listen.trackId))]++;
+      }
+    });
+    samples.positive += [...liked].filter(trackId => !played.has(trackId)).length;
+
+    return {
+      importedAt: this.state.importedAt,
+      listens: this.state.listens.length,
+      tracks: Object.keys(this.state.tracks).length,
+      samples,
+      topArtists: topEntries(this.artists).length,
+      topGenres: topEntries(this.genres).length,
+      trained: this.state.trained,
+    };
+  }
+
+  /**
+   * Forget all imported history
+   */
+  async clear(): Promise<void> {
+    this.state = null;
+    this.derive();
+    await this.endpoints.storage.set(STORAGE_KEY, null);
+  }
+
+  /**
+   * `endpoints.user` with imported affinities, last-played times and
+   * energy curve blended into the host's answers
+   */
+  createUserEndpoint(base: MLCoreEndpoints['user']): MLCoreEndpoints['user'] {
+    return {
+      ...base,
+      getArtistAffinity: async (artistId: string) =>
+        blendAffinity(await base.getArtistAffinity(artistId), this.artists[artistId]),
+      getGenreAffinity: async (genre: string) =>
+        blendAffinity(await base.getGenreAffinity(genre), this.genres[genre]),
+      getLastPlayed: async (trackId: string) =>
+        (await base.getLastPlayed(trackId)) ?? this.lastPlayed.get(trackId) ?? null,
+      getPreferences: async () => {
+        const preferences: UserPreferences = await base.getPreferences();
+        if (!this.state) return preferences;
+
+        return {
+          ...preferences,
+          topArtists: mergeTop(
+            preferences.topArtists,
+            topEntries(this.artists).map(([artistId, stats]) => ({
+              artistId,
+              affinity: affinity(stats),
+              playCount: stats.plays,
+            })),
+            entry => entry.artistId
+          ),
+          topGenres: mergeTop(
+            preferences.topGenres,
+            topEntries(this.genres).map(([genre, stats]) => ({
+              genre,
+              affinity: affinity(stats),
+              playCount: stats.plays,
+            })),
+            entry => entry.genre
+          ),
+        } as UserPreferences;
+      },
+      getTemporalPatterns: async () => {
+        const patterns: TemporalPatterns = await base.getTemporalPatterns();
+        if (!this.state) return patterns;
+
+        const current = (patterns.energyByHour ?? DEFAULT_ENERGY_CURVE) as ArrayLike<number>;
+        return {
+          ...patterns,
+          energyByHour: this.energyByHour.map((hour, i) =>
+            hour.count >= MIN_HOUR_LISTENS ? (current[i] + hour.sum / hour.count) / 2 : current[i]
+          ),
+        } as TemporalPatterns;
+      },
+    };
+  }
+
+  /**
+   * `endpoints.training` with imported samples added to the dataset. Until
+   * a model has been trained on them, they count as new events.
+   */
+  createTrainingEndpoint(base: MLCoreEndpoints['training']): MLCoreEndpoints['training'] {
+    return {
+      ...base,
+      getFullDataset: async () => {
+        const dataset: TrainingDataset = await base.getFullDataset();
+        if (!this.state) return dataset;
+
+        const imported = this.buildDataset();
+        // The host may have recorded the same plays when the import ran
+        const hostKeys = new Set(
+          [...dataset.positive, ...dataset.negative, ...dataset.partial]
+            .map(sample => sampleKey(sample))
+            .filter((key): key is string => key !== null)
+        );
+        const fresh = (sample: TrainingSample) => {
+          const key = sampleKey(sample);
+          return key === null || !hostKeys.has(key);
+        };
+
+        return {
+          ...dataset,
+          positive: [...imported.positive.filter(fresh), ...dataset.positive],
+          negative: [...imported.negative.filter(fresh), ...dataset.negative],
+          partial: [...imported.partial.filter(fresh), ...dataset.partial],
+        };
+      },
+      getNewEventCount: async () => {
+        const count: number = await base.getNewEventCount();
+        if (!this.state || this.state.trained) return count;
+        return count + Math.min(this.state.listens.length, MAX_SAMPLES);
+      },
+      markTrainingComplete: async (version: number) => {
+        await base.markTrainingComplete(version);
+        if (this.state && !this.state.trained) {
+          this.state.trained = true;
+          await this.save();
+        }
+      },
+    };
+  }
+
+  /**
+   * Training samples for the most recent listens, plus saved tracks never
+   * played. Each sample's play statistics only count earlier listens.
+   */
+  private buildDataset(): Pick<TrainingDataset, 'positive' | 'negative' | 'partial'> {
+    const dataset = {
+      positive: [] as TrainingSample[],
+      negative: [] as TrainingSample[],
+      partial: [] as TrainingSample[],
+    };
+    if (!this.state) return dataset;
+
+    const { listens, tracks } = this.state;
+    const liked = new Set(this.state.liked);
+    const trackStats = new Map<string, { plays: number; skips: number; completion: number }>();
+    const artists: Record<string, AffinityStats> = {};
+    const genres: Record<string, AffinityStats> = {};
+    const firstSample = Math.max(0, listens.length - MAX_SAMPLES);
+
+    listens.forEach((listen, i) => {
+      const track = tracks[listen.trackId];
+      if (!track) return;
+
+      const stats = trackStats.get(listen.trackId) ?? { plays: 0, skips: 0, completion: 0 };
+
+      if (i >= firstSample) {
+        const date = new Date(listen.timestamp);
+        const features = buildFeatureVector(
+          track,
+          undefined,
+          {
+            hourOfDay: date.getHours(),
+            dayOfWeek: date.getDay(),
+            isWeekend: [0, 6].includes(date.getDay()),
+          },
+          {
+            playCount: stats.plays,
+            skipRatio: stats.plays > 0 ? stats.skips / stats.plays : 0,
+            completionRatio: stats.plays > 0 ? stats.completion / stats.plays : 0.5,
+            artistAffinity: affinity(artists[track.artistId ?? '']),
+            genreAffinity: affinity(genres[track.genre ?? '']),
+          }
+        );
+
+        const bucket = classify(listen, liked.has(listen.trackId));
+        const label = bucket === 'positive' ? 1 : bucket === 'negative' ? 0 : listen.completion;
+        dataset[bucket].push({ track, features, label, timestamp: listen.timestamp } as TrainingSample);
+      }
+
+      stats.plays++;
+      stats.completion += listen.completion;
+      if (listen.skipped) stats.skips++;
+      trackStats.set(listen.trackId, stats);
+      addListenEvidence(artists, genres, track, listen);
+    });
+
+    // Saved tracks that were never played
+    for (const trackId of liked) {
+      const track = tracks[trackId];
+      if (!track || trackStats.has(trackId)) continue;
+
+      const features = buildFeatureVector(
+        track,
+        undefined,
+        { hourOfDay: 12, dayOfWeek: 0, isWeekend: true },
+        {
+          playCount: 0,
+          skipRatio: 0,
+          completionRatio: 0.5,
+          artistAffinity: affinity(artists[track.artistId ?? '']),
+          genreAffinity: affinity(genres[track.genre ?? '']),
+        }
+      );
+      dataset.positive.push({ track, features, label: 1 } as TrainingSample);
+    }
+
+    return dataset;
+  }
+
+  /**
+   * Recompute affinities, the energy curve and last-played times
+   */
+  private derive(): void {
+    this.artists = {};
+    this.genres = {};
+    this.energyByHour = createHours();
+    this.lastPlayed.clear();
+    if (!this.state) return;
+
+    const { tracks, energy } = this.state;
+
+    for (const listen of this.state.listens) {
+      const track = tracks[listen.trackId];
+      if (!track) continue;
+
+      addListenEvidence(this.artists, this.genres, track, listen);
+      this.lastPlayed.set(listen.trackId, listen.timestamp);
+
+      const trackEnergy = energy[listen.trackId];
+      if (!listen.skipped && trackEnergy !== undefined) {
+        const hour = this.energyByHour[new Date(listen.timestamp).getHours()];
+        hour.sum += trackEnergy;
+        hour.count++;
+      }
+    }
+
+    for (const trackId of this.state.liked) {
+      const track = tracks[trackId];
+      if (!track) continue;
+      if (track.artistId) addEvidence(this.artists, track.artistId, EVENT_WEIGHTS.like, 0, 0);
+      if (track.genre) addEvidence(this.genres, track.genre, EVENT_WEIGHTS.like, 0, 0);
+    }
+  }
+
+  /**
+   * Fill in energy for the most played tracks the importer gave none for
+   */
+  private async lookupEnergy(state: BootstrapState): Promise<void> {
+    const plays = new Map<string, number>();
+    for (const listen of state.listens) {
+      if (!listen.skipped && state.energy[listen.trackId] === undefined) {
+        plays.set(listen.trackId, (plays.get(listen.trackId) ?? 0) + 1);
+      }
+    }
+
+    const trackIds = [...plays.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_ENERGY_LOOKUPS)
+      .map(([trackId]) => trackId);
+
+    for (const trackId of trackIds) {
+      try {
+        const audio = await this.endpoints.features.getAudio(trackId);
+        if (audio?.energy !== undefined) state.energy[trackId] = audio.energy;
+      } catch {
+        // Tracks without features just leave their hour out of the curve
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.endpoints.storage.set(STORAGE_KEY, this.state);
+    } catch (error) {
+      console.error('[HistoryBootstrap] Failed to save imported history:', error);
+    }
+  }
+}
+
+function createHours(): Array<{ sum: number; count: number }> {
+  return Array.from({ length: 24 }, () => ({ sum: 0, count: 0 }));
+}
+
+function listenKey(listen: { trackId: string; timestamp: number }): string {
+  return `${listen.trackId}@${listen.timestamp}`;
+}
+
+function sampleKey(sample: TrainingSample): string | null {
+  const timestamp = (sample as { timestamp?: number }).timestamp;
+  return timestamp !== undefined ? listenKey({ trackId: sample.track.id, timestamp }) : null;
+}
+
+/**
+ * Share of the track played. Without a known length, a play past the skip
+ * threshold counts as listened through.
+ */
+function completionOf(listen: ImportedListen): number {
+  if (listen.totalMs && listen.totalMs > 0) {
+    return Math.min(1, Math.max(0, listen.msPlayed / listen.totalMs));
+  }
+  return listen.msPlayed >= MIN_LISTEN_MS ? 1 : 0;
+}
+
+function classify(listen: StoredListen, liked: boolean): 'positive' | 'negative' | 'partial' {
+  if (listen.skipped) return 'negative';
+  if (liked || listen.completion >= COMPLETED_RATIO) return 'positive';
+  return 'partial';
+}
+
+function addListenEvidence(
+  artists: Record<string, AffinityStats>,
+  genres: Record<string, AffinityStats>,
+  track: Track,
+  listen: StoredListen
+): void {
+  const positive = !listen.skipped && listen.completion >= COMPLETED_RATIO ? EVENT_WEIGHTS.completed : 0;
+  const negative = listen.skipped ? EVENT_WEIGHTS.skip : 0;
+
+  if (track.artistId) addEvidence(artists, track.artistId, positive, negative, 1);
+  if (track.genre) addEvidence(genres, track.genre, positive, negative, 1);
+}
+
+/**
+ * Imported evidence stands in while the host has none and is averaged in
+ * once it does
+ */
+function blendAffinity(host: number, imported: AffinityStats | undefined): number {
+  if (!imported) return host;
+  return host === 0 ? affinity(imported) : (host + affinity(imported)) / 2;
+}
+
+/**
+ * Host entries plus imported ones the host does not list, by affinity
+ */
+function mergeTop<T extends { affinity: number }>(
+  host: T[] | undefined,
+  imported: T[],
+  keyOf: (entry: T) => string
+): T[] {
+  const listed = new Set((host ?? []).map(keyOf));
+  return [...(host ?? []), ...imported.filter(entry => !listed.has(keyOf(entry)))]
+    .sort((a, b) => b.affinity - a.affinity)
+    .slice(0, TOP_LIMIT);
+}
+
+/**
+ * Drop tracks no stored listen or saved track refers to
+ */
+function pruneTracks(state: BootstrapState): void {
+  const used = new Set([...state.listens.map(listen => listen.trackId), ...state.liked]);
+  for (const trackId of Object.keys(state.tracks)) {
+    if (!used.has(trackId)) {
+      delete state.tracks[trackId];
+      delete state.energy[trackId];
+    }
+  }
+}
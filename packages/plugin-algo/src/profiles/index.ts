@@ -0,0 +1,14 @@
+/**
+ * Listener profiles
+ */
+
+export { ProfileManager, DEFAULT_PROFILE_ID } from './profile-manager';
+export type {
+  ListenerProfile,
+  ProfileMode,
+  ProfileSession,
+  GroupStrategy,
+} from './profile-manager';
+export { ProfileHistory } from './profile-history';
+export { HistoryBootstrap } from './history-bootstrap';
+export type { ImportedListen, ImportedHistory, BootstrapSummary } from './history-bootstrap';
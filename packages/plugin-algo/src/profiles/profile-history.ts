@@ -0,0 +1,441 @@
+/**
+ * Profile History - Listening history of one listener profile
+ *
+ * The host app keeps a single household history behind `endpoints.user` and
+ * `endpoints.training`, with events of every listener and guest. For every
+ * profile, this class records the profile's own events and answers those
+ * endpoints from them, so each profile's scorer and model only learn from
+ * its listener.
+ *
+ * The default profile inherits the household history recorded before it
+ * had a history of its own: on a single-user install that history is its
+ * listener's. It falls back to the household data for anything its own
+ * history has not seen, and trains on the household samples that predate it.
+ */
+
+import type {
+  MLCoreEndpoints,
+  Track,
+  UserEvent,
+  UserPreferences,
+  TemporalPatterns,
+  TrainingDataset,
+} from '@audiio/ml-sdk';
+import { DEFAULT_ENERGY_CURVE } from '@audiio/ml-sdk';
+import type { TimedTrainingSample } from '../training/evaluator';
+
+export interface AffinityStats {
+  positive: number;
+  negative: number;
+  plays: number;
+}
+
+interface TrackStats {
+  artistId?: string;
+  lastPlayed?: number;
+  dislikedAt?: number;
+  dislikeReason?: string;
+}
+
+type SampleBucket = 'positive' | 'negative' | 'partial';
+type TrainingSample = TrainingDataset['positive'][number];
+
+/** A recorded event, in the training bucket its sample lands in */
+interface EventRecord {
+  trackId: string;
+  bucket: SampleBucket;
+  timestamp: number;
+}
+
+/** Household history the default profile inherited */
+interface HouseholdHistory {
+  /** When the profile's own history started */
+  until: number;
+  /** Household training samples per bucket at that time */
+  samples: Record<SampleBucket, number>;
+}
+
+interface HistoryState {
+  version: number;
+  artists: Record<string, AffinityStats>;
+  genres: Record<string, AffinityStats>;
+  tracks: Record<string, TrackStats>;
+  /** Events that produce training samples, oldest first */
+  events: EventRecord[];
+  /** Energy sum and listen count per hour of day */
+  energyByHour: Array<{ sum: number; count: number }>;
+  eventsSinceTraining: number;
+  lastTraining: { timestamp: number; version: number } | null;
+  household: HouseholdHistory | null;
+}
+
+const STORAGE_KEY = 'history';
+const STATE_VERSION = 2;
+
+// Evidence weights per event type
+export const EVENT_WEIGHTS = {
+  like: 2,
+  completed: 1,
+  skip: 1,
+  dislike: 2,
+};
+// Pseudo-count keeping affinity near 0 until there is evidence
+const AFFINITY_PRIOR = 3;
+export const TOP_LIMIT = 20;
+const MAX_TRACKS = 5000;
+const MAX_EVENTS = 20000;
+// Coalesce writes of the history while music plays
+const SAVE_DELAY_MS = 5000;
+
+export class ProfileHistory {
+  private endpoints: MLCoreEndpoints;
+  private inheritHousehold: boolean;
+  private state: HistoryState = createState();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param endpoints - Profile-scoped endpoints (storage is already prefixed)
+   * @param inheritHousehold - Take over the household history recorded so
+   *   far when no history is stored yet (the default profile)
+   */
+  constructor(endpoints: MLCoreEndpoints, inheritHousehold = false) {
+    this.endpoints = endpoints;
+    this.inheritHousehold = inheritHousehold;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const state: HistoryState | null = await this.endpoints.storage.get<HistoryState>(STORAGE_KEY);
+      if (state?.version === 1) {
+        // Version 1 kept no event log; events recorded from now on are
+        this.state = { ...state, version: STATE_VERSION, events: [], household: null };
+      } else if (state && state.version === STATE_VERSION) {
+        this.state = { ...state, household: state.household ?? null };
+      } else if (!state && this.inheritHousehold) {
+        await this.adoptHousehold();
+      }
+    } catch (error) {
+      console.error('[ProfileHistory] Failed to load history:', error);
+    }
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  /**
+   * Record a user event for this profile
+   *
+   * @param energy - Audio energy of the event's track, if known
+   */
+  async record(event: UserEvent, energy?: number): Promise<void> {
+    if (!('track' in event)) return;
+
+    const track: Track = event.track;
+    const now = Date.now();
+    const stats = (this.state.tracks[track.id] ??= {});
+    stats.artistId = track.artistId;
+
+    let positive = 0;
+    let negative = 0;
+    let bucket: SampleBucket;
+
+    switch (event.type) {
+      case 'like':
+        positive = EVENT_WEIGHTS.like;
+        bucket = 'positive';
+        delete stats.dislikedAt;
+        delete stats.dislikeReason;
+        break;
+      case 'listen':
+        stats.lastPlayed = now;
+        if (event.completed) positive = EVENT_WEIGHTS.completed;
+        bucket = event.completed ? 'positive' : 'partial';
+        if (energy !== undefined) {
+          const hour = this.state.energyByHour[new Date(now).getHours()];
+          hour.sum += energy;
+          hour.count++;
+        }
+        break;
+      case 'skip':
+        stats.lastPlayed = now;
+        negative = EVENT_WEIGHTS.skip;
+        bucket = 'negative';
+        break;
+      case 'dislike':
+        negative = EVENT_WEIGHTS.dislike;
+        bucket = 'negative';
+        stats.dislikedAt = now;
+        stats.dislikeReason = (event as { reason?: string }).reason;
+        break;
+      default:
+        return;
+    }
+
+    const plays = event.type === 'listen' || event.type === 'skip' ? 1 : 0;
+    if (track.artistId) addEvidence(this.state.artists, track.artistId, positive, negative, plays);
+    if (track.genre) addEvidence(this.state.genres, track.genre, positive, negative, plays);
+
+    this.state.events.push({ trackId: track.id, bucket, timestamp: now });
+    if (this.state.events.length > MAX_EVENTS) {
+      this.state.events.splice(0, this.state.events.length - MAX_EVENTS);
+    }
+
+    this.state.eventsSinceTraining++;
+    this.pruneTracks();
+    this.scheduleSave();
+  }
+
+  /**
+   * `endpoints.user` answered from this profile's history. Fields the
+   * history does not track fall back to the household data, as does
+   * anything an inherited household history knows and the profile's own
+   * history has not seen.
+   */
+  createUserEndpoint(base: MLCoreEndpoints['user']): MLCoreEndpoints['user'] {
+    return {
+      ...base,
+      getArtistAffinity: async (artistId: string) => {
+        const own = this.state.artists[artistId];
+        return own || !this.state.household ? affinity(own) : base.getArtistAffinity(artistId);
+      },
+      getGenreAffinity: async (genre: string) => {
+        const own = this.state.genres[genre];
+        return own || !this.state.household ? affinity(own) : base.getGenreAffinity(genre);
+      },
+      getLastPlayed: async (trackId: string) => {
+        const own = this.state.tracks[trackId]?.lastPlayed;
+        if (own !== undefined || !this.state.household) return own ?? null;
+
+        const household = await base.getLastPlayed(trackId);
+        return household !== null && household <= this.state.household.until ? household : null;
+      },
+      getDislikedTracks: async () => {
+        const own = Object.entries(this.state.tracks)
+          .filter(([, stats]) => stats.dislikedAt !== undefined)
+          .map(([trackId, stats]) => ({
+            trackId,
+            artistId: stats.artistId,
+            reason: stats.dislikeReason,
+            timestamp: stats.dislikedAt,
+          }));
+        const household = this.state.household;
+        if (!household) return own;
+
+        // Inherited dislikes, unless the profile has played the track since
+        const inherited = (await base.getDislikedTracks()).filter((dislike: { trackId: string; timestamp?: number }) =>
+          !this.state.tracks[dislike.trackId] &&
+          (dislike.timestamp === undefined || dislike.timestamp <= household.until)
+        );
+        return [...own, ...inherited];
+      },
+      getPreferences: async () => {
+        const household: UserPreferences = await base.getPreferences();
+        const topArtists = topEntries(this.state.artists).map(([artistId, stats]) => ({
+          artistId,
+          affinity: affinity(stats),
+          playCount: stats.plays,
+        }));
+        const topGenres = topEntries(this.state.genres).map(([genre, stats]) => ({
+          genre,
+          affinity: affinity(stats),
+          playCount: stats.plays,
+        }));
+
+        return {
+          ...household,
+          topArtists: this.state.household
+            ? withInherited(topArtists, household.topArtists, entry => entry.artistId)
+            : topArtists,
+          topGenres: this.state.household
+            ? withInherited(topGenres, household.topGenres, entry => entry.genre)
+            : topGenres,
+        } as UserPreferences;
+      },
+      getTemporalPatterns: async () => {
+        const household: TemporalPatterns = await base.getTemporalPatterns();
+        const fallback = (this.state.household && household.energyByHour
+          ? household.energyByHour
+          : DEFAULT_ENERGY_CURVE) as ArrayLike<number>;
+        return {
+          ...household,
+          energyByHour: this.state.energyByHour.map((hour, i) =>
+            hour.count > 0 ? hour.sum / hour.count : fallback[i]
+          ),
+        } as TemporalPatterns;
+      },
+    };
+  }
+
+  /**
+   * `endpoints.training` limited to the samples this profile's recorded
+   * events produced, each carrying its event time, after any inherited
+   * household samples (which have no time)
+   */
+  createTrainingEndpoint(base: MLCoreEndpoints['training']): MLCoreEndpoints['training'] {
+    return {
+      ...base,
+      getFullDataset: async () => {
+        const dataset: TrainingDataset = await base.getFullDataset();
+        return {
+          ...dataset,
+          positive: this.profileSamples(dataset.positive, 'positive'),
+          negative: this.profileSamples(dataset.negative, 'negative'),
+          partial: this.profileSamples(dataset.partial, 'partial'),
+        };
+      },
+      getNewEventCount: async () => this.state.eventsSinceTraining,
+      getLastTrainingInfo: async () => this.state.lastTraining,
+      markTrainingComplete: async (version: number) => {
+        this.state.eventsSinceTraining = 0;
+        this.state.lastTraining = { timestamp: Date.now(), version };
+        if (this.saveTimer) {
+          clearTimeout(this.saveTimer);
+          this.saveTimer = null;
+        }
+        await this.save();
+      },
+    };
+  }
+
+  /**
+   * Take over the household history recorded until now. The host keeps
+   * samples in event order, so the samples there are now stay the first
+   * ones of each bucket.
+   */
+  private async adoptHousehold(): Promise<void> {
+    const dataset: TrainingDataset = await this.endpoints.training.getFullDataset();
+    this.state.household = {
+      until: Date.now(),
+      samples: {
+        positive: dataset.positive.length,
+        negative: dataset.negative.length,
+        partial: dataset.partial.length,
+      },
+    };
+    await this.save();
+    console.log('[ProfileHistory] Inherited the household history');
+  }
+
+  /**
+   * Inherited household samples of a bucket, then the profile's own
+   */
+  private profileSamples(samples: TrainingSample[], bucket: SampleBucket): TimedTrainingSample[] {
+    const inherited = this.state.household?.samples[bucket] ?? 0;
+    return [
+      ...samples.slice(0, inherited),
+      ...this.ownSamples(samples.slice(inherited), bucket),
+    ];
+  }
+
+  /**
+   * Household samples produced by this profile's events, stamped with the
+   * event time. Samples are paired with this profile's events of the same
+   * track and bucket; the host keeps samples in event order, so a track's
+   * newest samples are paired with its newest events. Samples left over
+   * came from other listeners.
+   */
+  private ownSamples(samples: TrainingSample[], bucket: SampleBucket): TimedTrainingSample[] {
+    const times = new Map<string, number[]>();
+    for (const event of this.state.events) {
+      if (event.bucket !== bucket) continue;
+      const list = times.get(event.trackId);
+      if (list) list.push(event.timestamp);
+      else times.set(event.trackId, [event.timestamp]);
+    }
+
+    const own: TimedTrainingSample[] = [];
+    for (let i = samples.length - 1; i >= 0; i--) {
+      const timestamp = times.get(samples[i].track.id)?.pop();
+      if (timestamp !== undefined) own.push({ ...samples[i], timestamp });
+    }
+    return own.reverse();
+  }
+
+  private pruneTracks(): void {
+    const ids = Object.keys(this.state.tracks);
+    if (ids.length <= MAX_TRACKS) return;
+
+    // Forget the longest-unplayed tracks, keeping dislikes
+    const evictable = ids
+      .filter(id => this.state.tracks[id].dislikedAt === undefined)
+      .sort((a, b) => (this.state.tracks[a].lastPlayed ?? 0) - (this.state.tracks[b].lastPlayed ?? 0));
+
+    for (const id of evictable.slice(0, ids.length - MAX_TRACKS)) {
+      delete this.state.tracks[id];
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.endpoints.storage.set(STORAGE_KEY, this.state);
+    } catch (error) {
+      console.error('[ProfileHistory] Failed to save history:', error);
+    }
+  }
+}
+
+function createState(): HistoryState {
+  return {
+    version: STATE_VERSION,
+    artists: {},
+    genres: {},
+    tracks: {},
+    events: [],
+    energyByHour: Array.from({ length: 24 }, () => ({ sum: 0, count: 0 })),
+    eventsSinceTraining: 0,
+    lastTraining: null,
+    household: null,
+  };
+}
+
+export function addEvidence(
+  table: Record<string, AffinityStats>,
+  key: string,
+  positive: number,
+  negative: number,
+  plays: number
+): void {
+  const stats = (table[key] ??= { positive: 0, negative: 0, plays: 0 });
+  stats.positive += positive;
+  stats.negative += negative;
+  stats.plays += plays;
+}
+
+/**
+ * Affinity from -1 to 1, shrunk towards 0 while evidence is thin
+ */
+export function affinity(stats: AffinityStats | undefined): number {
+  if (!stats) return 0;
+  return (stats.positive - stats.negative) / (stats.positive + stats.negative + AFFINITY_PRIOR);
+}
+
+/**
+ * Own top entries, then inherited ones the profile has no entry for
+ */
+function withInherited<T>(own: T[], inherited: T[] | undefined, key: (entry: T) => string): T[] {
+  const seen = new Set(own.map(key));
+  return [...own, ...(inherited ?? []).filter(entry => !seen.has(key(entry)))].slice(0, TOP_LIMIT);
+}
+
+export function topEntries(table: Record<string, AffinityStats>): Array<[string, AffinityStats]> {
+  return Object.entries(table)
+    .filter(([, stats]) => affinity(stats) > 0)
+    .sort((a, b) => affinity(b[1]) - affinity(a[1]))
+    .slice(0, TOP_LIMIT);
+}
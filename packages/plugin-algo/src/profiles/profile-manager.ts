@@ -0,0 +1,226 @@
+/**
+ * Profile Manager - Listener profiles for shared devices
+ *
+ * Each profile gets its own storage namespace, so preference caches, the
+ * exploration bandit, the neural model and its training history are kept
+ * apart. The default profile uses the unprefixed storage, so models trained
+ * before profiles existed carry over. Every profile learns only from the
+ * events recorded for it, not from the household history the host keeps for
+ * all listeners; the default profile also inherits the household history
+ * recorded before its own began (see ProfileHistory). Content indexes
+ * (embeddings, fingerprints, audio analysis) describe tracks rather than
+ * listeners and stay shared.
+ */
+
+import type { MLCoreEndpoints } from '@audiio/ml-sdk';
+import { ProfileHistory } from './profile-history';
+
+export interface ListenerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/**
+ * - `single`: one active profile learns from what is played
+ * - `guest`: recommendations from the primary profile, nothing is recorded
+ * - `group`: tracks are scored for every active profile and combined
+ */
+export type ProfileMode = 'single' | 'guest' | 'group';
+
+/**
+ * How group mode combines the scores of active profiles
+ */
+export type GroupStrategy = 'min' | 'average';
+
+export interface ProfileSession {
+  mode: ProfileMode;
+  /** Active profiles; the first is the primary profile */
+  activeProfileIds: string[];
+  groupStrategy: GroupStrategy;
+}
+
+interface ProfileState {
+  profiles: ListenerProfile[];
+  session: ProfileSession;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+const STORAGE_KEY = 'profiles';
+
+export class ProfileManager {
+  private endpoints: MLCoreEndpoints;
+  private profiles = new Map<string, ListenerProfile>();
+  private session: ProfileSession = {
+    mode: 'single',
+    activeProfileIds: [DEFAULT_PROFILE_ID],
+    groupStrategy: 'min',
+  };
+
+  constructor(endpoints: MLCoreEndpoints) {
+    this.endpoints = endpoints;
+    this.profiles.set(DEFAULT_PROFILE_ID, {
+      id: DEFAULT_PROFILE_ID,
+      name: 'Default',
+      createdAt: 0,
+    });
+  }
+
+  async load(): Promise<void> {
+    const state: ProfileState | null = await this.endpoints.storage.get<ProfileState>(STORAGE_KEY);
+    if (!state) return;
+
+    for (const profile of state.profiles) {
+      this.profiles.set(profile.id, profile);
+    }
+
+    const activeProfileIds = state.session.activeProfileIds.filter(id => this.profiles.has(id));
+    this.session = {
+      ...state.session,
+      activeProfileIds: activeProfileIds.length > 0 ? activeProfileIds : [DEFAULT_PROFILE_ID],
+    };
+    console.log(`[ProfileManager] Loaded ${this.profiles.size} profiles (${this.session.mode} mode)`);
+  }
+
+  list(): ListenerProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  get(profileId: string): ListenerProfile | undefined {
+    return this.profiles.get(profileId);
+  }
+
+  getSession(): ProfileSession {
+    return { ...this.session, activeProfileIds: [...this.session.activeProfileIds] };
+  }
+
+  async create(name: string): Promise<ListenerProfile> {
+    const profile: ListenerProfile = {
+      id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      createdAt: Date.now(),
+    };
+
+    this.profiles.set(profile.id, profile);
+    await this.save();
+    console.log(`[ProfileManager] Created profile ${profile.id} (${name})`);
+    return profile;
+  }
+
+  async rename(profileId: string, name: string): Promise<boolean> {
+    const profile = this.profiles.get(profileId);
+    if (!profile) return false;
+
+    profile.name = name;
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Remove a profile from the list. Its stored state is left in place.
+   *
+   * @throws If asked to remove the default profile
+   */
+  async remove(profileId: string): Promise<boolean> {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile cannot be removed');
+    }
+    if (!this.profiles.delete(profileId)) return false;
+
+    const remaining = this.session.activeProfileIds.filter(id => id !== profileId);
+    this.session.activeProfileIds = remaining.length > 0 ? remaining : [DEFAULT_PROFILE_ID];
+    if (this.session.mode === 'group' && this.session.activeProfileIds.length < 2) {
+      this.session.mode = 'single';
+    }
+
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Switch mode and active profiles
+   *
+   * @throws If a profile is unknown, or group mode has fewer than two profiles
+   */
+  async setSession(session: Partial<ProfileSession>): Promise<ProfileSession> {
+    const next: ProfileSession = { ...this.session, ...session };
+    next.activeProfileIds = [...new Set(next.activeProfileIds)];
+
+    const unknown = next.activeProfileIds.find(id => !this.profiles.has(id));
+    if (unknown) {
+      throw new Error(`Unknown profile: ${unknown}`);
+    }
+    if (next.activeProfileIds.length === 0) {
+      next.activeProfileIds = [DEFAULT_PROFILE_ID];
+    }
+    if (next.mode === 'group' && next.activeProfileIds.length < 2) {
+      throw new Error('Group mode needs at least two active profiles');
+    }
+    if (next.mode !== 'group') {
+      next.activeProfileIds = next.activeProfileIds.slice(0, 1);
+    }
+
+    this.session = next;
+    await this.save();
+    console.log(
+      `[ProfileManager] ${next.mode} mode: ${next.activeProfileIds.join(', ')}`
+    );
+    return this.getSession();
+  }
+
+  /**
+   * Endpoints seen by a profile's scorer, model and trainer, and the
+   * profile's own history
+   */
+  async openProfile(
+    profileId: string
+  ): Promise<{ endpoints: MLCoreEndpoints; history: ProfileHistory }> {
+    const base = this.endpoints;
+    const scoped = profileId === DEFAULT_PROFILE_ID
+      ? base
+      : scopeStorage(base, `profile:${profileId}:`);
+
+    const history = new ProfileHistory(scoped, profileId === DEFAULT_PROFILE_ID);
+    await history.load();
+
+    return {
+      endpoints: {
+        ...scoped,
+        user: history.createUserEndpoint(base.user),
+        training: history.createTrainingEndpoint(base.training),
+      },
+      history,
+    };
+  }
+
+  private async save(): Promise<void> {
+    const state: ProfileState = {
+      profiles: this.list().filter(p => p.id !== DEFAULT_PROFILE_ID),
+      session: this.session,
+    };
+    await this.endpoints.storage.set(STORAGE_KEY, state);
+  }
+}
+
+/**
+ * Endpoints whose storage and model storage keys carry a prefix
+ */
+function scopeStorage(base: MLCoreEndpoints, prefix: string): MLCoreEndpoints {
+  const modelStorage = base.storage.getModelStorage();
+
+  return {
+    ...base,
+    storage: {
+      ...base.storage,
+      get: <T>(key: string) => base.storage.get<T>(prefix + key),
+      set: (key: string, value: unknown) => base.storage.set(prefix + key, value),
+      getModelStorage: () => ({
+        ...modelStorage,
+        save: (key: string, model: unknown) => modelStorage.save(prefix + key, model),
+        load: (key: string) => modelStorage.load(prefix + key),
+        delete: (key: string) => modelStorage.delete(prefix + key),
+      }),
+    },
+  };
+}
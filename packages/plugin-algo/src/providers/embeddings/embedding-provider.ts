@@ -2,22 +2,76 @@
  * Embedding Provider - Track embeddings for similarity search
  *
  * Uses a small neural network to generate embedding vectors for tracks.
+ * Similarity search runs on an HNSW index stored as a snapshot in shards plus
+ * a log of later changes. A save appends the inserted nodes and the neighbour
+ * lists they rewired, so its cost follows the number of changes, not the
+ * size of the index; the log is folded into the shards once it outgrows them.
  */
 
 import * as tf from '@tensorflow/tfjs';
 import type { Track, AggregatedFeatures, MLCoreEndpoints } from '@audiio/ml-sdk';
 import { MemoryCache, flattenFeatureVector, buildFeatureVector, getFeatureVectorDimension } from '@audiio/ml-sdk';
+import {
+  HnswIndex,
+  RECALL_PRESETS,
+  type HnswGraphState,
+  type HnswLinkRecord,
+  type HnswNodeRecord,
+  type RecallLevel,
+} from './hnsw-index';
 
 const MODEL_KEY = 'embedding-model';
 const EMBEDDING_DIM = 64;
 
+// Legacy storage key: the whole index as one [id, embedding][] array
+const LEGACY_INDEX_KEY = 'embedding-index';
+const INDEX_META_KEY = 'embedding-ann:meta';
+const INDEX_SHARD_PREFIX = 'embedding-ann:shard:';
+const INDEX_LOG_PREFIX = 'embedding-ann:log:';
+const INDEX_SHARD_COUNT = 64;
+const INDEX_FORMAT_VERSION = 2;
+
+// Compact once the log holds more records than the index has nodes (at
+// least 1000), or spans this many saves
+const MAX_LOG_SEGMENTS = 200;
+
+interface IndexMeta extends HnswGraphState {
+  version: number;
+  shardCount: number;
+  /** Log segments written since the last compaction (v2) */
+  logSegments?: number;
+  /** Records across those segments (v2) */
+  logRecords?: number;
+}
+
+/**
+ * Changes of one save, applied in order on top of the shards
+ */
+interface IndexLogSegment {
+  nodes: HnswNodeRecord[];
+  links: HnswLinkRecord[];
+  removed: string[];
+}
+
 export class EmbeddingProvider {
   private model: tf.LayersModel | null = null;
   private endpoints!: MLCoreEndpoints;
-  private embeddingIndex: Map<string, number[]> = new Map();
+  private index: HnswIndex;
   private cache: MemoryCache<number[]>;
+  private recall: RecallLevel;
+  private readRecall: () => RecallLevel;
+  private logSegments = 0;
+  private logRecords = 0;
 
-  constructor() {
+  /**
+   * @param recall Recall level, or a function returning the current one so a
+   *   changed setting applies to the next search
+   */
+  constructor(recall: RecallLevel | (() => RecallLevel) = 'balanced') {
+    this.readRecall = typeof recall === 'function' ? recall : () => recall;
+    const initial = this.readRecall();
+    this.recall = RECALL_PRESETS[initial] ? initial : 'balanced';
+    this.index = new HnswIndex(RECALL_PRESETS[this.recall]);
     this.cache = new MemoryCache<number[]>(5000, 24 * 60 * 60 * 1000);
   }
 
@@ -40,22 +94,16 @@ export class EmbeddingProvider {
     }
 
     // Load embedding index
-    const savedIndex = await endpoints.storage.get<Array<[string, number[]]>>('embedding-index');
-    if (savedIndex) {
-      this.embeddingIndex = new Map(savedIndex);
-      console.log(`[EmbeddingProvider] Loaded ${this.embeddingIndex.size} embeddings`);
-    }
+    await this.loadIndex();
+    console.log(`[EmbeddingProvider] Loaded ${this.index.size} embeddings`);
   }
 
   /**
    * Dispose resources
    */
   async dispose(): Promise<void> {
-    // Save embedding index
-    await this.endpoints.storage.set(
-      'embedding-index',
-      Array.from(this.embeddingIndex.entries())
-    );
+    // Persist changes since the last save
+    await this.saveIndex();
 
     if (this.model) {
       this.model.dispose();
@@ -64,6 +112,15 @@ export class EmbeddingProvider {
     this.cache.clear();
   }
 
+  /**
+   * Change the recall/latency trade-off of similarity search
+   */
+  setRecall(recall: RecallLevel): void {
+    if (!RECALL_PRESETS[recall]) return;
+    this.recall = recall;
+    this.index.setEfSearch(RECALL_PRESETS[recall].efSearch);
+  }
+
   /**
    * Get embedding for a track
    */
@@ -73,7 +130,7 @@ export class EmbeddingProvider {
     if (cached) return cached;
 
     // Check index
-    const indexed = this.embeddingIndex.get(trackId);
+    const indexed = this.index.get(trackId);
     if (indexed) {
       this.cache.set(trackId, indexed);
       return indexed;
@@ -85,7 +142,7 @@ export class EmbeddingProvider {
 
     const embedding = await this.generateEmbedding(features);
     if (embedding) {
-      this.embeddingIndex.set(trackId, embedding);
+      this.index.insert(trackId, embedding);
       this.cache.set(trackId, embedding);
     }
 
@@ -160,18 +217,13 @@ export class EmbeddingProvider {
    * Search by embedding similarity
    */
   searchByEmbedding(embedding: number[], limit: number, excludeId?: string): string[] {
-    const similarities: Array<{ id: string; similarity: number }> = [];
-
-    for (const [id, embeddingB] of this.embeddingIndex) {
-      if (id === excludeId) continue;
-
-      const similarity = this.cosineSimilarity(embedding, embeddingB);
-      similarities.push({ id, similarity });
+    const recall = this.readRecall();
+    if (recall !== this.recall) {
+      this.setRecall(recall);
     }
 
-    return similarities
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit)
+    return this.index
+      .search(embedding, limit, excludeId)
       .map(s => s.id);
   }
 
@@ -182,24 +234,177 @@ export class EmbeddingProvider {
     console.log(`[EmbeddingProvider] Indexing ${tracks.length} tracks...`);
 
     for (const track of tracks) {
-      if (this.embeddingIndex.has(track.id)) continue;
+      await this.indexTrack(track.id);
+    }
+
+    // Save index
+    await this.saveIndex();
+
+    console.log(`[EmbeddingProvider] Indexed ${this.index.size} tracks`);
+  }
+
+  /**
+   * Embed one track from its aggregated features. Call flush() to persist.
+   *
+   * @returns Whether the track is in the index
+   */
+  async indexTrack(trackId: string): Promise<boolean> {
+    if (this.index.has(trackId)) return true;
+
+    const features = await this.endpoints.features.get(trackId);
+    if (!features) return false;
+
+    const embedding = await this.generateEmbedding(features);
+    if (!embedding) return false;
 
-      const features = await this.endpoints.features.get(track.id);
-      if (features) {
-        const embedding = await this.generateEmbedding(features);
-        if (embedding) {
-          this.embeddingIndex.set(track.id, embedding);
+    this.index.insert(trackId, embedding);
+    return true;
+  }
+
+  /**
+   * Persist index changes since the last save
+   */
+  async flush(): Promise<void> {
+    await this.saveIndex();
+  }
+
+  /**
+   * Remove tracks that left the library from the index
+   */
+  async removeTracks(trackIds: string[]): Promise<void> {
+    let removed = 0;
+
+    for (const trackId of trackIds) {
+      if (this.index.remove(trackId)) removed++;
+      this.cache.delete(trackId);
+    }
+
+    if (removed > 0) {
+      await this.saveIndex();
+      console.log(`[EmbeddingProvider] Removed ${removed} tracks from index`);
+    }
+  }
+
+  /**
+   * Load the index from storage, migrating the legacy flat array if present
+   */
+  private async loadIndex(): Promise<void> {
+    const meta = await this.endpoints.storage.get<IndexMeta>(INDEX_META_KEY);
+
+    if (meta && meta.version <= INDEX_FORMAT_VERSION) {
+      for (let shard = 0; shard < meta.shardCount; shard++) {
+        const records = await this.endpoints.storage.get<HnswNodeRecord[]>(
+          `${INDEX_SHARD_PREFIX}${shard}`
+        );
+        for (const record of records ?? []) {
+          this.index.importNode(record);
         }
       }
+
+      this.logSegments = meta.logSegments ?? 0;
+      this.logRecords = meta.logRecords ?? 0;
+      for (let segment = 0; segment < this.logSegments; segment++) {
+        const changes = await this.endpoints.storage.get<IndexLogSegment>(`${INDEX_LOG_PREFIX}${segment}`);
+        if (!changes) continue;
+        for (const id of changes.removed) this.index.discardNode(id);
+        for (const record of changes.nodes) this.index.importNode(record);
+        for (const record of changes.links) this.index.importLinks(record);
+      }
+
+      this.index.restoreState(meta);
+      this.index.takeChanges();
+      return;
     }
 
-    // Save index
-    await this.endpoints.storage.set(
-      'embedding-index',
-      Array.from(this.embeddingIndex.entries())
-    );
+    const legacyIndex = await this.endpoints.storage.get<Array<[string, number[]]>>(LEGACY_INDEX_KEY);
+    if (legacyIndex) {
+      console.log(`[EmbeddingProvider] Migrating ${legacyIndex.length} embeddings to ANN index`);
+      for (const [trackId, embedding] of legacyIndex) {
+        this.index.insert(trackId, embedding);
+      }
+      await this.saveIndex(true);
+      await this.endpoints.storage.set(LEGACY_INDEX_KEY, null);
+    }
+  }
+
+  /**
+   * Append the changes since the last save to the log, or rewrite the shards
+   * when the log has grown past the index
+   */
+  private async saveIndex(full = false): Promise<void> {
+    const { inserted, relinked, removed } = this.index.takeChanges();
+    if (!full && inserted.length === 0 && relinked.length === 0 && removed.length === 0) return;
+
+    const records = inserted.length + relinked.length + removed.length;
+    if (
+      full ||
+      this.logRecords + records > Math.max(this.index.size, 1000) ||
+      this.logSegments >= MAX_LOG_SEGMENTS
+    ) {
+      await this.compactIndex();
+      return;
+    }
+
+    const segment: IndexLogSegment = {
+      nodes: inserted.map(id => this.index.exportNode(id)).filter((r): r is HnswNodeRecord => r !== null),
+      links: relinked.map(id => this.index.exportLinks(id)).filter((r): r is HnswLinkRecord => r !== null),
+      removed,
+    };
+    await this.endpoints.storage.set(`${INDEX_LOG_PREFIX}${this.logSegments}`, segment);
+
+    this.logSegments++;
+    this.logRecords += records;
+    await this.saveIndexMeta();
+  }
+
+  /**
+   * Write every node into the shards and drop the log
+   */
+  private async compactIndex(): Promise<void> {
+    const shardRecords: HnswNodeRecord[][] = Array.from({ length: INDEX_SHARD_COUNT }, () => []);
+
+    for (const trackId of this.index.ids()) {
+      const record = this.index.exportNode(trackId);
+      if (record) shardRecords[this.getShard(trackId)].push(record);
+    }
+
+    for (let shard = 0; shard < INDEX_SHARD_COUNT; shard++) {
+      await this.endpoints.storage.set(`${INDEX_SHARD_PREFIX}${shard}`, shardRecords[shard]);
+    }
+
+    const segments = this.logSegments;
+    this.logSegments = 0;
+    this.logRecords = 0;
+    await this.saveIndexMeta();
+
+    for (let segment = 0; segment < segments; segment++) {
+      await this.endpoints.storage.set(`${INDEX_LOG_PREFIX}${segment}`, null);
+    }
+
+    console.log(`[EmbeddingProvider] Compacted index: ${this.index.size} embeddings, ${segments} log segments folded in`);
+  }
 
-    console.log(`[EmbeddingProvider] Indexed ${this.embeddingIndex.size} tracks`);
+  private async saveIndexMeta(): Promise<void> {
+    const meta: IndexMeta = {
+      ...this.index.getState(),
+      version: INDEX_FORMAT_VERSION,
+      shardCount: INDEX_SHARD_COUNT,
+      logSegments: this.logSegments,
+      logRecords: this.logRecords,
+    };
+    await this.endpoints.storage.set(INDEX_META_KEY, meta);
+  }
+
+  /**
+   * Stable shard assignment for a track id
+   */
+  private getShard(trackId: string): number {
+    let hash = 0;
+    for (let i = 0; i < trackId.length; i++) {
+      hash = ((hash << 5) - hash) + trackId.charCodeAt(i);
+      hash |= 0;
+    }
+    return Math.abs(hash) % INDEX_SHARD_COUNT;
   }
 
   /**
@@ -240,28 +445,4 @@ export class EmbeddingProvider {
 
     return model;
   }
-
-  /**
-   * Calculate cosine similarity
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-
-    normA = Math.sqrt(normA);
-    normB = Math.sqrt(normB);
-
-    if (normA === 0 || normB === 0) return 0;
-
-    return dotProduct / (normA * normB);
-  }
 }
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex, RECALL_PRESETS, type HnswNodeRecord } from './hnsw-index';
+
+const DIM = 16;
+
+// Deterministic pseudo-random unit vectors
+function makeVectors(count: number, seed = 1): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+
+  return Array.from({ length: count }, () => {
+    const vector = Array.from({ length: DIM }, next);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map(v => v / norm);
+  });
+}
+
+function exactNeighbors(vectors: number[][], query: number[], k: number): string[] {
+  return vectors
+    .map((vector, i) => ({ id: `t${i}`, similarity: vector.reduce((sum, v, j) => sum + v * query[j], 0) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(r => r.id);
+}
+
+function stored<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function buildIndex(vectors: number[][]): HnswIndex {
+  const index = new HnswIndex(RECALL_PRESETS.balanced);
+  vectors.forEach((vector, i) => index.insert(`t${i}`, vector));
+  return index;
+}
+
+describe('HnswIndex', () => {
+  it('returns exact results below the linear scan threshold', () => {
+    const vectors = makeVectors(200);
+    const index = buildIndex(vectors);
+
+    const results = index.search(vectors[5], 10).map(r => r.id);
+    expect(results).toEqual(exactNeighbors(vectors, vectors[5], 10));
+  });
+
+  it('finds most true neighbours through the graph', () => {
+    const vectors = makeVectors(1500);
+    const index = buildIndex(vectors);
+
+    let hits = 0;
+    for (const q of [0, 100, 700, 1400]) {
+      const expected = new Set(exactNeighbors(vectors, vectors[q], 10));
+      hits += index.search(vectors[q], 10).filter(r => expected.has(r.id)).length;
+    }
+    expect(hits / 40).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('leaves out the excluded id', () => {
+    const vectors = makeVectors(50);
+    const index = buildIndex(vectors);
+
+    const results = index.search(vectors[3], 5, 't3');
+    expect(results).toHaveLength(5);
+    expect(results.map(r => r.id)).not.toContain('t3');
+  });
+
+  it('tracks inserted, relinked and removed nodes separately', () => {
+    const index = buildIndex(makeVectors(20));
+    index.takeChanges();
+
+    const [vector] = makeVectors(1, 99);
+    index.insert('new', vector);
+    const afterInsert = index.takeChanges();
+    expect(afterInsert.inserted).toEqual(['new']);
+    expect(afterInsert.relinked.length).toBeGreaterThan(0);
+    expect(afterInsert.relinked).not.toContain('new');
+    expect(afterInsert.removed).toEqual([]);
+
+    index.remove('new');
+    const afterRemove = index.takeChanges();
+    expect(afterRemove.inserted).toEqual([]);
+    expect(afterRemove.removed).toEqual(['new']);
+  });
+
+  it('drops a node from every change list when it is removed before a save', () => {
+    const index = buildIndex(makeVectors(20));
+    index.takeChanges();
+
+    index.insert('brief', makeVectors(1, 7)[0]);
+    index.remove('brief');
+    const changes = index.takeChanges();
+    expect(changes.inserted).not.toContain('brief');
+    expect(changes.relinked).not.toContain('brief');
+    expect(changes.removed).toContain('brief');
+  });
+
+  it('restores the same graph from a snapshot plus replayed changes', () => {
+    const vectors = makeVectors(300);
+    const index = buildIndex(vectors.slice(0, 200));
+
+    // Records go through JSON as they do in storage
+    const snapshot: HnswNodeRecord[] = stored([...index.ids()].map(id => index.exportNode(id)!));
+    index.takeChanges();
+
+    vectors.slice(200).forEach((vector, i) => index.insert(`t${200 + i}`, vector));
+    index.remove('t10');
+    const changes = index.takeChanges();
+    const nodes = stored(changes.inserted.map(id => index.exportNode(id)!));
+    const links = stored(changes.relinked.map(id => index.exportLinks(id)!));
+
+    const restored = new HnswIndex(RECALL_PRESETS.balanced);
+    snapshot.forEach(record => restored.importNode(record));
+    changes.removed.forEach(id => restored.discardNode(id));
+    nodes.forEach(record => restored.importNode(record));
+    links.forEach(record => restored.importLinks(record));
+    restored.restoreState(index.getState());
+
+    // Restoring drops the links to removed nodes that pruning left behind
+    expect(restored.size).toBe(index.size);
+    expect(restored.has('t10')).toBe(false);
+    for (const id of index.ids()) {
+      const [, vector, level, neighbors] = index.exportNode(id)!;
+      const live = neighbors.map(layer => layer.filter(n => index.has(n)));
+      expect(restored.exportNode(id)).toEqual([id, vector, level, live]);
+    }
+  });
+
+  it('drops links to missing nodes and elects a new entry point on restore', () => {
+    const index = new HnswIndex();
+    const [a, b] = makeVectors(2);
+    index.importNode(['a', a, 0, [['b', 'gone']]]);
+    index.importNode(['b', b, 0, [['a']]]);
+    index.restoreState({ entryPoint: 'gone', maxLevel: 3 });
+
+    expect(index.exportNode('a')![3]).toEqual([['b']]);
+    expect(index.getState()).toEqual({ entryPoint: 'a', maxLevel: 0 });
+  });
+});
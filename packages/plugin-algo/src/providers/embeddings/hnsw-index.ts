@@ -0,0 +1,515 @@
+/**
+ * HNSW Index - Approximate nearest-neighbour search over track embeddings
+ *
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016).
+ * Embeddings are expected to be L2 normalized, so cosine similarity is a dot product.
+ */
+
+export type RecallLevel = 'fast' | 'balanced' | 'accurate';
+
+export interface HnswOptions {
+  /** Max neighbours per node on upper layers (layer 0 keeps 2 * m) */
+  m: number;
+  /** Candidate list size while inserting */
+  efConstruction: number;
+  /** Candidate list size while searching - the recall/latency knob */
+  efSearch: number;
+}
+
+export interface HnswSearchResult {
+  id: string;
+  similarity: number;
+}
+
+/**
+ * Serialized node, as persisted in storage
+ */
+export type HnswNodeRecord = [id: string, vector: number[], level: number, neighbors: string[][]];
+
+/**
+ * Serialized neighbour lists of a node whose vector is already stored
+ */
+export type HnswLinkRecord = [id: string, neighbors: string[][]];
+
+export interface HnswChanges {
+  /** Nodes added or replaced since the last call */
+  inserted: string[];
+  /** Stored nodes whose neighbour lists changed */
+  relinked: string[];
+  removed: string[];
+}
+
+export interface HnswGraphState {
+  entryPoint: string | null;
+  maxLevel: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: number[];
+  level: number;
+  neighbors: string[][];
+}
+
+export const RECALL_PRESETS: Record<RecallLevel, HnswOptions> = {
+  fast: { m: 12, efConstruction: 100, efSearch: 32 },
+  balanced: { m: 16, efConstruction: 200, efSearch: 64 },
+  accurate: { m: 24, efConstruction: 300, efSearch: 200 },
+};
+
+// Below this size a linear scan is exact and just as fast
+const EXACT_SEARCH_THRESHOLD = 1000;
+
+export class HnswIndex {
+  private nodes: Map<string, HnswNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private options: HnswOptions;
+  private levelMultiplier: number;
+
+  // Nodes touched since the last takeChanges() call
+  private inserted: Set<string> = new Set();
+  private relinked: Set<string> = new Set();
+  private removed: Set<string> = new Set();
+
+  constructor(options: HnswOptions = RECALL_PRESETS.balanced) {
+    this.options = { ...options };
+    this.levelMultiplier = 1 / Math.log(this.options.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  get(id: string): number[] | undefined {
+    return this.nodes.get(id)?.vector;
+  }
+
+  ids(): IterableIterator<string> {
+    return this.nodes.keys();
+  }
+
+  /**
+   * Change the search-time candidate list size
+   */
+  setEfSearch(efSearch: number): void {
+    this.options.efSearch = Math.max(1, Math.floor(efSearch));
+  }
+
+  /**
+   * Insert or replace a vector
+   */
+  insert(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || 1e-12) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+
+    this.nodes.set(id, node);
+    this.inserted.add(id);
+    this.relinked.delete(id);
+    this.removed.delete(id);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.greedyClosest(vector, entry, l);
+    }
+
+    // Connect on every layer the node lives on
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, [entry], this.options.efConstruction, l)
+        .filter(c => c.id !== id);
+      const selected = candidates.slice(0, this.maxNeighbors(l)).map(c => c.id);
+
+      node.neighbors[l] = selected;
+
+      for (const neighborId of selected) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[l].push(id);
+        if (neighbor.neighbors[l].length > this.maxNeighbors(l)) {
+          neighbor.neighbors[l] = this.selectClosest(neighbor.vector, neighbor.neighbors[l], this.maxNeighbors(l));
+        }
+        this.markRelinked(neighborId);
+      }
+
+      if (candidates.length > 0) {
+        entry = candidates[0].id;
+      }
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Remove a vector and repair the neighbourhoods that pointed at it
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    this.nodes.delete(id);
+    this.inserted.delete(id);
+    this.relinked.delete(id);
+    this.removed.add(id);
+
+    for (let l = 0; l <= node.level; l++) {
+      const orphans = node.neighbors[l];
+
+      for (const neighborId of orphans) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.level < l) continue;
+
+        const index = neighbor.neighbors[l].indexOf(id);
+        if (index === -1) continue;
+
+        // Reconnect through the removed node's other neighbours
+        const pool = new Set(neighbor.neighbors[l]);
+        pool.delete(id);
+        for (const candidate of orphans) {
+          const candidateLevel = this.nodes.get(candidate)?.level ?? -1;
+          if (candidate !== neighborId && candidateLevel >= l) {
+            pool.add(candidate);
+          }
+        }
+
+        neighbor.neighbors[l] = this.selectClosest(neighbor.vector, [...pool], this.maxNeighbors(l));
+        this.markRelinked(neighborId);
+      }
+    }
+
+    // Links are not symmetric after pruning, so a few nodes may still point at the
+    // removed id. Searches skip missing nodes and restoreState() drops them on load.
+    if (this.entryPoint === id) {
+      this.electEntryPoint();
+    }
+
+    return true;
+  }
+
+  /**
+   * Find the k nearest vectors to a query
+   */
+  search(query: number[], k: number, excludeId?: string): HnswSearchResult[] {
+    if (this.entryPoint === null || k <= 0) return [];
+
+    const wanted = excludeId !== undefined && this.nodes.has(excludeId) ? k + 1 : k;
+
+    let results: HnswSearchResult[];
+
+    if (this.nodes.size <= EXACT_SEARCH_THRESHOLD) {
+      results = [];
+      for (const node of this.nodes.values()) {
+        results.push({ id: node.id, similarity: dot(query, node.vector) });
+      }
+      results.sort((a, b) => b.similarity - a.similarity);
+    } else {
+      let entry = this.entryPoint;
+      for (let l = this.maxLevel; l > 0; l--) {
+        entry = this.greedyClosest(query, entry, l);
+      }
+      results = this.searchLayer(query, [entry], Math.max(this.options.efSearch, wanted), 0);
+    }
+
+    return results
+      .filter(r => r.id !== excludeId)
+      .slice(0, k);
+  }
+
+  /**
+   * Return nodes inserted/relinked/removed since the last call and reset tracking
+   */
+  takeChanges(): HnswChanges {
+    const changes = {
+      inserted: [...this.inserted],
+      relinked: [...this.relinked],
+      removed: [...this.removed],
+    };
+    this.inserted.clear();
+    this.relinked.clear();
+    this.removed.clear();
+    return changes;
+  }
+
+  /**
+   * Serialize a single node
+   */
+  exportNode(id: string): HnswNodeRecord | null {
+    const node = this.nodes.get(id);
+    if (!node) return null;
+    return [node.id, node.vector, node.level, node.neighbors];
+  }
+
+  /**
+   * Serialize a node's neighbour lists
+   */
+  exportLinks(id: string): HnswLinkRecord | null {
+    const node = this.nodes.get(id);
+    if (!node) return null;
+    return [node.id, node.neighbors];
+  }
+
+  /**
+   * Restore a node without re-linking (used when loading from storage)
+   */
+  importNode(record: HnswNodeRecord): void {
+    const [id, vector, level, neighbors] = record;
+    this.nodes.set(id, { id, vector, level, neighbors });
+  }
+
+  /**
+   * Replace a loaded node's neighbour lists (used when loading from storage)
+   */
+  importLinks(record: HnswLinkRecord): void {
+    const [id, neighbors] = record;
+    const node = this.nodes.get(id);
+    if (node) node.neighbors = neighbors;
+  }
+
+  /**
+   * Drop a loaded node without repairing its neighbours (used when loading
+   * from storage, where the repaired lists are stored separately)
+   */
+  discardNode(id: string): void {
+    this.nodes.delete(id);
+  }
+
+  getState(): HnswGraphState {
+    return { entryPoint: this.entryPoint, maxLevel: this.maxLevel };
+  }
+
+  /**
+   * Restore graph state after importing nodes, dropping links to missing nodes
+   */
+  restoreState(state: HnswGraphState): void {
+    for (const node of this.nodes.values()) {
+      node.neighbors = node.neighbors.map(layer => layer.filter(n => this.nodes.has(n)));
+    }
+
+    if (state.entryPoint && this.nodes.has(state.entryPoint)) {
+      this.entryPoint = state.entryPoint;
+      this.maxLevel = state.maxLevel;
+    } else {
+      this.electEntryPoint();
+    }
+  }
+
+  clear(): void {
+    for (const id of this.nodes.keys()) {
+      this.removed.add(id);
+    }
+    this.nodes.clear();
+    this.inserted.clear();
+    this.relinked.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+  }
+
+  /**
+   * Beam search on a single layer
+   */
+  private searchLayer(
+    query: number[],
+    entryIds: string[],
+    ef: number,
+    level: number
+  ): HnswSearchResult[] {
+    const visited = new Set<string>(entryIds);
+    // Best candidate on top; worst kept result on top
+    const candidates = new BinaryHeap<HnswSearchResult>((a, b) => a.similarity - b.similarity);
+    const results = new BinaryHeap<HnswSearchResult>((a, b) => b.similarity - a.similarity);
+
+    for (const id of entryIds) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+      const entry = { id, similarity: dot(query, node.vector) };
+      candidates.push(entry);
+      results.push(entry);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const worst = results.peek()!;
+
+      if (current.similarity < worst.similarity && results.size >= ef) break;
+
+      const node = this.nodes.get(current.id);
+      if (!node || node.level < level) continue;
+
+      for (const neighborId of node.neighbors[level]) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const similarity = dot(query, neighbor.vector);
+        if (results.size < ef || similarity > results.peek()!.similarity) {
+          const entry = { id: neighborId, similarity };
+          candidates.push(entry);
+          results.push(entry);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Walk greedily towards the query on one layer
+   */
+  private greedyClosest(query: number[], startId: string, level: number): string {
+    let currentId = startId;
+    let best = dot(query, this.nodes.get(startId)!.vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      const node = this.nodes.get(currentId)!;
+      if (node.level < level) break;
+
+      for (const neighborId of node.neighbors[level]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const similarity = dot(query, neighbor.vector);
+        if (similarity > best) {
+          best = similarity;
+          currentId = neighborId;
+          improved = true;
+        }
+      }
+    }
+
+    return currentId;
+  }
+
+  /**
+   * Keep the closest `limit` ids to a vector
+   */
+  private selectClosest(vector: number[], ids: string[], limit: number): string[] {
+    return ids
+      .filter(id => this.nodes.has(id))
+      .map(id => ({ id, similarity: dot(vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(c => c.id);
+  }
+
+  private maxNeighbors(level: number): number {
+    return level === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  /**
+   * Pick the highest-level node as the new entry point
+   */
+  private electEntryPoint(): void {
+    this.entryPoint = null;
+    this.maxLevel = -1;
+
+    for (const node of this.nodes.values()) {
+      if (node.level > this.maxLevel) {
+        this.entryPoint = node.id;
+        this.maxLevel = node.level;
+      }
+    }
+  }
+
+  private markRelinked(id: string): void {
+    if (!this.inserted.has(id)) this.relinked.add(id);
+  }
+}
+
+/**
+ * Dot product (cosine similarity for normalized vectors)
+ */
+function dot(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Minimal binary heap - comparator > 0 means `a` sits closer to the top
+ */
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    let i = this.items.length - 1;
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(this.items[i], this.items[parent]) <= 0) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let best = i;
+
+        if (left < this.items.length && this.compare(this.items[left], this.items[best]) > 0) best = left;
+        if (right < this.items.length && this.compare(this.items[right], this.items[best]) > 0) best = right;
+        if (best === i) break;
+
+        [this.items[i], this.items[best]] = [this.items[best], this.items[i]];
+        i = best;
+      }
+    }
+
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
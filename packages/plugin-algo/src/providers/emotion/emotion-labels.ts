@@ -0,0 +1,175 @@
+/**
+ * Emotion Labels - Training targets for the emotion model
+ *
+ * Two kinds of label: mood tags the user sets on tracks, and weak labels
+ * from an outside source such as Spotify valence/energy (energy stands in
+ * for arousal). User tags win when a track has both.
+ */
+
+import type { MLCoreEndpoints, MoodCategory, Track } from '@audiio/ml-sdk';
+import { valenceArousalToMood } from '@audiio/ml-sdk';
+
+export interface ValenceArousal {
+  valence: number;
+  arousal: number;
+}
+
+export interface EmotionLabel extends ValenceArousal {
+  trackId: string;
+  source: 'user' | 'weak';
+}
+
+/**
+ * Supplies weak valence/energy labels for tracks it knows (e.g. Sposify's
+ * audio features database)
+ */
+export interface EmotionLabelSource {
+  id: string;
+  /** Labels keyed by track ID; unknown tracks are left out */
+  getLabels(tracks: Track[]): Promise<Map<string, { valence: number; energy: number }>>;
+}
+
+/**
+ * How closely predictions match a set of labels
+ */
+export interface EmotionAgreement {
+  samples: number;
+  valenceMae: number;
+  arousalMae: number;
+  /** Share of tracks landing in the same valence/arousal quadrant */
+  quadrantAgreement: number;
+  /** Share of tracks getting the same mood category */
+  moodAgreement: number;
+}
+
+interface MoodTag {
+  mood: MoodCategory;
+  taggedAt: number;
+}
+
+// Valence/arousal a user mood tag stands for
+export const MOOD_VALENCE_AROUSAL: Record<MoodCategory, ValenceArousal> = {
+  calm: { valence: 0.6, arousal: 0.2 },
+  serene: { valence: 0.7, arousal: 0.3 },
+  hopeful: { valence: 0.8, arousal: 0.4 },
+  joyful: { valence: 0.9, arousal: 0.7 },
+  energetic: { valence: 0.7, arousal: 0.9 },
+  tense: { valence: 0.3, arousal: 0.8 },
+  angry: { valence: 0.2, arousal: 0.9 },
+  melancholic: { valence: 0.3, arousal: 0.3 },
+};
+
+const STORAGE_KEY = 'emotion-labels';
+
+/**
+ * Mood tags set by the user, persisted per track
+ */
+export class EmotionLabelStore {
+  private endpoints: MLCoreEndpoints;
+  private tags = new Map<string, MoodTag>();
+
+  constructor(endpoints: MLCoreEndpoints) {
+    this.endpoints = endpoints;
+  }
+
+  async load(): Promise<void> {
+    const saved: Array<[string, MoodTag]> | null =
+      await this.endpoints.storage.get<Array<[string, MoodTag]>>(STORAGE_KEY);
+    if (saved) {
+      this.tags = new Map(saved);
+    }
+  }
+
+  /**
+   * @throws If the mood is not a known category
+   */
+  async tag(trackId: string, mood: MoodCategory): Promise<void> {
+    if (!(mood in MOOD_VALENCE_AROUSAL)) {
+      throw new Error(`Unknown mood: ${mood}`);
+    }
+    this.tags.set(trackId, { mood, taggedAt: Date.now() });
+    await this.save();
+  }
+
+  async untag(trackId: string): Promise<boolean> {
+    if (!this.tags.delete(trackId)) return false;
+    await this.save();
+    return true;
+  }
+
+  getTag(trackId: string): MoodCategory | null {
+    return this.tags.get(trackId)?.mood ?? null;
+  }
+
+  get size(): number {
+    return this.tags.size;
+  }
+
+  /**
+   * Tagged track IDs, most recently tagged first
+   */
+  trackIds(): string[] {
+    return [...this.tags.entries()]
+      .sort((a, b) => b[1].taggedAt - a[1].taggedAt)
+      .map(([trackId]) => trackId);
+  }
+
+  getLabels(): EmotionLabel[] {
+    return this.trackIds().map(trackId => ({
+      trackId,
+      source: 'user',
+      ...MOOD_VALENCE_AROUSAL[this.tags.get(trackId)!.mood],
+    }));
+  }
+
+  private async save(): Promise<void> {
+    await this.endpoints.storage.set(STORAGE_KEY, [...this.tags.entries()]);
+  }
+}
+
+/**
+ * Compare predictions with labels (aligned by index)
+ */
+export function measureAgreement(
+  predictions: ValenceArousal[],
+  labels: ValenceArousal[]
+): EmotionAgreement {
+  const samples = Math.min(predictions.length, labels.length);
+  if (samples === 0) {
+    return { samples: 0, valenceMae: 0, arousalMae: 0, quadrantAgreement: 0, moodAgreement: 0 };
+  }
+
+  let valenceError = 0;
+  let arousalError = 0;
+  let sameQuadrant = 0;
+  let sameMood = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const predicted = predictions[i];
+    const label = labels[i];
+
+    valenceError += Math.abs(predicted.valence - label.valence);
+    arousalError += Math.abs(predicted.arousal - label.arousal);
+
+    if (
+      predicted.valence >= 0.5 === label.valence >= 0.5 &&
+      predicted.arousal >= 0.5 === label.arousal >= 0.5
+    ) {
+      sameQuadrant++;
+    }
+    if (
+      valenceArousalToMood(predicted.valence, predicted.arousal) ===
+      valenceArousalToMood(label.valence, label.arousal)
+    ) {
+      sameMood++;
+    }
+  }
+
+  return {
+    samples,
+    valenceMae: valenceError / samples,
+    arousalMae: arousalError / samples,
+    quadrantAgreement: sameQuadrant / samples,
+    moodAgreement: sameMood / samples,
+  };
+}
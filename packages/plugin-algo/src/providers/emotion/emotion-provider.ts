@@ -7,19 +7,40 @@
 import * as tf from '@tensorflow/tfjs';
 import type { EmotionFeatures, MoodCategory, MLCoreEndpoints } from '@audiio/ml-sdk';
 import { MemoryCache, valenceArousalToMood } from '@audiio/ml-sdk';
+import type { FeatureStore } from '../feature-store';
+import { ModelRegistry, type StoredModelVersion } from '../../scoring/model-registry';
+import { hannWindow, magnitudeSpectrum } from '../../dsp';
+import type { EmotionAgreement, ValenceArousal } from './emotion-labels';
 
 const MODEL_KEY = 'emotion-model';
+const REGISTRY_KEY = 'emotion-model-registry';
+const MODEL_HISTORY = 3;
 const SAMPLE_RATE = 22050;
 const WINDOW_SIZE = 2048;
 const HOP_SIZE = 512;
 const N_MELS = 128;
 const DURATION_SECONDS = 10;
 
+const FEATURE_NAMESPACE = 'emotion';
+// Bump when the model architecture or input pipeline changes
+const ANALYZER_VERSION = 1;
+
+/**
+ * A fine-tuned emotion model version
+ */
+export interface EmotionModelVersion extends StoredModelVersion {
+  labels: { user: number; weak: number };
+  /** Agreement with the held-out labels before and after fine-tuning */
+  agreement: { baseline: EmotionAgreement; candidate: EmotionAgreement };
+}
+
 export class EmotionProvider {
   private model: tf.LayersModel | null = null;
   private endpoints!: MLCoreEndpoints;
   private cache: MemoryCache<EmotionFeatures>;
   private isLoading = false;
+  private store: FeatureStore | null = null;
+  private registry!: ModelRegistry<EmotionModelVersion>;
 
   constructor() {
     this.cache = new MemoryCache<EmotionFeatures>(1000, 3600000);
@@ -30,14 +51,25 @@ export class EmotionProvider {
    */
   async initialize(endpoints: MLCoreEndpoints): Promise<void> {
     this.endpoints = endpoints;
-
-    // Try to load existing model
+    this.registry = new ModelRegistry<EmotionModelVersion>(
+      endpoints,
+      MODEL_KEY,
+      MODEL_HISTORY,
+      REGISTRY_KEY
+    );
+    await this.registry.load();
+
+    // Prefer the active fine-tuned version, then a shipped model
+    const activeVersion = this.registry.getActiveVersion();
+    const fineTuned = activeVersion !== null ? await this.registry.loadModel(activeVersion) : null;
     const modelStorage = endpoints.storage.getModelStorage();
-    const existingModel = await modelStorage.load(MODEL_KEY);
+    const existingModel = fineTuned ?? await modelStorage.load(MODEL_KEY);
 
     if (existingModel) {
       this.model = existingModel;
-      console.log('[EmotionProvider] Loaded existing model');
+      console.log(
+        `[EmotionProvider] Loaded ${fineTuned ? `fine-tuned model v${activeVersion}` : 'existing model'}`
+      );
     } else {
       // Create default model (will be trained with data)
       this.model = this.createModel();
@@ -45,6 +77,64 @@ export class EmotionProvider {
     }
   }
 
+  /**
+   * Persist emotion features in a feature store
+   */
+  async useFeatureStore(store: FeatureStore): Promise<void> {
+    this.store = store;
+    await store.registerNamespace(FEATURE_NAMESPACE, this.getFeatureVersion());
+  }
+
+  /**
+   * Active fine-tuned model version (null for the shipped or untrained model)
+   */
+  getModelVersion(): number | null {
+    return this.registry?.getActiveVersion() ?? null;
+  }
+
+  listModelVersions(): EmotionModelVersion[] {
+    return this.registry?.list() ?? [];
+  }
+
+  /**
+   * Untrained copy of the model architecture, starting from the current weights
+   */
+  createCandidateModel(): tf.LayersModel {
+    const candidate = this.createModel();
+    if (this.model) {
+      candidate.setWeights(this.model.getWeights());
+    }
+    return candidate;
+  }
+
+  /**
+   * Make a fine-tuned model the active version. Stored emotion features
+   * from the previous model are dropped so tracks are re-analysed.
+   *
+   * @returns The new version number
+   */
+  async promoteModel(
+    model: tf.LayersModel,
+    info: Omit<EmotionModelVersion, 'slot' | 'version'>
+  ): Promise<number> {
+    const version = this.registry.nextVersion(this.getModelVersion() ?? 0);
+    await this.registry.record(model, { ...info, version });
+
+    const previous = this.model;
+    this.model = model;
+    if (previous && previous !== model) {
+      previous.dispose();
+    }
+
+    this.cache.clear();
+    if (this.store) {
+      await this.store.registerNamespace(FEATURE_NAMESPACE, this.getFeatureVersion());
+    }
+
+    console.log(`[EmotionProvider] Promoted fine-tuned model v${version}`);
+    return version;
+  }
+
   /**
    * Dispose resources
    */
@@ -64,8 +154,12 @@ export class EmotionProvider {
     const cached = this.cache.get(trackId);
     if (cached) return cached;
 
-    // Features need to be analyzed from audio
-    return null;
+    // Otherwise features need to be analyzed from audio
+    const stored = await this.store?.get<EmotionFeatures>(FEATURE_NAMESPACE, trackId) ?? null;
+    if (stored) {
+      this.cache.set(trackId, stored);
+    }
+    return stored;
   }
 
   /**
@@ -81,31 +175,8 @@ export class EmotionProvider {
     }
 
     try {
-      // Resample if needed
-      const resampled = sampleRate === SAMPLE_RATE
-        ? audioData
-        : this.resample(audioData, sampleRate, SAMPLE_RATE);
-
-      // Take a segment from the middle
-      const segmentSamples = SAMPLE_RATE * DURATION_SECONDS;
-      const start = Math.max(0, Math.floor((resampled.length - segmentSamples) / 2));
-      const segment = resampled.slice(start, start + segmentSamples);
-
-      // Compute mel spectrogram
-      const melSpec = await this.computeMelSpectrogram(segment);
-
-      // Reshape melSpec to 4D: [batch, frames, mels, channels]
-      // melSpec is [frames][mels], we need to add batch and channel dimensions
-      const melSpec4d = melSpec.map(frame => frame.map(val => [val]));
-
-      // Predict valence/arousal
-      const inputTensor = tf.tensor4d([melSpec4d]);
-      const prediction = this.model.predict(inputTensor) as tf.Tensor;
-      const [valence, arousal] = await prediction.data();
-
-      // Cleanup
-      inputTensor.dispose();
-      prediction.dispose();
+      const melSpec = await this.extractInput(audioData, sampleRate);
+      const [{ valence, arousal }] = await this.predict([melSpec]);
 
       // Determine mood category
       const moodCategory = valenceArousalToMood(valence, arousal);
@@ -122,6 +193,54 @@ export class EmotionProvider {
     }
   }
 
+  /**
+   * Model input for a track: log-mel spectrogram of a segment from the middle
+   */
+  async extractInput(audioData: Float32Array, sampleRate: number): Promise<number[][]> {
+    // Resample if needed
+    const resampled = sampleRate === SAMPLE_RATE
+      ? audioData
+      : this.resample(audioData, sampleRate, SAMPLE_RATE);
+
+    // Take a segment from the middle, padded if the track is shorter
+    const segmentSamples = SAMPLE_RATE * DURATION_SECONDS;
+    const start = Math.max(0, Math.floor((resampled.length - segmentSamples) / 2));
+    const segment = new Float32Array(segmentSamples);
+    segment.set(resampled.subarray(start, start + segmentSamples));
+
+    return this.computeMelSpectrogram(segment);
+  }
+
+  /**
+   * Predict valence/arousal for model inputs
+   *
+   * @param model - Model to use; defaults to the active model
+   */
+  async predict(
+    inputs: number[][][],
+    model: tf.LayersModel | null = this.model
+  ): Promise<ValenceArousal[]> {
+    if (!model || inputs.length === 0) return [];
+
+    // [batch, frames, mels, channels]
+    const inputTensor = tf.tensor4d(inputs.map(melSpec => melSpec.map(frame => frame.map(val => [val]))));
+    const prediction = model.predict(inputTensor) as tf.Tensor;
+    const values = await prediction.data();
+
+    inputTensor.dispose();
+    prediction.dispose();
+
+    const results: ValenceArousal[] = [];
+    for (let i = 0; i < inputs.length; i++) {
+      results.push({ valence: values[i * 2], arousal: values[i * 2 + 1] });
+    }
+    return results;
+  }
+
+  private getFeatureVersion(): string {
+    return `${ANALYZER_VERSION}:m${this.getModelVersion() ?? 0}`;
+  }
+
   /**
    * Create the emotion detection model
    */
@@ -183,18 +302,11 @@ export class EmotionProvider {
   private async computeMelSpectrogram(audioData: Float32Array): Promise<number[][]> {
     const numFrames = Math.floor((audioData.length - WINDOW_SIZE) / HOP_SIZE) + 1;
     const melSpec: number[][] = [];
+    const window = hannWindow(WINDOW_SIZE);
 
-    // Simple mel spectrogram computation
-    // In production, use a proper DSP library
     for (let i = 0; i < numFrames; i++) {
-      const start = i * HOP_SIZE;
-      const frame = audioData.slice(start, start + WINDOW_SIZE);
-
-      // Apply Hann window
-      const windowed = this.applyHannWindow(frame);
-
-      // Compute FFT magnitude
-      const fftMag = this.computeFFTMagnitude(windowed);
+      // Hann-windowed FFT magnitude
+      const fftMag = magnitudeSpectrum(audioData, i * HOP_SIZE, window);
 
       // Apply mel filterbank
       const melFrame = this.applyMelFilterbank(fftMag);
@@ -208,43 +320,6 @@ export class EmotionProvider {
     return melSpec;
   }
 
-  /**
-   * Apply Hann window
-   */
-  private applyHannWindow(frame: Float32Array): Float32Array {
-    const result = new Float32Array(frame.length);
-    for (let i = 0; i < frame.length; i++) {
-      const multiplier = 0.5 * (1 - Math.cos(2 * Math.PI * i / (frame.length - 1)));
-      result[i] = frame[i] * multiplier;
-    }
-    return result;
-  }
-
-  /**
-   * Compute FFT magnitude (simplified)
-   */
-  private computeFFTMagnitude(frame: Float32Array): Float32Array {
-    // Simplified DFT for demonstration
-    // In production, use proper FFT library
-    const n = frame.length;
-    const magnitude = new Float32Array(n / 2);
-
-    for (let k = 0; k < n / 2; k++) {
-      let real = 0;
-      let imag = 0;
-
-      for (let t = 0; t < n; t++) {
-        const angle = (2 * Math.PI * k * t) / n;
-        real += frame[t] * Math.cos(angle);
-        imag -= frame[t] * Math.sin(angle);
-      }
-
-      magnitude[k] = Math.sqrt(real * real + imag * imag);
-    }
-
-    return magnitude;
-  }
-
   /**
    * Apply mel filterbank
    */
@@ -304,9 +379,14 @@ export class EmotionProvider {
   }
 
   /**
-   * Cache features for a track
+   * Cache features for a track, persisting them when a store is attached
+   *
+   * @param contentHash - Hash of the analysed audio (see hashAudio)
    */
-  cacheFeatures(trackId: string, features: EmotionFeatures): void {
+  cacheFeatures(trackId: string, features: EmotionFeatures, contentHash?: string): void {
     this.cache.set(trackId, features);
+    this.store?.put(FEATURE_NAMESPACE, trackId, features, contentHash).catch(error => {
+      console.error('[EmotionProvider] Failed to store features:', error);
+    });
   }
 }
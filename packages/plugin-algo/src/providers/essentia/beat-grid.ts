@@ -0,0 +1,350 @@
+/**
+ * Beat Grid - Beat, downbeat, intro/outro and cue-point extraction
+ *
+ * Beats come from Essentia's tick positions when available, otherwise from a
+ * BPM-locked grid phase-aligned to a spectral-flux onset envelope. Downbeats
+ * are the bar phase with the most low-end onset energy; intro and outro are
+ * the quieter runs of bars at either end, snapped to phrase boundaries.
+ */
+
+import { resample, spectrogram } from '../../dsp';
+
+export type CuePointType = 'mix-in' | 'mix-out';
+
+export interface CuePoint {
+  type: CuePointType;
+  /** Seconds from track start, on a downbeat */
+  time: number;
+  /** Index into `beats` */
+  beatIndex: number;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  /** Beat positions in seconds */
+  beats: number[];
+  /** Downbeat (bar start) positions in seconds */
+  downbeats: number[];
+  beatsPerBar: number;
+  /** End of the intro, in seconds (equals the first downbeat if there is none) */
+  introEnd: number;
+  /** Start of the outro, in seconds (equals the last downbeat if there is none) */
+  outroStart: number;
+  cuePoints: CuePoint[];
+  /** Suggested crossfade length when mixing out */
+  crossfadeBeats: number;
+  duration: number;
+  /** How clearly the grid lines up with onsets (0-1) */
+  confidence: number;
+}
+
+/**
+ * Feature-provider capability for players that beat-match crossfades
+ */
+export interface BeatAnalysisCapability {
+  capabilities: { beatAnalysis: boolean };
+  getBeatGrid?: (trackId: string) => Promise<BeatGrid | null>;
+}
+
+const ANALYSIS_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 512;
+const HOP_SIZE = 256;
+const FRAME_RATE = ANALYSIS_SAMPLE_RATE / HOP_SIZE;
+// Onsets peak when they reach the centre of the (Hann-windowed) frame
+const FRAME_CENTER = FRAME_SIZE / 2 / ANALYSIS_SAMPLE_RATE;
+// Frames either side of a beat searched for its onset
+const ONSET_SEARCH_FRAMES = 2;
+// Kick/bass region used to find downbeats
+const LOW_BAND_HZ = 150;
+const BEATS_PER_BAR = 4;
+const BARS_PER_PHRASE = 4;
+// Bars quieter than this share of the median bar belong to the intro/outro
+const INTRO_OUTRO_RATIO = 0.6;
+// Beats may drift this share of a period from the grid to lock onto an onset
+const BEAT_SNAP_WINDOW = 0.1;
+const MIN_CROSSFADE_BEATS = 16;
+const MAX_CROSSFADE_BEATS = 64;
+
+interface OnsetAnalysis {
+  envelope: Float32Array;
+  lowEnergy: Float32Array;
+  rms: Float32Array;
+}
+
+/**
+ * Compute the beat grid for a mono signal
+ *
+ * @param bpm - Tempo estimate from the rhythm extractor
+ * @param ticks - Beat positions (seconds) from the rhythm extractor, if any
+ */
+export function computeBeatGrid(
+  audioData: Float32Array,
+  sampleRate: number,
+  bpm: number,
+  ticks?: ArrayLike<number>
+): BeatGrid | null {
+  const duration = audioData.length / sampleRate;
+  if (!(bpm > 0) || duration < (60 / bpm) * BEATS_PER_BAR * 2) return null;
+
+  const onsets = analyzeOnsets(resample(audioData, sampleRate, ANALYSIS_SAMPLE_RATE));
+  if (onsets.envelope.length === 0) return null;
+
+  const beats = ticks && ticks.length >= BEATS_PER_BAR * 2
+    ? Array.from(ticks).filter(t => t >= 0 && t <= duration)
+    : trackBeats(onsets.envelope, bpm);
+
+  if (beats.length < BEATS_PER_BAR * 2) return null;
+
+  const barOffset = findDownbeatOffset(beats, onsets);
+  const downbeatIndices: number[] = [];
+  for (let i = barOffset; i < beats.length; i += BEATS_PER_BAR) {
+    downbeatIndices.push(i);
+  }
+
+  const barEnergy = getBarEnergy(beats, downbeatIndices, onsets.rms, duration);
+  const { introBars, outroBars } = findIntroOutro(barEnergy);
+
+  const introIdx = downbeatIndices[Math.min(introBars, downbeatIndices.length - 1)];
+  const outroIdx = downbeatIndices[Math.max(0, downbeatIndices.length - 1 - outroBars)];
+
+  // Mix out at the outro, but leave at least a minimal crossfade before the end
+  const lastBeat = beats.length - 1;
+  let mixOutIdx = outroIdx;
+  if (lastBeat - mixOutIdx < MIN_CROSSFADE_BEATS) {
+    const earlier = [...downbeatIndices].reverse().find(i => lastBeat - i >= MIN_CROSSFADE_BEATS);
+    mixOutIdx = earlier ?? downbeatIndices[0];
+  }
+
+  const mixInIdx = downbeatIndices[0];
+  const crossfadeBeats = Math.max(
+    MIN_CROSSFADE_BEATS,
+    Math.min(MAX_CROSSFADE_BEATS, Math.floor((lastBeat - mixOutIdx) / BEATS_PER_BAR) * BEATS_PER_BAR)
+  );
+
+  return {
+    bpm,
+    beats,
+    downbeats: downbeatIndices.map(i => beats[i]),
+    beatsPerBar: BEATS_PER_BAR,
+    introEnd: beats[introIdx],
+    outroStart: beats[outroIdx],
+    cuePoints: [
+      { type: 'mix-in', time: beats[mixInIdx], beatIndex: mixInIdx },
+      { type: 'mix-out', time: beats[mixOutIdx], beatIndex: mixOutIdx },
+    ],
+    crossfadeBeats,
+    duration,
+    confidence: gridConfidence(beats, onsets.envelope),
+  };
+}
+
+/**
+ * Spectral-flux onset envelope, low-band energy and RMS per frame
+ */
+function analyzeOnsets(audio: Float32Array): OnsetAnalysis {
+  const frames = spectrogram(audio, FRAME_SIZE, HOP_SIZE);
+  const lowBins = Math.max(2, Math.round((LOW_BAND_HZ / ANALYSIS_SAMPLE_RATE) * FRAME_SIZE));
+
+  const envelope = new Float32Array(frames.length);
+  const lowEnergy = new Float32Array(frames.length);
+  const rms = new Float32Array(frames.length);
+
+  let previous: Float32Array | null = null;
+  for (let f = 0; f < frames.length; f++) {
+    const frame = frames[f];
+    let flux = 0;
+    let low = 0;
+
+    for (let k = 1; k < frame.length; k++) {
+      const magnitude = Math.log1p(frame[k]);
+      if (previous) {
+        const diff = magnitude - Math.log1p(previous[k]);
+        if (diff > 0) {
+          flux += diff;
+          if (k < lowBins) low += diff;
+        }
+      }
+    }
+
+    let sum = 0;
+    const offset = f * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = audio[offset + i] ?? 0;
+      sum += sample * sample;
+    }
+
+    envelope[f] = flux;
+    lowEnergy[f] = low;
+    rms[f] = Math.sqrt(sum / FRAME_SIZE);
+    previous = frame;
+  }
+
+  return { envelope, lowEnergy, rms };
+}
+
+/**
+ * BPM-locked beat positions, phase-aligned to the onset envelope and allowed
+ * to drift slightly onto nearby onsets
+ */
+function trackBeats(envelope: Float32Array, bpm: number): number[] {
+  const period = (60 / bpm) * FRAME_RATE;
+  const envelopeMean = mean(envelope);
+
+  // Best grid phase over one beat period
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let t = phase; t < envelope.length; t += period) {
+      score += envelope[Math.round(t)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const window = Math.max(1, Math.round(period * BEAT_SNAP_WINDOW));
+  const beats: number[] = [];
+  let position = bestPhase;
+
+  while (position < envelope.length) {
+    const predicted = Math.round(position);
+    let best = predicted;
+    for (let f = predicted - window; f <= predicted + window; f++) {
+      if (f >= 0 && f < envelope.length && envelope[f] > envelope[best]) best = f;
+    }
+
+    // Only follow clear onsets; otherwise keep the predicted position
+    const frame = (envelope[best] ?? 0) > envelopeMean * 1.5 ? best : predicted;
+    beats.push(frameToTime(frame));
+    position = frame + period;
+  }
+
+  return beats;
+}
+
+/**
+ * Which beat in each bar is the downbeat
+ */
+function findDownbeatOffset(beats: number[], onsets: OnsetAnalysis): number {
+  // Normalise so the low band isn't drowned out by broadband flux
+  const lowMean = mean(onsets.lowEnergy) || 1;
+  const envelopeMean = mean(onsets.envelope) || 1;
+
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+
+  for (let offset = 0; offset < BEATS_PER_BAR; offset++) {
+    let score = 0;
+    let count = 0;
+    for (let i = offset; i < beats.length; i += BEATS_PER_BAR) {
+      const frame = timeToFrame(beats[i]);
+      score +=
+        peakNear(onsets.lowEnergy, frame) / lowMean +
+        (peakNear(onsets.envelope, frame) / envelopeMean) * 0.5;
+      count++;
+    }
+    const average = count > 0 ? score / count : 0;
+    if (average > bestScore) {
+      bestScore = average;
+      bestOffset = offset;
+    }
+  }
+
+  return bestOffset;
+}
+
+/**
+ * Mean RMS of each bar
+ */
+function getBarEnergy(
+  beats: number[],
+  downbeatIndices: number[],
+  rms: Float32Array,
+  duration: number
+): number[] {
+  return downbeatIndices.map((beatIdx, bar) => {
+    const start = timeToFrame(beats[beatIdx]);
+    const nextIdx = downbeatIndices[bar + 1];
+    const end = timeToFrame(nextIdx !== undefined ? beats[nextIdx] : duration);
+
+    let sum = 0;
+    let count = 0;
+    for (let f = start; f < Math.min(end, rms.length); f++) {
+      sum += rms[f];
+      count++;
+    }
+    return count > 0 ? sum / count : 0;
+  });
+}
+
+/**
+ * Number of low-energy bars at the start and end, snapped to whole phrases
+ */
+function findIntroOutro(barEnergy: number[]): { introBars: number; outroBars: number } {
+  const sorted = [...barEnergy].sort((a, b) => a - b);
+  const threshold = sorted[Math.floor(sorted.length / 2)] * INTRO_OUTRO_RATIO;
+
+  let introBars = 0;
+  while (introBars < barEnergy.length && barEnergy[introBars] < threshold) introBars++;
+
+  let outroBars = 0;
+  while (
+    outroBars < barEnergy.length - introBars &&
+    barEnergy[barEnergy.length - 1 - outroBars] < threshold
+  ) {
+    outroBars++;
+  }
+
+  return {
+    introBars: snapToPhrase(introBars),
+    outroBars: snapToPhrase(outroBars),
+  };
+}
+
+function snapToPhrase(bars: number): number {
+  if (bars < BARS_PER_PHRASE) return bars;
+  return Math.round(bars / BARS_PER_PHRASE) * BARS_PER_PHRASE;
+}
+
+/**
+ * Onset strength on the beats relative to the whole envelope
+ */
+function gridConfidence(beats: number[], envelope: Float32Array): number {
+  const envelopeMean = mean(envelope);
+  if (envelopeMean === 0) return 0;
+
+  let onBeat = 0;
+  for (const beat of beats) {
+    onBeat += peakNear(envelope, timeToFrame(beat));
+  }
+  onBeat /= beats.length;
+
+  return Math.max(0, Math.min(1, onBeat / envelopeMean - 1));
+}
+
+function frameToTime(frame: number): number {
+  return frame / FRAME_RATE + FRAME_CENTER;
+}
+
+function timeToFrame(time: number): number {
+  return Math.max(0, Math.round((time - FRAME_CENTER) * FRAME_RATE));
+}
+
+/**
+ * Largest value within a few frames of `frame`
+ */
+function peakNear(values: Float32Array, frame: number): number {
+  let peak = 0;
+  for (let f = frame - ONSET_SEARCH_FRAMES; f <= frame + ONSET_SEARCH_FRAMES; f++) {
+    if (f >= 0 && f < values.length && values[f] > peak) peak = values[f];
+  }
+  return peak;
+}
+
+function mean(values: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+}
@@ -6,6 +6,9 @@
 
 import type { AudioFeatures, MusicalKey } from '@audiio/ml-sdk';
 import { MemoryCache } from '@audiio/ml-sdk';
+import { computeBeatGrid, type BeatGrid } from './beat-grid';
+import { measureLoudness, type LoudnessMeasurement } from '../../dsp';
+import { hashAudio, type FeatureStore } from '../feature-store';
 
 // Essentia.js types (will be loaded dynamically)
 interface EssentiaInstance {
@@ -14,6 +17,7 @@ interface EssentiaInstance {
 
   // Algorithms
   RhythmExtractor: (signal: any) => { bpm: number; confidence: number };
+  RhythmExtractor2013?: (signal: any) => { bpm: number; ticks: any; confidence: number };
   KeyExtractor: (signal: any) => { key: string; scale: string; strength: number };
   Loudness: (signal: any) => { loudness: number };
   Energy: (signal: any) => { energy: number };
@@ -30,16 +34,34 @@ interface EssentiaWASM {
 
 type QualityLevel = 'fast' | 'balanced' | 'accurate';
 
+/**
+ * Everything one analysis produces for a track
+ */
+export interface EssentiaAnalysis {
+  features: AudioFeatures;
+  beatGrid?: BeatGrid | null;
+  loudness?: LoudnessMeasurement | null;
+}
+
+const FEATURE_NAMESPACE = 'essentia';
+// Bump when feature extraction changes so stored results are recomputed
+const ANALYZER_VERSION = 1;
+
 export class EssentiaProvider {
   private essentia: EssentiaInstance | null = null;
   private isLoading = false;
   private loadPromise: Promise<void> | null = null;
   private cache: MemoryCache<AudioFeatures>;
+  private beatGridCache: MemoryCache<BeatGrid>;
+  private loudnessCache: MemoryCache<LoudnessMeasurement>;
   private quality: QualityLevel;
+  private store: FeatureStore | null = null;
 
   constructor(quality: QualityLevel = 'balanced') {
     this.quality = quality;
     this.cache = new MemoryCache<AudioFeatures>(1000, 3600000); // 1 hour cache
+    this.beatGridCache = new MemoryCache<BeatGrid>(1000, 3600000);
+    this.loudnessCache = new MemoryCache<LoudnessMeasurement>(1000, 3600000);
   }
 
   /**
@@ -55,6 +77,14 @@ export class EssentiaProvider {
     this.isLoading = false;
   }
 
+  /**
+   * Persist analyses in a feature store, keyed by analyzer version and quality
+   */
+  async useFeatureStore(store: FeatureStore): Promise<void> {
+    this.store = store;
+    await store.registerNamespace(FEATURE_NAMESPACE, `${ANALYZER_VERSION}:${this.quality}`);
+  }
+
   /**
    * Load Essentia.js WASM
    */
@@ -80,6 +110,8 @@ export class EssentiaProvider {
   async dispose(): Promise<void> {
     this.essentia = null;
     this.cache.clear();
+    this.beatGridCache.clear();
+    this.loudnessCache.clear();
   }
 
   /**
@@ -90,15 +122,51 @@ export class EssentiaProvider {
     const cached = this.cache.get(trackId);
     if (cached) return cached;
 
-    // Features need to be analyzed from audio buffer
-    // This will be called by the audio player when track plays
-    return null;
+    // Otherwise they are analyzed from the audio buffer when the track plays
+    const stored = await this.loadStored(trackId);
+    return stored?.features ?? null;
+  }
+
+  /**
+   * Get beat grid and cue points for a track (by ID)
+   */
+  async getBeatGrid(trackId: string): Promise<BeatGrid | null> {
+    const cached = this.beatGridCache.get(trackId);
+    if (cached) return cached;
+
+    const stored = await this.loadStored(trackId);
+    return stored?.beatGrid ?? null;
+  }
+
+  /**
+   * Get the EBU R128 loudness measurement for a track (by ID)
+   */
+  async getLoudness(trackId: string): Promise<LoudnessMeasurement | null> {
+    const cached = this.loudnessCache.get(trackId);
+    if (cached) return cached;
+
+    const stored = await this.loadStored(trackId);
+    return stored?.loudness ?? null;
   }
 
   /**
-   * Analyze audio buffer
+   * Analyze audio buffer. When a track ID is given, the features, beat grid
+   * and loudness are cached for that track, and a stored analysis of the
+   * same audio is reused instead of analysing again.
    */
-  async analyzeBuffer(buffer: ArrayBuffer, sampleRate: number): Promise<AudioFeatures | null> {
+  async analyzeBuffer(
+    buffer: ArrayBuffer,
+    sampleRate: number,
+    trackId?: string
+  ): Promise<AudioFeatures | null> {
+    const contentHash = trackId && this.store
+      ? hashAudio(new Float32Array(buffer), sampleRate)
+      : undefined;
+    if (trackId && contentHash) {
+      const stored = await this.loadStored(trackId, contentHash);
+      if (stored) return stored.features;
+    }
+
     if (!this.essentia) {
       await this.initialize();
     }
@@ -124,6 +192,17 @@ export class EssentiaProvider {
       // Extract features based on quality level
       const features = await this.extractFeatures(signal, resampled);
 
+      // EBU R128 loudness on the original signal (resampling would smear true peak)
+      const loudness = measureLoudness(audioData, sampleRate);
+      if (Number.isFinite(loudness.integrated)) {
+        features.loudness = loudness.integrated;
+      }
+
+      if (trackId) {
+        const beatGrid = this.extractBeatGrid(signal, resampled, targetSampleRate, features);
+        await this.storeAnalysis(trackId, { features, beatGrid, loudness }, contentHash);
+      }
+
       return features;
     } catch (error) {
       console.error('[EssentiaProvider] Analysis failed:', error);
@@ -149,6 +228,7 @@ export class EssentiaProvider {
       features.mode = key.scale.toLowerCase() as 'major' | 'minor';
 
       // === Energy & Loudness ===
+      // Coarse figure; replaced by integrated loudness (LUFS) in analyzeBuffer
       const loudness = this.essentia!.Loudness(signal);
       features.loudness = loudness.loudness;
 
@@ -196,6 +276,33 @@ export class EssentiaProvider {
     return features;
   }
 
+  /**
+   * Extract beats, downbeats, intro/outro and mix cue points
+   */
+  private extractBeatGrid(
+    signal: any,
+    audioData: Float32Array,
+    sampleRate: number,
+    features: AudioFeatures
+  ): BeatGrid | null {
+    try {
+      let bpm = features.bpm ?? 0;
+      let ticks: Float32Array | undefined;
+
+      // Prefer Essentia's beat positions when the build includes the tracker
+      if (this.essentia!.RhythmExtractor2013) {
+        const rhythm = this.essentia!.RhythmExtractor2013(signal);
+        ticks = this.essentia!.vectorToArray(rhythm.ticks);
+        bpm = rhythm.bpm || bpm;
+      }
+
+      return computeBeatGrid(audioData, sampleRate, bpm, ticks);
+    } catch (error) {
+      console.error('[EssentiaProvider] Beat grid extraction error:', error);
+      return null;
+    }
+  }
+
   /**
    * Normalize key to standard format
    */
@@ -290,7 +397,45 @@ export class EssentiaProvider {
   /**
    * Cache features for a track
    */
-  cacheFeatures(trackId: string, features: AudioFeatures): void {
+  cacheFeatures(trackId: string, features: AudioFeatures, beatGrid?: BeatGrid | null): void {
     this.cache.set(trackId, features);
+    if (beatGrid) {
+      this.beatGridCache.set(trackId, beatGrid);
+    }
+  }
+
+  /**
+   * Cache and persist an analysis (e.g. one made by an analysis worker)
+   *
+   * @param contentHash - Hash of the analysed audio (see hashAudio)
+   */
+  async storeAnalysis(trackId: string, analysis: EssentiaAnalysis, contentHash?: string): Promise<void> {
+    this.cacheFeatures(trackId, analysis.features, analysis.beatGrid);
+    if (analysis.loudness) {
+      this.loudnessCache.set(trackId, analysis.loudness);
+    }
+
+    if (!this.store) return;
+    try {
+      await this.store.put(FEATURE_NAMESPACE, trackId, analysis, contentHash);
+    } catch (error) {
+      console.error('[EssentiaProvider] Failed to store analysis:', error);
+    }
+  }
+
+  /**
+   * Read a stored analysis into the memory caches
+   */
+  private async loadStored(trackId: string, contentHash?: string): Promise<EssentiaAnalysis | null> {
+    if (!this.store) return null;
+
+    const stored = await this.store.get<EssentiaAnalysis>(FEATURE_NAMESPACE, trackId, contentHash);
+    if (!stored) return null;
+
+    this.cacheFeatures(trackId, stored.features, stored.beatGrid);
+    if (stored.loudness) {
+      this.loudnessCache.set(trackId, stored.loudness);
+    }
+    return stored;
   }
 }
@@ -0,0 +1,133 @@
+/**
+ * Loudness Store - Persisted per-track loudness and ReplayGain values
+ *
+ * Gains follow ReplayGain 2.0: the dB change that brings a track (or album)
+ * to the reference loudness, with the true peak kept for clipping prevention.
+ */
+
+import type { MLCoreEndpoints } from '@audiio/ml-sdk';
+import { MemoryCache } from '@audiio/ml-sdk';
+import { combineLoudness, type LoudnessMeasurement } from '../../dsp';
+
+const STORAGE_PREFIX = 'loudness:';
+
+// ReplayGain 2.0 reference level
+export const DEFAULT_REFERENCE_LOUDNESS = -18;
+
+export interface TrackLoudness {
+  /** Integrated loudness (LUFS) */
+  integratedLoudness: number;
+  /** Loudness range (LU) */
+  loudnessRange: number;
+  /** True peak (dBTP) */
+  truePeak: number;
+  /** Gain (dB) that brings the track to the reference loudness */
+  trackGain: number;
+  /** True peak as linear amplitude */
+  trackPeak: number;
+  albumGain?: number;
+  albumPeak?: number;
+  referenceLoudness: number;
+  /** Gated block statistics used to compute album loudness */
+  gatedPower: number;
+  gatedBlocks: number;
+  analyzedAt: number;
+}
+
+/**
+ * Feature-provider capability for players that normalise playback volume
+ */
+export interface LoudnessCapability {
+  capabilities: { loudnessAnalysis: boolean };
+  getLoudness?: (trackId: string) => Promise<TrackLoudness | null>;
+}
+
+export class LoudnessStore {
+  private endpoints: MLCoreEndpoints;
+  private referenceLoudness: number;
+  private cache: MemoryCache<TrackLoudness>;
+
+  constructor(endpoints: MLCoreEndpoints, referenceLoudness = DEFAULT_REFERENCE_LOUDNESS) {
+    this.endpoints = endpoints;
+    this.referenceLoudness = referenceLoudness;
+    this.cache = new MemoryCache<TrackLoudness>(5000, 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Store a measurement for a track. Silent tracks are not stored.
+   */
+  async record(trackId: string, measurement: LoudnessMeasurement): Promise<TrackLoudness | null> {
+    if (!Number.isFinite(measurement.integrated)) return null;
+
+    const hasPeak = Number.isFinite(measurement.truePeak);
+    const loudness: TrackLoudness = {
+      integratedLoudness: measurement.integrated,
+      loudnessRange: measurement.range,
+      truePeak: hasPeak ? measurement.truePeak : -120,
+      trackGain: this.referenceLoudness - measurement.integrated,
+      trackPeak: hasPeak ? Math.pow(10, measurement.truePeak / 20) : 0,
+      referenceLoudness: this.referenceLoudness,
+      gatedPower: measurement.gatedPower,
+      gatedBlocks: measurement.gatedBlocks,
+      analyzedAt: Date.now(),
+    };
+
+    await this.save(trackId, loudness);
+    return loudness;
+  }
+
+  async get(trackId: string): Promise<TrackLoudness | null> {
+    const cached = this.cache.get(trackId);
+    if (cached) return cached;
+
+    const stored = await this.endpoints.storage.get<TrackLoudness>(STORAGE_PREFIX + trackId);
+    if (!stored) return null;
+
+    this.cache.set(trackId, stored);
+    return stored;
+  }
+
+  /**
+   * Compute album gain and peak over the given tracks and store them on each.
+   * Tracks without a measurement are skipped.
+   */
+  async computeAlbumGain(trackIds: string[]): Promise<{ albumGain: number; albumPeak: number } | null> {
+    const entries: Array<[string, TrackLoudness]> = [];
+    for (const trackId of trackIds) {
+      const loudness = await this.get(trackId);
+      if (loudness) entries.push([trackId, loudness]);
+    }
+
+    if (entries.length === 0) return null;
+
+    const albumLoudness = combineLoudness(
+      entries.map(([, l]) => ({
+        integrated: l.integratedLoudness,
+        range: l.loudnessRange,
+        truePeak: l.truePeak,
+        gatedPower: l.gatedPower,
+        gatedBlocks: l.gatedBlocks,
+      }))
+    );
+    if (!Number.isFinite(albumLoudness)) return null;
+
+    const albumGain = this.referenceLoudness - albumLoudness;
+    const albumPeak = Math.max(...entries.map(([, l]) => l.trackPeak));
+
+    for (const [trackId, loudness] of entries) {
+      await this.save(trackId, { ...loudness, albumGain, albumPeak });
+    }
+
+    return { albumGain, albumPeak };
+  }
+
+  async remove(trackId: string): Promise<void> {
+    this.cache.delete(trackId);
+    await this.endpoints.storage.set(STORAGE_PREFIX + trackId, null);
+  }
+
+  private async save(trackId: string, loudness: TrackLoudness): Promise<void> {
+    this.cache.set(trackId, loudness);
+    await this.endpoints.storage.set(STORAGE_PREFIX + trackId, loudness);
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Feature Store - Persisted analysis results shared by the providers
+ *
+ * Records are stored per namespace (one per provider) and track, stamped
+ * with the namespace's analyzer version and, when known, a hash of the
+ * analysed content. A record whose version no longer matches is dropped, so
+ * changing an analyzer triggers re-analysis; a record whose content hash
+ * differs from the audio at hand is treated as a miss. The index of stored
+ * keys doubles as the LRU order used to keep the store under its size cap.
+ */
+
+import type { MLCoreEndpoints } from '@audiio/ml-sdk';
+import { MemoryCache } from '@audiio/ml-sdk';
+
+export interface FeatureStoreOptions {
+  /** Records kept across all namespaces before the least recently used are evicted */
+  maxEntries: number;
+}
+
+export interface FeatureStoreEntry<T> {
+  trackId: string;
+  value: T;
+  contentHash?: string;
+}
+
+interface StoredRecord<T = unknown> {
+  value: T;
+  version: string;
+  contentHash?: string;
+  storedAt: number;
+}
+
+interface StoreIndex {
+  version: number;
+  /** [key, version stamp], least recently used first */
+  entries: Array<[string, string]>;
+}
+
+const RECORD_PREFIX = 'features:';
+const INDEX_KEY = 'feature-store:index';
+const INDEX_FORMAT_VERSION = 1;
+// Coalesce index writes caused by reads and puts
+const SAVE_DELAY_MS = 5000;
+
+export class FeatureStore {
+  private endpoints: MLCoreEndpoints;
+  private options: FeatureStoreOptions;
+  private versions = new Map<string, string>();
+  /** Stored keys and their version stamps, in LRU order */
+  private index = new Map<string, string>();
+  private hot: MemoryCache<StoredRecord>;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(endpoints: MLCoreEndpoints, options: Partial<FeatureStoreOptions> = {}) {
+    this.endpoints = endpoints;
+    this.options = { maxEntries: options.maxEntries ?? 20000 };
+    this.hot = new MemoryCache<StoredRecord>(2000, 3600000);
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored: StoreIndex | null = await this.endpoints.storage.get<StoreIndex>(INDEX_KEY);
+      if (!stored || stored.version !== INDEX_FORMAT_VERSION) return;
+
+      for (const [key, version] of stored.entries) {
+        this.index.set(key, version);
+      }
+      console.log(`[FeatureStore] ${this.index.size} stored records`);
+    } catch (error) {
+      console.error('[FeatureStore] Failed to load index:', error);
+    }
+  }
+
+  /**
+   * Declare a namespace and the version of the analyzer that fills it.
+   * Records written by another version are removed.
+   */
+  async registerNamespace(namespace: string, version: string): Promise<void> {
+    this.versions.set(namespace, version);
+
+    const stale: string[] = [];
+    for (const [key, stamp] of this.index) {
+      if (key.startsWith(`${namespace}:`) && stamp !== version) stale.push(key);
+    }
+    if (stale.length === 0) return;
+
+    console.log(`[FeatureStore] Dropping ${stale.length} ${namespace} records (analyzer changed)`);
+    await this.deleteKeys(stale);
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * @param contentHash - When given, a record of different content is a miss
+   */
+  async get<T>(namespace: string, trackId: string, contentHash?: string): Promise<T | null> {
+    const key = this.key(namespace, trackId);
+    const version = this.versions.get(namespace);
+    if (!version || this.index.get(key) !== version) return null;
+
+    let record = this.hot.get(key) as StoredRecord<T> | undefined;
+    if (!record) {
+      const stored: StoredRecord<T> | null = await this.endpoints.storage.get<StoredRecord<T>>(
+        RECORD_PREFIX + key
+      );
+      if (!stored || stored.version !== version) {
+        // Index and record disagree (e.g. a write was interrupted)
+        await this.deleteKeys([key]);
+        return null;
+      }
+      record = stored;
+      this.hot.set(key, record);
+    }
+
+    if (contentHash && record.contentHash && record.contentHash !== contentHash) {
+      return null;
+    }
+
+    this.touch(key, version);
+    return record.value;
+  }
+
+  /**
+   * Look up many tracks at once; tracks without a record are left out
+   */
+  async getMany<T>(namespace: string, trackIds: string[]): Promise<Map<string, T>> {
+    const values = await Promise.all(trackIds.map(id => this.get<T>(namespace, id)));
+    const found = new Map<string, T>();
+    trackIds.forEach((id, i) => {
+      const value = values[i];
+      if (value !== null) found.set(id, value);
+    });
+    return found;
+  }
+
+  /**
+   * @throws If the namespace has not been registered
+   */
+  async put<T>(namespace: string, trackId: string, value: T, contentHash?: string): Promise<void> {
+    await this.putMany(namespace, [{ trackId, value, contentHash }]);
+  }
+
+  /**
+   * @throws If the namespace has not been registered
+   */
+  async putMany<T>(namespace: string, entries: FeatureStoreEntry<T>[]): Promise<void> {
+    const version = this.versions.get(namespace);
+    if (!version) {
+      throw new Error(`Feature namespace not registered: ${namespace}`);
+    }
+
+    const storedAt = Date.now();
+    await Promise.all(entries.map(async ({ trackId, value, contentHash }) => {
+      const key = this.key(namespace, trackId);
+      const record: StoredRecord<T> = { value, version, contentHash, storedAt };
+
+      this.hot.set(key, record);
+      this.touch(key, version);
+      await this.endpoints.storage.set(RECORD_PREFIX + key, record);
+    }));
+
+    await this.evict();
+  }
+
+  /**
+   * Load the records of every registered namespace for these tracks into
+   * memory, so providers answer a scoring batch without further reads
+   */
+  async prefetch(trackIds: string[]): Promise<void> {
+    const keys: Array<[string, string]> = [];
+    for (const namespace of this.versions.keys()) {
+      for (const trackId of trackIds) {
+        const key = this.key(namespace, trackId);
+        if (this.index.has(key) && !this.hot.get(key)) keys.push([namespace, trackId]);
+      }
+    }
+
+    await Promise.all(keys.map(([namespace, trackId]) => this.get(namespace, trackId)));
+  }
+
+  /**
+   * Remove every namespace's records for these tracks
+   */
+  async remove(trackIds: string[]): Promise<void> {
+    const ids = new Set(trackIds);
+    const keys = [...this.index.keys()].filter(key => ids.has(key.slice(key.indexOf(':') + 1)));
+    await this.deleteKeys(keys);
+  }
+
+  async setMaxEntries(maxEntries: number): Promise<void> {
+    this.options.maxEntries = Math.max(1, maxEntries);
+    await this.evict();
+  }
+
+  /**
+   * Write the index now instead of waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.saveIndex();
+  }
+
+  async dispose(): Promise<void> {
+    await this.flush();
+    this.hot.clear();
+  }
+
+  private key(namespace: string, trackId: string): string {
+    return `${namespace}:${trackId}`;
+  }
+
+  /**
+   * Mark a key as most recently used
+   */
+  private touch(key: string, version: string): void {
+    this.index.delete(key);
+    this.index.set(key, version);
+    this.scheduleSave();
+  }
+
+  private async evict(): Promise<void> {
+    const excess = this.index.size - this.options.maxEntries;
+    if (excess <= 0) return;
+
+    const oldest = [...this.index.keys()].slice(0, excess);
+    await this.deleteKeys(oldest);
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.index.delete(key);
+      this.hot.delete(key);
+      await this.endpoints.storage.set(RECORD_PREFIX + key, null);
+    }
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.saveIndex();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async saveIndex(): Promise<void> {
+    const state: StoreIndex = {
+      version: INDEX_FORMAT_VERSION,
+      entries: [...this.index.entries()],
+    };
+
+    try {
+      await this.endpoints.storage.set(INDEX_KEY, state);
+    } catch (error) {
+      console.error('[FeatureStore] Failed to save index:', error);
+    }
+  }
+}
+
+/**
+ * Cheap fingerprint of decoded audio, for telling whether a file changed.
+ * Samples a few thousand points rather than hashing every sample.
+ */
+export function hashAudio(audioData: Float32Array, sampleRate: number): string {
+  const step = Math.max(1, Math.floor(audioData.length / 4096));
+  const bits = new Uint32Array(audioData.buffer, audioData.byteOffset, audioData.length);
+
+  let hash = fnv1a(0x811c9dc5, audioData.length);
+  hash = fnv1a(hash, sampleRate);
+  for (let i = 0; i < bits.length; i += step) {
+    hash = fnv1a(hash, bits[i]);
+  }
+
+  return `${audioData.length.toString(36)}-${hash.toString(36)}`;
+}
+
+/**
+ * Hash of text content (e.g. lyrics)
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = fnv1a(hash, text.charCodeAt(i));
+  }
+  return `${text.length.toString(36)}-${hash.toString(36)}`;
+}
+
+function fnv1a(hash: number, value: number): number {
+  let h = hash;
+  for (let shift = 0; shift < 32; shift += 8) {
+    h ^= (value >>> shift) & 0xff;
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
@@ -1,28 +1,37 @@
 /**
- * Fingerprint Provider - Audio fingerprinting using Chromaprint
+ * Fingerprint Provider - Audio fingerprinting using spectral-peak landmarks
  *
  * Generates audio fingerprints for track identification and duplicate detection.
  */
 
 import type { DuplicateResult, TrackMatch, Track, MLCoreEndpoints } from '@audiio/ml-sdk';
-import { MemoryCache } from '@audiio/ml-sdk';
+import {
+  computeLandmarkFingerprint,
+  encodeFingerprint,
+  decodeFingerprint,
+  type LandmarkFingerprint,
+} from './landmark-fingerprint';
+import { LandmarkIndex, type LandmarkMatchResult } from './landmark-index';
+
+const INDEX_KEY = 'landmark-index';
+// Metadata-hash index written by earlier versions; unusable for audio matching
+const LEGACY_INDEX_KEY = 'fingerprint-index';
+
+// Minimum match confidence for identification and duplicates
+const IDENTIFY_THRESHOLD = 0.5;
+const DUPLICATE_THRESHOLD = 0.8;
+// Share of the shorter fingerprint that must align to call a duplicate exact
+const EXACT_COVERAGE = 0.5;
 
-// Chromaprint WASM will be loaded dynamically
-interface ChromaprintInstance {
-  fingerprint: (audioData: Float32Array, sampleRate: number) => string;
-  compare: (fp1: string, fp2: string) => number;
-}
+/**
+ * Track match with the offset (seconds) of the query inside the matched track
+ */
+export type LandmarkTrackMatch = TrackMatch & { offset: number };
 
 export class FingerprintProvider {
-  private chromaprint: ChromaprintInstance | null = null;
   private endpoints!: MLCoreEndpoints;
-  private fingerprintIndex: Map<string, { fingerprint: string; trackId: string }> = new Map();
-  private cache: MemoryCache<string>;
-  private isLoading = false;
-
-  constructor() {
-    this.cache = new MemoryCache<string>(5000, 24 * 60 * 60 * 1000); // 24 hour cache
-  }
+  private index = new LandmarkIndex();
+  private dirty = false;
 
   /**
    * Initialize the fingerprint provider
@@ -31,34 +40,21 @@ export class FingerprintProvider {
     this.endpoints = endpoints;
 
     // Load fingerprint index from storage
-    const savedIndex = await endpoints.storage.get<Array<[string, { fingerprint: string; trackId: string }]>>('fingerprint-index');
+    const savedIndex = await endpoints.storage.get<Array<[string, string]>>(INDEX_KEY);
     if (savedIndex) {
-      this.fingerprintIndex = new Map(savedIndex);
-      console.log(`[FingerprintProvider] Loaded ${this.fingerprintIndex.size} fingerprints`);
+      for (const [trackId, encoded] of savedIndex) {
+        const fingerprint = decodeFingerprint(encoded);
+        if (fingerprint) {
+          this.index.add(trackId, fingerprint);
+        }
+      }
+      console.log(`[FingerprintProvider] Loaded ${this.index.size} fingerprints`);
     }
-  }
 
-  /**
-   * Load Chromaprint WASM
-   */
-  private async loadChromaprint(): Promise<void> {
-    if (this.chromaprint) return;
-    if (this.isLoading) return;
-
-    this.isLoading = true;
-
-    try {
-      // In production, this would load the actual Chromaprint WASM module
-      // For now, we'll use a simplified fingerprinting approach
-      this.chromaprint = {
-        fingerprint: this.generateSimpleFingerprint.bind(this),
-        compare: this.compareFingerprints.bind(this),
-      };
-      console.log('[FingerprintProvider] Fingerprinting ready');
-    } catch (error) {
-      console.error('[FingerprintProvider] Failed to load Chromaprint:', error);
-    } finally {
-      this.isLoading = false;
+    const legacyIndex = await endpoints.storage.get<unknown[]>(LEGACY_INDEX_KEY);
+    if (legacyIndex) {
+      await endpoints.storage.set(LEGACY_INDEX_KEY, null);
+      console.log('[FingerprintProvider] Dropped legacy metadata fingerprints');
     }
   }
 
@@ -66,24 +62,16 @@ export class FingerprintProvider {
    * Dispose resources
    */
   async dispose(): Promise<void> {
-    // Save fingerprint index
-    await this.endpoints.storage.set(
-      'fingerprint-index',
-      Array.from(this.fingerprintIndex.entries())
-    );
-    this.cache.clear();
+    await this.saveIndex();
+    this.index.clear();
   }
 
   /**
    * Generate fingerprint for audio file
    */
   async generateFingerprint(filePath: string): Promise<string | null> {
-    await this.loadChromaprint();
-    if (!this.chromaprint) return null;
-
-    // In production, this would read and decode the audio file
-    // For now, return a placeholder
-    console.log(`[FingerprintProvider] Would generate fingerprint for: ${filePath}`);
+    // Decoding files is up to the host; fingerprints are built from PCM buffers
+    console.log(`[FingerprintProvider] Cannot decode ${filePath}, use generateFingerprintFromBuffer`);
     return null;
   }
 
@@ -94,36 +82,79 @@ export class FingerprintProvider {
     buffer: ArrayBuffer,
     sampleRate: number
   ): Promise<string | null> {
-    await this.loadChromaprint();
-    if (!this.chromaprint) return null;
+    const fingerprint = this.computeFingerprint(buffer, sampleRate);
+    return fingerprint ? encodeFingerprint(fingerprint) : null;
+  }
 
-    const audioData = new Float32Array(buffer);
-    return this.chromaprint.fingerprint(audioData, sampleRate);
+  /**
+   * Fingerprint a decoded track and add it to the index
+   */
+  async indexBuffer(trackId: string, buffer: ArrayBuffer, sampleRate: number): Promise<boolean> {
+    const fingerprint = this.computeFingerprint(buffer, sampleRate);
+    if (!fingerprint) return false;
+
+    this.addFingerprint(trackId, fingerprint);
+    return true;
+  }
+
+  /**
+   * Add a fingerprint computed elsewhere (e.g. an analysis worker).
+   * Call flush() to persist.
+   */
+  addFingerprint(trackId: string, fingerprint: LandmarkFingerprint): void {
+    this.index.add(trackId, fingerprint);
+    this.dirty = true;
+  }
+
+  /**
+   * Persist fingerprints added since the last save
+   */
+  async flush(): Promise<void> {
+    await this.saveIndex();
   }
 
   /**
    * Index tracks for duplicate detection
+   *
+   * Audio fingerprints are added through indexBuffer() as tracks are decoded;
+   * this persists the index and reports tracks still waiting for audio.
    */
   async indexTracks(tracks: Track[]): Promise<void> {
-    console.log(`[FingerprintProvider] Indexing ${tracks.length} tracks...`);
-
-    for (const track of tracks) {
-      // In production, would generate fingerprint from audio file
-      // For now, create a pseudo-fingerprint from metadata
-      const pseudoFingerprint = this.createPseudoFingerprint(track);
-      this.fingerprintIndex.set(track.id, {
-        fingerprint: pseudoFingerprint,
-        trackId: track.id,
-      });
-    }
+    const missing = tracks.filter(t => !this.index.has(t.id)).length;
+
+    await this.saveIndex();
 
-    // Save index
-    await this.endpoints.storage.set(
-      'fingerprint-index',
-      Array.from(this.fingerprintIndex.entries())
+    console.log(
+      `[FingerprintProvider] ${tracks.length - missing}/${tracks.length} tracks fingerprinted` +
+      (missing > 0 ? ` (${missing} awaiting audio)` : '')
     );
+  }
+
+  /**
+   * Remove tracks that left the library from the index
+   */
+  async removeTracks(trackIds: string[]): Promise<void> {
+    for (const trackId of trackIds) {
+      if (this.index.remove(trackId)) {
+        this.dirty = true;
+      }
+    }
+    await this.saveIndex();
+  }
 
-    console.log(`[FingerprintProvider] Indexed ${tracks.length} tracks`);
+  /**
+   * Check if a track has an audio fingerprint
+   */
+  hasFingerprint(trackId: string): boolean {
+    return this.index.has(trackId);
+  }
+
+  /**
+   * Get the encoded fingerprint of an indexed track
+   */
+  getFingerprint(trackId: string): string | null {
+    const fingerprint = this.index.get(trackId);
+    return fingerprint ? encodeFingerprint(fingerprint) : null;
   }
 
   /**
@@ -131,24 +162,23 @@ export class FingerprintProvider {
    */
   async findDuplicates(): Promise<DuplicateResult[]> {
     const duplicates: DuplicateResult[] = [];
-    const entries = Array.from(this.fingerprintIndex.values());
-
-    // Compare all pairs
-    for (let i = 0; i < entries.length; i++) {
-      for (let j = i + 1; j < entries.length; j++) {
-        const similarity = this.compareFingerprints(
-          entries[i].fingerprint,
-          entries[j].fingerprint
-        );
-
-        if (similarity > 0.9) {
-          duplicates.push({
-            originalId: entries[i].trackId,
-            duplicateId: entries[j].trackId,
-            confidence: similarity,
-            type: similarity > 0.99 ? 'exact' : 'similar',
-          });
-        }
+    const reported = new Set<string>();
+
+    // Each track only looks up its own hashes in the inverted index
+    for (const [trackId, fingerprint] of this.index.entries()) {
+      for (const match of this.index.query(fingerprint, 10, trackId)) {
+        if (match.confidence < DUPLICATE_THRESHOLD) continue;
+
+        const pairKey = [trackId, match.trackId].sort().join('|');
+        if (reported.has(pairKey)) continue;
+        reported.add(pairKey);
+
+        duplicates.push({
+          originalId: trackId,
+          duplicateId: match.trackId,
+          confidence: match.confidence,
+          type: match.coverage >= EXACT_COVERAGE ? 'exact' : 'similar',
+        });
       }
     }
 
@@ -159,116 +189,81 @@ export class FingerprintProvider {
    * Identify track from fingerprint
    */
   async identify(filePath: string): Promise<TrackMatch[]> {
-    const fingerprint = await this.generateFingerprint(filePath);
+    const encoded = await this.generateFingerprint(filePath);
+    if (!encoded) return [];
+
+    const fingerprint = decodeFingerprint(encoded);
     if (!fingerprint) return [];
 
     return this.searchByFingerprint(fingerprint);
   }
 
   /**
-   * Search library by fingerprint
+   * Identify a decoded audio clip
    */
-  private searchByFingerprint(fingerprint: string): TrackMatch[] {
-    const matches: TrackMatch[] = [];
-
-    for (const entry of this.fingerprintIndex.values()) {
-      const similarity = this.compareFingerprints(fingerprint, entry.fingerprint);
-
-      if (similarity > 0.7) {
-        // Would need to fetch full track info
-        matches.push({
-          track: { id: entry.trackId, title: '', artist: '', duration: 0 },
-          confidence: similarity,
-          matchType: 'fingerprint',
-        });
-      }
-    }
+  async identifyBuffer(buffer: ArrayBuffer, sampleRate: number): Promise<LandmarkTrackMatch[]> {
+    const fingerprint = this.computeFingerprint(buffer, sampleRate);
+    if (!fingerprint) return [];
 
-    return matches.sort((a, b) => b.confidence - a.confidence).slice(0, 10);
+    return this.searchByFingerprint(fingerprint);
   }
 
   /**
-   * Generate simple fingerprint (placeholder for real Chromaprint)
+   * Search library by fingerprint
    */
-  private generateSimpleFingerprint(audioData: Float32Array, sampleRate: number): string {
-    // Simple spectral fingerprint
-    const chunkSize = Math.floor(sampleRate * 0.1); // 100ms chunks
-    const numChunks = Math.min(30, Math.floor(audioData.length / chunkSize));
-    const fingerprint: number[] = [];
-
-    for (let i = 0; i < numChunks; i++) {
-      const start = i * chunkSize;
-      const chunk = audioData.slice(start, start + chunkSize);
-
-      // Compute energy
-      let energy = 0;
-      for (let j = 0; j < chunk.length; j++) {
-        energy += chunk[j] * chunk[j];
-      }
-      energy = Math.sqrt(energy / chunk.length);
-
-      // Compute zero crossing rate
-      let zcr = 0;
-      for (let j = 1; j < chunk.length; j++) {
-        if ((chunk[j] >= 0) !== (chunk[j - 1] >= 0)) {
-          zcr++;
-        }
-      }
-      zcr /= chunk.length;
-
-      // Encode as bytes
-      fingerprint.push(Math.floor(energy * 255));
-      fingerprint.push(Math.floor(zcr * 255));
+  private async searchByFingerprint(fingerprint: LandmarkFingerprint): Promise<LandmarkTrackMatch[]> {
+    const results = this.index
+      .query(fingerprint, 10)
+      .filter(r => r.confidence >= IDENTIFY_THRESHOLD);
+
+    const matches: LandmarkTrackMatch[] = [];
+    for (const result of results) {
+      matches.push(await this.toTrackMatch(result));
     }
 
-    // Convert to base64
-    return btoa(String.fromCharCode(...fingerprint));
+    return matches;
   }
 
   /**
-   * Compare two fingerprints
+   * Convert an index hit into a TrackMatch
    */
-  private compareFingerprints(fp1: string, fp2: string): number {
-    try {
-      const bytes1 = atob(fp1).split('').map(c => c.charCodeAt(0));
-      const bytes2 = atob(fp2).split('').map(c => c.charCodeAt(0));
-
-      const minLength = Math.min(bytes1.length, bytes2.length);
-      if (minLength === 0) return 0;
-
-      let sumDiff = 0;
-      for (let i = 0; i < minLength; i++) {
-        sumDiff += Math.abs(bytes1[i] - bytes2[i]);
-      }
+  private async toTrackMatch(result: LandmarkMatchResult): Promise<LandmarkTrackMatch> {
+    const track = await this.endpoints.library.getTrack(result.trackId);
+
+    return {
+      track: track ?? { id: result.trackId, title: '', artist: '', duration: 0 },
+      confidence: result.confidence,
+      matchType: 'fingerprint',
+      offset: result.offset,
+    };
+  }
 
-      // Normalize to 0-1 similarity
-      const avgDiff = sumDiff / minLength;
-      return 1 - avgDiff / 255;
-    } catch {
-      return 0;
+  /**
+   * Compute a landmark fingerprint from raw PCM
+   */
+  private computeFingerprint(buffer: ArrayBuffer, sampleRate: number): LandmarkFingerprint | null {
+    try {
+      const audioData = new Float32Array(buffer);
+      const fingerprint = computeLandmarkFingerprint(audioData, sampleRate);
+      return fingerprint.hashes.length > 0 ? fingerprint : null;
+    } catch (error) {
+      console.error('[FingerprintProvider] Fingerprinting failed:', error);
+      return null;
     }
   }
 
   /**
-   * Create pseudo-fingerprint from metadata
+   * Persist the index if it changed
    */
-  private createPseudoFingerprint(track: Track): string {
-    // Create a fingerprint-like hash from metadata
-    const str = `${track.title}|${track.artist}|${track.duration}`;
-    let hash = 0;
-
-    for (let i = 0; i < str.length; i++) {
-      const chr = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + chr;
-      hash |= 0;
+  private async saveIndex(): Promise<void> {
+    if (!this.dirty) return;
+
+    const entries: Array<[string, string]> = [];
+    for (const [trackId, fingerprint] of this.index.entries()) {
+      entries.push([trackId, encodeFingerprint(fingerprint)]);
     }
 
-    // Convert to base64-like string
-    return btoa(String.fromCharCode(
-      (hash >> 0) & 255,
-      (hash >> 8) & 255,
-      (hash >> 16) & 255,
-      (hash >> 24) & 255,
-    ));
+    await this.endpoints.storage.set(INDEX_KEY, entries);
+    this.dirty = false;
   }
 }
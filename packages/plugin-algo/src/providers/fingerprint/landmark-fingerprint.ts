@@ -0,0 +1,226 @@
+/**
+ * Landmark Fingerprint - Spectral-peak constellation hashing
+ *
+ * Picks prominent time/frequency peaks from a log spectrogram and hashes
+ * pairs of peaks (anchor frequency, target frequency, time delta). Hashes only
+ * depend on relative positions, so they survive volume changes, re-encoding
+ * and trimming; the anchor time is kept to recover the offset between clips.
+ */
+
+import { resample, spectrogram } from '../../dsp';
+
+export const FINGERPRINT_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+
+/** Seconds per fingerprint frame */
+export const FRAME_DURATION = HOP_SIZE / FINGERPRINT_SAMPLE_RATE;
+
+// Peak picking
+const MIN_BIN = 4; // Ignore DC / sub-bass rumble
+const MAX_BIN = 480;
+const PEAK_FREQ_NEIGHBORHOOD = 8;
+const PEAK_TIME_NEIGHBORHOOD = 3;
+const PEAKS_PER_FRAME = 3;
+const PEAK_MIN_DB_ABOVE_MEAN = 6;
+
+// Pairing
+const FAN_OUT = 5;
+const TARGET_MIN_DT = 1;
+const TARGET_MAX_DT = 63;
+const TARGET_MAX_DF = 96;
+
+export interface LandmarkFingerprint {
+  /** Landmark hashes */
+  hashes: Uint32Array;
+  /** Anchor frame of each hash */
+  times: Uint32Array;
+  /** Duration of the fingerprinted audio in seconds */
+  duration: number;
+}
+
+interface Peak {
+  frame: number;
+  bin: number;
+}
+
+/**
+ * Compute a landmark fingerprint from mono PCM samples
+ */
+export function computeLandmarkFingerprint(
+  audioData: Float32Array,
+  sampleRate: number
+): LandmarkFingerprint {
+  const signal = downsample(audioData, sampleRate);
+  const frames = spectrogram(signal, FRAME_SIZE, HOP_SIZE).map(toDecibels);
+  const peaks = pickPeaks(frames);
+
+  const hashes: number[] = [];
+  const times: number[] = [];
+
+  for (let i = 0; i < peaks.length; i++) {
+    const anchor = peaks[i];
+    let paired = 0;
+
+    for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+      const target = peaks[j];
+      const dt = target.frame - anchor.frame;
+
+      if (dt < TARGET_MIN_DT) continue;
+      if (dt > TARGET_MAX_DT) break;
+      if (Math.abs(target.bin - anchor.bin) > TARGET_MAX_DF) continue;
+
+      hashes.push(hashLandmark(anchor.bin, target.bin, dt));
+      times.push(anchor.frame);
+      paired++;
+    }
+  }
+
+  return {
+    hashes: Uint32Array.from(hashes),
+    times: Uint32Array.from(times),
+    duration: audioData.length / sampleRate,
+  };
+}
+
+/**
+ * Pack a peak pair into a 24-bit hash: 9 bits per frequency, 6 bits of time delta
+ */
+export function hashLandmark(anchorBin: number, targetBin: number, dt: number): number {
+  return ((anchorBin & 0x1ff) << 15) | ((targetBin & 0x1ff) << 6) | (dt & 0x3f);
+}
+
+/**
+ * Serialize a fingerprint to a compact base64 string
+ */
+export function encodeFingerprint(fp: LandmarkFingerprint): string {
+  const packed = new Uint32Array(fp.hashes.length * 2 + 1);
+  packed[0] = Math.round(fp.duration * 1000);
+  for (let i = 0; i < fp.hashes.length; i++) {
+    packed[1 + i * 2] = fp.hashes[i];
+    packed[2 + i * 2] = fp.times[i];
+  }
+
+  const bytes = new Uint8Array(packed.buffer);
+  let binary = '';
+  // Chunked to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Deserialize a fingerprint produced by encodeFingerprint()
+ */
+export function decodeFingerprint(encoded: string): LandmarkFingerprint | null {
+  try {
+    const binary = atob(encoded);
+    if (binary.length < 4 || binary.length % 4 !== 0) return null;
+
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    const packed = new Uint32Array(bytes.buffer);
+    const count = Math.floor((packed.length - 1) / 2);
+    const hashes = new Uint32Array(count);
+    const times = new Uint32Array(count);
+
+    for (let i = 0; i < count; i++) {
+      hashes[i] = packed[1 + i * 2];
+      times[i] = packed[2 + i * 2];
+    }
+
+    return { hashes, times, duration: packed[0] / 1000 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Low-pass (box filter) and resample to the fingerprint rate
+ */
+function downsample(audioData: Float32Array, sampleRate: number): Float32Array {
+  if (sampleRate <= FINGERPRINT_SAMPLE_RATE) {
+    return resample(audioData, sampleRate, FINGERPRINT_SAMPLE_RATE);
+  }
+
+  const width = Math.max(1, Math.round(sampleRate / FINGERPRINT_SAMPLE_RATE));
+  const smoothed = new Float32Array(audioData.length);
+  let sum = 0;
+
+  for (let i = 0; i < audioData.length; i++) {
+    sum += audioData[i];
+    if (i >= width) sum -= audioData[i - width];
+    smoothed[i] = sum / Math.min(i + 1, width);
+  }
+
+  return resample(smoothed, sampleRate, FINGERPRINT_SAMPLE_RATE);
+}
+
+function toDecibels(frame: Float32Array): Float32Array {
+  const db = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) {
+    db[i] = 20 * Math.log10(frame[i] + 1e-9);
+  }
+  return db;
+}
+
+/**
+ * Pick the strongest local maxima of each frame, keeping only those that are
+ * also maxima over neighbouring frames. Thresholds are relative to the frame
+ * mean, which makes the constellation independent of playback volume.
+ */
+function pickPeaks(frames: Float32Array[]): Peak[] {
+  const peaks: Peak[] = [];
+  const maxBin = Math.min(MAX_BIN, (frames[0]?.length ?? 0) - 1);
+
+  for (let t = 0; t < frames.length; t++) {
+    const frame = frames[t];
+
+    let mean = 0;
+    for (let k = MIN_BIN; k <= maxBin; k++) mean += frame[k];
+    mean /= Math.max(1, maxBin - MIN_BIN + 1);
+
+    const candidates: Array<{ bin: number; value: number }> = [];
+
+    for (let k = MIN_BIN; k <= maxBin; k++) {
+      const value = frame[k];
+      if (value < mean + PEAK_MIN_DB_ABOVE_MEAN) continue;
+      if (!isLocalMax(frames, t, k, value, maxBin)) continue;
+      candidates.push({ bin: k, value });
+    }
+
+    candidates
+      .sort((a, b) => b.value - a.value)
+      .slice(0, PEAKS_PER_FRAME)
+      .sort((a, b) => a.bin - b.bin)
+      .forEach(c => peaks.push({ frame: t, bin: c.bin }));
+  }
+
+  return peaks;
+}
+
+function isLocalMax(
+  frames: Float32Array[],
+  t: number,
+  k: number,
+  value: number,
+  maxBin: number
+): boolean {
+  const tStart = Math.max(0, t - PEAK_TIME_NEIGHBORHOOD);
+  const tEnd = Math.min(frames.length - 1, t + PEAK_TIME_NEIGHBORHOOD);
+  const kStart = Math.max(MIN_BIN, k - PEAK_FREQ_NEIGHBORHOOD);
+  const kEnd = Math.min(maxBin, k + PEAK_FREQ_NEIGHBORHOOD);
+
+  for (let ti = tStart; ti <= tEnd; ti++) {
+    const frame = frames[ti];
+    for (let ki = kStart; ki <= kEnd; ki++) {
+      if (frame[ki] > value) return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,187 @@
+/**
+ * Landmark Index - Inverted hash index for fingerprint lookup
+ *
+ * Maps each landmark hash to the (track, anchor frame) postings that contain it.
+ * A query only touches postings of its own hashes, then votes for the time
+ * offset per track; true matches pile up on a single offset.
+ */
+
+import { FRAME_DURATION, type LandmarkFingerprint } from './landmark-fingerprint';
+
+// Offsets within this many frames are counted as the same alignment
+const OFFSET_TOLERANCE = 1;
+// Minimum number of aligned hashes before a candidate is reported
+const MIN_ALIGNED_HASHES = 8;
+// Aligned hashes past the minimum that give ~63% confidence
+const CONFIDENCE_SCALE = 25;
+
+export interface LandmarkMatchResult {
+  trackId: string;
+  /** Hashes that agree on the best offset */
+  alignedHashes: number;
+  /** How unlikely the alignment is to be chance (0-1) */
+  confidence: number;
+  /** Aligned hashes relative to the smaller of the two fingerprints */
+  coverage: number;
+  /** Seconds into the indexed track where the query starts */
+  offset: number;
+}
+
+export class LandmarkIndex {
+  private postings: Map<number, number[]> = new Map(); // hash -> [trackIdx, frame, trackIdx, frame, ...]
+  private fingerprints: Map<string, LandmarkFingerprint> = new Map();
+  private trackIds: string[] = [];
+  private trackIndex: Map<string, number> = new Map();
+
+  get size(): number {
+    return this.fingerprints.size;
+  }
+
+  has(trackId: string): boolean {
+    return this.fingerprints.has(trackId);
+  }
+
+  get(trackId: string): LandmarkFingerprint | undefined {
+    return this.fingerprints.get(trackId);
+  }
+
+  entries(): IterableIterator<[string, LandmarkFingerprint]> {
+    return this.fingerprints.entries();
+  }
+
+  /**
+   * Add or replace a track's fingerprint
+   */
+  add(trackId: string, fingerprint: LandmarkFingerprint): void {
+    if (this.fingerprints.has(trackId)) {
+      this.remove(trackId);
+    }
+
+    let idx = this.trackIndex.get(trackId);
+    if (idx === undefined) {
+      idx = this.trackIds.length;
+      this.trackIds.push(trackId);
+      this.trackIndex.set(trackId, idx);
+    }
+
+    this.fingerprints.set(trackId, fingerprint);
+
+    for (let i = 0; i < fingerprint.hashes.length; i++) {
+      const hash = fingerprint.hashes[i];
+      let list = this.postings.get(hash);
+      if (!list) {
+        list = [];
+        this.postings.set(hash, list);
+      }
+      list.push(idx, fingerprint.times[i]);
+    }
+  }
+
+  /**
+   * Remove a track's fingerprint and its postings
+   */
+  remove(trackId: string): boolean {
+    const fingerprint = this.fingerprints.get(trackId);
+    const idx = this.trackIndex.get(trackId);
+    if (!fingerprint || idx === undefined) return false;
+
+    for (const hash of new Set(fingerprint.hashes)) {
+      const list = this.postings.get(hash);
+      if (!list) continue;
+
+      const kept: number[] = [];
+      for (let i = 0; i < list.length; i += 2) {
+        if (list[i] !== idx) kept.push(list[i], list[i + 1]);
+      }
+
+      if (kept.length > 0) {
+        this.postings.set(hash, kept);
+      } else {
+        this.postings.delete(hash);
+      }
+    }
+
+    this.fingerprints.delete(trackId);
+    return true;
+  }
+
+  /**
+   * Find indexed tracks that share an aligned run of landmarks with the query
+   */
+  query(fingerprint: LandmarkFingerprint, limit = 10, excludeId?: string): LandmarkMatchResult[] {
+    const excludeIdx = excludeId !== undefined ? this.trackIndex.get(excludeId) : undefined;
+
+    // trackIdx -> (offset -> votes)
+    const votes = new Map<number, Map<number, number>>();
+
+    for (let i = 0; i < fingerprint.hashes.length; i++) {
+      const list = this.postings.get(fingerprint.hashes[i]);
+      if (!list) continue;
+
+      const queryFrame = fingerprint.times[i];
+      for (let p = 0; p < list.length; p += 2) {
+        const idx = list[p];
+        if (idx === excludeIdx) continue;
+
+        const offset = list[p + 1] - queryFrame;
+        let trackVotes = votes.get(idx);
+        if (!trackVotes) {
+          trackVotes = new Map();
+          votes.set(idx, trackVotes);
+        }
+        trackVotes.set(offset, (trackVotes.get(offset) ?? 0) + 1);
+      }
+    }
+
+    const results: LandmarkMatchResult[] = [];
+
+    for (const [idx, trackVotes] of votes) {
+      const { offset, count } = bestOffset(trackVotes);
+      if (count < MIN_ALIGNED_HASHES) continue;
+
+      const trackId = this.trackIds[idx];
+      const indexed = this.fingerprints.get(trackId);
+      if (!indexed) continue;
+
+      const denominator = Math.max(1, Math.min(fingerprint.hashes.length, indexed.hashes.length));
+
+      results.push({
+        trackId,
+        alignedHashes: count,
+        confidence: 1 - Math.exp(-(count - MIN_ALIGNED_HASHES) / CONFIDENCE_SCALE),
+        coverage: Math.min(1, count / denominator),
+        offset: offset * FRAME_DURATION,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.alignedHashes - a.alignedHashes)
+      .slice(0, limit);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.fingerprints.clear();
+    this.trackIds = [];
+    this.trackIndex.clear();
+  }
+}
+
+/**
+ * Offset with the most votes, counting neighbouring offsets as the same bin
+ */
+function bestOffset(trackVotes: Map<number, number>): { offset: number; count: number } {
+  let best = { offset: 0, count: 0 };
+
+  for (const offset of trackVotes.keys()) {
+    let count = 0;
+    for (let d = -OFFSET_TOLERANCE; d <= OFFSET_TOLERANCE; d++) {
+      count += trackVotes.get(offset + d) ?? 0;
+    }
+    if (count > best.count) {
+      best = { offset, count };
+    }
+  }
+
+  return best;
+}
@@ -3,7 +3,35 @@
  */
 
 export { EssentiaProvider } from './essentia/essentia-provider';
+export type { EssentiaAnalysis } from './essentia/essentia-provider';
 export { EmotionProvider } from './emotion/emotion-provider';
 export { LyricsProvider } from './lyrics/lyrics-provider';
+export type {
+  LyricsAnalysisModel,
+  MultilingualLyricsFeatures,
+  TrackLyricsFeatures,
+} from './lyrics/lyrics-provider';
+export type {
+  SyncedLyricLine,
+  LyricLineMood,
+  LyricsMoodArc,
+  MoodArcShape,
+} from './lyrics/mood-arc';
+export type { LyricsLexicon } from './lyrics/lexicons';
+export { detectLanguage, getSupportedLanguages } from './lyrics/language-id';
+export type { LanguageDetection } from './lyrics/language-id';
 export { FingerprintProvider } from './fingerprint/fingerprint-provider';
 export { EmbeddingProvider } from './embeddings/embedding-provider';
+export type { BeatGrid, CuePoint, BeatAnalysisCapability } from './essentia/beat-grid';
+export { FeatureStore, hashAudio, hashText } from './feature-store';
+export type { FeatureStoreOptions, FeatureStoreEntry } from './feature-store';
+export { LoudnessStore } from './essentia/loudness-store';
+export type { TrackLoudness, LoudnessCapability } from './essentia/loudness-store';
+export { StructureProvider } from './structure/structure-provider';
+export type { StructureCapability } from './structure/structure-provider';
+export type {
+  SectionLabel,
+  SongSection,
+  SongStructure,
+  PreviewWindow,
+} from './structure/segmentation';
@@ -0,0 +1,279 @@
+/**
+ * Language ID - Script detection plus character-trigram classification
+ *
+ * Languages with their own script (Korean, Japanese, Greek, Thai, ...) are
+ * identified from the script alone. Latin and Cyrillic text is classified
+ * with a naive Bayes model over character trigrams, trained on a frequent-word
+ * sample per language.
+ */
+
+export interface LanguageDetection {
+  /** ISO 639-1 code, or 'und' when undetermined */
+  language: string;
+  /** 0-1 */
+  confidence: number;
+  /** Model that produced the result */
+  model: string;
+}
+
+export const LANGUAGE_ID_MODEL = 'trigram-nb-v1';
+export const UNDETERMINED_LANGUAGE = 'und';
+
+type Script =
+  | 'latin'
+  | 'cyrillic'
+  | 'hangul'
+  | 'kana'
+  | 'han'
+  | 'greek'
+  | 'arabic'
+  | 'hebrew'
+  | 'devanagari'
+  | 'thai';
+
+const SCRIPT_PATTERNS: Array<[Script, RegExp]> = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['han', /\p{Script=Han}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['devanagari', /\p{Script=Devanagari}/u],
+  ['thai', /\p{Script=Thai}/u],
+];
+
+// Scripts used by a single language in our catalogue
+const SCRIPT_LANGUAGES: Partial<Record<Script, string>> = {
+  hangul: 'ko',
+  kana: 'ja',
+  han: 'zh',
+  greek: 'el',
+  arabic: 'ar',
+  hebrew: 'he',
+  devanagari: 'hi',
+  thai: 'th',
+};
+
+// Kana marks Japanese even in kanji-heavy text; Hangul marks Korean even
+// with English hooks mixed in
+const KANA_SHARE = 0.1;
+const HANGUL_SHARE = 0.2;
+
+// Frequent words (function words and common lyric vocabulary) per language
+const TRAINING_SAMPLES: Record<string, Record<string, string>> = {
+  latin: {
+    en: `the and you i to a me my it in is of that your love on be all we don't i'm know so for
+      what just like baby oh when with can this no now never heart time want feel go night
+      there they she he was but got have will would could gonna wanna tonight right away`,
+    es: `que de la el y en no me te mi yo tu es un una por con lo se amor corazón quiero como más
+      pero para si cuando vida todo nada siempre estoy eres mis noche ya sin tú tus esta está
+      porque hay quiero vez así donde también del los las sólo contigo`,
+    fr: `je de la le et les tu que pas un une mon ma est dans pour qui moi toi plus mais on nous vous
+      amour coeur c'est j'ai elle il au du sur comme ne avec tout jamais nuit des ce se suis
+      veux encore être sans toujours quand rien fait vie oui`,
+    pt: `que de o a e não eu você me meu minha um uma é em com para por mais se coração amor quando
+      tudo nada sempre vou te quero sem como ao do da nos isso os as vida tão agora ainda
+      está estou seu sua pra gente então noite`,
+    it: `che di il la e non io tu mi ti un una per con è sono amore cuore come ma più se quando tutto
+      niente sempre voglio della nel del questo anche ancora notte sei gli le lo ci vita mai
+      dove cosa siamo perché così dentro`,
+    de: `ich du und die der das nicht ist ein eine mit mich dich mir dir zu in es wir sie auf für
+      liebe herz noch nur wenn immer alles nie bin bist wie was auch kann den dem sich nacht
+      mein dein doch schon hier weil jetzt wieder`,
+    nl: `ik je de het een en niet is van jij mij me in op dat met voor wat maar zijn we als liefde
+      hart nog nooit altijd ben bent kan wil mijn jouw zo ook naar er dan hier nu wel heb
+      weet zou door alles nacht`,
+    sv: `jag du och det att en är inte på i mig dig som med för vi har så min din kärlek hjärta när
+      alla aldrig alltid vill kan bara ett om till men vad här nu han hon ska inget natt
+      mitt ditt över också något`,
+    da: `jeg du og det at en er ikke på i mig dig som med for vi har så min din kærlighed hjerte når
+      alle aldrig altid vil kan bare et om til men hvad her nu han hun skal intet nat
+      mit dit over også noget`,
+    fi: `minä sinä ja on ei se että en olen olet mutta kun niin rakkaus sydän aina koskaan kaikki
+      tämä tää mä sä mun sun vaan nyt vielä tahdon haluan yö oon oot mulle sulle kanssa
+      jotain missä kuin sitä tässä`,
+    pl: `nie i w się na to że jest ja ty mnie ci jak co tak ale mi po z do miłość serce kiedy zawsze
+      nigdy wszystko jestem chcę być tylko już jeszcze noc mój moja twój twoja tu tam dla
+      bez czy jesteś teraz`,
+    tr: `bir ve bu ben sen ne de da için gibi çok var yok aşk kalp seni beni benim senin ama hiç her
+      şey daha gece olmak değil istiyorum sana bana neden şimdi kadar bile gel git
+      gönül yine artık`,
+    id: `aku kau kamu yang dan di ini itu tak tidak akan dengan cinta hati untuk ku mu ada semua
+      selalu tanpa bisa ingin malam sayang dalam ke dari jangan hanya kita kami saat
+      sudah masih pernah begitu lagi`,
+    ro: `și de în eu tu nu mă te că pe la cu un o este sunt dragoste inimă iubire când mereu niciodată
+      tot vreau ce mai dar pentru noapte doar fără sau îmi îți ești asta acum iar
+      lângă viața`,
+    cs: `a je se na to že v ty já mě tě ale jak co tak jsem jsi láska srdce když vždy nikdy všechno
+      chci být jen už ještě noc mi ti tady teď proč můj tvůj bez pro jako byl`,
+    hu: `a az és nem hogy én te is egy van de ha meg már csak szerelem szív mindig soha minden akarom
+      vagyok vagy engem téged éjszaka még mint nekem neked itt most miért lesz volt
+      nélkül velem`,
+    tl: `ang ng sa mga ako ikaw ka mo ko at na hindi ay pag-ibig puso lang kung kita akin iyo mahal ba
+      pa siya tayo kahit lahat naman ikaw ay sana wala may dito doon bakit palagi`,
+    vi: `anh em và là của không có một người yêu tình trái tim những đã cho với này trong mãi khi
+      đêm nhớ ta mình được như thì lại còn nào đi về đâu sao vì nhưng`,
+  },
+  cyrillic: {
+    ru: `я ты и в не на что меня тебя мне тебе это как но он она мы все любовь сердце когда всегда
+      никогда только ещё уже быть ночь так же мой моя твой твоя где здесь сейчас почему
+      был было хочу знаю`,
+    uk: `я ти і в не на що мене тебе мені тобі це як але він вона ми все кохання серце коли завжди
+      ніколи тільки ще вже бути ніч так же є мій моя твій твоя де тут зараз чому
+      був було хочу знаю`,
+  },
+};
+
+const SMOOTHING = 0.5;
+const MIN_TRIGRAMS = 8;
+
+interface TrigramModel {
+  counts: Map<string, number>;
+  total: number;
+}
+
+let models: Map<Script, Map<string, TrigramModel>> | null = null;
+
+/**
+ * Identify the language of a text
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const scripts = countScripts(text);
+  const letters = [...scripts.values()].reduce((sum, n) => sum + n, 0);
+
+  if (letters === 0) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0, model: LANGUAGE_ID_MODEL };
+  }
+
+  const share = (script: Script) => (scripts.get(script) ?? 0) / letters;
+
+  if (share('kana') >= KANA_SHARE) {
+    return { language: 'ja', confidence: Math.min(1, share('kana') + share('han')), model: LANGUAGE_ID_MODEL };
+  }
+  if (share('hangul') >= HANGUL_SHARE) {
+    return { language: 'ko', confidence: Math.min(1, share('hangul') * 1.5), model: LANGUAGE_ID_MODEL };
+  }
+
+  const dominant = [...scripts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const scriptLanguage = SCRIPT_LANGUAGES[dominant];
+  if (scriptLanguage) {
+    return { language: scriptLanguage, confidence: share(dominant), model: LANGUAGE_ID_MODEL };
+  }
+
+  return classifyTrigrams(text, dominant, share(dominant));
+}
+
+/**
+ * Every language the detector can return
+ */
+export function getSupportedLanguages(): string[] {
+  const languages = new Set(Object.values(SCRIPT_LANGUAGES));
+  for (const samples of Object.values(TRAINING_SAMPLES)) {
+    for (const language of Object.keys(samples)) languages.add(language);
+  }
+  return [...languages];
+}
+
+/**
+ * Naive Bayes over character trigrams of the given script's languages
+ */
+function classifyTrigrams(text: string, script: Script, scriptShare: number): LanguageDetection {
+  const scriptModels = getModels().get(script);
+  const trigrams = extractTrigrams(text, script);
+
+  if (!scriptModels || trigrams.length < MIN_TRIGRAMS) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0, model: LANGUAGE_ID_MODEL };
+  }
+
+  const vocabulary = new Set<string>();
+  for (const model of scriptModels.values()) {
+    for (const trigram of model.counts.keys()) vocabulary.add(trigram);
+  }
+
+  const scores: Array<[string, number]> = [];
+  for (const [language, model] of scriptModels) {
+    const denominator = model.total + SMOOTHING * vocabulary.size;
+    let logLikelihood = 0;
+    for (const trigram of trigrams) {
+      logLikelihood += Math.log(((model.counts.get(trigram) ?? 0) + SMOOTHING) / denominator);
+    }
+    // Per-trigram average keeps the posterior from saturating on long texts
+    scores.push([language, logLikelihood / trigrams.length]);
+  }
+
+  scores.sort((a, b) => b[1] - a[1]);
+
+  // Softmax over average log-likelihoods, sharpened so clear wins read as confident
+  const best = scores[0][1];
+  const weights = scores.map(([, score]) => Math.exp((score - best) * 8));
+  const confidence = weights[0] / weights.reduce((sum, w) => sum + w, 0);
+
+  return {
+    language: scores[0][0],
+    confidence: confidence * scriptShare,
+    model: LANGUAGE_ID_MODEL,
+  };
+}
+
+/**
+ * Letter count per script
+ */
+function countScripts(text: string): Map<Script, number> {
+  const counts = new Map<Script, number>();
+
+  for (const char of text) {
+    if (!/\p{L}/u.test(char)) continue;
+    for (const [script, pattern] of SCRIPT_PATTERNS) {
+      if (pattern.test(char)) {
+        counts.set(script, (counts.get(script) ?? 0) + 1);
+        break;
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Trigrams of each word in the script, padded with word boundaries
+ */
+function extractTrigrams(text: string, script: Script): string[] {
+  const pattern = SCRIPT_PATTERNS.find(([s]) => s === script)![1];
+  const trigrams: string[] = [];
+
+  const words = text.normalize('NFC').toLowerCase().split(/[^\p{L}\p{M}']+/u);
+  for (const word of words) {
+    if (word.length === 0 || !pattern.test(word[0])) continue;
+
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      trigrams.push(padded.slice(i, i + 3));
+    }
+  }
+
+  return trigrams;
+}
+
+function getModels(): Map<Script, Map<string, TrigramModel>> {
+  if (models) return models;
+
+  models = new Map();
+  for (const [script, samples] of Object.entries(TRAINING_SAMPLES) as Array<[Script, Record<string, string>]>) {
+    const scriptModels = new Map<string, TrigramModel>();
+
+    for (const [language, sample] of Object.entries(samples)) {
+      const counts = new Map<string, number>();
+      const trigrams = extractTrigrams(sample, script);
+      for (const trigram of trigrams) {
+        counts.set(trigram, (counts.get(trigram) ?? 0) + 1);
+      }
+      scriptModels.set(language, { counts, total: trigrams.length });
+    }
+
+    models.set(script, scriptModels);
+  }
+
+  return models;
+}
@@ -0,0 +1,223 @@
+/**
+ * Lyrics Lexicons - Per-language sentiment and theme word lists
+ *
+ * Built-in lexicons cover the languages most common in our catalogue; more
+ * can be registered through LyricsProvider.registerLexicon.
+ */
+
+export interface LyricsLexicon {
+  /** ISO 639-1 code */
+  language: string;
+  positive: string[];
+  negative: string[];
+  /** Theme name -> keywords */
+  themes: Record<string, string[]>;
+  /**
+   * Match entries as word stems (token starts with the entry), for languages
+   * that attach particles or suffixes to words
+   */
+  matchPrefix?: boolean;
+}
+
+const EN: LyricsLexicon = {
+  language: 'en',
+  positive: [
+    'love', 'happy', 'joy', 'beautiful', 'wonderful', 'amazing', 'great',
+    'good', 'best', 'dream', 'hope', 'smile', 'laugh', 'dance', 'sun',
+    'light', 'bright', 'warm', 'sweet', 'gentle', 'kind', 'free', 'alive',
+  ],
+  negative: [
+    'hate', 'sad', 'pain', 'hurt', 'cry', 'tear', 'dark', 'cold',
+    'alone', 'lonely', 'lost', 'break', 'broken', 'fall', 'die', 'dead',
+    'fear', 'angry', 'rage', 'storm', 'night', 'shadow', 'never', 'gone',
+  ],
+  themes: {
+    love: ['love', 'heart', 'kiss', 'hold', 'touch', 'forever', 'baby', 'darling'],
+    heartbreak: ['break', 'broken', 'gone', 'leave', 'left', 'goodbye', 'over', 'end'],
+    party: ['dance', 'party', 'night', 'club', 'move', 'beat', 'fun', 'crazy'],
+    nostalgia: ['remember', 'memory', 'yesterday', 'time', 'old', 'back', 'used'],
+    empowerment: ['strong', 'power', 'rise', 'fight', 'stand', 'never', 'give', 'up'],
+    nature: ['sun', 'moon', 'star', 'sky', 'sea', 'ocean', 'wind', 'rain', 'flower'],
+    spirituality: ['soul', 'spirit', 'god', 'heaven', 'faith', 'believe', 'pray'],
+    rebellion: ['rebel', 'fight', 'free', 'break', 'rule', 'against', 'revolution'],
+  },
+};
+
+const ES: LyricsLexicon = {
+  language: 'es',
+  positive: [
+    'amor', 'feliz', 'alegría', 'hermosa', 'hermoso', 'bonita', 'bello', 'sueño', 'sueños',
+    'esperanza', 'sonrisa', 'reír', 'bailar', 'sol', 'luz', 'dulce', 'libre', 'vida', 'besos',
+  ],
+  negative: [
+    'odio', 'triste', 'dolor', 'llorar', 'lágrimas', 'oscuro', 'frío', 'solo', 'sola',
+    'soledad', 'perdido', 'roto', 'morir', 'muerte', 'miedo', 'rabia', 'sombra', 'nunca',
+  ],
+  themes: {
+    love: ['amor', 'corazón', 'beso', 'besos', 'abrazo', 'siempre', 'querer', 'cariño'],
+    heartbreak: ['roto', 'adiós', 'olvidar', 'fuiste', 'dejaste', 'final', 'perdí'],
+    party: ['bailar', 'fiesta', 'noche', 'baila', 'ritmo', 'perreo', 'gozar', 'discoteca'],
+    nostalgia: ['recuerdo', 'recuerdos', 'ayer', 'tiempo', 'antes', 'memoria', 'volver'],
+    empowerment: ['fuerte', 'poder', 'luchar', 'levantar', 'ganar', 'nadie', 'sola'],
+    nature: ['sol', 'luna', 'estrella', 'cielo', 'mar', 'viento', 'lluvia', 'flor'],
+    spirituality: ['alma', 'dios', 'cielo', 'fe', 'creer', 'rezar', 'ángel'],
+    rebellion: ['rebelde', 'luchar', 'libre', 'libertad', 'contra', 'revolución'],
+  },
+};
+
+const FR: LyricsLexicon = {
+  language: 'fr',
+  positive: [
+    'amour', 'heureux', 'heureuse', 'joie', 'belle', 'beau', 'merveilleux', 'rêve', 'espoir',
+    'sourire', 'rire', 'danser', 'soleil', 'lumière', 'doux', 'douce', 'libre', 'vivant',
+  ],
+  negative: [
+    'haine', 'triste', 'douleur', 'mal', 'pleurer', 'larmes', 'sombre', 'froid', 'seul',
+    'seule', 'perdu', 'brisé', 'mourir', 'mort', 'peur', 'colère', 'ombre', 'jamais',
+  ],
+  themes: {
+    love: ['amour', 'coeur', 'cœur', 'baiser', 'embrasse', 'toujours', 'chérie', 'aimer'],
+    heartbreak: ['brisé', 'partie', 'parti', 'adieu', 'quitter', 'fin', 'oublier'],
+    party: ['danser', 'fête', 'nuit', 'soirée', 'bouger', 'rythme', 'fou'],
+    nostalgia: ['souvenir', 'souvenirs', 'hier', 'temps', 'autrefois', 'mémoire', 'enfance'],
+    empowerment: ['fort', 'forte', 'pouvoir', 'lever', 'combat', 'debout', 'gagner'],
+    nature: ['soleil', 'lune', 'étoile', 'ciel', 'mer', 'océan', 'vent', 'pluie', 'fleur'],
+    spirituality: ['âme', 'esprit', 'dieu', 'paradis', 'foi', 'croire', 'prier'],
+    rebellion: ['rebelle', 'révolte', 'libre', 'liberté', 'contre', 'révolution'],
+  },
+};
+
+const PT: LyricsLexicon = {
+  language: 'pt',
+  positive: [
+    'amor', 'feliz', 'alegria', 'linda', 'lindo', 'bonita', 'sonho', 'esperança', 'sorriso',
+    'sorrir', 'dançar', 'sol', 'luz', 'doce', 'livre', 'paixão', 'beijo', 'saudade',
+  ],
+  negative: [
+    'ódio', 'triste', 'dor', 'chorar', 'lágrimas', 'escuro', 'frio', 'sozinho', 'sozinha',
+    'solidão', 'perdido', 'quebrado', 'morrer', 'morte', 'medo', 'raiva', 'sombra', 'nunca',
+  ],
+  themes: {
+    love: ['amor', 'coração', 'beijo', 'abraço', 'sempre', 'paixão', 'querida', 'amar'],
+    heartbreak: ['partido', 'adeus', 'esquecer', 'embora', 'deixou', 'fim', 'perdi'],
+    party: ['dançar', 'festa', 'noite', 'balada', 'ritmo', 'curtir', 'louco'],
+    nostalgia: ['saudade', 'lembrança', 'ontem', 'tempo', 'antes', 'memória', 'voltar'],
+    empowerment: ['forte', 'poder', 'lutar', 'levantar', 'vencer', 'ninguém'],
+    nature: ['sol', 'lua', 'estrela', 'céu', 'mar', 'vento', 'chuva', 'flor'],
+    spirituality: ['alma', 'espírito', 'deus', 'céu', 'fé', 'acreditar', 'rezar'],
+    rebellion: ['rebelde', 'lutar', 'livre', 'liberdade', 'contra', 'revolução'],
+  },
+};
+
+const DE: LyricsLexicon = {
+  language: 'de',
+  positive: [
+    'liebe', 'glücklich', 'freude', 'schön', 'wunderbar', 'traum', 'hoffnung', 'lächeln',
+    'lachen', 'tanzen', 'sonne', 'licht', 'hell', 'warm', 'süß', 'frei', 'lebendig',
+  ],
+  negative: [
+    'hass', 'traurig', 'schmerz', 'weinen', 'tränen', 'dunkel', 'kalt', 'allein', 'einsam',
+    'verloren', 'kaputt', 'sterben', 'tot', 'angst', 'wut', 'sturm', 'schatten', 'nie',
+  ],
+  themes: {
+    love: ['liebe', 'herz', 'kuss', 'halten', 'berühren', 'ewig', 'schatz'],
+    heartbreak: ['gebrochen', 'weg', 'verlassen', 'abschied', 'vorbei', 'ende'],
+    party: ['tanzen', 'party', 'nacht', 'club', 'feiern', 'beat', 'verrückt'],
+    nostalgia: ['erinnerung', 'gestern', 'zeit', 'damals', 'früher', 'zurück'],
+    empowerment: ['stark', 'kraft', 'aufstehen', 'kämpfen', 'stehen', 'niemals'],
+    nature: ['sonne', 'mond', 'stern', 'himmel', 'meer', 'wind', 'regen', 'blume'],
+    spirituality: ['seele', 'geist', 'gott', 'himmel', 'glaube', 'glauben', 'beten'],
+    rebellion: ['rebell', 'kämpfen', 'frei', 'freiheit', 'gegen', 'revolution'],
+  },
+};
+
+const IT: LyricsLexicon = {
+  language: 'it',
+  positive: [
+    'amore', 'felice', 'gioia', 'bella', 'bello', 'meraviglioso', 'sogno', 'speranza',
+    'sorriso', 'ridere', 'ballare', 'sole', 'luce', 'dolce', 'libero', 'libera', 'vivo',
+  ],
+  negative: [
+    'odio', 'triste', 'dolore', 'piangere', 'lacrime', 'buio', 'freddo', 'solo', 'sola',
+    'solitudine', 'perso', 'rotto', 'morire', 'morte', 'paura', 'rabbia', 'ombra', 'mai',
+  ],
+  themes: {
+    love: ['amore', 'cuore', 'bacio', 'baci', 'abbraccio', 'sempre', 'tesoro', 'amare'],
+    heartbreak: ['rotto', 'addio', 'dimenticare', 'andata', 'lasciato', 'fine'],
+    party: ['ballare', 'festa', 'notte', 'discoteca', 'ritmo', 'pazzo'],
+    nostalgia: ['ricordo', 'ricordi', 'ieri', 'tempo', 'prima', 'memoria', 'tornare'],
+    empowerment: ['forte', 'potere', 'lottare', 'alzarsi', 'vincere', 'nessuno'],
+    nature: ['sole', 'luna', 'stella', 'cielo', 'mare', 'vento', 'pioggia', 'fiore'],
+    spirituality: ['anima', 'spirito', 'dio', 'paradiso', 'fede', 'credere', 'pregare'],
+    rebellion: ['ribelle', 'lottare', 'libero', 'libertà', 'contro', 'rivoluzione'],
+  },
+};
+
+const KO: LyricsLexicon = {
+  language: 'ko',
+  matchPrefix: true,
+  positive: [
+    '사랑', '행복', '기쁨', '아름다', '예쁘', '꿈', '희망', '미소', '웃', '춤', '햇살',
+    '빛', '따뜻', '달콤', '자유', '설레', '좋아',
+  ],
+  negative: [
+    '미워', '슬프', '슬픔', '아프', '아픔', '눈물', '울', '어둠', '차가', '혼자', '외로',
+    '잃', '부서', '죽', '두려', '화가', '그림자', '이별',
+  ],
+  themes: {
+    love: ['사랑', '마음', '입맞', '키스', '안아', '영원', '자기야', '그대'],
+    heartbreak: ['이별', '떠나', '안녕', '헤어', '끝', '잊'],
+    party: ['춤', '파티', '밤', '클럽', '신나', '비트', '미쳐'],
+    nostalgia: ['기억', '추억', '어제', '시간', '그때', '예전', '돌아'],
+    empowerment: ['강해', '힘', '일어', '싸워', '포기', '당당'],
+    nature: ['태양', '달빛', '별', '하늘', '바다', '바람', '빗', '꽃'],
+    spirituality: ['영혼', '하느님', '천국', '믿', '기도', '천사'],
+    rebellion: ['반항', '싸워', '자유', '규칙', '맞서', '혁명'],
+  },
+};
+
+const JA: LyricsLexicon = {
+  language: 'ja',
+  positive: [
+    '愛', '恋', '好き', '幸せ', '喜び', '美しい', '綺麗', 'きれい', '夢', '希望', '笑顔', '笑う',
+    '踊る', '太陽', '光', '輝く', '優しい', '自由', '嬉しい',
+  ],
+  negative: [
+    '嫌い', '悲しい', '悲しみ', '痛い', '痛み', '涙', '泣く', '闇', '冷たい', '一人', 'ひとり',
+    '寂しい', '孤独', '失う', '壊れた', '死', '怖い', '怒り', '影', '別れ',
+  ],
+  themes: {
+    love: ['愛', '恋', '心', 'キス', '抱きしめ', '永遠', 'ずっと', '好き'],
+    heartbreak: ['別れ', 'さよなら', 'さようなら', '忘れ', '終わり', '壊れた', '去る'],
+    party: ['踊る', 'ダンス', 'パーティー', '夜', 'クラブ', 'ビート', '騒ぐ'],
+    nostalgia: ['思い出', '記憶', '昨日', '時間', 'あの頃', '昔', '戻る'],
+    empowerment: ['強い', '力', '立ち上が', '戦う', '負けない', '諦めない'],
+    nature: ['太陽', '月', '星', '空', '海', '風', '雨', '花', '桜'],
+    spirituality: ['魂', '神', '天国', '信じる', '祈る', '天使'],
+    rebellion: ['反抗', '戦う', '自由', 'ルール', '逆らう', '革命'],
+  },
+};
+
+const ZH: LyricsLexicon = {
+  language: 'zh',
+  positive: [
+    '爱', '快乐', '幸福', '开心', '美丽', '美好', '梦', '梦想', '希望', '微笑', '笑', '跳舞',
+    '阳光', '光', '温暖', '甜', '自由', '喜欢',
+  ],
+  negative: [
+    '恨', '悲伤', '伤心', '痛', '哭', '眼泪', '泪', '黑暗', '冷', '孤单', '孤独', '寂寞',
+    '失去', '破碎', '死', '害怕', '愤怒', '阴影', '离开',
+  ],
+  themes: {
+    love: ['爱', '爱情', '心', '吻', '拥抱', '永远', '宝贝', '亲爱的'],
+    heartbreak: ['分手', '再见', '离开', '忘记', '结束', '破碎', '心碎'],
+    party: ['跳舞', '派对', '夜', '节奏', '疯狂', '狂欢'],
+    nostalgia: ['回忆', '记忆', '昨天', '时间', '从前', '过去', '回到'],
+    empowerment: ['坚强', '力量', '站起来', '战斗', '勇敢', '不放弃'],
+    nature: ['太阳', '月亮', '星星', '天空', '大海', '风', '雨', '花'],
+    spirituality: ['灵魂', '神', '天堂', '信仰', '相信', '祈祷', '天使'],
+    rebellion: ['反抗', '战斗', '自由', '规则', '革命'],
+  },
+};
+
+export const BUILTIN_LEXICONS: LyricsLexicon[] = [EN, ES, FR, PT, DE, IT, KO, JA, ZH];
@@ -1,52 +1,116 @@
 /**
  * Lyrics Provider - Lyrics sentiment and theme analysis
  *
- * Uses a small transformer model for sentiment and keyword extraction.
+ * Uses a small transformer model for English sentiment, and per-language
+ * lexicons for sentiment and themes in other languages.
  */
 
 import * as tf from '@tensorflow/tfjs';
 import type { LyricsFeatures, LyricsTheme, MLCoreEndpoints } from '@audiio/ml-sdk';
 import { MemoryCache } from '@audiio/ml-sdk';
+import type { FeatureStore } from '../feature-store';
+import { detectLanguage } from './language-id';
+import { tokenizeLyrics } from './tokenizer';
+import { BUILTIN_LEXICONS, type LyricsLexicon } from './lexicons';
+import {
+  computeMoodArc,
+  type LineScore,
+  type LyricsMoodArc,
+  type SyncedLyricLine,
+} from './mood-arc';
 
 const MODEL_KEY = 'lyrics-model';
 const MAX_TOKENS = 128;
 const VOCAB_SIZE = 10000;
 
-// Simple word-to-sentiment mapping for fallback
-const POSITIVE_WORDS = new Set([
-  'love', 'happy', 'joy', 'beautiful', 'wonderful', 'amazing', 'great',
-  'good', 'best', 'dream', 'hope', 'smile', 'laugh', 'dance', 'sun',
-  'light', 'bright', 'warm', 'sweet', 'gentle', 'kind', 'free', 'alive',
-]);
-
-const NEGATIVE_WORDS = new Set([
-  'hate', 'sad', 'pain', 'hurt', 'cry', 'tear', 'dark', 'cold',
-  'alone', 'lonely', 'lost', 'break', 'broken', 'fall', 'die', 'dead',
-  'fear', 'angry', 'rage', 'storm', 'night', 'shadow', 'never', 'gone',
-]);
-
-const THEME_KEYWORDS: Record<string, string[]> = {
-  love: ['love', 'heart', 'kiss', 'hold', 'touch', 'forever', 'baby', 'darling'],
-  heartbreak: ['break', 'broken', 'gone', 'leave', 'left', 'goodbye', 'over', 'end'],
-  party: ['dance', 'party', 'night', 'club', 'move', 'beat', 'fun', 'crazy'],
-  nostalgia: ['remember', 'memory', 'yesterday', 'time', 'old', 'back', 'used'],
-  empowerment: ['strong', 'power', 'rise', 'fight', 'stand', 'never', 'give', 'up'],
-  nature: ['sun', 'moon', 'star', 'sky', 'sea', 'ocean', 'wind', 'rain', 'flower'],
-  spirituality: ['soul', 'spirit', 'god', 'heaven', 'faith', 'believe', 'pray'],
-  rebellion: ['rebel', 'fight', 'free', 'break', 'rule', 'against', 'revolution'],
+const FEATURE_NAMESPACE = 'lyrics';
+// Bump when the model, tokenizer or built-in lexicons change
+const ANALYZER_VERSION = 1;
+
+/**
+ * Which models produced a lyrics analysis
+ */
+export interface LyricsAnalysisModel {
+  /** Detected language (ISO 639-1, or 'und') */
+  language: string;
+  languageConfidence: number;
+  /** Language identification model */
+  languageModel: string;
+  /** Sentiment source: the neural model (English only), a lexicon, or none */
+  sentiment: 'neural' | 'lexicon' | 'none';
+  /** Language of the lexicon used for sentiment and themes, if any */
+  lexicon?: string;
+}
+
+export type MultilingualLyricsFeatures = LyricsFeatures & {
+  analysisModel: LyricsAnalysisModel;
+  /** Time-aligned sentiment, when analyzed from synced lyrics */
+  moodArc?: LyricsMoodArc;
 };
 
+/**
+ * Lyrics features as cached per track
+ */
+export type TrackLyricsFeatures = LyricsFeatures & { moodArc?: LyricsMoodArc };
+
+interface CompiledLexicon {
+  lexicon: LyricsLexicon;
+  positive: Set<string>;
+  negative: Set<string>;
+  themes: Array<[string, string[]]>;
+  /** Every entry, for dictionary segmentation */
+  dictionary: Set<string>;
+}
+
 export class LyricsProvider {
   private model: tf.LayersModel | null = null;
   private endpoints!: MLCoreEndpoints;
-  private cache: MemoryCache<LyricsFeatures>;
+  private cache: MemoryCache<TrackLyricsFeatures>;
   private vocabulary: Map<string, number> = new Map();
+  private lexicons: Map<string, CompiledLexicon> = new Map();
+  private store: FeatureStore | null = null;
 
   constructor() {
-    this.cache = new MemoryCache<LyricsFeatures>(1000, 3600000);
+    this.cache = new MemoryCache<TrackLyricsFeatures>(1000, 3600000);
+    for (const lexicon of BUILTIN_LEXICONS) {
+      this.registerLexicon(lexicon);
+    }
     this.buildVocabulary();
   }
 
+  /**
+   * Add or replace the sentiment and theme lexicon for a language
+   */
+  registerLexicon(lexicon: LyricsLexicon): void {
+    const themes = Object.entries(lexicon.themes);
+    this.lexicons.set(lexicon.language, {
+      lexicon,
+      positive: new Set(lexicon.positive),
+      negative: new Set(lexicon.negative),
+      themes,
+      dictionary: new Set([
+        ...lexicon.positive,
+        ...lexicon.negative,
+        ...themes.flatMap(([, keywords]) => keywords),
+      ]),
+    });
+  }
+
+  /**
+   * Languages with a sentiment and theme lexicon
+   */
+  getLexiconLanguages(): string[] {
+    return [...this.lexicons.keys()];
+  }
+
+  /**
+   * Persist per-track lyrics features in a feature store
+   */
+  async useFeatureStore(store: FeatureStore): Promise<void> {
+    this.store = store;
+    await store.registerNamespace(FEATURE_NAMESPACE, String(ANALYZER_VERSION));
+  }
+
   /**
    * Initialize the lyrics model
    */
@@ -81,52 +145,111 @@ export class LyricsProvider {
   /**
    * Get lyrics features for a track
    */
-  async getLyricsFeatures(trackId: string): Promise<LyricsFeatures | null> {
+  async getLyricsFeatures(trackId: string): Promise<TrackLyricsFeatures | null> {
     // Check cache
     const cached = this.cache.get(trackId);
     if (cached) return cached;
 
-    // Would need lyrics from an external source
-    return null;
+    // Otherwise this would need lyrics from an external source
+    const stored = await this.store?.get<TrackLyricsFeatures>(FEATURE_NAMESPACE, trackId) ?? null;
+    if (stored) {
+      this.cache.set(trackId, stored);
+    }
+    return stored;
   }
 
   /**
    * Analyze lyrics text
    */
-  async analyzeLyrics(lyrics: string): Promise<LyricsFeatures> {
+  async analyzeLyrics(lyrics: string): Promise<MultilingualLyricsFeatures> {
+    const detection = detectLanguage(lyrics);
+    const lexicon = this.lexiconFor(detection.language);
+
     // Tokenize and clean
-    const tokens = this.tokenize(lyrics);
+    const tokens = tokenizeLyrics(lyrics, detection.language, lexicon?.dictionary);
 
-    // Get sentiment from model or fallback
-    let sentiment: number;
-    let confidence: number;
+    // Get sentiment from model (trained on English) or the language's lexicon
+    let sentiment = 0;
+    let confidence = 0.1;
+    let sentimentSource: LyricsAnalysisModel['sentiment'] = 'none';
 
-    if (this.model && tokens.length >= 10) {
-      const result = await this.predictSentiment(tokens);
+    if (detection.language === 'en' && this.model && tokens.length >= 10) {
+      const result = await this.predictSentiment(tokens, lexicon);
       sentiment = result.sentiment;
       confidence = result.confidence;
-    } else {
-      const result = this.fallbackSentiment(tokens);
+      sentimentSource = result.source;
+    } else if (lexicon) {
+      const result = this.lexiconSentiment(tokens, lexicon);
       sentiment = result.sentiment;
       confidence = result.confidence;
+      sentimentSource = 'lexicon';
     }
 
     // Detect themes
-    const themes = this.detectThemes(tokens);
+    const themes = lexicon ? this.detectThemes(tokens, lexicon) : [];
 
     // Calculate emotional intensity
-    const intensity = this.calculateIntensity(tokens);
-
-    // Detect language (simplified)
-    const language = this.detectLanguage(lyrics);
+    const intensity = this.calculateIntensity(lyrics, tokens, lexicon);
 
     return {
       sentiment,
-      sentimentConfidence: confidence,
+      sentimentConfidence: confidence * Math.max(0.5, detection.confidence),
       themes,
       emotionalIntensity: intensity,
-      language,
+      language: detection.language,
       lyrics,
+      analysisModel: {
+        language: detection.language,
+        languageConfidence: detection.confidence,
+        languageModel: detection.model,
+        sentiment: sentimentSource,
+        lexicon: lexicon?.lexicon.language,
+      },
+    };
+  }
+
+  /**
+   * Analyze synced lyrics: whole-song features plus the time-aligned mood
+   * arc, cached for the track when given
+   */
+  async analyzeSyncedLyrics(
+    lines: SyncedLyricLine[],
+    trackId?: string
+  ): Promise<MultilingualLyricsFeatures> {
+    const features = await this.analyzeLyrics(lines.map(l => l.text).join('\n'));
+    const lexicon = this.lexiconFor(features.language);
+
+    if (lexicon) {
+      const arc = computeMoodArc(lines, text => this.scoreLine(text, features.language, lexicon));
+      if (arc) features.moodArc = arc;
+    }
+
+    if (trackId) {
+      this.cacheFeatures(trackId, features);
+    }
+
+    return features;
+  }
+
+  /**
+   * Lexicon for a detected language. Lyrics in an unidentified language
+   * ('und') fall back to English, as all lyrics were scored before detection.
+   */
+  private lexiconFor(language: string): CompiledLexicon | undefined {
+    return this.lexicons.get(language) ?? (language === 'und' ? this.lexicons.get('en') : undefined);
+  }
+
+  /**
+   * Sentiment, intensity and themes of a single lyric line
+   */
+  private scoreLine(text: string, language: string, lexicon: CompiledLexicon): LineScore {
+    const tokens = tokenizeLyrics(text, language, lexicon.dictionary);
+    const themes = this.detectThemes(tokens, lexicon).map(t => t.theme);
+
+    return {
+      sentiment: this.lexiconSentiment(tokens, lexicon).sentiment,
+      intensity: this.calculateIntensity(text, tokens, lexicon),
+      themes,
     };
   }
 
@@ -167,12 +290,13 @@ export class LyricsProvider {
   /**
    * Predict sentiment using model
    */
-  private async predictSentiment(tokens: string[]): Promise<{ sentiment: number; confidence: number }> {
+  private async predictSentiment(
+    tokens: string[],
+    fallback?: CompiledLexicon
+  ): Promise<{ sentiment: number; confidence: number; source: 'neural' | 'lexicon' | 'none' }> {
     try {
       // Convert tokens to indices
-      const indices = tokens.slice(0, MAX_TOKENS).map(t =>
-        this.vocabulary.get(t.toLowerCase()) ?? 0
-      );
+      const indices = tokens.slice(0, MAX_TOKENS).map(t => this.vocabulary.get(t) ?? 0);
 
       // Pad to MAX_TOKENS
       while (indices.length < MAX_TOKENS) {
@@ -188,24 +312,27 @@ export class LyricsProvider {
       inputTensor.dispose();
       prediction.dispose();
 
-      return { sentiment, confidence: 0.7 };
+      return { sentiment, confidence: 0.7, source: 'neural' };
     } catch (error) {
       console.error('[LyricsProvider] Model prediction failed:', error);
-      return this.fallbackSentiment(tokens);
+      if (!fallback) return { sentiment: 0, confidence: 0.1, source: 'none' };
+      return { ...this.lexiconSentiment(tokens, fallback), source: 'lexicon' };
     }
   }
 
   /**
-   * Fallback sentiment analysis using word lists
+   * Sentiment analysis using the language's word lists
    */
-  private fallbackSentiment(tokens: string[]): { sentiment: number; confidence: number } {
+  private lexiconSentiment(
+    tokens: string[],
+    lexicon: CompiledLexicon
+  ): { sentiment: number; confidence: number } {
     let positiveCount = 0;
     let negativeCount = 0;
 
     for (const token of tokens) {
-      const lower = token.toLowerCase();
-      if (POSITIVE_WORDS.has(lower)) positiveCount++;
-      if (NEGATIVE_WORDS.has(lower)) negativeCount++;
+      if (this.matchesLexicon(token, lexicon.positive, lexicon)) positiveCount++;
+      if (this.matchesLexicon(token, lexicon.negative, lexicon)) negativeCount++;
     }
 
     const total = positiveCount + negativeCount;
@@ -222,14 +349,17 @@ export class LyricsProvider {
   /**
    * Detect themes in lyrics
    */
-  private detectThemes(tokens: string[]): LyricsTheme[] {
+  private detectThemes(tokens: string[], lexicon: CompiledLexicon): LyricsTheme[] {
     const themeCounts: Record<string, number> = {};
-    const lowerTokens = new Set(tokens.map(t => t.toLowerCase()));
+    const uniqueTokens = [...new Set(tokens)];
 
-    for (const [theme, keywords] of Object.entries(THEME_KEYWORDS)) {
+    for (const [theme, keywords] of lexicon.themes) {
       let count = 0;
       for (const keyword of keywords) {
-        if (lowerTokens.has(keyword)) {
+        const found = lexicon.lexicon.matchPrefix
+          ? uniqueTokens.some(t => t.startsWith(keyword))
+          : uniqueTokens.includes(keyword);
+        if (found) {
           count++;
         }
       }
@@ -251,21 +381,21 @@ export class LyricsProvider {
   /**
    * Calculate emotional intensity
    */
-  private calculateIntensity(tokens: string[]): number {
-    // Count exclamation marks, capital words, repetition
-    let intensity = 0;
+  private calculateIntensity(lyrics: string, tokens: string[], lexicon?: CompiledLexicon): number {
+    if (tokens.length === 0) return 0;
+
+    // Count exclamation marks (including full-width), capital words, repetition
+    let intensity = (lyrics.match(/[!！]/g)?.length ?? 0) * 0.1;
+    intensity += (lyrics.match(/(?<!\p{L})\p{Lu}{3,}(?!\p{L})/gu)?.length ?? 0) * 0.05;
+
     const seen = new Set<string>();
     let repeats = 0;
 
     for (const token of tokens) {
-      if (token.endsWith('!')) intensity += 0.1;
-      if (token === token.toUpperCase() && token.length > 2) intensity += 0.05;
-
-      const lower = token.toLowerCase();
-      if (seen.has(lower)) {
+      if (seen.has(token)) {
         repeats++;
       } else {
-        seen.add(lower);
+        seen.add(token);
       }
     }
 
@@ -273,10 +403,14 @@ export class LyricsProvider {
     intensity += (repeats / tokens.length) * 0.3;
 
     // Sentiment words add intensity
-    for (const token of tokens) {
-      const lower = token.toLowerCase();
-      if (POSITIVE_WORDS.has(lower) || NEGATIVE_WORDS.has(lower)) {
-        intensity += 0.05;
+    if (lexicon) {
+      for (const token of tokens) {
+        if (
+          this.matchesLexicon(token, lexicon.positive, lexicon) ||
+          this.matchesLexicon(token, lexicon.negative, lexicon)
+        ) {
+          intensity += 0.05;
+        }
       }
     }
 
@@ -284,37 +418,17 @@ export class LyricsProvider {
   }
 
   /**
-   * Detect language (simplified)
+   * Whether a token is in a word list, as a whole word or (for languages
+   * that attach particles) as a stem
    */
-  private detectLanguage(text: string): string {
-    // Very simple language detection
-    const englishWords = ['the', 'and', 'is', 'of', 'to', 'a', 'in', 'for', 'you', 'i'];
-    const spanishWords = ['el', 'la', 'de', 'en', 'y', 'que', 'es', 'un', 'una'];
-
-    const lower = text.toLowerCase();
-    let englishCount = 0;
-    let spanishCount = 0;
+  private matchesLexicon(token: string, words: Set<string>, lexicon: CompiledLexicon): boolean {
+    if (words.has(token)) return true;
+    if (!lexicon.lexicon.matchPrefix) return false;
 
-    for (const word of englishWords) {
-      if (lower.includes(` ${word} `)) englishCount++;
+    for (const word of words) {
+      if (token.startsWith(word)) return true;
     }
-
-    for (const word of spanishWords) {
-      if (lower.includes(` ${word} `)) spanishCount++;
-    }
-
-    if (spanishCount > englishCount) return 'es';
-    return 'en';
-  }
-
-  /**
-   * Tokenize lyrics
-   */
-  private tokenize(lyrics: string): string[] {
-    return lyrics
-      .replace(/[^\w\s!?']/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 0);
+    return false;
   }
 
   /**
@@ -336,33 +450,23 @@ export class LyricsProvider {
       this.vocabulary.set(word, idx++);
     }
 
-    // Add sentiment words
-    for (const word of POSITIVE_WORDS) {
+    // Add English sentiment and theme words (the model is English-only)
+    for (const word of this.lexicons.get('en')?.dictionary ?? []) {
       if (!this.vocabulary.has(word)) {
         this.vocabulary.set(word, idx++);
       }
     }
-
-    for (const word of NEGATIVE_WORDS) {
-      if (!this.vocabulary.has(word)) {
-        this.vocabulary.set(word, idx++);
-      }
-    }
-
-    // Add theme words
-    for (const keywords of Object.values(THEME_KEYWORDS)) {
-      for (const word of keywords) {
-        if (!this.vocabulary.has(word)) {
-          this.vocabulary.set(word, idx++);
-        }
-      }
-    }
   }
 
   /**
-   * Cache features for a track
+   * Cache features for a track, persisting them when a store is attached
+   *
+   * @param contentHash - Hash of the analysed lyrics (see hashText)
    */
-  cacheFeatures(trackId: string, features: LyricsFeatures): void {
+  cacheFeatures(trackId: string, features: TrackLyricsFeatures, contentHash?: string): void {
     this.cache.set(trackId, features);
+    this.store?.put(FEATURE_NAMESPACE, trackId, features, contentHash).catch(error => {
+      console.error('[LyricsProvider] Failed to store features:', error);
+    });
   }
 }
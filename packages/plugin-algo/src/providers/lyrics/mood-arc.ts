@@ -0,0 +1,159 @@
+/**
+ * Mood Arc - Time-aligned sentiment from synced lyrics
+ *
+ * Each synced line is scored on its own and placed on the timeline. Lines
+ * whose text repeats are treated as chorus, the rest as verse, which gives
+ * the verse-vs-chorus contrast behind "builds to an uplifting chorus".
+ */
+
+/**
+ * A synced lyric line, as returned by lyrics providers (time in milliseconds)
+ */
+export interface SyncedLyricLine {
+  time: number;
+  text: string;
+}
+
+export type LyricSection = 'verse' | 'chorus';
+
+export interface LyricLineMood {
+  /** Seconds from track start */
+  start: number;
+  end: number;
+  text: string;
+  section: LyricSection;
+  /** -1 to 1 */
+  sentiment: number;
+  /** 0 to 1 */
+  intensity: number;
+  themes: string[];
+}
+
+export type MoodArcShape = 'rising' | 'falling' | 'peaking' | 'valley' | 'steady';
+
+export interface LyricsMoodArc {
+  lines: LyricLineMood[];
+  /** Smoothed sentiment over time */
+  points: Array<{ time: number; sentiment: number; intensity: number }>;
+  verseSentiment: number;
+  chorusSentiment: number;
+  /** Chorus minus verse sentiment; positive when the chorus lifts */
+  chorusLift: number;
+  shape: MoodArcShape;
+}
+
+export interface LineScore {
+  sentiment: number;
+  intensity: number;
+  themes: string[];
+}
+
+// Lines either side averaged into each arc point
+const SMOOTHING_RADIUS = 2;
+// Difference between thirds of the song that counts as a change of mood
+const SHAPE_THRESHOLD = 0.15;
+// Duration given to the last line
+const LAST_LINE_SECONDS = 4;
+const MIN_LINES = 4;
+
+/**
+ * Build the mood arc of synced lyrics
+ *
+ * @param scoreLine - Sentiment, intensity and themes of one line of text
+ */
+export function computeMoodArc(
+  syncedLines: SyncedLyricLine[],
+  scoreLine: (text: string) => LineScore
+): LyricsMoodArc | null {
+  const sorted = syncedLines
+    .filter(line => line.text.trim().length > 0)
+    .sort((a, b) => a.time - b.time);
+
+  if (sorted.length < MIN_LINES) return null;
+
+  const chorusKeys = findRepeatedLines(sorted);
+
+  const lines: LyricLineMood[] = sorted.map((line, i) => {
+    const start = line.time / 1000;
+    const next = sorted[i + 1];
+    const score = scoreLine(line.text);
+
+    return {
+      start,
+      end: next ? next.time / 1000 : start + LAST_LINE_SECONDS,
+      text: line.text,
+      section: chorusKeys.has(lineKey(line.text)) ? 'chorus' : 'verse',
+      sentiment: score.sentiment,
+      intensity: score.intensity,
+      themes: score.themes,
+    };
+  });
+
+  const points = lines.map((line, i) => {
+    const window = lines.slice(Math.max(0, i - SMOOTHING_RADIUS), i + SMOOTHING_RADIUS + 1);
+    return {
+      time: line.start,
+      sentiment: mean(window.map(l => l.sentiment)),
+      intensity: mean(window.map(l => l.intensity)),
+    };
+  });
+
+  const verse = lines.filter(l => l.section === 'verse');
+  const chorus = lines.filter(l => l.section === 'chorus');
+  const verseSentiment = verse.length > 0 ? mean(verse.map(l => l.sentiment)) : 0;
+  const chorusSentiment = chorus.length > 0 ? mean(chorus.map(l => l.sentiment)) : verseSentiment;
+
+  return {
+    lines,
+    points,
+    verseSentiment,
+    chorusSentiment,
+    chorusLift: chorus.length > 0 && verse.length > 0 ? chorusSentiment - verseSentiment : 0,
+    shape: classifyShape(points.map(p => p.sentiment)),
+  };
+}
+
+/**
+ * Normalised texts of lines that occur more than once
+ */
+function findRepeatedLines(lines: SyncedLyricLine[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const line of lines) {
+    const key = lineKey(line.text);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const repeated = new Set<string>();
+  for (const [key, count] of counts) {
+    if (count > 1 && key.length > 0) repeated.add(key);
+  }
+  return repeated;
+}
+
+function lineKey(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Overall shape from the mean sentiment of each third of the song
+ */
+function classifyShape(sentiments: number[]): MoodArcShape {
+  const third = Math.max(1, Math.floor(sentiments.length / 3));
+  const start = mean(sentiments.slice(0, third));
+  const middle = mean(sentiments.slice(third, sentiments.length - third));
+  const end = mean(sentiments.slice(sentiments.length - third));
+
+  if (middle - Math.max(start, end) > SHAPE_THRESHOLD) return 'peaking';
+  if (Math.min(start, end) - middle > SHAPE_THRESHOLD) return 'valley';
+  if (end - start > SHAPE_THRESHOLD) return 'rising';
+  if (start - end > SHAPE_THRESHOLD) return 'falling';
+  return 'steady';
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
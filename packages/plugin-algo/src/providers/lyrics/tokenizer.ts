@@ -0,0 +1,90 @@
+/**
+ * Lyrics Tokenizer - Per-language word segmentation
+ *
+ * Space-delimited languages split on non-letter characters. Chinese, Japanese
+ * and Thai are segmented with Intl.Segmenter where the runtime has it, and
+ * otherwise by forward maximum matching against a dictionary (falling back
+ * to single characters).
+ */
+
+// Languages written without spaces between words
+const UNSEGMENTED_LANGUAGES = new Set(['zh', 'ja', 'th']);
+
+// Longest dictionary word tried by maximum matching
+const MAX_MATCH_LENGTH = 8;
+
+type WordSegmenter = { segment(text: string): Iterable<{ segment: string; isWordLike?: boolean }> };
+
+const segmenters = new Map<string, WordSegmenter | null>();
+
+/**
+ * Split lyrics into lowercase word tokens
+ *
+ * @param dictionary - Known words, used to segment unspaced scripts when
+ *   Intl.Segmenter is unavailable
+ */
+export function tokenizeLyrics(
+  text: string,
+  language: string,
+  dictionary?: Iterable<string>
+): string[] {
+  const normalized = text.normalize('NFC').toLowerCase();
+
+  if (!UNSEGMENTED_LANGUAGES.has(language)) {
+    return splitWords(normalized);
+  }
+
+  const words = new Set(dictionary ?? []);
+  const segmenter = getSegmenter(language);
+  if (!segmenter) {
+    return splitWords(normalized).flatMap(chunk => maximumMatch(chunk, words));
+  }
+
+  const tokens: string[] = [];
+  for (const { segment, isWordLike } of segmenter.segment(normalized)) {
+    if (!isWordLike) continue;
+
+    // The segmenter may merge dictionary words into phrases (我爱你); split
+    // those back out so they can be matched
+    const parts = words.has(segment) ? [segment] : maximumMatch(segment, words);
+    tokens.push(...(parts.some(p => words.has(p)) ? parts : [segment]));
+  }
+  return tokens;
+}
+
+function splitWords(text: string): string[] {
+  return text
+    .split(/[^\p{L}\p{M}\p{N}'’-]+/u)
+    .map(t => t.replace(/^['’-]+|['’-]+$/g, ''))
+    .filter(t => t.length > 0);
+}
+
+/**
+ * Forward maximum matching: take the longest dictionary word at each position
+ */
+function maximumMatch(text: string, dictionary: Set<string>): string[] {
+  const chars = [...text];
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (i < chars.length) {
+    let length = Math.min(MAX_MATCH_LENGTH, chars.length - i);
+    while (length > 1 && !dictionary.has(chars.slice(i, i + length).join(''))) {
+      length--;
+    }
+    tokens.push(chars.slice(i, i + length).join(''));
+    i += length;
+  }
+
+  return tokens;
+}
+
+function getSegmenter(language: string): WordSegmenter | null {
+  if (!segmenters.has(language)) {
+    const Segmenter = (Intl as unknown as {
+      Segmenter?: new (locale: string, options: { granularity: 'word' }) => WordSegmenter;
+    }).Segmenter;
+    segmenters.set(language, Segmenter ? new Segmenter(language, { granularity: 'word' }) : null);
+  }
+  return segmenters.get(language)!;
+}
@@ -0,0 +1,503 @@
+/**
+ * Segmentation - Song structure from a self-similarity matrix
+ *
+ * Chroma and MFCC vectors are pooled into half-second frames, or longer ones
+ * for long tracks so the matrices stay under MAX_FEATURE_FRAMES. Section
+ * boundaries are peaks in the novelty of structure features derived from the
+ * self-similarity matrix; sections that repeat each other are clustered and
+ * labelled by repetition, position and energy.
+ */
+
+import { hannWindow, magnitudeSpectrum, resample } from '../../dsp';
+
+export type SectionLabel = 'intro' | 'verse' | 'chorus' | 'bridge' | 'outro' | 'instrumental';
+
+export interface SongSection {
+  label: SectionLabel;
+  /** Seconds from track start */
+  start: number;
+  end: number;
+  /** Sections with the same group repeat the same material */
+  group: number;
+  /** Mean RMS energy relative to the loudest section (0-1) */
+  energy: number;
+}
+
+export interface PreviewWindow {
+  start: number;
+  end: number;
+  /** Label of the section the preview starts in */
+  label: SectionLabel;
+}
+
+export interface SongStructure {
+  sections: SongSection[];
+  preview: PreviewWindow;
+  duration: number;
+}
+
+const ANALYSIS_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+// Spectral frames pooled into one feature frame (~0.5 s)
+const POOL_SIZE = 11;
+// Cap on feature frames; the similarity matrices are n x n (~4 MB each at 1000)
+const MAX_FEATURE_FRAMES = 1000;
+const MEL_BANDS = 26;
+const MFCC_COEFFICIENTS = 13;
+// Chroma is built from this range, where pitch is well resolved
+const CHROMA_MIN_HZ = 80;
+const CHROMA_MAX_HZ = 2000;
+// Share of frames kept as nearest neighbours in the recurrence matrix
+const RECURRENCE_NEIGHBOURS = 0.05;
+// Half-width of the time smoothing of structure features
+const SMOOTHING_SECONDS = 4;
+// Minimum section length
+const MIN_SECTION_SECONDS = 7;
+// Mean block similarity above which two sections count as repeats
+const REPEAT_SIMILARITY = 0.8;
+// Sections quieter than this share of the loudest count as intro/outro/break material
+const LOW_ENERGY_RATIO = 0.6;
+export const PREVIEW_SECONDS = 30;
+
+interface FeatureFrames {
+  vectors: Float32Array[];
+  energy: Float32Array;
+  /** Seconds per feature frame */
+  frameDuration: number;
+}
+
+/**
+ * Segment a mono signal into labelled sections
+ */
+export function analyzeStructure(audioData: Float32Array, sampleRate: number): SongStructure | null {
+  const duration = audioData.length / sampleRate;
+  if (duration < MIN_SECTION_SECONDS * 2) return null;
+
+  const frames = extractFeatureFrames(resample(audioData, sampleRate, ANALYSIS_SAMPLE_RATE));
+  const n = frames.vectors.length;
+  const smoothing = Math.max(2, Math.round(SMOOTHING_SECONDS / frames.frameDuration));
+  if (n < smoothing * 4) return null;
+
+  const similarity = selfSimilarity(frames.vectors);
+  const boundaries = findBoundaries(similarity, n, smoothing, frames.frameDuration);
+
+  const sections = labelSections(boundaries, similarity, frames.energy, n, duration, frames.frameDuration);
+  return {
+    sections,
+    preview: choosePreview(sections, frames.energy, duration, frames.frameDuration),
+    duration,
+  };
+}
+
+/**
+ * Pooled, L2-normalised chroma + MFCC vectors and RMS energy per feature
+ * frame. Spectra are pooled as they are computed, never held all at once.
+ */
+function extractFeatureFrames(audio: Float32Array): FeatureFrames {
+  const spectrumCount = audio.length >= FRAME_SIZE ? Math.floor((audio.length - FRAME_SIZE) / HOP_SIZE) + 1 : 0;
+  const poolSize = Math.max(POOL_SIZE, Math.ceil(spectrumCount / MAX_FEATURE_FRAMES));
+  const window = hannWindow(FRAME_SIZE);
+  const bins = FRAME_SIZE / 2;
+  const binHz = ANALYSIS_SAMPLE_RATE / FRAME_SIZE;
+
+  // Pitch class of each bin in the chroma range (-1 outside)
+  const pitchClass = new Int8Array(bins).fill(-1);
+  for (let k = 1; k < bins; k++) {
+    const hz = k * binHz;
+    if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) continue;
+    const midi = 69 + 12 * Math.log2(hz / 440);
+    pitchClass[k] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+
+  const melFilters = melFilterbank(bins, binHz);
+  const vectors: Float32Array[] = [];
+  const energy: Float32Array = new Float32Array(Math.floor(spectrumCount / poolSize));
+
+  for (let f = 0; f + poolSize <= spectrumCount; f += poolSize) {
+    const chroma = new Float32Array(12);
+    const mel = new Float32Array(MEL_BANDS);
+    let power = 0;
+
+    for (let p = f; p < f + poolSize; p++) {
+      const spectrum = magnitudeSpectrum(audio, p * HOP_SIZE, window);
+      for (let k = 1; k < bins; k++) {
+        const magnitude = spectrum[k];
+        power += magnitude * magnitude;
+        if (pitchClass[k] >= 0) chroma[pitchClass[k]] += magnitude;
+      }
+      for (let m = 0; m < MEL_BANDS; m++) {
+        const { start, weights } = melFilters[m];
+        let sum = 0;
+        for (let i = 0; i < weights.length; i++) sum += spectrum[start + i] * weights[i];
+        mel[m] += sum;
+      }
+    }
+
+    const mfcc = dct(mel.map(v => Math.log(1e-6 + v / poolSize)), MFCC_COEFFICIENTS);
+
+    // Drop the overall level coefficient so timbre, not loudness, drives similarity
+    const vector = new Float32Array(12 + MFCC_COEFFICIENTS - 1);
+    normalize(chroma).forEach((v, i) => (vector[i] = v));
+    normalize(mfcc.subarray(1)).forEach((v, i) => (vector[12 + i] = v * 0.7));
+
+    vectors.push(normalize(vector));
+    energy[vectors.length - 1] = Math.sqrt(power / (poolSize * bins));
+  }
+
+  return { vectors, energy, frameDuration: (HOP_SIZE * poolSize) / ANALYSIS_SAMPLE_RATE };
+}
+
+/**
+ * Cosine self-similarity matrix (row-major n x n)
+ */
+function selfSimilarity(vectors: Float32Array[]): Float32Array {
+  const n = vectors.length;
+  const matrix = new Float32Array(n * n);
+
+  for (let i = 0; i < n; i++) {
+    matrix[i * n + i] = 1;
+    for (let j = i + 1; j < n; j++) {
+      let dot = 0;
+      const a = vectors[i];
+      const b = vectors[j];
+      for (let d = 0; d < a.length; d++) dot += a[d] * b[d];
+      matrix[i * n + j] = dot;
+      matrix[j * n + i] = dot;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Section boundaries (feature-frame indices, including 0 and n).
+ *
+ * Uses structure features: each frame's row of a nearest-neighbour
+ * recurrence matrix in time-lag form, smoothed over time. Inside a section
+ * the same lags keep repeating, so the features only change at boundaries.
+ */
+function findBoundaries(
+  similarity: Float32Array,
+  n: number,
+  smoothing: number,
+  frameDuration: number
+): number[] {
+  const recurrence = recurrenceMatrix(similarity, n);
+
+  // Time-lag representation: lag l of frame i is R(i, i + l mod n)
+  const lag = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let l = 0; l < n; l++) {
+      lag[i * n + l] = recurrence[i * n + ((i + l) % n)];
+    }
+  }
+
+  // Gaussian smoothing along time
+  const weights: number[] = [];
+  for (let d = -smoothing; d <= smoothing; d++) {
+    weights.push(Math.exp(-(d * d) / (2 * (smoothing / 2) ** 2)));
+  }
+
+  const smoothed = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    let weightSum = 0;
+    for (let d = -smoothing; d <= smoothing; d++) {
+      const row = i + d;
+      if (row < 0 || row >= n) continue;
+      const w = weights[d + smoothing];
+      weightSum += w;
+      for (let l = 0; l < n; l++) smoothed[i * n + l] += w * lag[row * n + l];
+    }
+    for (let l = 0; l < n; l++) smoothed[i * n + l] /= weightSum;
+  }
+
+  // Novelty: change in structure features between consecutive frames
+  const novelty = new Float32Array(n);
+  for (let i = 1; i < n; i++) {
+    let sum = 0;
+    for (let l = 0; l < n; l++) {
+      const diff = smoothed[i * n + l] - smoothed[(i - 1) * n + l];
+      sum += diff * diff;
+    }
+    novelty[i] = Math.sqrt(sum);
+  }
+
+  const minGap = Math.round(MIN_SECTION_SECONDS / frameDuration);
+  const mean = novelty.reduce((sum, v) => sum + v, 0) / n;
+  const boundaries: number[] = [0];
+
+  for (let c = minGap; c < n - minGap; c++) {
+    if (novelty[c] <= mean) continue;
+
+    let isPeak = true;
+    for (let d = -minGap; d <= minGap && isPeak; d++) {
+      if (novelty[c + d] > novelty[c]) isPeak = false;
+    }
+    if (isPeak) boundaries.push(c);
+  }
+
+  boundaries.push(n);
+  return boundaries;
+}
+
+/**
+ * Binary recurrence matrix keeping mutual nearest neighbours
+ */
+function recurrenceMatrix(similarity: Float32Array, n: number): Uint8Array {
+  const k = Math.max(3, Math.round(n * RECURRENCE_NEIGHBOURS));
+  const thresholds = new Float32Array(n);
+
+  for (let i = 0; i < n; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (Math.abs(i - j) > 1) row.push(similarity[i * n + j]);
+    }
+    row.sort((a, b) => b - a);
+    thresholds[i] = row[Math.min(k, row.length) - 1] ?? Infinity;
+  }
+
+  const recurrence = new Uint8Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const value = similarity[i * n + j];
+      if (Math.abs(i - j) > 1 && value >= thresholds[i] && value >= thresholds[j]) {
+        recurrence[i * n + j] = 1;
+      }
+    }
+  }
+
+  return recurrence;
+}
+
+/**
+ * Group repeating sections and assign labels
+ */
+function labelSections(
+  boundaries: number[],
+  similarity: Float32Array,
+  energy: Float32Array,
+  n: number,
+  duration: number,
+  frameDuration: number
+): SongSection[] {
+  const ranges = mergeAdjacentRepeats(boundaries, similarity, n);
+  const count = ranges.length;
+
+  const sectionEnergy = ranges.map(({ start, end }) => {
+    let sum = 0;
+    for (let f = start; f < end; f++) sum += energy[f];
+    return sum / Math.max(1, end - start);
+  });
+  const maxEnergy = Math.max(...sectionEnergy, 1e-9);
+
+  const group = groupSections(ranges, similarity, n);
+
+  const members = new Map<number, number[]>();
+  group.forEach((g, s) => members.set(g, [...(members.get(g) ?? []), s]));
+
+  // Chorus: the repeated group with the highest energy
+  let chorusGroup = -1;
+  let chorusScore = -Infinity;
+  for (const [g, sections] of members) {
+    if (sections.length < 2) continue;
+    const groupEnergy = sections.reduce((sum, s) => sum + sectionEnergy[s], 0) / sections.length;
+    const score = groupEnergy / maxEnergy + sections.length * 0.1;
+    if (score > chorusScore) {
+      chorusScore = score;
+      chorusGroup = g;
+    }
+  }
+
+  const firstChorus = group.indexOf(chorusGroup);
+  const lastChorus = group.lastIndexOf(chorusGroup);
+
+  const labels: SectionLabel[] = ranges.map((_, s) => {
+    const relativeEnergy = sectionEnergy[s] / maxEnergy;
+    const repeated = (members.get(group[s])?.length ?? 0) > 1;
+
+    if (group[s] === chorusGroup) return 'chorus';
+    if (s === 0 && count > 2 && (relativeEnergy < LOW_ENERGY_RATIO || !repeated)) return 'intro';
+    if (s === count - 1 && count > 2 && (relativeEnergy < LOW_ENERGY_RATIO || !repeated)) return 'outro';
+    if (repeated) return 'verse';
+    if (firstChorus >= 0 && s > firstChorus && s < lastChorus) return 'bridge';
+    return relativeEnergy < LOW_ENERGY_RATIO ? 'instrumental' : 'verse';
+  });
+
+  return ranges.map(({ start, end }, s) => ({
+    label: labels[s],
+    start: start * frameDuration,
+    end: s === count - 1 ? duration : end * frameDuration,
+    group: group[s],
+    energy: sectionEnergy[s] / maxEnergy,
+  }));
+}
+
+/**
+ * Split boundaries into ranges, joining neighbours that repeat each other
+ * (a section often repeats its own phrase, e.g. a 16-bar verse of two 8s)
+ */
+function mergeAdjacentRepeats(
+  boundaries: number[],
+  similarity: Float32Array,
+  n: number
+): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  for (let s = 0; s < boundaries.length - 1; s++) {
+    const range = { start: boundaries[s], end: boundaries[s + 1] };
+    const previous = ranges[ranges.length - 1];
+
+    if (previous && sectionSimilarity(previous, range, similarity, n) >= REPEAT_SIMILARITY) {
+      previous.end = range.end;
+    } else {
+      ranges.push(range);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Cluster sections whose blocks of the similarity matrix match
+ */
+function groupSections(
+  ranges: Array<{ start: number; end: number }>,
+  similarity: Float32Array,
+  n: number
+): number[] {
+  const group = new Array<number>(ranges.length).fill(-1);
+  let groups = 0;
+
+  for (let a = 0; a < ranges.length; a++) {
+    if (group[a] >= 0) continue;
+    group[a] = groups;
+    for (let b = a + 1; b < ranges.length; b++) {
+      if (group[b] < 0 && sectionSimilarity(ranges[a], ranges[b], similarity, n) >= REPEAT_SIMILARITY) {
+        group[b] = groups;
+      }
+    }
+    groups++;
+  }
+
+  return group;
+}
+
+/**
+ * Mean similarity between two sections along their aligned diagonal
+ */
+function sectionSimilarity(
+  a: { start: number; end: number },
+  b: { start: number; end: number },
+  similarity: Float32Array,
+  n: number
+): number {
+  const length = Math.min(a.end - a.start, b.end - b.start);
+  if (length <= 0) return 0;
+
+  // Allow a couple of frames of misalignment between repeats
+  let best = 0;
+  for (let shift = -2; shift <= 2; shift++) {
+    let sum = 0;
+    let count = 0;
+    for (let k = 0; k < length; k++) {
+      const i = a.start + k;
+      const j = b.start + k + shift;
+      if (j < b.start || j >= b.end) continue;
+      sum += similarity[i * n + j];
+      count++;
+    }
+    if (count > 0) best = Math.max(best, sum / count);
+  }
+
+  return best;
+}
+
+/**
+ * The most representative 30 s: the loudest chorus, otherwise the loudest window
+ */
+function choosePreview(
+  sections: SongSection[],
+  energy: Float32Array,
+  duration: number,
+  frameDuration: number
+): PreviewWindow {
+  const length = Math.min(PREVIEW_SECONDS, duration);
+  const clampStart = (start: number) => Math.max(0, Math.min(start, duration - length));
+
+  const choruses = sections.filter(s => s.label === 'chorus');
+  if (choruses.length > 0) {
+    const best = choruses.reduce((a, b) => (b.energy > a.energy ? b : a));
+    const start = clampStart(best.start);
+    return { start, end: start + length, label: best.label };
+  }
+
+  // Sliding-window energy
+  const windowFrames = Math.max(1, Math.round(length / frameDuration));
+  let sum = 0;
+  let bestSum = -Infinity;
+  let bestStart = 0;
+  for (let f = 0; f < energy.length; f++) {
+    sum += energy[f];
+    if (f >= windowFrames) sum -= energy[f - windowFrames];
+    if (f >= windowFrames - 1 && sum > bestSum) {
+      bestSum = sum;
+      bestStart = f - windowFrames + 1;
+    }
+  }
+
+  const start = clampStart(bestStart * frameDuration);
+  const section = sections.find(s => start >= s.start && start < s.end) ?? sections[0];
+  return { start, end: start + length, label: section.label };
+}
+
+/**
+ * Triangular mel filters as (first bin, weights) pairs
+ */
+function melFilterbank(bins: number, binHz: number): Array<{ start: number; weights: Float32Array }> {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+  const maxMel = toMel((bins * binHz));
+  const edges: number[] = [];
+  for (let i = 0; i < MEL_BANDS + 2; i++) {
+    edges.push(Math.min(bins - 1, Math.round(fromMel((maxMel * i) / (MEL_BANDS + 1)) / binHz)));
+  }
+
+  const filters: Array<{ start: number; weights: Float32Array }> = [];
+  for (let m = 0; m < MEL_BANDS; m++) {
+    const [lo, center, hi] = [edges[m], edges[m + 1], Math.max(edges[m + 2], edges[m + 1] + 1)];
+    const weights = new Float32Array(hi - lo + 1);
+    for (let k = lo; k <= hi; k++) {
+      weights[k - lo] = k <= center
+        ? (k - lo) / Math.max(1, center - lo)
+        : (hi - k) / Math.max(1, hi - center);
+    }
+    filters.push({ start: lo, weights });
+  }
+
+  return filters;
+}
+
+/**
+ * DCT-II, first `count` coefficients
+ */
+function dct(values: Float32Array, count: number): Float32Array {
+  const result = new Float32Array(count);
+  const n = values.length;
+  for (let k = 0; k < count; k++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += values[i] * Math.cos((Math.PI * k * (i + 0.5)) / n);
+    }
+    result[k] = sum;
+  }
+  return result;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
@@ -0,0 +1,90 @@
+/**
+ * Structure Provider - Song structure segmentation
+ *
+ * Segments tracks into labelled sections (intro/verse/chorus/bridge/outro)
+ * and picks a 30-second preview window. Results are persisted per track,
+ * since analysis needs the full decoded audio.
+ */
+
+import type { MLCoreEndpoints } from '@audiio/ml-sdk';
+import { MemoryCache } from '@audiio/ml-sdk';
+import { analyzeStructure, type PreviewWindow, type SongStructure } from './segmentation';
+
+const STORAGE_PREFIX = 'structure:';
+
+/**
+ * Feature-provider capability for song structure
+ */
+export interface StructureCapability {
+  capabilities: { structureAnalysis: boolean };
+  getSongStructure?: (trackId: string) => Promise<SongStructure | null>;
+}
+
+export class StructureProvider {
+  private endpoints!: MLCoreEndpoints;
+  private cache: MemoryCache<SongStructure>;
+
+  constructor() {
+    this.cache = new MemoryCache<SongStructure>(1000, 3600000);
+  }
+
+  async initialize(endpoints: MLCoreEndpoints): Promise<void> {
+    this.endpoints = endpoints;
+  }
+
+  async dispose(): Promise<void> {
+    this.cache.clear();
+  }
+
+  /**
+   * Get the structure of a track
+   */
+  async getStructure(trackId: string): Promise<SongStructure | null> {
+    const cached = this.cache.get(trackId);
+    if (cached) return cached;
+
+    const stored = await this.endpoints.storage.get<SongStructure>(STORAGE_PREFIX + trackId);
+    if (stored) {
+      this.cache.set(trackId, stored);
+      return stored;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the best 30-second preview window of a track
+   */
+  async getPreviewWindow(trackId: string): Promise<PreviewWindow | null> {
+    const structure = await this.getStructure(trackId);
+    return structure?.preview ?? null;
+  }
+
+  /**
+   * Analyze decoded audio and store the result for the track
+   */
+  async analyzeAudio(
+    trackId: string,
+    audioData: Float32Array,
+    sampleRate: number
+  ): Promise<SongStructure | null> {
+    try {
+      const structure = analyzeStructure(audioData, sampleRate);
+      if (!structure) return null;
+
+      await this.storeStructure(trackId, structure);
+      return structure;
+    } catch (error) {
+      console.error('[StructureProvider] Analysis failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a structure analysed elsewhere (e.g. an analysis worker)
+   */
+  async storeStructure(trackId: string, structure: SongStructure): Promise<void> {
+    this.cache.set(trackId, structure);
+    await this.endpoints.storage.set(STORAGE_PREFIX + trackId, structure);
+  }
+}
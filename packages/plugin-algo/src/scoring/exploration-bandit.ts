@@ -0,0 +1,358 @@
+/**
+ * Exploration Bandit - Learns how much discovery a listener enjoys
+ *
+ * Thompson sampling over exploration arms (new artist, new genre, deep cut,
+ * old favourite, and familiar as the baseline). Each listening context
+ * (part of day x weekday/weekend) keeps its own Beta posterior per arm,
+ * updated from completions, skips and likes of the tracks each arm surfaced.
+ */
+
+import type { MLCoreEndpoints, ScoringContext } from '@audiio/ml-sdk';
+
+export type ExplorationArm = 'new-artist' | 'new-genre' | 'deep-cut' | 'old-favourite' | 'familiar';
+
+export const EXPLORATION_ARMS: ExplorationArm[] = [
+  'new-artist',
+  'new-genre',
+  'deep-cut',
+  'old-favourite',
+  'familiar',
+];
+
+export type ExplorationLevel = 'low' | 'balanced' | 'high';
+
+export interface ArmStats {
+  arm: ExplorationArm;
+  label: string;
+  /** Posterior mean reward */
+  mean: number;
+  /** Outcomes observed (discounted) */
+  observations: number;
+}
+
+export interface ExplorationExplanation {
+  arm: ExplorationArm;
+  armLabel: string;
+  context: string;
+  /** Posterior mean reward of the track's arm */
+  expectedReward: number;
+  /** Outcomes observed for the track's arm (discounted); 0 means the prior alone */
+  observations: number;
+  /** Share of expected reward going to exploratory arms in this context (0-1) */
+  explorationRate: number;
+  arms: ArmStats[];
+}
+
+interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+interface BanditState {
+  version: number;
+  /** Exploration level whose prior the posteriors were built on */
+  level?: ExplorationLevel;
+  contexts: Record<string, Record<ExplorationArm, BetaPosterior>>;
+  updatedAt: number;
+}
+
+interface Assignment {
+  arm: ExplorationArm;
+  context: string;
+}
+
+const STORAGE_KEY = 'exploration-bandit';
+const STATE_VERSION = 1;
+
+const ARM_LABELS: Record<ExplorationArm, string> = {
+  'new-artist': 'New artist',
+  'new-genre': 'New genre',
+  'deep-cut': 'Deep cut',
+  'old-favourite': 'Old favourite',
+  familiar: 'Familiar',
+};
+
+// Prior mean reward of exploratory arms by exploration level (familiar stays at 0.5)
+const PRIOR_MEANS: Record<ExplorationLevel, number> = {
+  low: 0.35,
+  balanced: 0.5,
+  high: 0.65,
+};
+const PRIOR_STRENGTH = 4;
+
+// Older outcomes fade so the bandit follows changing taste
+const DISCOUNT = 0.995;
+// Draws are kept for a while so a batch of tracks is scored against one sample
+const DRAW_TTL_MS = 60 * 1000;
+// Not played for this long makes a known track an old favourite
+const OLD_FAVOURITE_AGE_MS = 60 * 24 * 60 * 60 * 1000;
+const MAX_ASSIGNMENTS = 1000;
+
+export class ExplorationBandit {
+  private endpoints: MLCoreEndpoints;
+  private readLevel: () => ExplorationLevel;
+  private level: ExplorationLevel;
+  private contexts = new Map<string, Record<ExplorationArm, BetaPosterior>>();
+  private draws = new Map<string, { values: Record<ExplorationArm, number>; expires: number }>();
+  private assignments = new Map<string, Assignment>();
+
+  /**
+   * @param level - Exploration level, or a getter so a changed setting
+   *                applies the next time the bandit is used
+   */
+  constructor(endpoints: MLCoreEndpoints, level: ExplorationLevel | (() => ExplorationLevel) = 'balanced') {
+    this.endpoints = endpoints;
+    this.readLevel = typeof level === 'function' ? level : () => level;
+    this.level = this.readLevel();
+  }
+
+  /**
+   * Load persisted posteriors
+   */
+  async load(): Promise<void> {
+    try {
+      const state: BanditState | null = await this.endpoints.storage.get<BanditState>(STORAGE_KEY);
+      if (!state || state.version !== STATE_VERSION) return;
+
+      const level = this.level;
+      this.level = state.level ?? 'balanced';
+      for (const [context, arms] of Object.entries(state.contexts)) {
+        this.contexts.set(context, { ...this.createPrior(), ...arms });
+      }
+      this.applyLevel(level);
+      console.log(`[ExplorationBandit] Loaded posteriors for ${this.contexts.size} contexts`);
+    } catch (error) {
+      console.error('[ExplorationBandit] Failed to load state:', error);
+    }
+  }
+
+  async save(): Promise<void> {
+    const state: BanditState = {
+      version: STATE_VERSION,
+      level: this.level,
+      contexts: Object.fromEntries(this.contexts),
+      updatedAt: Date.now(),
+    };
+    await this.endpoints.storage.set(STORAGE_KEY, state);
+  }
+
+  /**
+   * Context bucket for a scoring context
+   */
+  getContextKey(context: Pick<ScoringContext, 'hourOfDay' | 'isWeekend'>): string {
+    const hour = context.hourOfDay;
+    const daypart = hour < 6 ? 'night' : hour < 12 ? 'morning' : hour < 18 ? 'afternoon' : 'evening';
+    return `${daypart}:${context.isWeekend ? 'weekend' : 'weekday'}`;
+  }
+
+  /**
+   * Which arm a track belongs to
+   *
+   * @param lastPlayed - Timestamp the user last played the track, if ever
+   */
+  classify(track: {
+    isNewArtist: boolean;
+    isNewGenre: boolean;
+    lastPlayed: number | null;
+  }): ExplorationArm {
+    if (track.isNewGenre) return 'new-genre';
+    if (track.isNewArtist) return 'new-artist';
+    if (track.lastPlayed === null) return 'deep-cut';
+    if (Date.now() - track.lastPlayed > OLD_FAVOURITE_AGE_MS) return 'old-favourite';
+    return 'familiar';
+  }
+
+  /**
+   * Exploration bonus (0-1) for a track: its arm's sampled reward, scaled by
+   * how that arm compares with familiar tracks in this context
+   */
+  getBonus(trackId: string, arm: ExplorationArm, context: string): number {
+    this.applyLevel(this.readLevel());
+    this.assign(trackId, arm, context);
+    if (arm === 'familiar') return 0;
+
+    const draws = this.sample(context);
+    return draws[arm] * (draws[arm] / (draws[arm] + draws.familiar));
+  }
+
+  /**
+   * Share of expected reward going to exploratory arms (0-1), 0.5 when the
+   * listener is indifferent
+   */
+  getExplorationRate(context: string): number {
+    this.applyLevel(this.readLevel());
+    const arms = this.getPosteriors(context);
+    const exploratory = EXPLORATION_ARMS.filter(a => a !== 'familiar');
+    const exploreMean =
+      exploratory.reduce((sum, arm) => sum + posteriorMean(arms[arm]), 0) / exploratory.length;
+    return exploreMean / (exploreMean + posteriorMean(arms.familiar));
+  }
+
+  /**
+   * Record the outcome of a track this bandit scored
+   *
+   * @returns Whether the track was known to the bandit
+   */
+  recordOutcome(trackId: string, reward: number, weight = 1): boolean {
+    const assignment = this.assignments.get(trackId);
+    if (!assignment) return false;
+
+    this.applyLevel(this.readLevel());
+    const arms = this.getPosteriors(assignment.context);
+    const prior = this.createPrior();
+
+    // Discount the context's arms towards their prior, then add the outcome
+    for (const arm of EXPLORATION_ARMS) {
+      arms[arm] = {
+        alpha: prior[arm].alpha + (arms[arm].alpha - prior[arm].alpha) * DISCOUNT,
+        beta: prior[arm].beta + (arms[arm].beta - prior[arm].beta) * DISCOUNT,
+      };
+    }
+    arms[assignment.arm].alpha += reward * weight;
+    arms[assignment.arm].beta += (1 - reward) * weight;
+
+    this.draws.delete(assignment.context);
+    return true;
+  }
+
+  /**
+   * Why a scored track got its exploration bonus
+   */
+  explain(trackId: string): ExplorationExplanation | null {
+    const assignment = this.assignments.get(trackId);
+    if (!assignment) return null;
+
+    this.applyLevel(this.readLevel());
+    const arms = this.getPosteriors(assignment.context);
+    const prior = this.createPrior();
+    const observations = (arm: ExplorationArm) =>
+      arms[arm].alpha + arms[arm].beta - prior[arm].alpha - prior[arm].beta;
+
+    return {
+      arm: assignment.arm,
+      armLabel: ARM_LABELS[assignment.arm],
+      context: assignment.context,
+      expectedReward: posteriorMean(arms[assignment.arm]),
+      observations: observations(assignment.arm),
+      explorationRate: this.getExplorationRate(assignment.context),
+      arms: EXPLORATION_ARMS.map(arm => ({
+        arm,
+        label: ARM_LABELS[arm],
+        mean: posteriorMean(arms[arm]),
+        observations: observations(arm),
+      })),
+    };
+  }
+
+  /**
+   * Move the posteriors onto the prior of a new exploration level, keeping
+   * the observed outcomes
+   */
+  private applyLevel(level: ExplorationLevel): void {
+    if (level === this.level) return;
+
+    const previous = this.createPrior();
+    this.level = level;
+    const prior = this.createPrior();
+
+    for (const arms of this.contexts.values()) {
+      for (const arm of EXPLORATION_ARMS) {
+        arms[arm] = {
+          alpha: prior[arm].alpha + Math.max(0, arms[arm].alpha - previous[arm].alpha),
+          beta: prior[arm].beta + Math.max(0, arms[arm].beta - previous[arm].beta),
+        };
+      }
+    }
+    this.draws.clear();
+  }
+
+  private assign(trackId: string, arm: ExplorationArm, context: string): void {
+    this.assignments.delete(trackId);
+    this.assignments.set(trackId, { arm, context });
+
+    if (this.assignments.size > MAX_ASSIGNMENTS) {
+      const oldest = this.assignments.keys().next().value;
+      if (oldest !== undefined) this.assignments.delete(oldest);
+    }
+  }
+
+  /**
+   * Thompson sample of every arm's reward in a context
+   */
+  private sample(context: string): Record<ExplorationArm, number> {
+    const cached = this.draws.get(context);
+    if (cached && cached.expires > Date.now()) return cached.values;
+
+    const arms = this.getPosteriors(context);
+    const values = {} as Record<ExplorationArm, number>;
+    for (const arm of EXPLORATION_ARMS) {
+      values[arm] = sampleBeta(arms[arm].alpha, arms[arm].beta);
+    }
+
+    this.draws.set(context, { values, expires: Date.now() + DRAW_TTL_MS });
+    return values;
+  }
+
+  private getPosteriors(context: string): Record<ExplorationArm, BetaPosterior> {
+    let arms = this.contexts.get(context);
+    if (!arms) {
+      arms = this.createPrior();
+      this.contexts.set(context, arms);
+    }
+    return arms;
+  }
+
+  private createPrior(): Record<ExplorationArm, BetaPosterior> {
+    const prior = {} as Record<ExplorationArm, BetaPosterior>;
+    for (const arm of EXPLORATION_ARMS) {
+      const mean = arm === 'familiar' ? 0.5 : PRIOR_MEANS[this.level] ?? PRIOR_MEANS.balanced;
+      prior[arm] = { alpha: mean * PRIOR_STRENGTH, beta: (1 - mean) * PRIOR_STRENGTH };
+    }
+    return prior;
+  }
+}
+
+function posteriorMean(posterior: BetaPosterior): number {
+  return posterior.alpha / (posterior.alpha + posterior.beta);
+}
+
+/**
+ * Beta sample from two Gamma samples
+ */
+function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
+/**
+ * Marsaglia-Tsang Gamma(shape, 1) sampler
+ */
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function sampleNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -13,6 +13,8 @@ import type {
   MLCoreEndpoints,
   UserPreferences,
   TemporalPatterns,
+  AudioFeatures,
+  MoodCategory,
 } from '@audiio/ml-sdk';
 import {
   calculateWeightedScore,
@@ -33,6 +35,46 @@ import {
   getTimeOfDayLabel,
 } from '@audiio/ml-sdk';
 import type { NeuralScorer } from './neural-scorer';
+import {
+  ExplorationBandit,
+  type ExplorationExplanation,
+  type ExplorationLevel,
+} from './exploration-bandit';
+import type { FeatureStore } from '../providers/feature-store';
+
+/**
+ * One seed of a blended radio, resolved to what candidates are compared against
+ */
+export interface SeedReference {
+  /** Blend weight (normalised across seeds when scoring) */
+  weight: number;
+  label: string;
+  artistIds: Set<string>;
+  genres: Set<string>;
+  /** Audio features of the seed's representative tracks */
+  audio: AudioFeatures[];
+  mood?: MoodCategory;
+}
+
+/**
+ * Score of a track in a blended radio, with its similarity to each seed
+ */
+export interface BlendedTrackScore {
+  score: TrackScore;
+  /** Similarity (0-1) to each seed, in seed order */
+  seedSimilarity: number[];
+}
+
+// Share of the seed similarity made up by each signal
+const SEED_SIMILARITY_WEIGHTS = {
+  artist: 0.3,
+  genre: 0.2,
+  audio: 0.5,
+  mood: 0.5,
+};
+
+// Observed outcomes an exploration arm needs before its reward is reported
+const MIN_EXPLORATION_OBSERVATIONS = 1;
 
 export class HybridScorer {
   private endpoints: MLCoreEndpoints;
@@ -47,14 +89,33 @@ export class HybridScorer {
   // Recent scores for explanation
   private recentScores = new Map<string, TrackScore>();
 
+  // Learned exploration appetite
+  private bandit: ExplorationBandit;
+
+  // Persisted provider analysis, loaded per batch
+  private featureStore?: FeatureStore;
+
   constructor(
     endpoints: MLCoreEndpoints,
     neuralScorer: NeuralScorer,
-    settings: Record<string, unknown>
+    settings: Record<string, unknown>,
+    featureStore?: FeatureStore
   ) {
     this.endpoints = endpoints;
     this.neuralScorer = neuralScorer;
     this.settings = settings;
+    this.featureStore = featureStore;
+    this.bandit = new ExplorationBandit(
+      endpoints,
+      () => (this.settings.explorationLevel as ExplorationLevel) || 'balanced'
+    );
+  }
+
+  /**
+   * Load persisted exploration state
+   */
+  async initialize(): Promise<void> {
+    await this.bandit.load();
   }
 
   /**
@@ -112,6 +173,9 @@ export class HybridScorer {
   ): Promise<TrackScore[]> {
     await this.ensurePreferences();
 
+    // Load stored analysis in one pass so providers answer from memory
+    await this.featureStore?.prefetch(tracks.map(t => t.id));
+
     // Get features for all tracks
     const featurePromises = tracks.map(t => this.endpoints.features.get(t.id));
     const features = await Promise.all(featurePromises);
@@ -124,14 +188,91 @@ export class HybridScorer {
     return Promise.all(scorePromises);
   }
 
+  /**
+   * Score tracks for a blended radio: the regular score mixed with the
+   * weighted similarity to each seed
+   *
+   * @param seedWeight - Share of the final score taken by seed similarity (0-1)
+   */
+  async scoreBlend(
+    tracks: Track[],
+    context: ScoringContext,
+    seeds: SeedReference[],
+    seedWeight: number
+  ): Promise<BlendedTrackScore[]> {
+    await this.ensurePreferences();
+    await this.featureStore?.prefetch(tracks.map(t => t.id));
+
+    const features = await Promise.all(tracks.map(t => this.endpoints.features.get(t.id)));
+    const baseScores = await Promise.all(
+      tracks.map((track, i) => this.score(track, features[i], context))
+    );
+    const totalWeight = seeds.reduce((sum, s) => sum + s.weight, 0) || 1;
+
+    return tracks.map((track, i) => {
+      const seedSimilarity = seeds.map(seed =>
+        this.calculateSeedSimilarity(track, features[i], seed)
+      );
+      const blended = seeds.reduce(
+        (sum, seed, s) => sum + (seed.weight / totalWeight) * seedSimilarity[s],
+        0
+      );
+
+      const base = baseScores[i];
+      const score: TrackScore = {
+        ...base,
+        finalScore: base.finalScore * (1 - seedWeight) + blended * 100 * seedWeight,
+        explanation: [...base.explanation],
+      };
+
+      // Name the seed the track is closest to
+      const closest = seedSimilarity.indexOf(Math.max(...seedSimilarity));
+      if (closest >= 0 && seedSimilarity[closest] >= 0.6) {
+        score.explanation.push(`Close to ${seeds[closest].label}`);
+      }
+
+      this.recentScores.set(track.id, score);
+      return { score, seedSimilarity };
+    });
+  }
+
   /**
    * Handle user events for real-time updates
    */
-  handleEvent(event: UserEvent): void {
+  async handleEvent(event: UserEvent): Promise<void> {
     // Invalidate preferences cache on significant events
     if (event.type === 'like' || event.type === 'dislike') {
       this.preferencesExpiry = 0;
     }
+
+    // Reward the exploration arm that surfaced the track
+    if (!('track' in event)) return;
+
+    let recorded = false;
+    if (event.type === 'like') {
+      recorded = this.bandit.recordOutcome(event.track.id, 1);
+    } else if (event.type === 'listen') {
+      recorded = this.bandit.recordOutcome(event.track.id, event.completed ? 1 : 0);
+    } else if (event.type === 'skip') {
+      recorded = this.bandit.recordOutcome(event.track.id, 0);
+    } else if (event.type === 'dislike') {
+      recorded = this.bandit.recordOutcome(event.track.id, 0, 2);
+    }
+
+    if (recorded) {
+      try {
+        await this.bandit.save();
+      } catch (error) {
+        console.error('[HybridScorer] Failed to save exploration state:', error);
+      }
+    }
+  }
+
+  /**
+   * Re-read user preferences on the next score (e.g. after a history import)
+   */
+  invalidatePreferences(): void {
+    this.preferencesExpiry = 0;
   }
 
   /**
@@ -159,11 +300,24 @@ export class HybridScorer {
       }
     }
 
+    // Exploration arm behind the discovery bonus
+    const exploration = this.bandit.explain(trackId);
+    if (exploration) {
+      const detail = details.find(d => d.component === 'explorationBonus');
+      if (detail) {
+        detail.reason = exploration.observations >= MIN_EXPLORATION_OBSERVATIONS
+          ? `${exploration.armLabel}: you've enjoyed ${Math.round(
+            exploration.expectedReward * 100
+          )}% of these around this time`
+          : `${exploration.armLabel}: still learning how you like these around this time`;
+      }
+    }
+
     // Calculate comparison to averages
     const avgSession = this.calculateSessionAverage();
     const avgHistorical = 50; // TODO: Track historical average
 
-    return {
+    const explanation: ScoreExplanation & { exploration?: ExplorationExplanation } = {
       trackId,
       score: cached,
       summary: this.generateSummary(cached),
@@ -173,6 +327,11 @@ export class HybridScorer {
         vsHistoricalAverage: cached.finalScore - avgHistorical,
       },
     };
+    if (exploration) {
+      explanation.exploration = exploration;
+    }
+
+    return explanation;
   }
 
   /**
@@ -288,27 +447,44 @@ export class HybridScorer {
     // === Exploration Bonus ===
     const isNewArtist = !this.userPreferences?.topArtists.some(a => a.artistId === track.artistId);
     const isNewGenre = !this.userPreferences?.topGenres.some(g => g.genre === track.genre);
+    const lastPlayed = await this.endpoints.user.getLastPlayed(track.id);
 
-    const explorationLevel = this.settings.explorationLevel as string || 'balanced';
-    const epsilon = explorationLevel === 'high' ? 0.25 : explorationLevel === 'low' ? 0.05 : 0.15;
-
-    components.explorationBonus = calculateExplorationBonus(
-      isNewArtist,
-      isNewGenre,
-      0, // TODO: Get actual play counts
-      0,
-      epsilon
-    ) * 100;
+    // Learned per context by the bandit; static epsilon heuristic otherwise.
+    // Offline evaluation turns exploration off so its scores are repeatable.
+    const explore = this.settings.exploration !== false;
+    const adaptive = explore && this.settings.adaptiveExploration !== false;
+    const banditContext = this.bandit.getContextKey(context);
+
+    if (!explore) {
+      components.explorationBonus = 0;
+    } else if (adaptive) {
+      const arm = this.bandit.classify({ isNewArtist, isNewGenre, lastPlayed: lastPlayed ?? null });
+      components.explorationBonus = this.bandit.getBonus(track.id, arm, banditContext) * 100;
+    } else {
+      const explorationLevel = this.settings.explorationLevel as string || 'balanced';
+      const epsilon = explorationLevel === 'high' ? 0.25 : explorationLevel === 'low' ? 0.05 : 0.15;
+
+      components.explorationBonus = calculateExplorationBonus(
+        isNewArtist,
+        isNewGenre,
+        0, // TODO: Get actual play counts
+        0,
+        epsilon
+      ) * 100;
+    }
 
     // === Serendipity ===
     const topGenres = this.userPreferences?.topGenres.map(g => g.genre) || [];
     const topArtists = this.userPreferences?.topArtists.map(a => a.artistId) || [];
-    components.serendipityScore = calculateSerendipityScore(
+    const serendipity = calculateSerendipityScore(
       track,
       topGenres,
       topArtists,
       isNewArtist
-    ) * 100;
+    );
+    // Scale by the learned appetite for discovery (x1 when indifferent)
+    const appetite = adaptive ? this.bandit.getExplorationRate(banditContext) * 2 : 1;
+    components.serendipityScore = Math.min(1, serendipity * appetite) * 100;
 
     // === Diversity ===
     components.diversityScore = calculateDiversityScore(
@@ -318,7 +494,6 @@ export class HybridScorer {
     ) * 100;
 
     // === Penalties ===
-    const lastPlayed = await this.endpoints.user.getLastPlayed(track.id);
     components.recentPlayPenalty = calculateRecentPlayPenalty(lastPlayed);
 
     // Dislike penalty
@@ -368,6 +543,43 @@ export class HybridScorer {
     };
   }
 
+  /**
+   * Similarity of a track to one radio seed (0-1)
+   */
+  private calculateSeedSimilarity(
+    track: Track,
+    features: AggregatedFeatures,
+    seed: SeedReference
+  ): number {
+    let total = 0;
+    let weight = 0;
+
+    if (seed.artistIds.size > 0) {
+      total += seed.artistIds.has(track.artistId || '') ? SEED_SIMILARITY_WEIGHTS.artist : 0;
+      weight += SEED_SIMILARITY_WEIGHTS.artist;
+    }
+
+    if (seed.genres.size > 0) {
+      total += seed.genres.has(track.genre || '') ? SEED_SIMILARITY_WEIGHTS.genre : 0;
+      weight += SEED_SIMILARITY_WEIGHTS.genre;
+    }
+
+    if (seed.audio.length > 0 && features.audio) {
+      const best = Math.max(
+        ...seed.audio.map(reference => calculateAudioMatchScore(features.audio!, reference))
+      );
+      total += best * SEED_SIMILARITY_WEIGHTS.audio;
+      weight += SEED_SIMILARITY_WEIGHTS.audio;
+    }
+
+    if (seed.mood && features.emotion) {
+      total += this.calculateMoodMatch(features.emotion, seed.mood) * SEED_SIMILARITY_WEIGHTS.mood;
+      weight += SEED_SIMILARITY_WEIGHTS.mood;
+    }
+
+    return weight > 0 ? total / weight : 0;
+  }
+
   /**
    * Calculate mood match
    */
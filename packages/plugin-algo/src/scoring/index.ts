@@ -3,4 +3,14 @@
  */
 
 export { HybridScorer } from './hybrid-scorer';
+export type { SeedReference, BlendedTrackScore } from './hybrid-scorer';
+export { ExplorationBandit, EXPLORATION_ARMS } from './exploration-bandit';
+export type {
+  ExplorationArm,
+  ExplorationExplanation,
+  ExplorationLevel,
+  ArmStats,
+} from './exploration-bandit';
 export { NeuralScorer } from './neural-scorer';
+export { ModelRegistry } from './model-registry';
+export type { ModelVersionInfo, StoredModelVersion, DatasetSize } from './model-registry';
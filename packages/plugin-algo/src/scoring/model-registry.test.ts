@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type * as tf from '@tensorflow/tfjs';
+import type { MLCoreEndpoints, TrainingMetrics } from '@audiio/ml-sdk';
+import { ModelRegistry } from './model-registry';
+
+const METRICS: TrainingMetrics = {
+  loss: 0.5,
+  accuracy: 0.8,
+  valLoss: 0.6,
+  valAccuracy: 0.75,
+  epochs: 10,
+  lossHistory: [],
+  accuracyHistory: [],
+};
+
+const DATASET_SIZE = { positive: 10, negative: 10, partial: 0, total: 20 };
+
+// Models are stood in for by their version number
+function fakeModel(version: number): tf.LayersModel {
+  return { version } as unknown as tf.LayersModel;
+}
+
+function createEndpoints() {
+  const values = new Map<string, unknown>();
+  const models = new Map<string, tf.LayersModel>();
+
+  const endpoints = {
+    storage: {
+      get: async (key: string) => values.get(key) ?? null,
+      set: async (key: string, value: unknown) => {
+        values.set(key, JSON.parse(JSON.stringify(value)));
+      },
+      getModelStorage: () => ({
+        save: async (key: string, model: tf.LayersModel) => {
+          models.set(key, model);
+        },
+        load: async (key: string) => models.get(key) ?? null,
+        delete: async (key: string) => {
+          models.delete(key);
+        },
+      }),
+    },
+  } as unknown as MLCoreEndpoints;
+
+  return { endpoints, models };
+}
+
+describe('ModelRegistry', () => {
+  let endpoints: MLCoreEndpoints;
+  let models: Map<string, tf.LayersModel>;
+  let registry: ModelRegistry;
+
+  async function record(version: number): Promise<void> {
+    await registry.record(fakeModel(version), {
+      version,
+      trainedAt: version,
+      metrics: METRICS,
+      datasetSize: DATASET_SIZE,
+    });
+  }
+
+  beforeEach(() => {
+    ({ endpoints, models } = createEndpoints());
+    registry = new ModelRegistry(endpoints, 'model', 3);
+  });
+
+  it('records versions as active, newest first', async () => {
+    await record(1);
+    await record(2);
+
+    expect(registry.list().map(v => v.version)).toEqual([2, 1]);
+    expect(registry.getActiveVersion()).toBe(2);
+    expect(await registry.loadModel(1)).toEqual(fakeModel(1));
+  });
+
+  it('drops the oldest versions and their weights beyond the history size', async () => {
+    for (let version = 1; version <= 5; version++) await record(version);
+
+    expect(registry.list().map(v => v.version)).toEqual([5, 4, 3]);
+    expect(models.size).toBe(3);
+    expect(await registry.loadModel(1)).toBeNull();
+  });
+
+  it('keeps the pinned version when pruning', async () => {
+    await record(1);
+    await registry.setPinned(1);
+    for (let version = 2; version <= 5; version++) await record(version);
+
+    expect(registry.list().map(v => v.version)).toEqual([5, 4, 1]);
+    expect(await registry.loadModel(1)).toEqual(fakeModel(1));
+  });
+
+  it('reuses the slot of a re-recorded version', async () => {
+    await record(1);
+    await record(1);
+
+    expect(registry.list()).toHaveLength(1);
+    expect(models.size).toBe(1);
+    expect(await registry.loadModel(1)).toEqual(fakeModel(1));
+  });
+
+  it('never hands out a version number twice', async () => {
+    for (let version = 1; version <= 5; version++) await record(version);
+
+    expect(registry.nextVersion(0)).toBe(6);
+    expect(registry.nextVersion(9)).toBe(10);
+  });
+
+  it('restores its state from storage', async () => {
+    await record(1);
+    await registry.markRegressed(1);
+
+    const reloaded = new ModelRegistry(endpoints, 'model', 3);
+    await reloaded.load();
+    expect(reloaded.get(1)?.regressed).toBe(true);
+    expect(reloaded.getActiveVersion()).toBe(1);
+  });
+});
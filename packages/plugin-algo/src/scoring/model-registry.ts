@@ -0,0 +1,203 @@
+/**
+ * Model Registry - Keeps the last N trained models
+ *
+ * Each version is stored in its own model slot together with its training
+ * metrics, so a bad training run can be rolled back or a known-good model pinned.
+ * Used for the recommendation model and, under its own registry key, the
+ * emotion model.
+ */
+
+import type * as tf from '@tensorflow/tfjs';
+import type { MLCoreEndpoints, TrainingMetrics } from '@audiio/ml-sdk';
+
+const REGISTRY_KEY = 'model-registry';
+
+export interface DatasetSize {
+  positive: number;
+  negative: number;
+  partial: number;
+  total: number;
+}
+
+/**
+ * What every stored version records
+ */
+export interface StoredModelVersion {
+  version: number;
+  trainedAt: number;
+  /** Set when the version was rolled back automatically after training */
+  regressed?: boolean;
+  /** Storage slot holding the weights */
+  slot: number;
+}
+
+export interface ModelVersionInfo extends StoredModelVersion {
+  metrics: TrainingMetrics;
+  datasetSize: DatasetSize;
+}
+
+interface RegistryState<TInfo> {
+  versions: TInfo[];
+  activeVersion: number | null;
+  pinnedVersion: number | null;
+}
+
+export class ModelRegistry<TInfo extends StoredModelVersion = ModelVersionInfo> {
+  private endpoints: MLCoreEndpoints;
+  private modelKey: string;
+  private registryKey: string;
+  private maxVersions: number;
+  private state: RegistryState<TInfo> = { versions: [], activeVersion: null, pinnedVersion: null };
+
+  constructor(
+    endpoints: MLCoreEndpoints,
+    modelKey: string,
+    maxVersions = 5,
+    registryKey = REGISTRY_KEY
+  ) {
+    this.endpoints = endpoints;
+    this.modelKey = modelKey;
+    this.registryKey = registryKey;
+    // Room for the active version next to a pinned one
+    this.maxVersions = Math.max(2, maxVersions);
+  }
+
+  /**
+   * Load registry state from storage
+   */
+  async load(): Promise<void> {
+    const saved: RegistryState<TInfo> | null = await this.endpoints.storage.get<RegistryState<TInfo>>(
+      this.registryKey
+    );
+    if (saved) {
+      this.state = saved;
+    }
+  }
+
+  /**
+   * List stored versions, newest first
+   */
+  list(): TInfo[] {
+    return [...this.state.versions].sort((a, b) => b.version - a.version);
+  }
+
+  get(version: number): TInfo | undefined {
+    return this.state.versions.find(v => v.version === version);
+  }
+
+  getActiveVersion(): number | null {
+    return this.state.activeVersion;
+  }
+
+  getPinnedVersion(): number | null {
+    return this.state.pinnedVersion;
+  }
+
+  /**
+   * Next version number, never reusing a number that was handed out before
+   */
+  nextVersion(currentVersion: number): number {
+    const latest = this.state.versions.reduce((max, v) => Math.max(max, v.version), 0);
+    return Math.max(latest, currentVersion) + 1;
+  }
+
+  /**
+   * Store a newly trained model as the active version, then drop the oldest
+   * versions and their weights beyond the history size
+   */
+  async record(
+    model: tf.LayersModel,
+    info: Omit<TInfo, 'slot'>
+  ): Promise<void> {
+    const replaced = this.state.versions.filter(v => v.version === info.version);
+    this.state.versions = this.state.versions.filter(v => v.version !== info.version);
+
+    const entry = { ...info, slot: this.freeSlot() } as TInfo;
+    await this.endpoints.storage.getModelStorage().save(this.slotKey(entry.slot), model);
+
+    this.state.versions.push(entry);
+    this.state.activeVersion = info.version;
+    const evicted = [...replaced, ...this.prune(this.maxVersions)];
+    await this.save();
+
+    await this.deleteSlots(evicted.map(v => v.slot));
+  }
+
+  /**
+   * Load the weights of a stored version
+   */
+  async loadModel(version: number): Promise<tf.LayersModel | null> {
+    const info = this.get(version);
+    if (!info) return null;
+    return this.endpoints.storage.getModelStorage().load(this.slotKey(info.slot));
+  }
+
+  async setActive(version: number): Promise<void> {
+    this.state.activeVersion = version;
+    await this.save();
+  }
+
+  async setPinned(version: number | null): Promise<void> {
+    this.state.pinnedVersion = version;
+    await this.save();
+  }
+
+  async markRegressed(version: number): Promise<void> {
+    const info = this.get(version);
+    if (info) {
+      info.regressed = true;
+      await this.save();
+    }
+  }
+
+  /**
+   * Drop the oldest versions until at most `keep` remain, never dropping the
+   * active or pinned version. Returns the dropped versions.
+   */
+  private prune(keep: number): TInfo[] {
+    const protectedVersions = new Set([this.state.activeVersion, this.state.pinnedVersion]);
+    const removable = [...this.state.versions]
+      .filter(v => !protectedVersions.has(v.version))
+      .sort((a, b) => a.version - b.version);
+    const dropped: TInfo[] = [];
+
+    while (this.state.versions.length > keep && removable.length > 0) {
+      const oldest = removable.shift()!;
+      this.state.versions = this.state.versions.filter(v => v.version !== oldest.version);
+      dropped.push(oldest);
+    }
+    return dropped;
+  }
+
+  /**
+   * Delete stored weights of slots no remaining version uses
+   */
+  private async deleteSlots(slots: number[]): Promise<void> {
+    const used = new Set(this.state.versions.map(v => v.slot));
+    const modelStorage = this.endpoints.storage.getModelStorage();
+
+    for (const slot of new Set(slots)) {
+      if (used.has(slot)) continue;
+      try {
+        await modelStorage.delete(this.slotKey(slot));
+      } catch (error) {
+        console.warn(`[ModelRegistry] Failed to delete ${this.slotKey(slot)}:`, error);
+      }
+    }
+  }
+
+  private freeSlot(): number {
+    const used = new Set(this.state.versions.map(v => v.slot));
+    let slot = 0;
+    while (used.has(slot)) slot++;
+    return slot;
+  }
+
+  private slotKey(slot: number): string {
+    return `${this.modelKey}:slot-${slot}`;
+  }
+
+  private async save(): Promise<void> {
+    await this.endpoints.storage.set(this.registryKey, this.state);
+  }
+}
@@ -19,9 +19,26 @@ import {
   getFeatureVectorDimension,
   flattenFeatureVector,
 } from '@audiio/ml-sdk';
+import { ModelRegistry, type DatasetSize, type ModelVersionInfo } from './model-registry';
 
 const MODEL_KEY = 'recommendation-model';
 
+export interface NeuralTrainOptions {
+  /**
+   * Save and activate the trained weights immediately (default). When false the
+   * weights are only kept for evaluation until rejectCandidate() restores the
+   * deployed ones.
+   */
+  commit?: boolean;
+}
+
+export interface NeuralScorerOptions {
+  /** Number of trained versions to keep for rollback */
+  historySize?: number;
+  /** Validation accuracy drop that triggers an automatic rollback */
+  rollbackThreshold?: number;
+}
+
 export class NeuralScorer {
   private model: tf.LayersModel | null = null;
   private endpoints!: MLCoreEndpoints;
@@ -29,12 +46,23 @@ export class NeuralScorer {
   private isTraining = false;
   private lastTrainingLoss = 0;
   private lastTrainingAccuracy = 0;
+  private registry!: ModelRegistry;
+  private rollbackThreshold = 0.05;
+
+  // Uncommitted candidate state
+  private previousWeights: tf.Tensor[] | null = null;
+  private pendingMetrics: TrainingMetrics | null = null;
 
   /**
    * Initialize the neural scorer
    */
-  async initialize(endpoints: MLCoreEndpoints): Promise<void> {
+  async initialize(endpoints: MLCoreEndpoints, options: NeuralScorerOptions = {}): Promise<void> {
     this.endpoints = endpoints;
+    this.rollbackThreshold = options.rollbackThreshold ?? 0.05;
+
+    // Load version history
+    this.registry = new ModelRegistry(endpoints, MODEL_KEY, options.historySize ?? 5);
+    await this.registry.load();
 
     // Try to load existing model
     const modelStorage = endpoints.storage.getModelStorage();
@@ -49,6 +77,7 @@ export class NeuralScorer {
         version: number;
         loss: number;
         accuracy: number;
+        trainedAt?: number;
       }>('model-metadata');
 
       if (metadata) {
@@ -56,6 +85,21 @@ export class NeuralScorer {
         this.lastTrainingLoss = metadata.loss;
         this.lastTrainingAccuracy = metadata.accuracy;
       }
+
+      // Models trained before versions were kept aren't in the registry yet
+      if (metadata && metadata.version > 0 && this.registry.list().length === 0) {
+        await this.registry.record(existingModel, {
+          version: metadata.version,
+          trainedAt: metadata.trainedAt ?? Date.now(),
+          metrics: {
+            ...this.getEmptyMetrics(),
+            loss: metadata.loss,
+            accuracy: metadata.accuracy,
+          },
+          datasetSize: { positive: 0, negative: 0, partial: 0, total: 0 },
+        });
+        console.log(`[NeuralScorer] Registered existing model as version ${metadata.version}`);
+      }
     } else {
       // Create new model
       const inputDim = getFeatureVectorDimension();
@@ -69,6 +113,8 @@ export class NeuralScorer {
    * Dispose resources
    */
   async dispose(): Promise<void> {
+    this.disposePreviousWeights();
+
     if (this.model) {
       this.model.dispose();
       this.model = null;
@@ -98,7 +144,9 @@ export class NeuralScorer {
   /**
    * Train the model on a dataset
    */
-  async train(dataset: TrainingDataset): Promise<TrainingResult> {
+  async train(dataset: TrainingDataset, options: NeuralTrainOptions = {}): Promise<TrainingResult> {
+    const commit = options.commit ?? true;
+
     if (!this.model) {
       return {
         success: false,
@@ -127,6 +175,12 @@ export class NeuralScorer {
     try {
       // Prepare training data
       const { features, labels } = this.prepareTrainingData(dataset);
+      const datasetSize: DatasetSize = {
+        positive: dataset.positive.length,
+        negative: dataset.negative.length,
+        partial: dataset.partial.length,
+        total: features.length,
+      };
 
       if (features.length < 50) {
         return {
@@ -142,6 +196,12 @@ export class NeuralScorer {
       // Calculate class weights for imbalanced data
       const classWeights = calculateClassWeights(labels);
 
+      // Keep the deployed weights so an uncommitted candidate can be rolled back
+      if (!commit) {
+        this.disposePreviousWeights();
+        this.previousWeights = this.model.getWeights().map(w => w.clone());
+      }
+
       // Convert to tensors
       const xTensor = tf.tensor2d(features);
       const yTensor = tf.tensor1d(labels);
@@ -160,12 +220,11 @@ export class NeuralScorer {
       xTensor.dispose();
       yTensor.dispose();
 
-      // Save model
-      await this.saveModel(metrics);
-
-      this.modelVersion++;
-      this.lastTrainingLoss = metrics.loss;
-      this.lastTrainingAccuracy = metrics.accuracy;
+      if (commit) {
+        await this.applyTrainedModel(metrics, datasetSize);
+      } else {
+        this.pendingMetrics = metrics;
+      }
 
       console.log(`[NeuralScorer] Training complete. Loss: ${metrics.loss.toFixed(4)}, Accuracy: ${metrics.accuracy.toFixed(4)}`);
 
@@ -191,30 +250,39 @@ export class NeuralScorer {
     }
   }
 
+  /**
+   * Discard the candidate and restore the deployed weights
+   */
+  rejectCandidate(): void {
+    if (this.model && this.previousWeights) {
+      this.model.setWeights(this.previousWeights);
+    }
+    this.pendingMetrics = null;
+    this.disposePreviousWeights();
+  }
+
   /**
    * Get model confidence (how well trained it is)
    */
   getConfidence(): number {
-    if (this.modelVersion === 0) return 0;
-    if (this.lastTrainingAccuracy === 0) return 0;
-
-    // Confidence based on accuracy and training iterations
-    const accuracyFactor = this.lastTrainingAccuracy;
-    const versionFactor = Math.min(1, this.modelVersion / 10);
-
-    return (accuracyFactor * 0.7 + versionFactor * 0.3);
+    return this.computeConfidence(this.modelVersion, this.lastTrainingAccuracy);
   }
 
   /**
    * Get ML weight for hybrid scoring
    */
   getMLWeight(): number {
-    // Start with low weight, increase with model maturity
-    const baseWeight = 0.1;
-    const maxWeight = 0.6;
-    const confidence = this.getConfidence();
+    return this.computeMLWeight(this.getConfidence());
+  }
 
-    return baseWeight + (maxWeight - baseWeight) * confidence;
+  /**
+   * ML weight the hybrid scorer would use once the candidate is committed
+   */
+  getCandidateMLWeight(): number {
+    if (!this.pendingMetrics) return this.getMLWeight();
+
+    const confidence = this.computeConfidence(this.modelVersion + 1, this.pendingMetrics.accuracy);
+    return this.computeMLWeight(confidence);
   }
 
   /**
@@ -231,6 +299,148 @@ export class NeuralScorer {
     return this.modelVersion;
   }
 
+  /**
+   * List stored model versions, newest first
+   */
+  listVersions(): ModelVersionInfo[] {
+    return this.registry.list();
+  }
+
+  /**
+   * Get the pinned model version, if any
+   */
+  getPinnedVersion(): number | null {
+    return this.registry.getPinnedVersion();
+  }
+
+  /**
+   * Activate a stored version and keep it until unpinned
+   */
+  async pinVersion(version: number): Promise<void> {
+    await this.activateVersion(version);
+    await this.registry.setPinned(version);
+  }
+
+  /**
+   * Allow training to replace the active model again
+   */
+  async unpinVersion(): Promise<void> {
+    await this.registry.setPinned(null);
+  }
+
+  /**
+   * Roll back to a stored version (default: the newest version older than the
+   * active one that was not itself rolled back)
+   */
+  async rollback(version?: number): Promise<number> {
+    const pinned = this.registry.getPinnedVersion();
+    if (pinned !== null) {
+      throw new Error(`Model version ${pinned} is pinned; unpin it before rolling back`);
+    }
+
+    const target = version ?? this.registry
+      .list()
+      .find(v => v.version < this.modelVersion && !v.regressed)?.version;
+
+    if (target === undefined) {
+      throw new Error('No earlier model version to roll back to');
+    }
+
+    await this.activateVersion(target);
+    return target;
+  }
+
+  /**
+   * Confidence based on accuracy and training iterations
+   */
+  private computeConfidence(version: number, accuracy: number): number {
+    if (version === 0) return 0;
+    if (accuracy === 0) return 0;
+
+    const accuracyFactor = accuracy;
+    const versionFactor = Math.min(1, version / 10);
+
+    return (accuracyFactor * 0.7 + versionFactor * 0.3);
+  }
+
+  private computeMLWeight(confidence: number): number {
+    // Start with low weight, increase with model maturity
+    const baseWeight = 0.1;
+    const maxWeight = 0.6;
+
+    return baseWeight + (maxWeight - baseWeight) * confidence;
+  }
+
+  /**
+   * Save the current weights as a new version, rolling back automatically if
+   * its validation accuracy regressed past the threshold
+   */
+  private async applyTrainedModel(metrics: TrainingMetrics, datasetSize: DatasetSize): Promise<void> {
+    const previousVersion = this.registry.getActiveVersion();
+    const version = this.registry.nextVersion(this.modelVersion);
+
+    await this.saveModel(version, metrics);
+    await this.registry.record(this.model!, {
+      version,
+      trainedAt: Date.now(),
+      metrics,
+      datasetSize,
+    });
+
+    this.modelVersion = version;
+    this.lastTrainingLoss = metrics.loss;
+    this.lastTrainingAccuracy = metrics.accuracy;
+
+    const previous = previousVersion !== null ? this.registry.get(previousVersion) : undefined;
+    if (previous && this.hasRegressed(previous.metrics, metrics)) {
+      console.warn(
+        `[NeuralScorer] Version ${version} regressed (val accuracy ${validationAccuracy(metrics).toFixed(4)} ` +
+        `vs ${validationAccuracy(previous.metrics).toFixed(4)}), rolling back to ${previous.version}`
+      );
+      await this.registry.markRegressed(version);
+      try {
+        await this.activateVersion(previous.version);
+      } catch (error) {
+        console.warn('[NeuralScorer] Rollback failed, keeping new version:', error);
+      }
+    }
+  }
+
+  private hasRegressed(previous: TrainingMetrics, current: TrainingMetrics): boolean {
+    return validationAccuracy(previous) - validationAccuracy(current) > this.rollbackThreshold;
+  }
+
+  /**
+   * Load a stored version and make it the active model
+   */
+  private async activateVersion(version: number): Promise<void> {
+    const info = this.registry.get(version);
+    const model = info ? await this.registry.loadModel(version) : null;
+
+    if (!info || !model) {
+      throw new Error(`Model version ${version} is not available`);
+    }
+
+    this.disposePreviousWeights();
+    this.pendingMetrics = null;
+    this.model?.dispose();
+    this.model = model;
+
+    await this.saveModel(version, info.metrics);
+    await this.registry.setActive(version);
+
+    this.modelVersion = version;
+    this.lastTrainingLoss = info.metrics.loss;
+    this.lastTrainingAccuracy = info.metrics.accuracy;
+
+    console.log(`[NeuralScorer] Activated model version ${version}`);
+  }
+
+  private disposePreviousWeights(): void {
+    this.previousWeights?.forEach(w => w.dispose());
+    this.previousWeights = null;
+  }
+
   /**
    * Prepare training data from dataset
    */
@@ -259,13 +469,13 @@ export class NeuralScorer {
   /**
    * Save model to storage
    */
-  private async saveModel(metrics: TrainingMetrics): Promise<void> {
+  private async saveModel(version: number, metrics: TrainingMetrics): Promise<void> {
     const modelStorage = this.endpoints.storage.getModelStorage();
     await modelStorage.save(MODEL_KEY, this.model!);
 
     // Save metadata
     await this.endpoints.storage.set('model-metadata', {
-      version: this.modelVersion + 1,
+      version,
       loss: metrics.loss,
       accuracy: metrics.accuracy,
       trainedAt: Date.now(),
@@ -316,3 +526,10 @@ export class NeuralScorer {
     };
   }
 }
+
+/**
+ * Validation accuracy, falling back to training accuracy when no split was used
+ */
+function validationAccuracy(metrics: TrainingMetrics): number {
+  return metrics.valAccuracy || metrics.accuracy;
+}
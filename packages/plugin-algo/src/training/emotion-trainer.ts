@@ -0,0 +1,260 @@
+/**
+ * Emotion Trainer - Fine-tunes the emotion model on local labels
+ *
+ * Trains a copy of the current model on user mood tags and weak
+ * valence/energy labels, then compares both models on held-out labels.
+ * The copy only replaces the current model if it agrees with the labels
+ * more closely.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import type { EmotionProvider } from '../providers/emotion/emotion-provider';
+import {
+  measureAgreement,
+  type EmotionAgreement,
+  type EmotionLabel,
+} from '../providers/emotion/emotion-labels';
+
+/**
+ * Decoded audio for a track
+ */
+export type EmotionAudioSource = (
+  trackId: string
+) => Promise<{ buffer: ArrayBuffer; sampleRate: number } | null>;
+
+export interface EmotionTrainingOptions {
+  epochs: number;
+  batchSize: number;
+  /** Share of labels held out for evaluation */
+  holdoutRatio: number;
+  /** Tracks with audio needed before training starts */
+  minSamples: number;
+  /** How many times each user tag is repeated relative to a weak label */
+  userLabelWeight: number;
+}
+
+export interface EmotionTrainingProgress {
+  phase: 'loading' | 'training' | 'evaluating';
+  /** 0-1 within the phase */
+  progress: number;
+}
+
+export interface EmotionTrainingReport {
+  promoted: boolean;
+  reason: string;
+  /** New model version, when promoted */
+  version?: number;
+  labels: { user: number; weak: number; withoutAudio: number };
+  /** Which labels the holdout was drawn from */
+  holdoutSource?: 'weak' | 'all';
+  /** Agreement of the current model with the holdout */
+  baseline?: EmotionAgreement;
+  /** Agreement of the fine-tuned model with the holdout */
+  candidate?: EmotionAgreement;
+}
+
+interface LabelledInput {
+  label: EmotionLabel;
+  input: number[][];
+}
+
+// Hold out weak labels only when there are enough for a stable estimate
+const MIN_WEAK_HOLDOUT_POOL = 20;
+
+export class EmotionTrainer {
+  private provider: EmotionProvider;
+  private options: EmotionTrainingOptions;
+  private training = false;
+
+  constructor(provider: EmotionProvider, options: Partial<EmotionTrainingOptions> = {}) {
+    this.provider = provider;
+    this.options = {
+      epochs: options.epochs ?? 8,
+      batchSize: options.batchSize ?? 8,
+      holdoutRatio: options.holdoutRatio ?? 0.2,
+      minSamples: options.minSamples ?? 20,
+      userLabelWeight: options.userLabelWeight ?? 3,
+    };
+  }
+
+  isTraining(): boolean {
+    return this.training;
+  }
+
+  /**
+   * Fine-tune on the given labels. A track labelled both ways keeps its
+   * user label.
+   *
+   * @throws If training is already running
+   */
+  async train(
+    labels: EmotionLabel[],
+    audioSource: EmotionAudioSource,
+    onProgress?: (progress: EmotionTrainingProgress) => void
+  ): Promise<EmotionTrainingReport> {
+    if (this.training) {
+      throw new Error('Emotion training already in progress');
+    }
+
+    this.training = true;
+    try {
+      return await this.run(dedupeLabels(labels), audioSource, onProgress);
+    } finally {
+      this.training = false;
+    }
+  }
+
+  private async run(
+    labels: EmotionLabel[],
+    audioSource: EmotionAudioSource,
+    onProgress?: (progress: EmotionTrainingProgress) => void
+  ): Promise<EmotionTrainingReport> {
+    const samples: LabelledInput[] = [];
+    let withoutAudio = 0;
+
+    for (let i = 0; i < labels.length; i++) {
+      onProgress?.({ phase: 'loading', progress: i / labels.length });
+
+      const audio = await audioSource(labels[i].trackId).catch(() => null);
+      if (!audio) {
+        withoutAudio++;
+        continue;
+      }
+      const input = await this.provider.extractInput(new Float32Array(audio.buffer), audio.sampleRate);
+      samples.push({ label: labels[i], input });
+    }
+
+    const report: EmotionTrainingReport = {
+      promoted: false,
+      reason: '',
+      labels: {
+        user: samples.filter(s => s.label.source === 'user').length,
+        weak: samples.filter(s => s.label.source === 'weak').length,
+        withoutAudio,
+      },
+    };
+
+    if (samples.length < this.options.minSamples) {
+      report.reason = `Need ${this.options.minSamples} labelled tracks with audio, have ${samples.length}`;
+      return report;
+    }
+
+    const { train, holdout, source } = this.split(samples);
+    report.holdoutSource = source;
+
+    onProgress?.({ phase: 'evaluating', progress: 0 });
+    const holdoutInputs = holdout.map(s => s.input);
+    const holdoutLabels = holdout.map(s => s.label);
+    report.baseline = measureAgreement(await this.provider.predict(holdoutInputs), holdoutLabels);
+
+    const candidate = this.provider.createCandidateModel();
+    try {
+      await this.fit(candidate, train, onProgress);
+
+      onProgress?.({ phase: 'evaluating', progress: 0.5 });
+      report.candidate = measureAgreement(
+        await this.provider.predict(holdoutInputs, candidate),
+        holdoutLabels
+      );
+    } catch (error) {
+      candidate.dispose();
+      throw error;
+    }
+
+    const baselineError = report.baseline.valenceMae + report.baseline.arousalMae;
+    const candidateError = report.candidate.valenceMae + report.candidate.arousalMae;
+
+    if (candidateError >= baselineError) {
+      candidate.dispose();
+      report.reason = `Fine-tuned model did not improve agreement (error ${candidateError.toFixed(3)} vs ${baselineError.toFixed(3)})`;
+      return report;
+    }
+
+    report.version = await this.provider.promoteModel(candidate, {
+      trainedAt: Date.now(),
+      labels: { user: report.labels.user, weak: report.labels.weak },
+      agreement: { baseline: report.baseline, candidate: report.candidate },
+    });
+    report.promoted = true;
+    report.reason = `Error on held-out labels fell from ${baselineError.toFixed(3)} to ${candidateError.toFixed(3)}`;
+    onProgress?.({ phase: 'evaluating', progress: 1 });
+    return report;
+  }
+
+  /**
+   * Hold out a deterministic slice, preferring weak labels so agreement is
+   * measured against the outside source rather than the user's own tags
+   */
+  private split(samples: LabelledInput[]): {
+    train: LabelledInput[];
+    holdout: LabelledInput[];
+    source: 'weak' | 'all';
+  } {
+    const weak = samples.filter(s => s.label.source === 'weak');
+    const source = weak.length >= MIN_WEAK_HOLDOUT_POOL ? 'weak' : 'all';
+    const pool = (source === 'weak' ? weak : samples)
+      .slice()
+      .sort((a, b) => hashId(a.label.trackId) - hashId(b.label.trackId));
+
+    const holdoutSize = Math.max(1, Math.round(pool.length * this.options.holdoutRatio));
+    const holdout = new Set(pool.slice(0, holdoutSize));
+
+    return {
+      train: samples.filter(s => !holdout.has(s)),
+      holdout: [...holdout],
+      source,
+    };
+  }
+
+  private async fit(
+    model: tf.LayersModel,
+    samples: LabelledInput[],
+    onProgress?: (progress: EmotionTrainingProgress) => void
+  ): Promise<void> {
+    // User tags are repeated so they outweigh weak labels
+    const weighted: LabelledInput[] = samples.flatMap(s =>
+      s.label.source === 'user' ? new Array<LabelledInput>(this.options.userLabelWeight).fill(s) : [s]
+    );
+
+    const xs = tf.tensor4d(weighted.map(s => s.input.map(frame => frame.map(val => [val]))));
+    const ys = tf.tensor2d(weighted.map(s => [s.label.valence, s.label.arousal]));
+
+    try {
+      await model.fit(xs, ys, {
+        epochs: this.options.epochs,
+        batchSize: this.options.batchSize,
+        shuffle: true,
+        callbacks: {
+          onEpochEnd: async (epoch: number) => {
+            onProgress?.({ phase: 'training', progress: (epoch + 1) / this.options.epochs });
+          },
+        },
+      });
+    } finally {
+      xs.dispose();
+      ys.dispose();
+    }
+  }
+}
+
+/**
+ * One label per track, user tags first
+ */
+function dedupeLabels(labels: EmotionLabel[]): EmotionLabel[] {
+  const byTrack = new Map<string, EmotionLabel>();
+  for (const label of labels) {
+    const existing = byTrack.get(label.trackId);
+    if (!existing || (existing.source === 'weak' && label.source === 'user')) {
+      byTrack.set(label.trackId, label);
+    }
+  }
+  return [...byTrack.values()];
+}
+
+function hashId(id: string): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
@@ -0,0 +1,266 @@
+/**
+ * Evaluator - Offline ranking evaluation on a time-based holdout
+ *
+ * Holds out the most recent slice of training events and measures how well a
+ * scorer ranks what the user actually went on to enjoy.
+ */
+
+import type { TrainingDataset } from '@audiio/ml-sdk';
+
+type TrainingSample = TrainingDataset['positive'][number];
+
+/**
+ * Training sample stamped with the time of the event that produced it
+ * (epoch ms). Host samples carry no time of their own; profiles stamp the
+ * ones they match to recorded events, imported history stamps every listen.
+ */
+export type TimedTrainingSample = TrainingSample & { timestamp?: number };
+
+export interface RankingMetrics {
+  precisionAtK: number;
+  recallAtK: number;
+  ndcgAtK: number;
+  auc: number;
+  /** Share of holdout tracks that made it into any top-k list */
+  coverage: number;
+  /** Mean self-information (-log2 popularity) of top-k tracks */
+  novelty: number;
+}
+
+export interface EvaluationReport {
+  k: number;
+  trainSize: number;
+  /** Holdout samples the metrics were computed on */
+  holdoutSize: number;
+  /**
+   * Holdout samples from before the deployed model was trained. When there
+   * are enough newer samples they are left out of the comparison; otherwise
+   * the deployed model is compared on events it learned from, which
+   * flatters its metrics.
+   */
+  baselineOverlap: number;
+  /** Hybrid scorer with the currently deployed model */
+  baseline: RankingMetrics;
+  /** Hybrid scorer with the newly trained model */
+  candidate: RankingMetrics;
+  /** Hybrid scorer without the neural component */
+  ruleOnly: RankingMetrics;
+  promoted: boolean;
+  reason: string;
+}
+
+export interface HoldoutSplit {
+  train: TrainingDataset;
+  holdout: TrainingSample[];
+  /** Samples without an event time; they are always in the train split */
+  untimed: number;
+}
+
+type SampleBucket = 'positive' | 'negative' | 'partial';
+const SAMPLE_BUCKETS: SampleBucket[] = ['positive', 'negative', 'partial'];
+
+// Samples labelled at or above this are treated as relevant
+const RELEVANCE_THRESHOLD = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class Evaluator {
+  private k: number;
+  private holdoutRatio: number;
+
+  constructor(k = 10, holdoutRatio = 0.2) {
+    this.k = k;
+    this.holdoutRatio = holdoutRatio;
+  }
+
+  getK(): number {
+    return this.k;
+  }
+
+  /**
+   * Split a dataset so the most recent events form the holdout. Samples
+   * without an event time cannot be placed in time, so they only train.
+   */
+  splitByTime(dataset: TrainingDataset): HoldoutSplit {
+    const train: TrainingDataset = { ...dataset, positive: [], negative: [], partial: [] };
+    const timed: Array<{ sample: TrainingSample; bucket: SampleBucket; time: number }> = [];
+    let untimed = 0;
+
+    for (const bucket of SAMPLE_BUCKETS) {
+      for (const sample of dataset[bucket]) {
+        const time = getSampleTime(sample);
+        if (time === null) {
+          train[bucket].push(sample);
+          untimed++;
+        } else {
+          timed.push({ sample, bucket, time });
+        }
+      }
+    }
+
+    timed.sort((a, b) => a.time - b.time);
+    const cutoff = Math.floor(timed.length * (1 - this.holdoutRatio));
+
+    for (const { sample, bucket } of timed.slice(0, cutoff)) {
+      train[bucket].push(sample);
+    }
+
+    return {
+      train,
+      holdout: timed.slice(cutoff).map(t => t.sample),
+      untimed,
+    };
+  }
+
+  /**
+   * Check that a holdout can produce meaningful ranking metrics
+   */
+  canEvaluate(holdout: TrainingSample[]): boolean {
+    const relevant = holdout.filter(s => s.label >= RELEVANCE_THRESHOLD).length;
+    return holdout.length >= this.k * 2 && relevant > 0 && relevant < holdout.length;
+  }
+
+  /**
+   * Compute ranking metrics for scores aligned with the holdout samples.
+   * Each day of listening is ranked as its own list.
+   */
+  evaluate(
+    holdout: TrainingSample[],
+    scores: number[],
+    trainPopularity: Map<string, number>
+  ): RankingMetrics {
+    const lists = new Map<number, Array<{ sample: TrainingSample; score: number }>>();
+
+    holdout.forEach((sample, i) => {
+      const time = getSampleTime(sample);
+      if (time === null) {
+        throw new Error(`Holdout sample for track ${sample.track.id} has no event time`);
+      }
+
+      const day = Math.floor(time / DAY_MS);
+      const list = lists.get(day) ?? [];
+      list.push({ sample, score: scores[i] });
+      lists.set(day, list);
+    });
+
+    let precision = 0;
+    let recall = 0;
+    let ndcg = 0;
+    let rankedLists = 0;
+    let noveltySum = 0;
+    let noveltyCount = 0;
+    const recommended = new Set<string>();
+
+    for (const list of lists.values()) {
+      const ranked = [...list].sort((a, b) => b.score - a.score);
+      const topK = ranked.slice(0, this.k);
+
+      for (const { sample } of topK) {
+        recommended.add(sample.track.id);
+        noveltySum += selfInformation(sample.track.id, trainPopularity);
+        noveltyCount++;
+      }
+
+      const relevantTotal = ranked.filter(r => isRelevant(r.sample)).length;
+      if (relevantTotal === 0) continue;
+
+      const hits = topK.filter(r => isRelevant(r.sample)).length;
+      precision += hits / topK.length;
+      recall += hits / relevantTotal;
+      ndcg += this.ndcg(ranked.map(r => r.sample.label));
+      rankedLists++;
+    }
+
+    const holdoutTracks = new Set(holdout.map(s => s.track.id));
+
+    return {
+      precisionAtK: rankedLists > 0 ? precision / rankedLists : 0,
+      recallAtK: rankedLists > 0 ? recall / rankedLists : 0,
+      ndcgAtK: rankedLists > 0 ? ndcg / rankedLists : 0,
+      auc: this.auc(holdout, scores),
+      coverage: holdoutTracks.size > 0 ? recommended.size / holdoutTracks.size : 0,
+      novelty: noveltyCount > 0 ? noveltySum / noveltyCount : 0,
+    };
+  }
+
+  /**
+   * Track play share in the training split, used for novelty
+   */
+  buildPopularity(train: TrainingDataset): Map<string, number> {
+    const counts = new Map<string, number>();
+    const samples = [...train.positive, ...train.negative, ...train.partial];
+
+    for (const sample of samples) {
+      counts.set(sample.track.id, (counts.get(sample.track.id) ?? 0) + 1);
+    }
+
+    const popularity = new Map<string, number>();
+    for (const [trackId, count] of counts) {
+      popularity.set(trackId, count / Math.max(1, samples.length));
+    }
+    return popularity;
+  }
+
+  /**
+   * NDCG@k with graded relevance taken from the sample labels
+   */
+  private ndcg(labelsInRankOrder: number[]): number {
+    const dcg = (labels: number[]) =>
+      labels
+        .slice(0, this.k)
+        .reduce((sum, label, i) => sum + (Math.pow(2, label) - 1) / Math.log2(i + 2), 0);
+
+    const ideal = dcg([...labelsInRankOrder].sort((a, b) => b - a));
+    return ideal > 0 ? dcg(labelsInRankOrder) / ideal : 0;
+  }
+
+  /**
+   * ROC AUC via the rank-sum (Mann-Whitney) statistic
+   */
+  private auc(holdout: TrainingSample[], scores: number[]): number {
+    const ranked = holdout
+      .map((sample, i) => ({ relevant: isRelevant(sample), score: scores[i] }))
+      .sort((a, b) => a.score - b.score);
+
+    let positives = 0;
+    let negatives = 0;
+    let rankSum = 0;
+
+    // Average ranks for tied scores
+    for (let i = 0; i < ranked.length; ) {
+      let j = i;
+      while (j + 1 < ranked.length && ranked[j + 1].score === ranked[i].score) j++;
+      const averageRank = (i + j) / 2 + 1;
+
+      for (let t = i; t <= j; t++) {
+        if (ranked[t].relevant) {
+          positives++;
+          rankSum += averageRank;
+        } else {
+          negatives++;
+        }
+      }
+      i = j + 1;
+    }
+
+    if (positives === 0 || negatives === 0) return 0.5;
+    return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+  }
+}
+
+/**
+ * Event time of a sample, or null when it has none
+ */
+export function getSampleTime(sample: TimedTrainingSample): number | null {
+  const { timestamp } = sample;
+  return typeof timestamp === 'number' && Number.isFinite(timestamp) && timestamp > 0 ? timestamp : null;
+}
+
+function isRelevant(sample: TrainingSample): boolean {
+  return sample.label >= RELEVANCE_THRESHOLD;
+}
+
+function selfInformation(trackId: string, popularity: Map<string, number>): number {
+  // Unseen tracks get the information of a single play
+  const share = popularity.get(trackId) ?? 1 / Math.max(2, popularity.size * 2);
+  return -Math.log2(share);
+}
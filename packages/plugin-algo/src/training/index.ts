@@ -3,3 +3,4 @@
  */
 
 export { Trainer } from './trainer';
+export { Evaluator } from './evaluator';
@@ -8,27 +8,45 @@ import type {
   TrainingResult,
   TrainingStatus,
   TrainingState,
+  ScoringContext,
+  AggregatedFeatures,
 } from '@audiio/ml-sdk';
 import type { NeuralScorer } from '../scoring/neural-scorer';
+import { HybridScorer } from '../scoring/hybrid-scorer';
+import { Evaluator, getSampleTime, type EvaluationReport, type HoldoutSplit } from './evaluator';
+
+/**
+ * Training result with the offline evaluation that decided promotion
+ */
+export type EvaluatedTrainingResult = TrainingResult & { evaluation?: EvaluationReport };
+
+type TrainingSample = TrainingDataset['positive'][number];
 
 export class Trainer {
   private endpoints: MLCoreEndpoints;
   private neuralScorer: NeuralScorer;
+  private settings: Record<string, unknown>;
+  private evaluator = new Evaluator();
   private state: TrainingState = 'idle';
   private progress = 0;
   private currentEpoch = 0;
   private totalEpochs = 50;
-  private lastResult?: TrainingResult;
+  private lastResult?: EvaluatedTrainingResult;
 
-  constructor(endpoints: MLCoreEndpoints, neuralScorer: NeuralScorer) {
+  constructor(
+    endpoints: MLCoreEndpoints,
+    neuralScorer: NeuralScorer,
+    settings: Record<string, unknown> = {}
+  ) {
     this.endpoints = endpoints;
     this.neuralScorer = neuralScorer;
+    this.settings = settings;
   }
 
   /**
    * Train the model
    */
-  async train(dataset: TrainingDataset): Promise<TrainingResult> {
+  async train(dataset: TrainingDataset): Promise<EvaluatedTrainingResult> {
     if (this.state === 'training') {
       return {
         success: false,
@@ -54,6 +72,32 @@ export class Trainer {
       };
     }
 
+    const pinnedVersion = this.neuralScorer.getPinnedVersion();
+    if (pinnedVersion !== null) {
+      return {
+        success: false,
+        error: `Model version ${pinnedVersion} is pinned`,
+        metrics: {
+          loss: 0,
+          accuracy: 0,
+          valLoss: 0,
+          valAccuracy: 0,
+          epochs: 0,
+          lossHistory: [],
+          accuracyHistory: [],
+        },
+        model: {
+          version: pinnedVersion,
+          parameters: 0,
+          architecture: '',
+          inputDimension: 0,
+          outputDimension: 0,
+        },
+        duration: 0,
+        completedAt: Date.now(),
+      };
+    }
+
     console.log('[Trainer] Starting training...');
     this.state = 'preparing';
     this.progress = 0;
@@ -94,11 +138,55 @@ export class Trainer {
       this.progress = 0.1;
       const enrichedDataset = await this.enrichDataset(dataset);
 
+      // Hold out the most recent events for evaluation
+      const split = this.evaluator.splitByTime(enrichedDataset);
+      const trainSamples = split.train.positive.length + split.train.negative.length + split.train.partial.length;
+      const canEvaluate = this.evaluator.canEvaluate(split.holdout) && trainSamples >= 50;
+
+      if (split.untimed > 0) {
+        console.log(`[Trainer] ${split.untimed} samples have no event time and are only used for training`);
+      }
+
+      // A model that can't be checked against recent events only replaces
+      // nothing: the first model is deployed, a later one waits for more events
+      if (!canEvaluate && this.neuralScorer.isReady()) {
+        this.state = 'idle';
+        this.progress = 0;
+        console.log(`[Trainer] Holdout of ${split.holdout.length} timed samples is too small to evaluate; keeping the deployed model`);
+        return {
+          success: false,
+          error: 'Not enough recent events to evaluate a new model; the deployed model is kept',
+          metrics: {
+            loss: 0,
+            accuracy: 0,
+            valLoss: 0,
+            valAccuracy: 0,
+            epochs: 0,
+            lossHistory: [],
+            accuracyHistory: [],
+          },
+          model: {
+            version: this.neuralScorer.getVersion(),
+            parameters: 0,
+            architecture: '',
+            inputDimension: 0,
+            outputDimension: 0,
+          },
+          duration: 0,
+          completedAt: Date.now(),
+        };
+      }
+      if (!canEvaluate) {
+        console.log(`[Trainer] Holdout of ${split.holdout.length} timed samples is too small to evaluate; deploying the first model unchecked`);
+      }
+
       // Train neural network
       this.state = 'training';
       this.progress = 0.2;
 
-      const result = await this.neuralScorer.train(enrichedDataset);
+      const result: EvaluatedTrainingResult = canEvaluate
+        ? await this.trainAndEvaluate(enrichedDataset, split)
+        : await this.neuralScorer.train(enrichedDataset);
 
       if (result.success) {
         this.state = 'saving';
@@ -111,6 +199,9 @@ export class Trainer {
         this.progress = 1;
 
         console.log(`[Trainer] Training complete. Loss: ${result.metrics.loss.toFixed(4)}, Accuracy: ${result.metrics.accuracy.toFixed(4)}`);
+        if (result.evaluation) {
+          console.log(`[Trainer] ${result.evaluation.promoted ? 'Promoted' : 'Kept current model'}: ${result.evaluation.reason}`);
+        }
       } else {
         this.state = 'error';
         console.error('[Trainer] Training failed:', result.error);
@@ -160,6 +251,156 @@ export class Trainer {
     };
   }
 
+  /**
+   * Get the evaluation report of the last training run
+   */
+  getLastEvaluation(): EvaluationReport | undefined {
+    return this.lastResult?.evaluation;
+  }
+
+  /**
+   * Train a candidate on the older events, rank the holdout with the current and
+   * candidate models, and only if the candidate ranks better retrain on the
+   * full dataset (holdout included) and deploy that model
+   */
+  private async trainAndEvaluate(
+    dataset: TrainingDataset,
+    split: HoldoutSplit
+  ): Promise<EvaluatedTrainingResult> {
+    const trainSize = split.train.positive.length + split.train.negative.length + split.train.partial.length;
+    const popularity = this.evaluator.buildPopularity(split.train);
+
+    // The deployed model learned from events up to its training; compare on
+    // later ones when there are enough of them
+    const lastTraining = this.neuralScorer.isReady()
+      ? await this.endpoints.training.getLastTrainingInfo()
+      : null;
+    const unseen = lastTraining
+      ? split.holdout.filter(s => (getSampleTime(s) ?? 0) > lastTraining.timestamp)
+      : split.holdout;
+    const holdout = this.evaluator.canEvaluate(unseen) ? unseen : split.holdout;
+    const baselineOverlap = holdout.length - unseen.length;
+    const holdoutFeatures = holdout.map(s => s.features);
+
+    // Rule-based scores are shared by every variant
+    const ruleScores = await this.scoreRuleOnly(holdout);
+
+    const baselinePredictions = this.neuralScorer.isReady()
+      ? await this.neuralScorer.predict(holdoutFeatures)
+      : null;
+    const baselineScores = this.blendScores(ruleScores, baselinePredictions, this.neuralScorer.getMLWeight());
+
+    const result = await this.neuralScorer.train(split.train, { commit: false });
+    if (!result.success) {
+      this.neuralScorer.rejectCandidate();
+      return result;
+    }
+
+    this.progress = 0.8;
+
+    const candidatePredictions = await this.neuralScorer.predict(holdoutFeatures);
+    const candidateScores = this.blendScores(
+      ruleScores,
+      candidatePredictions,
+      this.neuralScorer.getCandidateMLWeight()
+    );
+
+    const baseline = this.evaluator.evaluate(holdout, baselineScores, popularity);
+    const candidate = this.evaluator.evaluate(holdout, candidateScores, popularity);
+    const ruleOnly = this.evaluator.evaluate(holdout, ruleScores, popularity);
+    const k = this.evaluator.getK();
+
+    const promoted = candidate.ndcgAtK > baseline.ndcgAtK;
+    const overlapNote = baselineOverlap > 0
+      ? `; the deployed model was trained on ${baselineOverlap} of ${holdout.length} holdout events`
+      : '';
+    const reason = `NDCG@${k} ${candidate.ndcgAtK.toFixed(4)} vs ${baseline.ndcgAtK.toFixed(4)} (rules only ${ruleOnly.ndcgAtK.toFixed(4)})${overlapNote}`;
+    const evaluation: EvaluationReport = {
+      k,
+      trainSize,
+      holdoutSize: holdout.length,
+      baselineOverlap,
+      baseline,
+      candidate,
+      ruleOnly,
+      promoted,
+      reason,
+    };
+
+    // Restore the deployed weights either way; a promoted model is trained
+    // again from them on every sample, so the newest events are learned too
+    this.neuralScorer.rejectCandidate();
+
+    if (!promoted) {
+      return {
+        ...result,
+        model: { ...result.model, version: this.neuralScorer.getVersion() },
+        evaluation,
+      };
+    }
+
+    this.progress = 0.85;
+    const full = await this.neuralScorer.train(dataset);
+    return { ...full, evaluation: { ...evaluation, promoted: full.success } };
+  }
+
+  /**
+   * Score holdout samples with the hybrid scorer's rule components only,
+   * without exploration so the scores don't vary between runs
+   */
+  private async scoreRuleOnly(samples: TrainingSample[]): Promise<number[]> {
+    const ruleScorer = new HybridScorer(this.endpoints, this.neuralScorer, {
+      ...this.settings,
+      mlWeight: 0,
+      exploration: false,
+    });
+    await ruleScorer.initialize();
+
+    const featureCache = new Map<string, AggregatedFeatures>();
+    const scores: number[] = [];
+
+    for (const sample of samples) {
+      let features = featureCache.get(sample.track.id);
+      if (!features) {
+        features = await this.endpoints.features.get(sample.track.id);
+        featureCache.set(sample.track.id, features);
+      }
+
+      const score = await ruleScorer.score(sample.track, features, this.buildContext(sample));
+      scores.push(score.finalScore);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Mirror HybridScorer weighting: the ML prediction takes `mlWeight` of the score
+   */
+  private blendScores(ruleScores: number[], predictions: number[] | null, neuralWeight: number): number[] {
+    if (!predictions || this.settings.mlWeight === 0) return ruleScores;
+
+    const mlWeight = neuralWeight * (this.settings.mlWeight as number || 0.5);
+    return ruleScores.map((score, i) => score * (1 - mlWeight) + predictions[i] * 100 * mlWeight);
+  }
+
+  /**
+   * Scoring context at the time a sample was recorded
+   */
+  private buildContext(sample: TrainingSample): ScoringContext {
+    // Holdout samples always have a time; fall back to now for any other
+    const date = new Date(getSampleTime(sample) ?? Date.now());
+
+    const context: ScoringContext = {
+      hourOfDay: date.getHours(),
+      dayOfWeek: date.getDay(),
+      isWeekend: [0, 6].includes(date.getDay()),
+      sessionTracks: [],
+      sessionArtists: [],
+      sessionGenres: [],
+    };
+    return context;
+  }
+
   /**
    * Enrich dataset with additional features
    */
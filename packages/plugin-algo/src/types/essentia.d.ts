@@ -7,6 +7,7 @@ declare module 'essentia.js' {
     arrayToVector: (arr: Float32Array) => unknown;
     vectorToArray: (vec: unknown) => Float32Array;
     RhythmExtractor: (signal: unknown) => { bpm: number; confidence: number };
+    RhythmExtractor2013?: (signal: unknown) => { bpm: number; ticks: unknown; confidence: number };
     KeyExtractor: (signal: unknown) => { key: string; scale: string; strength: number };
     Loudness: (signal: unknown) => { loudness: number };
     Energy: (signal: unknown) => { energy: number };
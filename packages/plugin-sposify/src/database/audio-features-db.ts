@@ -3,7 +3,12 @@
  * Provides pre-computed Spotify audio features for tracks
  */
 
-import type { AudioFeatures, DbAudioFeatures } from '../types';
+import type {
+  AudioFeatures,
+  DbAudioFeatures,
+  MoodLabelQuery,
+  SpotifyMoodLabel,
+} from '../types';
 import { getSposifyDatabase } from './sposify-db';
 
 export class AudioFeaturesDatabase {
@@ -86,6 +91,37 @@ export class AudioFeaturesDatabase {
     return this.getBySpotifyId(tracks[0].spotify_id);
   }
 
+  /**
+   * Spotify valence and energy for tracks, resolved by Spotify ID, ISRC or
+   * title/artist. Tracks missing either value are left out, since a missing
+   * value would otherwise read as 0.
+   */
+  getMoodLabels(queries: MoodLabelQuery[]): Record<string, SpotifyMoodLabel> {
+    const db = getSposifyDatabase();
+    const labels: Record<string, SpotifyMoodLabel> = {};
+
+    for (const query of queries) {
+      let dbFeatures: DbAudioFeatures | null = null;
+
+      if (query.spotifyId) {
+        dbFeatures = db.getAudioFeatures(query.spotifyId);
+      }
+      if (!dbFeatures && query.isrc) {
+        dbFeatures = db.getAudioFeaturesByIsrc(query.isrc);
+      }
+      if (!dbFeatures && query.title && query.artist) {
+        const [track] = db.searchTracks(query.title, query.artist, 1);
+        if (track) dbFeatures = db.getAudioFeatures(track.spotify_id);
+      }
+
+      if (dbFeatures?.valence != null && dbFeatures.energy != null) {
+        labels[query.id] = { valence: dbFeatures.valence, energy: dbFeatures.energy };
+      }
+    }
+
+    return labels;
+  }
+
   /**
    * Find tracks with similar audio features
    */
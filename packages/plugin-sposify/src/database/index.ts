@@ -5,7 +5,25 @@
 export { SposifyDatabase, getSposifyDatabase, closeSposifyDatabase } from './sposify-db';
 export { PlaylistDatabase, getPlaylistDatabase } from './playlist-db';
 export { AudioFeaturesDatabase, getAudioFeaturesDatabase } from './audio-features-db';
-export { IsrcMatcher, getIsrcMatcher, type LocalTrackInfo, type MatchResult } from './isrc-matcher';
+export {
+  IsrcMatcher,
+  getIsrcMatcher,
+  type LocalTrackInfo,
+  type MatchOptions,
+  type MatchResult,
+} from './isrc-matcher';
+export { MatchReviewDatabase, getMatchReviewDatabase, closeMatchReviewDatabase } from './match-review-db';
+export {
+  parseTitle,
+  parseTrack,
+  splitArtists,
+  normalizeText,
+  transliterate,
+  loadKanjiReadings,
+  type ParsedTitle,
+  type ParsedTrack,
+  type VersionQualifier,
+} from './track-normalizer';
 export {
   setupDatabase,
   checkDatabaseExists,
@@ -4,8 +4,33 @@
  */
 
 import Fuse from 'fuse.js';
-import type { DbTrack, TrackMatch, TrackInfo } from '../types';
+import type { DbTrack, TrackMatch, TrackInfo, MatchCandidate } from '../types';
 import { getSposifyDatabase } from './sposify-db';
+import { getMatchReviewDatabase } from './match-review-db';
+import { normalizeText, parseTrack, type ParsedTrack, type VersionQualifier } from './track-normalizer';
+
+// Confidence lost when one title has a version qualifier the other lacks;
+// live, remix and the like are different recordings
+const QUALIFIER_PENALTIES: Record<VersionQualifier, number> = {
+  remaster: 0.02,
+  edit: 0.05,
+  live: 0.3,
+  remix: 0.3,
+  acoustic: 0.3,
+  instrumental: 0.3,
+  demo: 0.3,
+  karaoke: 0.3,
+};
+const SAME_RECORDING: VersionQualifier[] = ['remaster', 'edit'];
+const FEATURE_PENALTY = 0.03; // Featured artist credited on one track only
+const MAX_PENALTY = 0.5;
+
+// Past the duration tolerance, confidence falls to MIN_DURATION_FACTOR over this range
+const DURATION_FALLOFF_MS = 30000;
+const MIN_DURATION_FACTOR = 0.8;
+
+// Candidates this close in confidence are ranked by duration instead
+const TIE_MARGIN = 0.03;
 
 export interface LocalTrackInfo {
   id: string;
@@ -16,6 +41,25 @@ export interface LocalTrackInfo {
   isrc?: string;
 }
 
+export interface MatchOptions {
+  /** Tracks come from the local library; their IDs are kept with review decisions */
+  libraryTracks?: boolean;
+}
+
+interface ScoredCandidate {
+  dbTrack: DbTrack;
+  parsed: ParsedTrack;
+  titleSimilarity: number;
+  artistSimilarity: number;
+  penalty: number;
+  /** Milliseconds between the durations; null when either is unknown */
+  durationDiff: number | null;
+  durationFactor: number;
+  /** Same base title, artist and version, within the duration tolerance */
+  exact: boolean;
+  confidence: number;
+}
+
 export interface MatchResult {
   matches: TrackMatch[];
   unmatched: string[];
@@ -25,6 +69,7 @@ export interface MatchResult {
     matchedByExact: number;
     matchedByNormalized: number;
     matchedByFuzzy: number;
+    matchedByReview: number;
     unmatched: number;
     averageConfidence: number;
   };
@@ -34,11 +79,17 @@ export class IsrcMatcher {
   private minConfidence = 0.7;
   private enableFuzzyMatching = true;
   private durationToleranceMs = 5000; // 5 second tolerance
+  private reviewThreshold = 0.85; // Matches below this go to the review queue
+  private reviewCandidateCount = 5;
 
   /**
    * Match a batch of local tracks to Spotify database
    */
-  matchTracks(tracks: LocalTrackInfo[], onProgress?: (progress: number) => void): MatchResult {
+  matchTracks(
+    tracks: LocalTrackInfo[],
+    onProgress?: (progress: number) => void,
+    options: MatchOptions = {}
+  ): MatchResult {
     const matches: TrackMatch[] = [];
     const unmatched: string[] = [];
     const stats = {
@@ -47,49 +98,132 @@ export class IsrcMatcher {
       matchedByExact: 0,
       matchedByNormalized: 0,
       matchedByFuzzy: 0,
+      matchedByReview: 0,
       unmatched: 0,
       averageConfidence: 0,
     };
 
     let totalConfidence = 0;
 
-    for (let i = 0; i < tracks.length; i++) {
-      const track = tracks[i];
-      const match = this.matchSingleTrack(track);
-
-      if (match) {
-        matches.push(match);
-        totalConfidence += match.confidence;
-
-        switch (match.matchedBy) {
-          case 'isrc':
-            stats.matchedByIsrc++;
-            break;
-          case 'exact':
-            stats.matchedByExact++;
-            break;
-          case 'normalized':
-            stats.matchedByNormalized++;
-            break;
-          case 'fuzzy':
-            stats.matchedByFuzzy++;
-            break;
+    getMatchReviewDatabase().batch(() => {
+      for (let i = 0; i < tracks.length; i++) {
+        const track = tracks[i];
+        const match = this.matchWithReview(track, options);
+
+        if (match) {
+          matches.push(match);
+          totalConfidence += match.confidence;
+
+          switch (match.matchedBy) {
+            case 'isrc':
+              stats.matchedByIsrc++;
+              break;
+            case 'exact':
+              stats.matchedByExact++;
+              break;
+            case 'normalized':
+              stats.matchedByNormalized++;
+              break;
+            case 'fuzzy':
+              stats.matchedByFuzzy++;
+              break;
+            case 'review':
+              stats.matchedByReview++;
+              break;
+          }
+        } else {
+          unmatched.push(track.id);
+          stats.unmatched++;
         }
-      } else {
-        unmatched.push(track.id);
-        stats.unmatched++;
-      }
 
-      if (onProgress) {
-        onProgress((i + 1) / tracks.length);
+        if (onProgress) {
+          onProgress((i + 1) / tracks.length);
+        }
       }
-    }
+    });
 
     stats.averageConfidence = matches.length > 0 ? totalConfidence / matches.length : 0;
 
     return { matches, unmatched, stats };
   }
 
+  /**
+   * Match a track, following the user's earlier review decision if there is
+   * one. Uncertain and failed matches are queued for review.
+   */
+  private matchWithReview(track: LocalTrackInfo, options: MatchOptions): TrackMatch | null {
+    const reviewDb = getMatchReviewDatabase();
+    if (!reviewDb.isReady()) return this.matchSingleTrack(track);
+
+    const trackKey = this.getTrackKey(track);
+    const decision = (options.libraryTracks ? reviewDb.getDecisionByLocalId(track.id) : null)
+      ?? reviewDb.getDecision(trackKey);
+
+    if (decision?.status === 'rejected') return null;
+    if (decision?.spotifyId) {
+      const linked = getSposifyDatabase().getTrackById(decision.spotifyId);
+      // A rebuilt database may no longer have the track; match afresh then
+      if (linked) return this.createMatch(track.id, linked, 1.0, 'review');
+    }
+
+    const match = this.matchSingleTrack(track);
+    if (!match || match.confidence < this.reviewThreshold) {
+      reviewDb.queue({
+        trackKey,
+        localId: options.libraryTracks ? track.id : undefined,
+        title: track.title,
+        artist: track.artist,
+        album: track.album,
+        candidates: this.getCandidates(track, this.reviewCandidateCount, match),
+      });
+    }
+
+    return match;
+  }
+
+  /**
+   * Likeliest database tracks for a track, scored whether or not they would
+   * be matched automatically
+   */
+  getCandidates(
+    track: Pick<LocalTrackInfo, 'title' | 'artist' | 'duration'>,
+    limit = this.reviewCandidateCount,
+    match: TrackMatch | null = null
+  ): MatchCandidate[] {
+    const local = parseTrack(track.title, track.artist);
+    const candidates = new Map<string, MatchCandidate>();
+
+    if (match) {
+      candidates.set(match.spotifyId, { spotifyId: match.spotifyId, confidence: match.confidence, track: match.track });
+    }
+
+    for (const dbTrack of this.findCandidates(track, local)) {
+      if (candidates.has(dbTrack.spotify_id)) continue;
+
+      candidates.set(dbTrack.spotify_id, {
+        spotifyId: dbTrack.spotify_id,
+        confidence: this.scoreCandidate(track, local, dbTrack).confidence,
+        track: this.toTrackInfo(dbTrack),
+      });
+    }
+
+    return Array.from(candidates.values())
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+
+  /**
+   * Key identifying a track across imports in the review queue. Different
+   * recordings of a song (live, remix, ...) get different keys; the credit
+   * is kept whole, less any featured artists.
+   */
+  getTrackKey(track: Pick<LocalTrackInfo, 'title' | 'artist'>): string {
+    const { base, mainArtist, qualifiers } = parseTrack(track.title, track.artist);
+    const versions = qualifiers.filter(qualifier => !SAME_RECORDING.includes(qualifier)).sort();
+    const key = `${mainArtist}:::${base}`;
+    return versions.length > 0 ? `${key}:::${versions.join(',')}` : key;
+  }
+
   /**
    * Match a single track
    */
@@ -104,48 +238,29 @@ export class IsrcMatcher {
       }
     }
 
-    // 2. Try exact title + artist match
-    const exactMatches = db.searchTracks(track.title, track.artist, 5);
-
-    for (const match of exactMatches) {
-      if (
-        this.normalizeString(match.title) === this.normalizeString(track.title) &&
-        this.normalizeString(match.artist_name) === this.normalizeString(track.artist)
-      ) {
-        // Verify duration if available
-        if (track.duration && match.duration_ms) {
-          const durationDiff = Math.abs(track.duration * 1000 - match.duration_ms);
-          if (durationDiff <= this.durationToleranceMs) {
-            return this.createMatch(track.id, match, 0.95, 'exact');
-          }
-        } else {
-          return this.createMatch(track.id, match, 0.95, 'exact');
-        }
-      }
+    const local = parseTrack(track.title, track.artist);
+    const scored = this.findCandidates(track, local).map(dbTrack => this.scoreCandidate(track, local, dbTrack));
+
+    // 2. Try exact match: same base title, main artist and version
+    const exact = this.pickBest(scored.filter(candidate => candidate.exact));
+    if (exact) {
+      return this.createMatch(track.id, exact.dbTrack, 0.95, 'exact');
     }
 
-    // 3. Try normalized match
-    for (const match of exactMatches) {
-      const titleSimilarity = this.calculateSimilarity(
-        this.normalizeString(track.title),
-        this.normalizeString(match.title)
-      );
-      const artistSimilarity = this.calculateSimilarity(
-        this.normalizeString(track.artist),
-        this.normalizeString(match.artist_name)
-      );
-
-      if (titleSimilarity >= 0.9 && artistSimilarity >= 0.8) {
-        const confidence = (titleSimilarity * 0.6 + artistSimilarity * 0.4) * 0.85;
-        if (confidence >= this.minConfidence) {
-          return this.createMatch(track.id, match, confidence, 'normalized');
-        }
-      }
+    // 3. Try normalized match; version, featured artist and duration
+    // differences lower the confidence
+    const normalized = this.pickBest(scored.filter(candidate =>
+      candidate.titleSimilarity >= 0.9 &&
+      candidate.artistSimilarity >= 0.8 &&
+      candidate.confidence >= this.minConfidence
+    ));
+    if (normalized) {
+      return this.createMatch(track.id, normalized.dbTrack, normalized.confidence, 'normalized');
     }
 
     // 4. Try fuzzy match (if enabled)
     if (this.enableFuzzyMatching) {
-      const fuzzyMatch = this.fuzzyMatch(track);
+      const fuzzyMatch = this.fuzzyMatch(track, local, scored);
       if (fuzzyMatch && fuzzyMatch.confidence >= this.minConfidence) {
         return fuzzyMatch;
       }
@@ -157,47 +272,157 @@ export class IsrcMatcher {
   /**
    * Fuzzy match using Fuse.js
    */
-  private fuzzyMatch(track: LocalTrackInfo): TrackMatch | null {
-    const db = getSposifyDatabase();
-    const searchResults = db.searchTracks(track.title, track.artist, 20);
-
-    if (searchResults.length === 0) return null;
+  private fuzzyMatch(track: LocalTrackInfo, local: ParsedTrack, scored: ScoredCandidate[]): TrackMatch | null {
+    if (scored.length === 0) return null;
 
-    // Build search index
-    const fuse = new Fuse(searchResults, {
+    // Index the parsed titles, so transliterated and versioned titles compare like for like
+    const fuse = new Fuse(scored, {
       keys: [
-        { name: 'title', weight: 0.6 },
-        { name: 'artist_name', weight: 0.4 },
+        { name: 'parsed.base', weight: 0.6 },
+        { name: 'parsed.artist', weight: 0.4 },
       ],
       threshold: 0.4,
       includeScore: true,
     });
 
-    const query = `${track.title} ${track.artist}`;
-    const results = fuse.search(query);
+    const query = `${local.base} ${local.artist}`;
+    const results = fuse.search(query).map(result => {
+      const score = 1 - (result.score || 0); // Fuse score is 0 (perfect) to 1 (worst)
+      return {
+        ...result.item,
+        // Cap fuzzy at 70%
+        confidence: Math.max(0, score * 0.7 - result.item.penalty) * result.item.durationFactor,
+      };
+    });
 
-    if (results.length === 0) return null;
+    const best = this.pickBest(results);
+    return best ? this.createMatch(track.id, best.dbTrack, best.confidence, 'fuzzy') : null;
+  }
 
-    const bestMatch = results[0];
-    const score = 1 - (bestMatch.score || 0); // Fuse score is 0 (perfect) to 1 (worst)
+  /**
+   * Database tracks worth scoring: those found by the title and artist as
+   * given, and by the base title and main artist
+   */
+  private findCandidates(track: Pick<LocalTrackInfo, 'title' | 'artist'>, local: ParsedTrack): DbTrack[] {
+    const db = getSposifyDatabase();
+    const found = new Map<string, DbTrack>();
 
-    // Additional verification with duration
-    if (track.duration && bestMatch.item.duration_ms) {
-      const durationDiff = Math.abs(track.duration * 1000 - bestMatch.item.duration_ms);
-      const durationScore = durationDiff <= this.durationToleranceMs ? 1 : 0.7;
-      const adjustedConfidence = score * durationScore * 0.7; // Cap fuzzy at 70%
+    const queries: Array<[string, string]> = [[track.title, track.artist]];
+    const mainArtist = local.artists[0] ?? local.artist;
+    if (local.base !== normalizeText(track.title) || mainArtist !== local.artist) {
+      queries.push([local.base, mainArtist]);
+    }
 
-      if (adjustedConfidence >= this.minConfidence) {
-        return this.createMatch(track.id, bestMatch.item, adjustedConfidence, 'fuzzy');
-      }
-    } else {
-      const confidence = score * 0.7;
-      if (confidence >= this.minConfidence) {
-        return this.createMatch(track.id, bestMatch.item, confidence, 'fuzzy');
+    for (const [title, artist] of queries) {
+      for (const dbTrack of db.searchTracks(title, artist, 20)) {
+        if (!found.has(dbTrack.spotify_id)) {
+          found.set(dbTrack.spotify_id, dbTrack);
+        }
       }
     }
 
-    return null;
+    return Array.from(found.values());
+  }
+
+  /**
+   * Compare a database track with a local one. The same base title and artist
+   * start from exact-match confidence; version qualifiers, featured artists
+   * and duration then lower it.
+   */
+  private scoreCandidate(
+    track: Pick<LocalTrackInfo, 'duration'>,
+    local: ParsedTrack,
+    dbTrack: DbTrack
+  ): ScoredCandidate {
+    const parsed = parseTrack(dbTrack.title, dbTrack.artist_name);
+    const titleSimilarity = this.calculateSimilarity(local.base, parsed.base);
+    const artistSimilarity = this.compareArtists(local, parsed);
+    const penalty = Math.min(MAX_PENALTY, this.versionPenalty(local, parsed));
+
+    const durationDiff = track.duration && dbTrack.duration_ms
+      ? Math.abs(track.duration * 1000 - dbTrack.duration_ms)
+      : null;
+    const durationFactor = this.durationFactor(durationDiff);
+
+    const sameSong = titleSimilarity === 1 && artistSimilarity === 1;
+    const similarity = sameSong ? 0.95 : (titleSimilarity * 0.6 + artistSimilarity * 0.4) * 0.85;
+
+    return {
+      dbTrack,
+      parsed,
+      titleSimilarity,
+      artistSimilarity,
+      penalty,
+      durationDiff,
+      durationFactor,
+      exact: sameSong && penalty === 0 && durationFactor === 1,
+      confidence: Math.max(0, similarity - penalty) * durationFactor,
+    };
+  }
+
+  /**
+   * Artist similarity: the whole credits, the main credits, or one main
+   * credit, whole, named as a collaborator on the other track. Names that
+   * contain list separators ("Earth, Wind & Fire") still list their parts as
+   * collaborators, as they can't be told from a credit of several artists.
+   */
+  private compareArtists(local: ParsedTrack, remote: ParsedTrack): number {
+    const whole = this.calculateSimilarity(local.artist, remote.artist);
+    const main = this.calculateSimilarity(local.mainArtist, remote.mainArtist);
+    const collaborator =
+      local.artists.includes(remote.mainArtist) || remote.artists.includes(local.mainArtist) ? 0.9 : 0;
+
+    return Math.max(whole, main, collaborator);
+  }
+
+  /**
+   * Confidence lost to version qualifiers and featured artists found on one
+   * track only
+   */
+  private versionPenalty(local: ParsedTrack, remote: ParsedTrack): number {
+    let penalty = 0;
+
+    for (const qualifier of local.qualifiers) {
+      if (!remote.qualifiers.includes(qualifier)) penalty += QUALIFIER_PENALTIES[qualifier];
+    }
+    for (const qualifier of remote.qualifiers) {
+      if (!local.qualifiers.includes(qualifier)) penalty += QUALIFIER_PENALTIES[qualifier];
+    }
+
+    const uncredited = (featured: string[], artists: string[]) =>
+      featured.some(artist => !artists.includes(artist));
+    if (uncredited(local.featured, remote.artists) || uncredited(remote.featured, local.artists)) {
+      penalty += FEATURE_PENALTY;
+    }
+
+    return penalty;
+  }
+
+  /**
+   * 1 within the duration tolerance, falling off beyond it; 1 when either
+   * duration is unknown
+   */
+  private durationFactor(durationDiff: number | null): number {
+    if (durationDiff === null || durationDiff <= this.durationToleranceMs) return 1;
+
+    const overshoot = (durationDiff - this.durationToleranceMs) / DURATION_FALLOFF_MS;
+    return Math.max(MIN_DURATION_FACTOR, 1 - (1 - MIN_DURATION_FACTOR) * overshoot);
+  }
+
+  /**
+   * Most confident candidate. Near-ties are usually the same song on several
+   * releases, so the closest duration decides between them.
+   */
+  private pickBest<T extends ScoredCandidate>(candidates: T[]): T | null {
+    if (candidates.length === 0) return null;
+
+    const top = Math.max(...candidates.map(candidate => candidate.confidence));
+    const ties = candidates.filter(candidate => top - candidate.confidence <= TIE_MARGIN);
+
+    ties.sort((a, b) =>
+      (a.durationDiff ?? Infinity) - (b.durationDiff ?? Infinity) || b.confidence - a.confidence
+    );
+    return ties[0];
   }
 
   /**
@@ -207,40 +432,28 @@ export class IsrcMatcher {
     localId: string,
     dbTrack: DbTrack,
     confidence: number,
-    matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy'
+    matchedBy: TrackMatch['matchedBy']
   ): TrackMatch {
     return {
       localId,
       spotifyId: dbTrack.spotify_id,
       confidence,
       matchedBy,
-      track: {
-        spotifyId: dbTrack.spotify_id,
-        title: dbTrack.title,
-        artistName: dbTrack.artist_name,
-        albumName: dbTrack.album_name,
-        durationMs: dbTrack.duration_ms,
-        isrc: dbTrack.isrc,
-        explicit: dbTrack.explicit === 1,
-        popularity: dbTrack.popularity,
-      },
+      track: this.toTrackInfo(dbTrack),
     };
   }
 
-  /**
-   * Normalize string for comparison
-   */
-  private normalizeString(str: string): string {
-    return str
-      .toLowerCase()
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
-      .replace(/[^\w\s]/g, '') // Remove special chars
-      .replace(/\s+/g, ' ') // Normalize spaces
-      .replace(/\b(feat|ft|featuring|with|vs|versus)\b/gi, '') // Remove featuring etc
-      .replace(/\([^)]*\)/g, '') // Remove parenthetical content
-      .replace(/\[[^\]]*\]/g, '') // Remove bracketed content
-      .trim();
+  private toTrackInfo(dbTrack: DbTrack): TrackInfo {
+    return {
+      spotifyId: dbTrack.spotify_id,
+      title: dbTrack.title,
+      artistName: dbTrack.artist_name,
+      albumName: dbTrack.album_name,
+      durationMs: dbTrack.duration_ms,
+      isrc: dbTrack.isrc,
+      explicit: dbTrack.explicit === 1,
+      popularity: dbTrack.popularity,
+    };
   }
 
   /**
@@ -286,6 +499,10 @@ export class IsrcMatcher {
   setDurationTolerance(ms: number): void {
     this.durationToleranceMs = ms;
   }
+
+  setReviewThreshold(value: number): void {
+    this.reviewThreshold = Math.max(0, Math.min(1, value));
+  }
 }
 
 // Singleton
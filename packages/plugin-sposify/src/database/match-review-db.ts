@@ -0,0 +1,272 @@
+/**
+ * Sposify Match Review Database
+ * Stores uncertain matches for the user to review, and their decisions
+ */
+
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import type {
+  DbMatchReview,
+  MatchCandidate,
+  MatchReviewItem,
+  MatchReviewStatus,
+} from '../types';
+
+export class MatchReviewDatabase {
+  private db: Database.Database | null = null;
+
+  /**
+   * Open (or create) the review database. It lives next to the bundled
+   * database, which is read-only and replaced on rebuild.
+   */
+  initialize(userDataPath: string): void {
+    if (this.db) return;
+
+    const dir = path.join(userDataPath, 'sposify');
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    try {
+      this.db = new Database(path.join(dir, 'match_reviews.sqlite3'));
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS match_reviews (
+          track_key TEXT PRIMARY KEY,
+          local_id TEXT,
+          title TEXT NOT NULL,
+          artist TEXT NOT NULL,
+          album TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          candidates TEXT NOT NULL DEFAULT '[]',
+          spotify_id TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_match_reviews_local_id ON match_reviews(local_id);
+        CREATE INDEX IF NOT EXISTS idx_match_reviews_status ON match_reviews(status);
+      `);
+    } catch (error) {
+      console.error('[Sposify] Failed to open match review database:', error);
+      this.db = null;
+    }
+  }
+
+  /**
+   * Check if database is ready
+   */
+  isReady(): boolean {
+    return this.db !== null;
+  }
+
+  /**
+   * Run fn in one transaction, so queueing a large import commits once
+   */
+  batch<T>(fn: () => T): T {
+    return this.db ? this.db.transaction(fn)() : fn();
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  // ============================================================================
+  // Queue
+  // ============================================================================
+
+  /**
+   * Add a track to the review queue, or refresh its candidates while it is
+   * still pending. Decided tracks are left as they are.
+   */
+  queue(item: {
+    trackKey: string;
+    localId?: string;
+    title: string;
+    artist: string;
+    album?: string;
+    candidates: MatchCandidate[];
+  }): void {
+    if (!this.db) return;
+
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO match_reviews (track_key, local_id, title, artist, album, status, candidates, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+      ON CONFLICT(track_key) DO UPDATE SET
+        local_id = COALESCE(excluded.local_id, local_id),
+        candidates = CASE WHEN status = 'pending' THEN excluded.candidates ELSE candidates END,
+        updated_at = CASE WHEN status = 'pending' THEN excluded.updated_at ELSE updated_at END
+    `).run(
+      item.trackKey,
+      item.localId ?? null,
+      item.title,
+      item.artist,
+      item.album ?? null,
+      JSON.stringify(item.candidates),
+      now,
+      now
+    );
+  }
+
+  /**
+   * List queued tracks; pending ones with the likeliest candidates first
+   */
+  list(options: { status?: MatchReviewStatus; limit?: number; offset?: number } = {}): {
+    items: MatchReviewItem[];
+    total: number;
+  } {
+    if (!this.db) return { items: [], total: 0 };
+
+    const { status = 'pending', limit = 50, offset = 0 } = options;
+
+    const countResult = this.db.prepare(`
+      SELECT COUNT(*) as total FROM match_reviews WHERE status = ?
+    `).get(status) as { total: number };
+
+    const rows = this.db.prepare(`
+      SELECT * FROM match_reviews
+      WHERE status = ?
+      ORDER BY
+        COALESCE(json_extract(candidates, '$[0].confidence'), 0) DESC,
+        updated_at DESC
+      LIMIT ? OFFSET ?
+    `).all(status, limit, offset) as DbMatchReview[];
+
+    return {
+      items: rows.map(row => this.toItem(row)),
+      total: countResult?.total || 0,
+    };
+  }
+
+  /**
+   * Number of queued tracks per status
+   */
+  getCounts(): Record<MatchReviewStatus, number> {
+    const counts: Record<MatchReviewStatus, number> = { pending: 0, accepted: 0, rejected: 0 };
+    if (!this.db) return counts;
+
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) as count FROM match_reviews GROUP BY status
+    `).all() as Array<{ status: MatchReviewStatus; count: number }>;
+
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  getItem(trackKey: string): MatchReviewItem | null {
+    if (!this.db) return null;
+    const row = this.db.prepare('SELECT * FROM match_reviews WHERE track_key = ?').get(trackKey) as DbMatchReview | undefined;
+    return row ? this.toItem(row) : null;
+  }
+
+  // ============================================================================
+  // Decisions
+  // ============================================================================
+
+  /**
+   * Accept a match; the top candidate unless another is given
+   */
+  accept(trackKey: string, spotifyId?: string): MatchReviewItem | null {
+    const item = this.getItem(trackKey);
+    const chosen = spotifyId ?? item?.candidates[0]?.spotifyId;
+    if (!item || !chosen) return null;
+
+    return this.decide(trackKey, 'accepted', chosen);
+  }
+
+  /**
+   * Mark a track as having no match, so it is not matched automatically again
+   */
+  reject(trackKey: string): MatchReviewItem | null {
+    return this.decide(trackKey, 'rejected', null);
+  }
+
+  /**
+   * Link a track to one the user found by searching
+   */
+  link(trackKey: string, spotifyId: string): MatchReviewItem | null {
+    return this.decide(trackKey, 'accepted', spotifyId);
+  }
+
+  /**
+   * Undo a decision, putting the track back in the queue
+   */
+  reopen(trackKey: string): MatchReviewItem | null {
+    return this.decide(trackKey, 'pending', null);
+  }
+
+  /**
+   * Decision for a track, by key; null while undecided
+   */
+  getDecision(trackKey: string): MatchReviewItem | null {
+    const item = this.getItem(trackKey);
+    return item && item.status !== 'pending' ? item : null;
+  }
+
+  /**
+   * Decision for a library track, by its ID; null while undecided
+   */
+  getDecisionByLocalId(localId: string): MatchReviewItem | null {
+    if (!this.db) return null;
+
+    const row = this.db.prepare(`
+      SELECT * FROM match_reviews
+      WHERE local_id = ? AND status != 'pending'
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `).get(localId) as DbMatchReview | undefined;
+
+    return row ? this.toItem(row) : null;
+  }
+
+  private decide(trackKey: string, status: MatchReviewStatus, spotifyId: string | null): MatchReviewItem | null {
+    if (!this.db) return null;
+
+    const result = this.db.prepare(`
+      UPDATE match_reviews SET status = ?, spotify_id = ?, updated_at = ? WHERE track_key = ?
+    `).run(status, spotifyId, Date.now(), trackKey);
+
+    return result.changes > 0 ? this.getItem(trackKey) : null;
+  }
+
+  private toItem(row: DbMatchReview): MatchReviewItem {
+    return {
+      trackKey: row.track_key,
+      localId: row.local_id,
+      title: row.title,
+      artist: row.artist,
+      album: row.album,
+      status: row.status,
+      candidates: JSON.parse(row.candidates) as MatchCandidate[],
+      spotifyId: row.spotify_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// Singleton
+let instance: MatchReviewDatabase | null = null;
+
+export function getMatchReviewDatabase(): MatchReviewDatabase {
+  if (!instance) {
+    instance = new MatchReviewDatabase();
+  }
+  return instance;
+}
+
+export function closeMatchReviewDatabase(): void {
+  if (instance) {
+    instance.close();
+    instance = null;
+  }
+}
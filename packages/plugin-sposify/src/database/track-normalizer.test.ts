@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { loadKanjiReadings, normalizeText, parseTitle, parseTrack, splitArtists, transliterate } from './track-normalizer';
+
+describe('parseTitle', () => {
+  it('separates featured artists and version qualifiers', () => {
+    expect(parseTitle('Song (feat. X & Y) - 2011 Remaster')).toEqual({
+      base: 'song',
+      featured: ['x', 'y'],
+      qualifiers: ['remaster'],
+    });
+  });
+
+  it('reads versions from brackets and dash suffixes', () => {
+    expect(parseTitle('Song [Live at Wembley]').qualifiers).toEqual(['live']);
+    expect(parseTitle('Song - Radio Edit').qualifiers).toEqual(['edit']);
+    expect(parseTitle('Song - Artist Remix').qualifiers).toEqual(['remix']);
+  });
+
+  it('drops segments that say nothing about the recording', () => {
+    expect(parseTitle('Let It Go - From "Frozen"')).toEqual({ base: 'let it go', featured: [], qualifiers: [] });
+    expect(parseTitle('Song - Original Mix').qualifiers).toEqual([]);
+  });
+
+  it('keeps a leading bracket and unrecognised suffixes as part of the name', () => {
+    expect(parseTitle("(Don't Fear) The Reaper").base).toBe('dont fear the reaper');
+    expect(parseTitle('Bohemian Rhapsody - A Night at the Opera').base).toBe('bohemian rhapsody a night at the opera');
+  });
+
+  it('reads inline features', () => {
+    expect(parseTitle('Song ft. Somebody')).toEqual({ base: 'song', featured: ['somebody'], qualifiers: [] });
+  });
+});
+
+describe('splitArtists', () => {
+  it('splits on separators but keeps "and" and "with" in names', () => {
+    expect(splitArtists('Florence and the Machine')).toEqual(['florence and the machine']);
+    expect(splitArtists('Sleeping With Sirens, Kellin Quinn')).toEqual(['sleeping with sirens', 'kellin quinn']);
+    expect(splitArtists('A & B x C')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('splits featured artists on "and" and "with" too', () => {
+    expect(splitArtists('A feat. B and C')).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('parseTrack', () => {
+  it('adds artists featured in the title to the credit', () => {
+    const parsed = parseTrack('Song (feat. C)', 'A & B');
+    expect(parsed.artists).toEqual(['a', 'b', 'c']);
+    expect(parsed.artist).toBe('a and b');
+  });
+
+  it('keys the main artist on the whole credit before a feature clause', () => {
+    expect(parseTrack('Dog Days', 'Florence and the Machine feat. X').mainArtist).toBe('florence and the machine');
+    expect(parseTrack('Song', 'A & B').mainArtist).toBe('a and b');
+  });
+});
+
+describe('transliteration', () => {
+  it('normalizes case, diacritics and punctuation', () => {
+    expect(normalizeText("Beyoncé - Don't Stop!")).toBe('beyonce dont stop');
+  });
+
+  it('romanizes Cyrillic, Greek, kana and Hangul', () => {
+    expect(transliterate('Кино')).toBe('kino');
+    expect(transliterate('Άλφα')).toBe('alfa');
+    expect(transliterate('さくら')).toBe('sakura');
+    expect(transliterate('キャッチー')).toBe('kyatchi');
+    expect(transliterate('강남')).toBe('gangnam');
+  });
+
+  it('romanizes kanji once the reading dictionary has loaded', async () => {
+    expect(await loadKanjiReadings()).toBe(true);
+    expect(transliterate('東京')).toBe('tokyo');
+    expect(normalizeText('千本桜')).toBe('senbonsakura');
+  });
+});
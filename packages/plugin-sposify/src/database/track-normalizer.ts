@@ -0,0 +1,338 @@
+/**
+ * Sposify Track Normalizer
+ * Splits titles and artist credits into comparable parts (base title, featured
+ * artists, version qualifiers) and transliterates non-Latin scripts.
+ *
+ * Kanji are romanized by their reading in the kuromoji (IPADIC) dictionary,
+ * once loadKanjiReadings() has loaded it. Chinese titles get no reading and
+ * only match titles written in the same characters.
+ */
+
+import * as path from 'path';
+import * as kuromoji from 'kuromoji';
+
+/**
+ * Version markers found in titles. remaster and edit are the same recording;
+ * the rest are different recordings of the song.
+ */
+export type VersionQualifier =
+  | 'remaster'
+  | 'edit'
+  | 'live'
+  | 'remix'
+  | 'acoustic'
+  | 'instrumental'
+  | 'demo'
+  | 'karaoke';
+
+export interface ParsedTitle {
+  /** Normalized title without featured artists or version qualifiers */
+  base: string;
+  /** Normalized featured artists named in the title */
+  featured: string[];
+  qualifiers: VersionQualifier[];
+}
+
+export interface ParsedTrack extends ParsedTitle {
+  /** Normalized artist credit as a whole */
+  artist: string;
+  /** Normalized credit before any feature clause, kept whole ("florence and the machine") */
+  mainArtist: string;
+  /** Normalized artists credited, main artists first */
+  artists: string[];
+}
+
+const QUALIFIER_PATTERNS: Array<[VersionQualifier, RegExp]> = [
+  ['remaster', /\bremaster|\banniversary\b|\bdeluxe\b/],
+  ['edit', /\bedit\b|\b(radio|single) version\b/],
+  ['live', /\blive\b/],
+  ['remix', /\b(re)?mix\b|\brmx\b|\bdub\b|\bbootleg\b/],
+  ['acoustic', /\bacoustic\b|\bunplugged\b/],
+  ['instrumental', /\binstrumental\b/],
+  ['demo', /\bdemo\b/],
+  ['karaoke', /\bkaraoke\b/],
+];
+
+// Segments that say nothing about the recording, e.g. "Song - From "Frozen""
+const NOISE_PATTERN = /^(from\b|original (mix|version)$|album version$|explicit$|clean$|bonus track)/;
+
+const FEATURE_PATTERN = /^(?:feat\.?|ft\.?|featuring|with)\s+(.+)$/i;
+const INLINE_FEATURE_PATTERN = /\s+(?:feat\.?|ft\.?|featuring)\s+(.+)$/i;
+const BRACKET_PATTERN = /[([]([^)\]]*)[)\]]/g;
+const DASH_PATTERN = /\s+[-–—]\s+/;
+const CREDIT_FEATURE_PATTERN = /\s*\b(?:feat\.?|ft\.?|featuring)\s+/i;
+// "and" and "with" are part of too many names ("Florence and the Machine",
+// "Sleeping With Sirens") to separate artists outside a feature clause
+const ARTIST_SEPARATOR = /\s*(?:,|;|\/|&|\+|\s+x\s+|\bvs\.?|\bversus\b)\s*/i;
+const FEATURED_SEPARATOR = /\s*(?:,|;|\/|&|\+|\s+x\s+|\band\b|\bwith\b|\bvs\.?|\bversus\b)\s*/i;
+
+/**
+ * Parse a title into its base title, featured artists and version qualifiers,
+ * e.g. "Song (feat. X) - 2011 Remaster" into "song", ["x"], ["remaster"]
+ */
+export function parseTitle(title: string): ParsedTitle {
+  const featured: string[] = [];
+  const qualifiers = new Set<VersionQualifier>();
+
+  const consume = (segment: string): boolean => {
+    const feature = segment.trim().match(FEATURE_PATTERN);
+    if (feature) {
+      featured.push(...splitFeatured(feature[1]));
+      return true;
+    }
+
+    const text = normalizeText(segment);
+    if (NOISE_PATTERN.test(text)) return true;
+
+    let matched = false;
+    for (const [qualifier, pattern] of QUALIFIER_PATTERNS) {
+      if (pattern.test(text)) {
+        qualifiers.add(qualifier);
+        matched = true;
+      }
+    }
+    return matched;
+  };
+
+  // Bracketed segments; a leading one is part of the name, as in "(Don't Fear) The Reaper"
+  let rest = title.trim().replace(BRACKET_PATTERN, (group, content: string, offset: number) => {
+    if (offset === 0) return group;
+    consume(content);
+    return ' ';
+  });
+
+  // Dash suffixes, as Spotify writes versions: "Song - Live at Wembley"
+  const [head, ...suffixes] = rest.split(DASH_PATTERN);
+  rest = [head, ...suffixes.filter(suffix => !consume(suffix))].join(' ');
+
+  const inline = rest.match(INLINE_FEATURE_PATTERN);
+  if (inline) {
+    featured.push(...splitFeatured(inline[1]));
+    rest = rest.slice(0, inline.index);
+  }
+
+  return {
+    base: normalizeText(rest) || normalizeText(title),
+    featured,
+    qualifiers: Array.from(qualifiers),
+  };
+}
+
+/**
+ * Split an artist credit such as "A & B feat. C and D" into normalized
+ * artists. "and" and "with" only separate the featured artists.
+ */
+export function splitArtists(credit: string): string[] {
+  const [main, ...features] = credit.split(CREDIT_FEATURE_PATTERN);
+  return [...splitOn(main, ARTIST_SEPARATOR), ...features.flatMap(splitFeatured)];
+}
+
+/**
+ * Parse a track's title and artist credit; featured artists in the title
+ * count as credited artists
+ */
+export function parseTrack(title: string, artist: string): ParsedTrack {
+  const parsed = parseTitle(title);
+  const artists = splitArtists(artist);
+
+  for (const featured of parsed.featured) {
+    if (!artists.includes(featured)) artists.push(featured);
+  }
+
+  const mainArtist = normalizeText(artist.split(CREDIT_FEATURE_PATTERN)[0]);
+  return { ...parsed, artist: normalizeText(artist), mainArtist: mainArtist || normalizeText(artist), artists };
+}
+
+function splitFeatured(clause: string): string[] {
+  return splitOn(clause, FEATURED_SEPARATOR);
+}
+
+function splitOn(credit: string, separator: RegExp): string[] {
+  return credit
+    .split(separator)
+    .map(artist => normalizeText(artist))
+    .filter(artist => artist.length > 0);
+}
+
+/**
+ * Lowercase Latin text without diacritics or punctuation
+ */
+export function normalizeText(text: string): string {
+  return transliterate(text)
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '') // Remove diacritics
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '') // "Don't" and "Dont" are the same word
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// Transliteration
+// ============================================================================
+
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i',
+  й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't',
+  у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '',
+  э: 'e', ю: 'yu', я: 'ya', і: 'i', ї: 'yi', є: 'ye', ґ: 'g', ў: 'u', ђ: 'dj', ј: 'j',
+  љ: 'lj', њ: 'nj', ћ: 'c', џ: 'dz',
+};
+
+const GREEK: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k',
+  λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't',
+  υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+const HAN = /\p{Script=Han}/u;
+
+let kanjiReader: kuromoji.Tokenizer<kuromoji.IpadicFeatures> | null = null;
+let kanjiReaderLoading: Promise<boolean> | null = null;
+
+/**
+ * Load the dictionary kanji are read with. Until it has loaded, or if it
+ * fails to, kanji are left as they are.
+ * @returns Whether kanji can be romanized
+ */
+export function loadKanjiReadings(): Promise<boolean> {
+  kanjiReaderLoading ??= new Promise(resolve => {
+    const dicPath = path.join(path.dirname(require.resolve('kuromoji/package.json')), 'dict');
+    kuromoji.builder({ dicPath }).build((error, tokenizer) => {
+      if (error) {
+        console.warn('[TrackNormalizer] Failed to load kanji readings:', error);
+        kanjiReaderLoading = null;
+        resolve(false);
+        return;
+      }
+      kanjiReader = tokenizer;
+      resolve(true);
+    });
+  });
+  return kanjiReaderLoading;
+}
+
+// Hepburn romanization of hiragana; katakana is mapped onto hiragana first
+const KANA: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko', が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so', ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to', だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho', ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo', や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro', わ: 'wa', ゐ: 'i', ゑ: 'e', を: 'o', ん: 'n', ゔ: 'vu',
+};
+
+// Small ya/yu/yo join the syllable before: き + ゃ is "kya"
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+// Small vowels replace the vowel before: フ + ァ is "fa"
+const SMALL_VOWELS: Record<string, string> = { ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o' };
+
+const SOKUON = 'っ';
+const LONG_VOWEL_MARK = 'ー';
+
+const HANGUL_FIRST = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+// Revised Romanization of Hangul syllable parts
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_MEDIALS = [
+  'a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae',
+  'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i',
+];
+const HANGUL_FINALS = [
+  '', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l',
+  'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't',
+];
+
+/**
+ * Write Cyrillic, Greek, Japanese kana and kanji, and Korean Hangul in Latin
+ * letters, so titles compare with their romanized spellings. Kanji need
+ * loadKanjiReadings(); other scripts are left as they are.
+ */
+export function transliterate(text: string): string {
+  let result = '';
+  let afterKana = false;
+  let doubleNext = false;
+
+  for (const char of readKanji(text).normalize('NFKC').toLowerCase()) {
+    const kana = toHiragana(char);
+
+    if (kana === SOKUON) {
+      doubleNext = true;
+      continue;
+    }
+    if (kana === LONG_VOWEL_MARK && afterKana) continue;
+
+    if (afterKana && SMALL_Y[kana] && result.endsWith('i')) {
+      const stem = result.slice(0, -1);
+      result = (/(sh|ch|j)$/.test(stem) ? stem : `${stem}y`) + SMALL_Y[kana];
+      continue;
+    }
+    if (afterKana && SMALL_VOWELS[kana] && /[aiueo]$/.test(result)) {
+      result = result.slice(0, -1) + SMALL_VOWELS[kana];
+      continue;
+    }
+
+    const romaji = KANA[kana] ?? (SMALL_Y[kana] ? `y${SMALL_Y[kana]}` : SMALL_VOWELS[kana]);
+    if (romaji !== undefined) {
+      result += doubleNext ? (romaji.startsWith('ch') ? 't' : romaji[0]) + romaji : romaji;
+      afterKana = true;
+      doubleNext = false;
+      continue;
+    }
+
+    afterKana = false;
+    doubleNext = false;
+    result += transliterateChar(char);
+  }
+
+  return result;
+}
+
+/**
+ * Replace words written with kanji by their pronunciation in katakana, which
+ * writes long vowels as romanized titles do: 東京 is トーキョー, "tokyo"
+ */
+function readKanji(text: string): string {
+  if (!kanjiReader || !HAN.test(text)) return text;
+
+  return kanjiReader
+    .tokenize(text)
+    .map(token => {
+      const reading = token.pronunciation ?? token.reading;
+      return HAN.test(token.surface_form) && reading && reading !== '*' ? reading : token.surface_form;
+    })
+    .join('');
+}
+
+function transliterateChar(char: string): string {
+  const code = char.codePointAt(0)!;
+  if (code >= HANGUL_FIRST && code <= HANGUL_LAST) {
+    const index = code - HANGUL_FIRST;
+    return HANGUL_INITIALS[Math.floor(index / 588)] +
+      HANGUL_MEDIALS[Math.floor((index % 588) / 28)] +
+      HANGUL_FINALS[index % 28];
+  }
+
+  const mapped = CYRILLIC[char] ?? GREEK[char];
+  if (mapped !== undefined) return mapped;
+
+  // Accented letters such as Greek ά: transliterate the base letter
+  const [base] = char.normalize('NFD');
+  if (base !== char) {
+    const mappedBase = CYRILLIC[base] ?? GREEK[base];
+    if (mappedBase !== undefined) return mappedBase;
+  }
+
+  return char;
+}
+
+function toHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  // Katakana block, offset from hiragana by 0x60
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+}
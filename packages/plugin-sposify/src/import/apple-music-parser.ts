@@ -0,0 +1,119 @@
+/**
+ * Apple Music Play Activity Parser
+ * Parses "Apple Music Play Activity.csv" from an Apple privacy data request
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  AppleMusicPlayActivityRow,
+  NormalizedHistoryEntry,
+  ParseError,
+} from '../types';
+import { buildHistoryResult, type HistoryParseResult } from './history-parser';
+import { parseCsvRecords } from './csv';
+
+// End reasons meaning the listener moved on
+const SKIP_END_REASONS = new Set([
+  'TRACK_SKIPPED_FORWARDS',
+  'TRACK_SKIPPED_BACKWARDS',
+  'MANUALLY_SELECTED_PLAYBACK_OF_A_DIFF_ITEM',
+]);
+
+export class AppleMusicParser {
+  /**
+   * Parse a single play activity file
+   */
+  parseFile(filePath: string): { entries: NormalizedHistoryEntry[]; errors: ParseError[] } {
+    const file = path.basename(filePath);
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+      const [first, ...records] = parseCsvRecords(content);
+      const header = (first?.cells ?? []).map(cell => cell.trim());
+
+      if (!header.includes('Song Name') && !header.includes('Content Name')) {
+        errors.push({ file, error: 'Not an Apple Music play activity file' });
+        return { entries, errors };
+      }
+
+      let withoutArtist = 0;
+      for (const { cells, line } of records) {
+        const row: AppleMusicPlayActivityRow = {};
+        header.forEach((name, column) => {
+          (row as Record<string, string>)[name] = cells[column];
+        });
+
+        // Play start events are followed by an end event carrying the play time
+        if (row['Event Type'] && row['Event Type'] !== 'PLAY_END') continue;
+        if (row['Media Type'] === 'VIDEO') continue;
+
+        const trackName = row['Song Name'] || row['Content Name'];
+        const artistName = row['Artist Name'] || row['Container Artist Name'];
+        const endTime = row['Event End Timestamp'] || row['Event Start Timestamp'];
+        if (!trackName || !endTime) continue;
+        if (!artistName) {
+          // Newer exports leave out the artist for some plays; they cannot be matched
+          withoutArtist++;
+          continue;
+        }
+
+        const time = Date.parse(endTime);
+        if (!Number.isFinite(time)) {
+          errors.push({ file, error: `Invalid play time "${endTime}"`, line });
+          continue;
+        }
+
+        const msPlayed = Number(row['Play Duration Milliseconds']) || 0;
+        entries.push({
+          trackName,
+          artistName,
+          albumName: row['Album Name'] || row['Container Album Name'] || undefined,
+          endTime: new Date(time).toISOString(),
+          msPlayed,
+          skipped: SKIP_END_REASONS.has(row['End Reason Type'] ?? '') || msPlayed < 30000,
+          source: 'applemusic',
+        });
+      }
+
+      if (withoutArtist > 0) {
+        errors.push({ file, error: `${withoutArtist} plays without an artist name were skipped` });
+      }
+    } catch (error) {
+      errors.push({
+        file,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return { entries, errors };
+  }
+
+  /**
+   * Parse play activity files from file paths
+   */
+  parseFiles(filePaths: string[]): HistoryParseResult {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+
+    for (const filePath of filePaths) {
+      const result = this.parseFile(filePath);
+      entries.push(...result.entries);
+      errors.push(...result.errors);
+    }
+
+    return buildHistoryResult(entries, errors);
+  }
+}
+
+// Singleton
+let instance: AppleMusicParser | null = null;
+
+export function getAppleMusicParser(): AppleMusicParser {
+  if (!instance) {
+    instance = new AppleMusicParser();
+  }
+  return instance;
+}
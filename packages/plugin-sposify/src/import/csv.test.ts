@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsvRecords } from './csv';
+
+describe('parseCsvRecords', () => {
+  it('splits records and cells', () => {
+    expect(parseCsvRecords('a,b,c\n1,2,3\n')).toEqual([
+      { cells: ['a', 'b', 'c'], line: 1 },
+      { cells: ['1', '2', '3'], line: 2 },
+    ]);
+  });
+
+  it('reads quoted commas and escaped quotes', () => {
+    expect(parseCsvRecords('"Hello, World","Say ""hi"""')[0].cells).toEqual(['Hello, World', 'Say "hi"']);
+  });
+
+  it('keeps line breaks inside quotes and reports the line a record starts on', () => {
+    const records = parseCsvRecords('title,artist\n"Line one\nLine two",Artist\nNext,Band');
+
+    expect(records).toEqual([
+      { cells: ['title', 'artist'], line: 1 },
+      { cells: ['Line one\nLine two', 'Artist'], line: 2 },
+      { cells: ['Next', 'Band'], line: 4 },
+    ]);
+  });
+
+  it('accepts CRLF line endings and skips blank lines', () => {
+    expect(parseCsvRecords('a,b\r\n\r\n   \r\nc,d\r\n')).toEqual([
+      { cells: ['a', 'b'], line: 1 },
+      { cells: ['c', 'd'], line: 4 },
+    ]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsvRecords('a,,c\n,')[0].cells).toEqual(['a', '', 'c']);
+    expect(parseCsvRecords('a,,c\n,')[1].cells).toEqual(['', '']);
+  });
+
+  it('reads a last record without a trailing newline', () => {
+    expect(parseCsvRecords('a,b\nc,d')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Sposify CSV Helpers
+ * Minimal CSV reading for history exports
+ */
+
+export interface CsvRecord {
+  cells: string[];
+  /** 1-based line the record starts on */
+  line: number;
+}
+
+/**
+ * Split CSV text into records, honouring quoted fields, which may contain
+ * commas, escaped quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsvRecords(content: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim()) {
+      records.push({ cells, line: start });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) endRecord();
+
+  return records;
+}
@@ -0,0 +1,147 @@
+/**
+ * Sposify Export Detector
+ * Works out which service produced each file in a dropped folder, file selection or Spotify zip
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DetectedExport, HistorySource } from '../types';
+import { ZipArchive, archiveEntryPath, isZipFile } from './zip-reader';
+
+// Bytes read from the start of a file to recognise its format
+const SNIFF_BYTES = 4096;
+
+// Takeout and privacy exports nest their files a few folders deep
+const MAX_DEPTH = 4;
+
+// Spotify export files: library, playlists and both history formats
+const SPOTIFY_DATA_FILES = /^(yourlibrary|playlist\d*|streaminghistory|endsong|streaming_history)/;
+
+/**
+ * Detect the export type of each file, walking into folders
+ */
+export function detectExport(paths: string[]): DetectedExport {
+  const files: Partial<Record<HistorySource, string[]>> = {};
+  const unrecognized: string[] = [];
+
+  for (const filePath of collectFiles(paths)) {
+    if (isZipFile(filePath)) {
+      detectArchive(filePath, files, unrecognized);
+      continue;
+    }
+
+    const source = detectFile(filePath);
+    if (source) {
+      (files[source] ??= []).push(filePath);
+    } else {
+      unrecognized.push(filePath);
+    }
+  }
+
+  return {
+    sources: Object.keys(files) as HistorySource[],
+    files,
+    unrecognized,
+  };
+}
+
+/**
+ * Which service produced a file, or null when it is not an export we read
+ */
+export function detectFile(filePath: string): HistorySource | null {
+  const name = path.basename(filePath).toLowerCase();
+  const ext = path.extname(name);
+  if (ext !== '.json' && ext !== '.jsonl' && ext !== '.csv') return null;
+
+  const byName = detectName(name);
+  if (byName) return byName;
+
+  const head = readHead(filePath);
+  if (ext === '.csv') {
+    if (head.includes('Play Duration Milliseconds')) return 'applemusic';
+    return 'lastfm';
+  }
+  if (head.includes('"listened_at"')) return 'listenbrainz';
+  if (head.includes('"recenttracks"') || head.includes('"scrobbles"')) return 'lastfm';
+  if (head.includes('"header"') && head.includes('"titleUrl"')) return 'youtube';
+  if (head.includes('"ms_played"') || head.includes('"msPlayed"')) return 'spotify';
+
+  return null;
+}
+
+/**
+ * Spotify export files inside a zip archive, as archive entry paths.
+ * Only the Spotify export is read from archives.
+ */
+function detectArchive(
+  archivePath: string,
+  files: Partial<Record<HistorySource, string[]>>,
+  unrecognized: string[]
+): void {
+  let archive: ZipArchive;
+  try {
+    archive = new ZipArchive(archivePath);
+  } catch {
+    unrecognized.push(archivePath);
+    return;
+  }
+
+  for (const entry of archive.entries) {
+    const entryPath = archiveEntryPath(archivePath, entry.name);
+    const name = path.basename(entry.name).toLowerCase();
+
+    if (path.extname(name) === '.json' && detectName(name) === 'spotify') {
+      (files.spotify ??= []).push(entryPath);
+    } else {
+      unrecognized.push(entryPath);
+    }
+  }
+}
+
+function detectName(name: string): HistorySource | null {
+  if (name.includes('play activity') || name.includes('play_activity')) return 'applemusic';
+  if (name === 'watch-history.json') return 'youtube';
+  if (/last\.?fm|scrobble/.test(name)) return 'lastfm';
+  if (/listenbrainz|^listens/.test(name)) return 'listenbrainz';
+  if (SPOTIFY_DATA_FILES.test(name)) return 'spotify';
+  return null;
+}
+
+function collectFiles(paths: string[], depth = 0): string[] {
+  const files: string[] = [];
+
+  for (const entryPath of paths) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(entryPath);
+    } catch {
+      continue;
+    }
+
+    if (stat.isDirectory()) {
+      if (depth >= MAX_DEPTH) continue;
+      const children = fs.readdirSync(entryPath)
+        .filter(child => !child.startsWith('.'))
+        .map(child => path.join(entryPath, child));
+      files.push(...collectFiles(children, depth + 1));
+    } else if (stat.isFile()) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+function readHead(filePath: string): string {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const bytes = fs.readSync(fd, buffer, 0, SNIFF_BYTES, 0);
+    return buffer.toString('utf-8', 0, bytes);
+  } catch {
+    return '';
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Sposify History Merge
+ * Combines listening history from several services without counting a play twice
+ */
+
+import type { NormalizedHistoryEntry } from '../types';
+
+// A scrobble this close to a play of the same track is the same play
+export const OVERLAP_SLACK_MS = 5 * 60 * 1000;
+
+/**
+ * Add scrobbled history (Last.fm, ListenBrainz) to history from other
+ * sources, dropping scrobbles of plays the history already has (same
+ * track, within a few minutes of the play)
+ */
+export function mergeHistory(
+  history: NormalizedHistoryEntry[],
+  scrobbles: NormalizedHistoryEntry[]
+): { entries: NormalizedHistoryEntry[]; duplicates: number } {
+  // Plays long enough to have been scrobbled, by track
+  const plays = new Map<string, Array<{ start: number; end: number; used: boolean }>>();
+  for (const entry of history) {
+    if (entry.skipped) continue;
+
+    const end = new Date(entry.endTime).getTime();
+    if (!Number.isFinite(end)) continue;
+
+    const key = historyKey(entry);
+    const list = plays.get(key) ?? [];
+    list.push({ start: end - entry.msPlayed, end, used: false });
+    plays.set(key, list);
+  }
+
+  const merged = [...history];
+  let duplicates = 0;
+
+  for (const scrobble of scrobbles) {
+    const time = new Date(scrobble.endTime).getTime();
+    const candidates = plays.get(historyKey(scrobble));
+
+    // Each play absorbs at most one scrobble, the closest
+    let best: { start: number; end: number; used: boolean } | null = null;
+    for (const play of candidates ?? []) {
+      if (play.used || time < play.start - OVERLAP_SLACK_MS || time > play.end + OVERLAP_SLACK_MS) continue;
+      if (!best || Math.abs(time - play.start) < Math.abs(time - best.start)) best = play;
+    }
+
+    if (best) {
+      best.used = true;
+      duplicates++;
+    } else {
+      merged.push(scrobble);
+    }
+  }
+
+  return { entries: merged, duplicates };
+}
+
+/**
+ * Key of an entry's track, loose enough to compare services that spell
+ * titles differently
+ */
+export function historyKey(entry: { artistName: string; trackName: string }): string {
+  return `${normalizeName(entry.artistName)}:::${normalizeName(entry.trackName)}`;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s*[([].*?[)\]]/g, '')
+    .replace(/\s+-\s+.*(remaster|version|edit|mix|live).*$/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
@@ -5,12 +5,26 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import type { Readable } from 'stream';
 import type {
   SpotifyStreamingHistoryEntry,
   SpotifyExtendedStreamingHistory,
   NormalizedHistoryEntry,
   ParseError,
 } from '../types';
+import { JsonArrayStream } from './json-stream';
+
+// Bytes read between progress reports when streaming
+const PROGRESS_INTERVAL_BYTES = 1024 * 1024;
+
+// A history file to stream, on disk or inside an export archive
+export interface HistoryInput {
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  open: () => Readable;
+}
 
 export interface HistoryParseResult {
   entries: NormalizedHistoryEntry[];
@@ -110,21 +124,9 @@ export class HistoryParser {
         return { entries, errors };
       }
 
-      for (let i = 0; i < data.length; i++) {
-        const item = data[i];
-
-        if (!item.trackName || !item.artistName) {
-          // Skip podcast episodes or invalid entries
-          continue;
-        }
-
-        entries.push({
-          trackName: item.trackName,
-          artistName: item.artistName,
-          endTime: this.normalizeDate(item.endTime),
-          msPlayed: item.msPlayed || 0,
-          skipped: (item.msPlayed || 0) < 30000, // Less than 30 seconds
-        });
+      for (const item of data) {
+        const entry = this.normalizeStreamingEntry(item);
+        if (entry) entries.push(entry);
       }
     } catch (error) {
       errors.push({
@@ -156,24 +158,8 @@ export class HistoryParser {
       }
 
       for (const item of data) {
-        // Skip podcast episodes
-        if (item.episode_name || item.spotify_episode_uri) {
-          continue;
-        }
-
-        if (!item.master_metadata_track_name || !item.master_metadata_album_artist_name) {
-          continue;
-        }
-
-        entries.push({
-          trackName: item.master_metadata_track_name,
-          artistName: item.master_metadata_album_artist_name,
-          albumName: item.master_metadata_album_album_name || undefined,
-          endTime: item.ts,
-          msPlayed: item.ms_played || 0,
-          spotifyUri: item.spotify_track_uri || undefined,
-          skipped: item.skipped === true || (item.ms_played || 0) < 30000,
-        });
+        const entry = this.normalizeExtendedEntry(item);
+        if (entry) entries.push(entry);
       }
     } catch (error) {
       errors.push({
@@ -204,33 +190,100 @@ export class HistoryParser {
       }
     }
 
-    // Calculate stats
-    const seenTracks = new Set<string>();
-    let totalPlaytimeMs = 0;
-    let skippedCount = 0;
-    let minDate: string | null = null;
-    let maxDate: string | null = null;
+    return buildHistoryResult(allEntries, allErrors);
+  }
 
-    for (const entry of allEntries) {
-      seenTracks.add(`${entry.artistName}:::${entry.trackName}`);
-      totalPlaytimeMs += entry.msPlayed;
-      if (entry.skipped) skippedCount++;
-      if (!minDate || entry.endTime < minDate) minDate = entry.endTime;
-      if (!maxDate || entry.endTime > maxDate) maxDate = entry.endTime;
+  /**
+   * Read history files entry by entry, without holding any file in memory.
+   * Either history format is accepted, told apart per entry.
+   */
+  async streamFiles(
+    inputs: HistoryInput[],
+    onEntry: (entry: NormalizedHistoryEntry) => void,
+    onProgress?: (bytesRead: number, totalBytes: number) => void
+  ): Promise<ParseError[]> {
+    const errors: ParseError[] = [];
+    const totalBytes = inputs.reduce((sum, input) => sum + input.size, 0);
+    let bytesRead = 0;
+    let reportedBytes = 0;
+
+    for (const input of inputs) {
+      const reader = new JsonArrayStream((item) => {
+        if (!item || typeof item !== 'object') return;
+
+        const entry = 'ts' in item
+          ? this.normalizeExtendedEntry(item as SpotifyExtendedStreamingHistory)
+          : this.normalizeStreamingEntry(item as SpotifyStreamingHistoryEntry);
+        if (entry) onEntry(entry);
+      });
+      const decoder = new StringDecoder('utf8');
+      const fileStart = bytesRead;
+
+      try {
+        for await (const chunk of input.open()) {
+          const buffer = chunk as Buffer;
+          reader.write(decoder.write(buffer));
+
+          bytesRead += buffer.length;
+          if (bytesRead - reportedBytes >= PROGRESS_INTERVAL_BYTES) {
+            reportedBytes = bytesRead;
+            onProgress?.(bytesRead, totalBytes);
+          }
+        }
+        reader.write(decoder.end());
+        reader.end();
+
+        if (reader.invalidItems > 0) {
+          errors.push({ file: input.name, error: `${reader.invalidItems} invalid entries were skipped` });
+        }
+      } catch (error) {
+        errors.push({
+          file: input.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      // A file that failed part way still counts as read
+      bytesRead = fileStart + input.size;
+      reportedBytes = bytesRead;
+      onProgress?.(bytesRead, totalBytes);
     }
 
-    allEntries.sort((a, b) => a.endTime.localeCompare(b.endTime));
+    return errors;
+  }
+
+  /**
+   * Entry from StreamingHistory*.json; null for podcasts and invalid entries
+   */
+  private normalizeStreamingEntry(item: SpotifyStreamingHistoryEntry): NormalizedHistoryEntry | null {
+    if (!item.trackName || !item.artistName) return null;
 
     return {
-      entries: allEntries,
-      errors: allErrors,
-      stats: {
-        totalEntries: allEntries.length,
-        uniqueTracks: seenTracks.size,
-        totalPlaytimeMs,
-        dateRange: minDate && maxDate ? { start: minDate, end: maxDate } : null,
-        skippedCount,
-      },
+      trackName: item.trackName,
+      artistName: item.artistName,
+      endTime: this.normalizeDate(item.endTime),
+      msPlayed: item.msPlayed || 0,
+      skipped: (item.msPlayed || 0) < 30000, // Less than 30 seconds
+      source: 'spotify',
+    };
+  }
+
+  /**
+   * Entry from extended history; null for podcasts and invalid entries
+   */
+  private normalizeExtendedEntry(item: SpotifyExtendedStreamingHistory): NormalizedHistoryEntry | null {
+    if (item.episode_name || item.spotify_episode_uri) return null;
+    if (!item.master_metadata_track_name || !item.master_metadata_album_artist_name) return null;
+
+    return {
+      trackName: item.master_metadata_track_name,
+      artistName: item.master_metadata_album_artist_name,
+      albumName: item.master_metadata_album_album_name || undefined,
+      endTime: item.ts,
+      msPlayed: item.ms_played || 0,
+      spotifyUri: item.spotify_track_uri || undefined,
+      skipped: item.skipped === true || (item.ms_played || 0) < 30000,
+      source: 'spotify',
     };
   }
 
@@ -247,6 +300,42 @@ export class HistoryParser {
   }
 }
 
+/**
+ * Sort entries by time and calculate stats
+ */
+export function buildHistoryResult(
+  entries: NormalizedHistoryEntry[],
+  errors: ParseError[]
+): HistoryParseResult {
+  const seenTracks = new Set<string>();
+  let totalPlaytimeMs = 0;
+  let skippedCount = 0;
+  let minDate: string | null = null;
+  let maxDate: string | null = null;
+
+  for (const entry of entries) {
+    seenTracks.add(`${entry.artistName}:::${entry.trackName}`);
+    totalPlaytimeMs += entry.msPlayed;
+    if (entry.skipped) skippedCount++;
+    if (!minDate || entry.endTime < minDate) minDate = entry.endTime;
+    if (!maxDate || entry.endTime > maxDate) maxDate = entry.endTime;
+  }
+
+  entries.sort((a, b) => a.endTime.localeCompare(b.endTime));
+
+  return {
+    entries,
+    errors,
+    stats: {
+      totalEntries: entries.length,
+      uniqueTracks: seenTracks.size,
+      totalPlaytimeMs,
+      dateRange: minDate && maxDate ? { start: minDate, end: maxDate } : null,
+      skippedCount,
+    },
+  };
+}
+
 // Singleton
 let instance: HistoryParser | null = null;
 
@@ -0,0 +1,285 @@
+/**
+ * Sposify History Spool
+ * Holds parsed listening history in a scratch SQLite file between parsing and
+ * import, so an export of any size never sits in memory or crosses IPC whole
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { HistorySource, MatchedHistoryEntry, NormalizedHistoryEntry } from '../types';
+import type { HistoryParseResult } from './history-parser';
+import { historyKey, OVERLAP_SLACK_MS } from './history-merge';
+
+// Entries buffered before they are written in one transaction
+const WRITE_BATCH_SIZE = 1000;
+
+export class HistorySpool {
+  /** Id the renderer passes back to import this history */
+  readonly handle = randomUUID();
+
+  private db: Database.Database;
+  private filePath: string;
+  private pending: NormalizedHistoryEntry[] = [];
+  private insertStmt: Database.Statement;
+  private matched = false;
+
+  constructor() {
+    this.filePath = path.join(os.tmpdir(), `sposify-history-${this.handle}.sqlite3`);
+    this.db = new Database(this.filePath);
+    // Scratch data: nothing to recover after a crash
+    this.db.pragma('journal_mode = OFF');
+    this.db.pragma('synchronous = OFF');
+    this.db.exec(`
+      CREATE TABLE history (
+        id INTEGER PRIMARY KEY,
+        source TEXT NOT NULL,
+        track TEXT NOT NULL,
+        merge_key TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        start_ms INTEGER,
+        end_ms INTEGER,
+        ms_played INTEGER NOT NULL,
+        skipped INTEGER NOT NULL,
+        absorbed INTEGER NOT NULL DEFAULT 0,
+        entry TEXT NOT NULL
+      );
+      CREATE INDEX idx_history_merge ON history(merge_key, end_ms);
+      CREATE INDEX idx_history_track ON history(source, track);
+      CREATE INDEX idx_history_time ON history(end_time);
+      CREATE TABLE matches (
+        source TEXT NOT NULL,
+        track TEXT NOT NULL,
+        spotify_id TEXT,
+        confidence REAL,
+        PRIMARY KEY (source, track)
+      );
+    `);
+
+    this.insertStmt = this.db.prepare(`
+      INSERT INTO history (source, track, merge_key, end_time, start_ms, end_ms, ms_played, skipped, entry)
+      VALUES (@source, @track, @mergeKey, @endTime, @startMs, @endMs, @msPlayed, @skipped, @entry)
+    `);
+  }
+
+  /**
+   * Add an entry; entries are written in batches
+   */
+  add(entry: NormalizedHistoryEntry): void {
+    this.pending.push(entry);
+    if (this.pending.length >= WRITE_BATCH_SIZE) this.flush();
+  }
+
+  /**
+   * Write buffered entries
+   */
+  flush(): void {
+    if (this.pending.length === 0) return;
+
+    const entries = this.pending;
+    this.pending = [];
+    this.db.transaction(() => {
+      for (const entry of entries) this.insert(entry);
+    })();
+  }
+
+  /**
+   * Add scrobbled history (Last.fm, ListenBrainz), dropping scrobbles of
+   * plays the spool already has, as mergeHistory does. Scrobbles are not
+   * compared with others from the same source.
+   * @returns Number of scrobbles dropped as duplicates
+   */
+  mergeScrobbles(scrobbles: NormalizedHistoryEntry[]): number {
+    this.flush();
+
+    // Each play absorbs at most one scrobble per source, the closest
+    this.db.prepare('UPDATE history SET absorbed = 0 WHERE absorbed = 1').run();
+    const findPlay = this.db.prepare(`
+      SELECT id FROM history
+      WHERE merge_key = ? AND source != ? AND skipped = 0 AND absorbed = 0
+        AND end_ms >= ? AND start_ms <= ?
+      ORDER BY ABS(start_ms - ?)
+      LIMIT 1
+    `).pluck();
+    const absorb = this.db.prepare('UPDATE history SET absorbed = 1 WHERE id = ?');
+
+    let duplicates = 0;
+    this.db.transaction(() => {
+      for (const scrobble of scrobbles) {
+        const time = new Date(scrobble.endTime).getTime();
+        const source = scrobble.source ?? 'spotify';
+        const play = Number.isFinite(time)
+          ? findPlay.get(historyKey(scrobble), source, time - OVERLAP_SLACK_MS, time + OVERLAP_SLACK_MS, time)
+          : undefined;
+
+        if (play !== undefined) {
+          absorb.run(play);
+          duplicates++;
+        } else {
+          this.insert(scrobble);
+        }
+      }
+    })();
+
+    return duplicates;
+  }
+
+  /**
+   * Stats over everything spooled, as buildHistoryResult reports them
+   */
+  getStats(): HistoryParseResult['stats'] {
+    this.flush();
+
+    const row = this.db.prepare(`
+      SELECT COUNT(*) AS total, COUNT(DISTINCT track) AS uniqueTracks,
+        COALESCE(SUM(ms_played), 0) AS playtime, COALESCE(SUM(skipped), 0) AS skippedCount,
+        MIN(end_time) AS start, MAX(end_time) AS end
+      FROM history
+    `).get() as {
+      total: number;
+      uniqueTracks: number;
+      playtime: number;
+      skippedCount: number;
+      start: string | null;
+      end: string | null;
+    };
+
+    return {
+      totalEntries: row.total,
+      uniqueTracks: row.uniqueTracks,
+      totalPlaytimeMs: row.playtime,
+      dateRange: row.start && row.end ? { start: row.start, end: row.end } : null,
+      skippedCount: row.skippedCount,
+    };
+  }
+
+  /**
+   * Entries kept per source
+   */
+  countBySource(): Partial<Record<HistorySource, number>> {
+    this.flush();
+
+    const rows = this.db.prepare('SELECT source, COUNT(*) AS count FROM history GROUP BY source')
+      .all() as Array<{ source: HistorySource; count: number }>;
+    return Object.fromEntries(rows.map(row => [row.source, row.count]));
+  }
+
+  /**
+   * One entry per distinct track of a source, to match against the database
+   */
+  uniqueTracks(source: HistorySource): NormalizedHistoryEntry[] {
+    this.flush();
+
+    return this.db.prepare('SELECT entry, MIN(id) FROM history WHERE source = ? GROUP BY track')
+      .pluck()
+      .all(source)
+      .map(entry => JSON.parse(entry as string) as NormalizedHistoryEntry);
+  }
+
+  /**
+   * Store a source's track matches; every entry of the track shares them
+   */
+  setMatches(source: HistorySource, matches: MatchedHistoryEntry[]): void {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO matches (source, track, spotify_id, confidence)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const match of matches) {
+        upsert.run(source, trackOf(match), match.matchedSpotifyId ?? null, match.matchConfidence ?? null);
+      }
+    })();
+  }
+
+  /**
+   * Mark every source as matched
+   */
+  markMatched(): void {
+    this.matched = true;
+  }
+
+  isMatched(): boolean {
+    return this.matched;
+  }
+
+  /**
+   * Share of entries whose track was matched
+   */
+  matchRate(): number {
+    const total = this.db.prepare('SELECT COUNT(*) FROM history').pluck().get() as number;
+    if (total === 0) return 0;
+
+    const matched = this.db.prepare(`
+      SELECT COUNT(*) FROM history h
+      JOIN matches m ON m.source = h.source AND m.track = h.track
+      WHERE m.spotify_id IS NOT NULL
+    `).pluck().get() as number;
+    return matched / total;
+  }
+
+  /**
+   * Number of entries matchedEntries yields
+   */
+  countMatched(minConfidence: number): number {
+    return this.db.prepare(`
+      SELECT COUNT(*) FROM history h
+      JOIN matches m ON m.source = h.source AND m.track = h.track
+      WHERE m.spotify_id IS NOT NULL AND m.confidence >= ?
+    `).pluck().get(minConfidence) as number;
+  }
+
+  /**
+   * Entries matched with at least minConfidence, oldest first, read from
+   * disk as they are consumed. The spool can't be used until iteration ends.
+   */
+  *matchedEntries(minConfidence: number): Generator<MatchedHistoryEntry> {
+    const rows = this.db.prepare(`
+      SELECT h.entry, m.spotify_id AS spotifyId, m.confidence FROM history h
+      JOIN matches m ON m.source = h.source AND m.track = h.track
+      WHERE m.spotify_id IS NOT NULL AND m.confidence >= ?
+      ORDER BY h.end_time
+    `).iterate(minConfidence) as IterableIterator<{ entry: string; spotifyId: string; confidence: number }>;
+
+    for (const row of rows) {
+      yield {
+        ...(JSON.parse(row.entry) as NormalizedHistoryEntry),
+        matchedSpotifyId: row.spotifyId,
+        matchConfidence: row.confidence,
+      };
+    }
+  }
+
+  /**
+   * Close and delete the scratch file
+   */
+  close(): void {
+    this.pending = [];
+    this.db.close();
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  private insert(entry: NormalizedHistoryEntry): void {
+    const end = new Date(entry.endTime).getTime();
+    const valid = Number.isFinite(end);
+
+    this.insertStmt.run({
+      source: entry.source ?? 'spotify',
+      track: trackOf(entry),
+      mergeKey: historyKey(entry),
+      endTime: entry.endTime,
+      startMs: valid ? end - entry.msPlayed : null,
+      endMs: valid ? end : null,
+      msPlayed: entry.msPlayed,
+      skipped: entry.skipped ? 1 : 0,
+      entry: JSON.stringify(entry),
+    });
+  }
+}
+
+// Tracks are told apart as the history parsers count them
+function trackOf(entry: { artistName: string; trackName: string }): string {
+  return `${entry.artistName}:::${entry.trackName}`;
+}
@@ -11,11 +11,15 @@ import type {
   MatchedHistoryEntry,
   MatchedPlaylist,
   AudioFeatures,
+  HistorySource,
 } from '../types';
 import { getIsrcMatcher } from '../database/isrc-matcher';
 import { getAudioFeaturesDatabase } from '../database/audio-features-db';
 import { getSposifyDatabase } from '../database/sposify-db';
 
+// Sources that only record plays of (most of) a track
+const SCROBBLE_SOURCES: Array<HistorySource | undefined> = ['lastfm', 'listenbrainz'];
+
 // Types that would come from @audiio/core
 export interface UnifiedTrack {
   id: string;
@@ -139,8 +143,6 @@ export class ImportMapper {
     entries: NormalizedHistoryEntry[],
     onProgress?: (progress: number) => void
   ): MatchedHistoryEntry[] {
-    const matcher = getIsrcMatcher();
-
     // Deduplicate entries by track for matching
     const uniqueTracks = new Map<string, NormalizedHistoryEntry>();
     for (const entry of entries) {
@@ -150,21 +152,13 @@ export class ImportMapper {
       }
     }
 
-    // Match unique tracks
-    const localTracks = Array.from(uniqueTracks.entries()).map(([key, entry]) => ({
-      id: key,
-      title: entry.trackName,
-      artist: entry.artistName,
-      album: entry.albumName,
-    }));
-
-    const matchResult = matcher.matchTracks(localTracks, onProgress);
-    const matchMap = new Map(matchResult.matches.map(m => [m.localId, m]));
+    const { matched } = this.matchAndConvertTracks(Array.from(uniqueTracks.values()), onProgress);
+    const matchMap = new Map(matched.map(m => [m.original, m]));
 
     // Apply matches to all entries
     return entries.map(entry => {
       const key = `${entry.artistName}:::${entry.trackName}`;
-      const match = matchMap.get(key);
+      const match = matchMap.get(uniqueTracks.get(key)!);
 
       return {
         ...entry,
@@ -178,13 +172,28 @@ export class ImportMapper {
    * Convert matched history entry to ListenEvent
    */
   toListenEvent(entry: MatchedHistoryEntry, trackId: string, totalDuration: number): ListenEvent {
+    // YouTube history only records that a video was opened, not for how long
+    if (entry.source === 'youtube') {
+      return {
+        trackId,
+        timestamp: new Date(entry.endTime).getTime(),
+        duration: 0,
+        totalDuration,
+        completed: false,
+        skipped: false,
+      };
+    }
+
+    // Scrobbles carry no play time and are only sent for tracks played through
+    const msPlayed = SCROBBLE_SOURCES.includes(entry.source) ? totalDuration : entry.msPlayed;
+
     return {
       trackId,
       timestamp: new Date(entry.endTime).getTime(),
-      duration: entry.msPlayed,
+      duration: msPlayed,
       totalDuration,
-      completed: entry.msPlayed > 30000 && entry.msPlayed >= totalDuration * 0.8,
-      skipped: entry.skipped || entry.msPlayed < 30000,
+      completed: msPlayed > 30000 && msPlayed >= totalDuration * 0.8,
+      skipped: entry.skipped || msPlayed < 30000,
     };
   }
 
@@ -2,7 +2,21 @@
  * Sposify Import Module - Re-exports
  */
 
-export { HistoryParser, getHistoryParser, type HistoryParseResult } from './history-parser';
+export {
+  HistoryParser,
+  getHistoryParser,
+  buildHistoryResult,
+  type HistoryParseResult,
+  type HistoryInput,
+} from './history-parser';
+export { LastfmParser, getLastfmParser } from './lastfm-parser';
+export { ListenBrainzParser, getListenBrainzParser } from './listenbrainz-parser';
+export { AppleMusicParser, getAppleMusicParser } from './apple-music-parser';
+export { YouTubeMusicParser, getYouTubeMusicParser } from './youtube-music-parser';
+export { mergeHistory, historyKey } from './history-merge';
+export { detectExport, detectFile } from './export-detector';
+export { JsonArrayStream } from './json-stream';
+export { ZipArchive, type ZipEntry, isZipFile, archiveEntryPath, splitArchivePath } from './zip-reader';
 export { LibraryParser, getLibraryParser, type LibraryParseResult } from './library-parser';
 export { PlaylistParser, getPlaylistParser, type PlaylistParseResult } from './playlist-parser';
 export { ImportMapper, getImportMapper, type UnifiedTrack, type ListenEvent, type Playlist } from './import-mapper';
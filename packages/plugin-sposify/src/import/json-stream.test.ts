@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { JsonArrayStream } from './json-stream';
+
+function readAll(chunks: string[]): { items: unknown[]; stream: JsonArrayStream } {
+  const items: unknown[] = [];
+  const stream = new JsonArrayStream(value => items.push(value));
+  for (const chunk of chunks) stream.write(chunk);
+  stream.end();
+  return { items, stream };
+}
+
+// Starts with a byte order mark, as some exports do
+const ARRAY = '\uFEFF [ {"a": 1, "b": [1, 2, {"c": "]"}]}, "x,\\"y]", 3 , null, [[]] ]\n';
+const EXPECTED = [{ a: 1, b: [1, 2, { c: ']' }] }, 'x,"y]', 3, null, [[]]];
+
+describe('JsonArrayStream', () => {
+  it('reads every element of an array', () => {
+    expect(readAll([ARRAY]).items).toEqual(EXPECTED);
+  });
+
+  it('reads the same elements however the text is split', () => {
+    for (let split = 1; split < ARRAY.length; split++) {
+      expect(readAll([ARRAY.slice(0, split), ARRAY.slice(split)]).items).toEqual(EXPECTED);
+    }
+  });
+
+  it('reads the text one character at a time', () => {
+    expect(readAll([...ARRAY]).items).toEqual(EXPECTED);
+  });
+
+  it('passes element indexes', () => {
+    const indexes: number[] = [];
+    const stream = new JsonArrayStream((_value, index) => indexes.push(index));
+    stream.write('[1, 2, 3]');
+    expect(indexes).toEqual([0, 1, 2]);
+  });
+
+  it('reads an empty array', () => {
+    expect(readAll(['[ ]']).items).toEqual([]);
+  });
+
+  it('counts elements that are not valid JSON and keeps going', () => {
+    const { items, stream } = readAll(['[1, {bad}, 3]']);
+    expect(items).toEqual([1, 3]);
+    expect(stream.invalidItems).toBe(1);
+  });
+
+  it('rejects input that is not an array', () => {
+    const stream = new JsonArrayStream(() => {});
+    expect(() => stream.write('{"a": 1}')).toThrow('File does not contain an array');
+    expect(() => new JsonArrayStream(() => {}).end()).toThrow('File does not contain an array');
+  });
+
+  it('rejects an unclosed array and data after the array', () => {
+    const unclosed = new JsonArrayStream(() => {});
+    unclosed.write('[1, 2');
+    expect(() => unclosed.end()).toThrow('Unexpected end of JSON input');
+
+    expect(() => new JsonArrayStream(() => {}).write('[1] 2')).toThrow('Unexpected data after JSON array');
+  });
+});
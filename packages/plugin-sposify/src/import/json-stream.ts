@@ -0,0 +1,118 @@
+/**
+ * Sposify JSON Stream
+ * Incremental reader for files holding one large JSON array
+ */
+
+/**
+ * Reads a top-level JSON array from text chunks, handing each element to
+ * onItem as soon as it is complete. Only the element being read is held in
+ * memory, however large the array is.
+ */
+export class JsonArrayStream {
+  private started = false;
+  private done = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private inItem = false;
+  private item = '';
+  private index = 0;
+
+  /** Elements that could not be parsed */
+  invalidItems = 0;
+
+  constructor(private onItem: (value: unknown, index: number) => void) {}
+
+  /**
+   * Feed the next chunk of text
+   */
+  write(chunk: string): void {
+    let itemStart = this.inItem ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.done) {
+        if (!isWhitespace(char)) throw new Error('Unexpected data after JSON array');
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (!this.started) {
+        if (char === '[') {
+          this.started = true;
+        } else if (!isWhitespace(char)) {
+          throw new Error('File does not contain an array');
+        }
+        continue;
+      }
+
+      if (this.depth === 0 && (char === ',' || char === ']')) {
+        if (this.inItem) {
+          this.item += chunk.slice(itemStart, i);
+          this.emit();
+          itemStart = -1;
+        }
+        if (char === ']') this.done = true;
+        continue;
+      }
+
+      if (!this.inItem) {
+        if (isWhitespace(char)) continue;
+        this.inItem = true;
+        itemStart = i;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+      }
+    }
+
+    if (this.inItem && itemStart >= 0) {
+      this.item += chunk.slice(itemStart);
+    }
+  }
+
+  /**
+   * Signal the end of input; throws when the array was not closed
+   */
+  end(): void {
+    if (!this.started) throw new Error('File does not contain an array');
+    if (!this.done) throw new Error('Unexpected end of JSON input');
+  }
+
+  private emit(): void {
+    const text = this.item;
+    this.item = '';
+    this.inItem = false;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      this.invalidItems++;
+      this.index++;
+      return;
+    }
+
+    this.onItem(value, this.index++);
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\uFEFF';
+}
@@ -0,0 +1,242 @@
+/**
+ * Last.fm Scrobble Parser
+ * Parses scrobble exports (CSV and JSON dumps from common export tools)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  LastfmApiPage,
+  LastfmApiTrack,
+  LastfmFlatScrobble,
+  NormalizedHistoryEntry,
+  ParseError,
+} from '../types';
+import { buildHistoryResult, type HistoryParseResult } from './history-parser';
+import { historyKey } from './history-merge';
+import { parseCsvRecords } from './csv';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Header names used by export tools, per field
+const CSV_COLUMNS = {
+  artist: ['artist', 'artist_name', 'artist name'],
+  track: ['track', 'track_name', 'track name', 'name', 'title', 'song'],
+  album: ['album', 'album_name', 'album name'],
+  time: ['uts', 'timestamp', 'date', 'utc_time', 'time', 'played_at', 'date_uts'],
+};
+
+export class LastfmParser {
+  /**
+   * Whether a file looks like a Last.fm export rather than part of a
+   * Spotify export
+   */
+  isLastfmFile(filePath: string): boolean {
+    const name = path.basename(filePath).toLowerCase();
+    return name.endsWith('.csv') || /last\.?fm|scrobble/.test(name);
+  }
+
+  /**
+   * Parse a single scrobble export file
+   */
+  parseFile(filePath: string): { entries: NormalizedHistoryEntry[]; errors: ParseError[] } {
+    const file = path.basename(filePath);
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+      return file.toLowerCase().endsWith('.csv')
+        ? this.parseCsv(content, file)
+        : this.parseJson(content, file);
+    } catch (error) {
+      return {
+        entries: [],
+        errors: [{ file, error: error instanceof Error ? error.message : 'Unknown error' }],
+      };
+    }
+  }
+
+  /**
+   * Parse scrobble exports from file paths. Scrobbles present in more than
+   * one file (e.g. overlapping dumps) are kept once.
+   */
+  parseFiles(filePaths: string[]): HistoryParseResult {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+    const seen = new Set<string>();
+
+    for (const filePath of filePaths) {
+      const result = this.parseFile(filePath);
+      errors.push(...result.errors);
+
+      for (const entry of result.entries) {
+        const key = `${historyKey(entry)}@${entry.endTime}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        entries.push(entry);
+      }
+    }
+
+    return buildHistoryResult(entries, errors);
+  }
+
+  /**
+   * CSV with a header row, or the headerless artist,album,track,date layout
+   */
+  private parseCsv(content: string, file: string): { entries: NormalizedHistoryEntry[]; errors: ParseError[] } {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+    const records = parseCsvRecords(content);
+
+    const first = (records[0]?.cells ?? []).map(cell => cell.trim().toLowerCase());
+    const column = (names: string[]) => first.findIndex(cell => names.includes(cell));
+    const hasHeader = column(CSV_COLUMNS.artist) >= 0 && column(CSV_COLUMNS.track) >= 0;
+
+    const columns = hasHeader
+      ? {
+        artist: column(CSV_COLUMNS.artist),
+        track: column(CSV_COLUMNS.track),
+        album: column(CSV_COLUMNS.album),
+        time: CSV_COLUMNS.time.map(name => first.indexOf(name)).find(i => i >= 0) ?? -1,
+      }
+      : { artist: 0, album: 1, track: 2, time: 3 };
+
+    for (const { cells, line } of records.slice(hasHeader ? 1 : 0)) {
+      const entry = this.toEntry(
+        cells[columns.artist],
+        cells[columns.track],
+        columns.album >= 0 ? cells[columns.album] : undefined,
+        columns.time >= 0 ? cells[columns.time] : undefined
+      );
+
+      if (entry) {
+        entries.push(entry);
+      } else {
+        errors.push({ file, error: 'Missing artist, track or time', line });
+      }
+    }
+
+    return { entries, errors };
+  }
+
+  /**
+   * Saved user.getRecentTracks pages, or flat scrobble lists
+   */
+  private parseJson(content: string, file: string): { entries: NormalizedHistoryEntry[]; errors: ParseError[] } {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+    const data = JSON.parse(content);
+
+    let items: Array<LastfmApiTrack | LastfmFlatScrobble>;
+    if (Array.isArray(data) && data.some(page => page?.recenttracks)) {
+      items = (data as LastfmApiPage[]).flatMap(page => page?.recenttracks?.track ?? []);
+    } else if (data?.recenttracks) {
+      items = (data as LastfmApiPage).recenttracks.track ?? [];
+    } else if (Array.isArray(data)) {
+      items = data;
+    } else if (Array.isArray(data?.scrobbles)) {
+      items = data.scrobbles;
+    } else if (Array.isArray(data?.tracks)) {
+      items = data.tracks;
+    } else {
+      errors.push({ file, error: 'Unrecognised Last.fm export format' });
+      return { entries, errors };
+    }
+
+    let dropped = 0;
+    for (const item of items) {
+      // Currently playing, not yet scrobbled
+      if ((item as LastfmApiTrack)['@attr']?.nowplaying === 'true') continue;
+
+      const entry = this.toEntry(
+        textOf((item as LastfmApiTrack).artist ?? (item as LastfmFlatScrobble).artist),
+        (item as LastfmFlatScrobble).track ?? item.name ?? (item as LastfmFlatScrobble).title,
+        textOf((item as LastfmApiTrack).album),
+        timeOf(item)
+      );
+
+      if (entry) {
+        entries.push(entry);
+      } else {
+        dropped++;
+      }
+    }
+
+    if (dropped > 0) {
+      errors.push({ file, error: `${dropped} scrobbles without artist, track or time were skipped` });
+    }
+
+    return { entries, errors };
+  }
+
+  /**
+   * Scrobbles carry no play time; Last.fm only records tracks played at
+   * least halfway, so none count as skipped
+   */
+  private toEntry(
+    artist: string | undefined,
+    track: string | undefined,
+    album: string | undefined,
+    time: string | number | undefined
+  ): NormalizedHistoryEntry | null {
+    const timestamp = time !== undefined ? parseScrobbleTime(time) : null;
+    // Out of Date's range, e.g. a corrupt Unix time
+    if (timestamp === null || Number.isNaN(new Date(timestamp).getTime())) return null;
+    if (!artist?.trim() || !track?.trim()) return null;
+
+    return {
+      trackName: track.trim(),
+      artistName: artist.trim(),
+      albumName: album?.trim() || undefined,
+      endTime: new Date(timestamp).toISOString(),
+      msPlayed: 0,
+      skipped: false,
+      source: 'lastfm',
+    };
+  }
+}
+
+function textOf(value: { '#text'?: string; name?: string } | string | undefined): string | undefined {
+  if (typeof value === 'string') return value;
+  return value?.['#text'] || value?.name || undefined;
+}
+
+function timeOf(item: LastfmApiTrack | LastfmFlatScrobble): string | number | undefined {
+  const apiDate = (item as LastfmApiTrack).date;
+  if (apiDate && typeof apiDate === 'object') return apiDate.uts ?? apiDate['#text'];
+
+  const flat = item as LastfmFlatScrobble;
+  return flat.uts ?? flat.timestamp ?? flat.date;
+}
+
+/**
+ * Epoch ms from Unix seconds/ms, "31 Jan 2020 14:22" (UTC) or ISO dates
+ */
+function parseScrobbleTime(value: string | number): number | null {
+  const text = String(value).trim();
+
+  if (/^\d+$/.test(text)) {
+    const n = Number(text);
+    if (n <= 0) return null;
+    return n > 1e12 ? n : n * 1000;
+  }
+
+  const match = text.match(/^(\d{1,2}) (\w{3})\w* (\d{4}),? (\d{1,2}):(\d{2})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    if (month < 0) return null;
+    return Date.UTC(Number(match[3]), month, Number(match[1]), Number(match[4]), Number(match[5]));
+  }
+
+  const parsed = Date.parse(text);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Singleton
+let instance: LastfmParser | null = null;
+
+export function getLastfmParser(): LastfmParser {
+  if (!instance) {
+    instance = new LastfmParser();
+  }
+  return instance;
+}
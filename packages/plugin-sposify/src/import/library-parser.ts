@@ -28,9 +28,10 @@ export interface LibraryParseResult {
 
 export class LibraryParser {
   /**
-   * Parse YourLibrary.json file
+   * Parse YourLibrary.json file. Pass content when the file has already
+   * been read, e.g. from an export archive.
    */
-  parseLibraryFile(filePath: string): LibraryParseResult {
+  parseLibraryFile(filePath: string, content?: string): LibraryParseResult {
     const result: LibraryParseResult = {
       likedTracks: [],
       bannedTracks: [],
@@ -46,8 +47,7 @@ export class LibraryParser {
     };
 
     try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const data = JSON.parse(content) as SpotifyLibrary;
+      const data = JSON.parse(content ?? fs.readFileSync(filePath, 'utf-8')) as SpotifyLibrary;
 
       // Parse liked tracks
       if (data.tracks && Array.isArray(data.tracks)) {
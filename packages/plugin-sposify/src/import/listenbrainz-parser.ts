@@ -0,0 +1,109 @@
+/**
+ * ListenBrainz Listen Parser
+ * Parses listen exports (listens.json, or the per-month .jsonl files of newer exports)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  ListenBrainzListen,
+  NormalizedHistoryEntry,
+  ParseError,
+} from '../types';
+import { buildHistoryResult, type HistoryParseResult } from './history-parser';
+
+export class ListenBrainzParser {
+  /**
+   * Parse a single export file
+   */
+  parseFile(filePath: string): { entries: NormalizedHistoryEntry[]; errors: ParseError[] } {
+    const file = path.basename(filePath);
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+
+      if (file.toLowerCase().endsWith('.jsonl')) {
+        const lines = content.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+          if (!lines[i].trim()) continue;
+
+          try {
+            const entry = this.toEntry(JSON.parse(lines[i]) as ListenBrainzListen);
+            if (entry) entries.push(entry);
+          } catch {
+            errors.push({ file, error: 'Invalid JSON line', line: i + 1 });
+          }
+        }
+      } else {
+        const data = JSON.parse(content);
+        const listens: ListenBrainzListen[] = Array.isArray(data)
+          ? data
+          : data?.payload?.listens ?? data?.listens ?? [];
+
+        for (const listen of listens) {
+          const entry = this.toEntry(listen);
+          if (entry) entries.push(entry);
+        }
+      }
+    } catch (error) {
+      errors.push({
+        file,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return { entries, errors };
+  }
+
+  /**
+   * Parse listen exports from file paths
+   */
+  parseFiles(filePaths: string[]): HistoryParseResult {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+
+    for (const filePath of filePaths) {
+      const result = this.parseFile(filePath);
+      entries.push(...result.entries);
+      errors.push(...result.errors);
+    }
+
+    return buildHistoryResult(entries, errors);
+  }
+
+  /**
+   * Listens are submitted like scrobbles (after half the track or four
+   * minutes) and carry no play time, so none count as skipped
+   */
+  private toEntry(listen: ListenBrainzListen): NormalizedHistoryEntry | null {
+    const metadata = listen?.track_metadata;
+    if (!metadata?.artist_name || !metadata.track_name || !listen.listened_at) {
+      return null;
+    }
+
+    const spotifyId = metadata.additional_info?.spotify_id?.split('/').pop();
+
+    return {
+      trackName: metadata.track_name,
+      artistName: metadata.artist_name,
+      albumName: metadata.release_name || undefined,
+      endTime: new Date(listen.listened_at * 1000).toISOString(),
+      msPlayed: 0,
+      spotifyUri: spotifyId ? `spotify:track:${spotifyId}` : undefined,
+      skipped: false,
+      source: 'listenbrainz',
+    };
+  }
+}
+
+// Singleton
+let instance: ListenBrainzParser | null = null;
+
+export function getListenBrainzParser(): ListenBrainzParser {
+  if (!instance) {
+    instance = new ListenBrainzParser();
+  }
+  return instance;
+}
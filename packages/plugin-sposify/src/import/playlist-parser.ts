@@ -62,14 +62,17 @@ export class PlaylistParser {
   }
 
   /**
-   * Parse a single playlist file
+   * Parse a single playlist file. Pass content when the file has already
+   * been read, e.g. from an export archive.
    */
-  parsePlaylistFile(filePath: string): { playlist: NormalizedPlaylist | null; errors: ParseError[] } {
+  parsePlaylistFile(
+    filePath: string,
+    content?: string
+  ): { playlist: NormalizedPlaylist | null; errors: ParseError[] } {
     const errors: ParseError[] = [];
 
     try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const data = JSON.parse(content) as SpotifyPlaylistExport;
+      const data = JSON.parse(content ?? fs.readFileSync(filePath, 'utf-8')) as SpotifyPlaylistExport;
 
       if (!data.name || !data.items) {
         errors.push({
@@ -11,21 +11,49 @@ import type {
   ImportResult,
   ImportError,
   MatchedTrack,
-  MatchedHistoryEntry,
   MatchedPlaylist,
+  HistorySource,
+  NormalizedPlaylist,
+  ParseError,
 } from '../types';
-import { getHistoryParser } from './history-parser';
+import { getHistoryParser, type HistoryParseResult, type HistoryInput } from './history-parser';
+import { getLastfmParser } from './lastfm-parser';
+import { getListenBrainzParser } from './listenbrainz-parser';
+import { getAppleMusicParser } from './apple-music-parser';
+import { getYouTubeMusicParser } from './youtube-music-parser';
+import { HistorySpool } from './history-spool';
+import { detectExport } from './export-detector';
+import { ZipArchive, splitArchivePath } from './zip-reader';
 import { getLibraryParser } from './library-parser';
 import { getPlaylistParser } from './playlist-parser';
 import { getImportMapper, type UnifiedTrack, type ListenEvent, type Playlist } from './import-mapper';
 import { getSposifyDatabase } from '../database/sposify-db';
 
+// Order sources are parsed and matched in
+const HISTORY_SOURCES: HistorySource[] = ['spotify', 'applemusic', 'youtube', 'lastfm', 'listenbrainz'];
+
+// Sources that only record plays, merged into the others' history
+const SCROBBLE_SOURCES: HistorySource[] = ['lastfm', 'listenbrainz'];
+
+const SOURCE_LABELS: Record<HistorySource, string> = {
+  spotify: 'Spotify',
+  lastfm: 'Last.fm',
+  listenbrainz: 'ListenBrainz',
+  applemusic: 'Apple Music',
+  youtube: 'YouTube Music',
+};
+
 export type ImportPhase = 'idle' | 'parsing' | 'matching' | 'importing' | 'complete' | 'error';
 
 export interface ImportProgress {
   phase: ImportPhase;
   progress: number; // 0-1
   currentItem?: string;
+  /** History source being worked on, when the step is per source */
+  source?: HistorySource;
+  /** Bytes read so far, while streaming large history files */
+  bytesRead?: number;
+  totalBytes?: number;
   stats?: {
     parsed?: number;
     matched?: number;
@@ -42,76 +70,221 @@ export interface ImportCallbacks {
 
 export class SpotifyImportService {
   private historyParser = getHistoryParser();
+  private lastfmParser = getLastfmParser();
+  private listenBrainzParser = getListenBrainzParser();
+  private appleMusicParser = getAppleMusicParser();
+  private youtubeMusicParser = getYouTubeMusicParser();
   private libraryParser = getLibraryParser();
   private playlistParser = getPlaylistParser();
   private importMapper = getImportMapper();
+  private historySpool: HistorySpool | null = null;
 
   /**
-   * Parse Spotify export files
+   * Parse export files from Spotify and the other supported services.
+   * History stays in the main process; the result carries a handle to it
+   * for matchParsedData and executeImport.
    */
-  parseExportFiles(filePaths: string[]): ParsedSpotifyData {
-    // Separate files by type
-    const historyFiles = filePaths.filter(f => {
-      const name = path.basename(f);
-      return name.startsWith('StreamingHistory') || name.includes('endsong');
-    });
+  async parseExportFiles(filePaths: string[], callbacks?: ImportCallbacks): Promise<ParsedSpotifyData> {
+    const detected = detectExport(filePaths);
+    const archives = new Map<string, ZipArchive>();
+    const spotifyFiles = detected.files.spotify ?? [];
 
-    const libraryFile = filePaths.find(f =>
+    const libraryFile = spotifyFiles.find(f =>
       path.basename(f).toLowerCase() === 'yourlibrary.json'
     );
 
-    const playlistFiles = filePaths.filter(f =>
+    const playlistFiles = spotifyFiles.filter(f =>
       path.basename(f).startsWith('Playlist') && f.endsWith('.json')
     );
 
-    // Parse each type
-    const historyResult = this.historyParser.parseFiles(historyFiles);
+    const historyFiles = spotifyFiles.filter(f => f !== libraryFile && !playlistFiles.includes(f));
+
+    // Parse each source's history into a spool on disk; Spotify's can run
+    // to hundreds of MB, so it is streamed entry by entry
+    const parsers: Record<Exclude<HistorySource, 'spotify'>, (files: string[]) => HistoryParseResult> = {
+      applemusic: files => this.appleMusicParser.parseFiles(files),
+      youtube: files => this.youtubeMusicParser.parseFiles(files),
+      lastfm: files => this.lastfmParser.parseFiles(files),
+      listenbrainz: files => this.listenBrainzParser.parseFiles(files),
+    };
+    const sourceFiles: Partial<Record<HistorySource, string[]>> = { ...detected.files, spotify: historyFiles };
+    const historyErrors: ParseError[] = [];
+    let duplicatePlays = 0;
+
+    this.releaseHistory();
+    const spool = new HistorySpool();
+    this.historySpool = spool;
+
+    try {
+      for (let i = 0; i < HISTORY_SOURCES.length; i++) {
+        const source = HISTORY_SOURCES[i];
+        const files = sourceFiles[source];
+        if (!files?.length) continue;
+
+        const currentItem = `Reading ${SOURCE_LABELS[source]} history...`;
+        callbacks?.onProgress?.({
+          phase: 'parsing',
+          progress: i / HISTORY_SOURCES.length,
+          currentItem,
+          source,
+        });
+
+        let parsed = 0;
+        if (source === 'spotify') {
+          const errors = await this.historyParser.streamFiles(
+            this.toHistoryInputs(files, archives),
+            entry => {
+              spool.add(entry);
+              parsed++;
+            },
+            (bytesRead, totalBytes) => {
+              callbacks?.onProgress?.({
+                phase: 'parsing',
+                progress: (i + (totalBytes > 0 ? bytesRead / totalBytes : 1)) / HISTORY_SOURCES.length,
+                currentItem,
+                source,
+                bytesRead,
+                totalBytes,
+              });
+            }
+          );
+          historyErrors.push(...errors);
+        } else {
+          const result = parsers[source](files);
+          historyErrors.push(...result.errors);
+          parsed = result.entries.length;
+
+          // Scrobbled history is merged in last, so plays another service
+          // already recorded are not counted twice
+          if (SCROBBLE_SOURCES.includes(source)) {
+            duplicatePlays += spool.mergeScrobbles(result.entries);
+          } else {
+            result.entries.forEach(entry => spool.add(entry));
+          }
+        }
+
+        callbacks?.onProgress?.({
+          phase: 'parsing',
+          progress: (i + 1) / HISTORY_SOURCES.length,
+          currentItem,
+          source,
+          stats: { parsed },
+        });
+      }
+    } catch (error) {
+      this.releaseHistory();
+      throw error;
+    }
+
+    const historyStats = spool.getStats();
+    const sources = spool.countBySource();
+    if (historyStats.totalEntries === 0) this.releaseHistory();
+
+    // Files inside an archive are read here and handed to the parsers
     const libraryResult = libraryFile
-      ? this.libraryParser.parseLibraryFile(libraryFile)
+      ? this.libraryParser.parseLibraryFile(libraryFile, await this.readArchived(libraryFile, archives))
       : { likedTracks: [], bannedTracks: [], errors: [] };
-    const playlistResult = this.playlistParser.parseFiles(playlistFiles);
+
+    const playlistResult = { playlists: [] as NormalizedPlaylist[], errors: [] as ParseError[] };
+    for (const playlistFile of playlistFiles) {
+      const result = this.playlistParser.parsePlaylistFile(
+        playlistFile,
+        await this.readArchived(playlistFile, archives)
+      );
+      if (result.playlist) playlistResult.playlists.push(result.playlist);
+      playlistResult.errors.push(...result.errors);
+    }
 
     // Combine errors
     const parseErrors = [
-      ...historyResult.errors,
+      ...historyErrors,
       ...libraryResult.errors,
       ...playlistResult.errors,
     ];
 
     return {
-      history: historyResult.entries,
+      historyHandle: this.historySpool?.handle ?? null,
       likedTracks: libraryResult.likedTracks,
       playlists: playlistResult.playlists,
       bannedTracks: libraryResult.bannedTracks,
       parseErrors,
       stats: {
-        totalHistoryEntries: historyResult.stats.totalEntries,
-        uniqueTracksPlayed: historyResult.stats.uniqueTracks,
-        totalPlaytimeMs: historyResult.stats.totalPlaytimeMs,
-        dateRange: historyResult.stats.dateRange,
+        totalHistoryEntries: historyStats.totalEntries,
+        uniqueTracksPlayed: historyStats.uniqueTracks,
+        totalPlaytimeMs: historyStats.totalPlaytimeMs,
+        dateRange: historyStats.dateRange,
         likedTracksCount: libraryResult.likedTracks.length,
         playlistsCount: playlistResult.playlists.length,
+        duplicatePlays,
+        sources,
       },
     };
   }
 
   /**
-   * Parse Spotify export directory
+   * Parse an export directory, including exports nested in subfolders
    */
-  parseExportDirectory(dirPath: string): ParsedSpotifyData {
+  async parseExportDirectory(dirPath: string, callbacks?: ImportCallbacks): Promise<ParsedSpotifyData> {
     if (!fs.existsSync(dirPath)) {
       throw new Error(`Directory not found: ${dirPath}`);
     }
 
-    const files = fs.readdirSync(dirPath)
-      .filter(f => f.endsWith('.json'))
-      .map(f => path.join(dirPath, f));
+    return this.parseExportFiles([dirPath], callbacks);
+  }
+
+  /**
+   * History files as stream inputs; archive entries are read in place
+   */
+  private toHistoryInputs(filePaths: string[], archives: Map<string, ZipArchive>): HistoryInput[] {
+    return filePaths.map(filePath => {
+      const inArchive = splitArchivePath(filePath);
+      if (!inArchive) {
+        return {
+          name: path.basename(filePath),
+          size: fs.statSync(filePath).size,
+          open: () => fs.createReadStream(filePath),
+        };
+      }
+
+      const archive = this.getArchive(inArchive.archivePath, archives);
+      const entry = archive.getEntry(inArchive.entryName);
+      if (!entry) {
+        throw new Error(`${inArchive.entryName} not found in ${path.basename(inArchive.archivePath)}`);
+      }
+
+      return {
+        name: path.basename(entry.name),
+        size: entry.size,
+        open: () => archive.openStream(entry),
+      };
+    });
+  }
+
+  /**
+   * Text of a file inside an archive; undefined for files on disk, which
+   * the parsers read themselves
+   */
+  private async readArchived(filePath: string, archives: Map<string, ZipArchive>): Promise<string | undefined> {
+    const inArchive = splitArchivePath(filePath);
+    if (!inArchive) return undefined;
 
-    return this.parseExportFiles(files);
+    const archive = this.getArchive(inArchive.archivePath, archives);
+    const entry = archive.getEntry(inArchive.entryName);
+    return entry ? archive.readText(entry) : undefined;
+  }
+
+  private getArchive(archivePath: string, archives: Map<string, ZipArchive>): ZipArchive {
+    let archive = archives.get(archivePath);
+    if (!archive) {
+      archive = new ZipArchive(archivePath);
+      archives.set(archivePath, archive);
+    }
+    return archive;
   }
 
   /**
-   * Match parsed data against Sposify database
+   * Match parsed data against Sposify database. History is matched where
+   * it is kept, for executeImport to read back.
    */
   matchParsedData(
     data: ParsedSpotifyData,
@@ -119,7 +292,6 @@ export class SpotifyImportService {
   ): {
     matchedLikedTracks: MatchedTrack[];
     unmatchedLikedTracks: typeof data.likedTracks;
-    matchedHistory: MatchedHistoryEntry[];
     matchedPlaylists: MatchedPlaylist[];
     matchStats: {
       likedTracksMatchRate: number;
@@ -143,23 +315,18 @@ export class SpotifyImportService {
         });
       });
 
-    // Match history
-    callbacks?.onProgress?.({
-      phase: 'matching',
-      progress: 0.3,
-      currentItem: 'Matching streaming history...',
-    });
-
-    const matchedHistory = this.importMapper.matchAndConvertHistory(
-      data.history,
-      (p) => {
+    // Match history in the spool, one source at a time
+    const spool = this.getHistorySpool(data.historyHandle);
+    if (spool) {
+      this.matchHistory(spool, (progress, source) => {
         callbacks?.onProgress?.({
           phase: 'matching',
-          progress: 0.3 + p * 0.4,
-          currentItem: 'Matching streaming history...',
+          progress: 0.3 + progress * 0.4,
+          currentItem: `Matching ${SOURCE_LABELS[source]} history...`,
+          source,
         });
-      }
-    );
+      });
+    }
 
     // Match playlists
     callbacks?.onProgress?.({
@@ -186,10 +353,7 @@ export class SpotifyImportService {
       ? matchedLikedTracks.length / data.likedTracks.length
       : 0;
 
-    const matchedHistoryCount = matchedHistory.filter(h => h.matchedSpotifyId).length;
-    const historyMatchRate = matchedHistory.length > 0
-      ? matchedHistoryCount / matchedHistory.length
-      : 0;
+    const historyMatchRate = spool ? spool.matchRate() : 0;
 
     const averagePlaylistMatchRate = matchedPlaylists.length > 0
       ? matchedPlaylists.reduce((sum, p) => sum + p.matchRate, 0) / matchedPlaylists.length
@@ -198,7 +362,6 @@ export class SpotifyImportService {
     return {
       matchedLikedTracks,
       unmatchedLikedTracks,
-      matchedHistory,
       matchedPlaylists,
       matchStats: {
         likedTracksMatchRate,
@@ -209,13 +372,15 @@ export class SpotifyImportService {
   }
 
   /**
-   * Execute the import with matched data
+   * Execute the import with matched data. History is read from the parsed
+   * export's handle (matched first if matchParsedData has not done so),
+   * and the handle is released afterwards.
    */
   async executeImport(
     options: ImportOptions,
     matchedData: {
       matchedLikedTracks: MatchedTrack[];
-      matchedHistory: MatchedHistoryEntry[];
+      historyHandle?: string | null;
       matchedPlaylists: MatchedPlaylist[];
     },
     callbacks?: ImportCallbacks
@@ -266,50 +431,66 @@ export class SpotifyImportService {
       }
     }
 
-    // Import streaming history
-    if (options.importHistory) {
-      callbacks?.onProgress?.({
-        phase: 'importing',
-        progress: 0.3,
-        currentItem: 'Importing streaming history...',
-      });
-
-      const matchedEntries = matchedData.matchedHistory.filter(
-        h => h.matchedSpotifyId && (h.matchConfidence || 0) >= options.minConfidence
-      );
-
-      for (let i = 0; i < matchedEntries.length; i++) {
-        const entry = matchedEntries[i];
-
-        try {
-          // Get track duration from database
-          const track = db.getTrackById(entry.matchedSpotifyId!);
-          const totalDuration = track?.duration_ms || entry.msPlayed;
-
-          const listenEvent = this.importMapper.toListenEvent(
-            entry,
-            entry.matchedSpotifyId!,
-            totalDuration
-          );
-          callbacks?.onListenRecorded?.(listenEvent);
-          historyImported++;
-        } catch (error) {
-          errors.push({
-            type: 'history',
-            item: `${entry.artistName} - ${entry.trackName}`,
-            error: error instanceof Error ? error.message : 'Unknown error',
+    // Import streaming history, reading it from the spool as it goes
+    const spool = this.getHistorySpool(matchedData.historyHandle);
+    try {
+      if (options.importHistory && spool) {
+        if (!spool.isMatched()) {
+          this.matchHistory(spool, (progress, source) => {
+            callbacks?.onProgress?.({
+              phase: 'importing',
+              progress: 0.3 + progress * 0.1,
+              currentItem: `Matching ${SOURCE_LABELS[source]} history...`,
+              source,
+            });
           });
         }
 
-        if (i % 100 === 0) {
-          callbacks?.onProgress?.({
-            phase: 'importing',
-            progress: 0.3 + (i / matchedEntries.length) * 0.4,
-            currentItem: `Recording history: ${entry.trackName}`,
-            stats: { imported: historyImported },
-          });
+        callbacks?.onProgress?.({
+          phase: 'importing',
+          progress: 0.4,
+          currentItem: 'Importing streaming history...',
+        });
+
+        const total = spool.countMatched(options.minConfidence);
+        let i = 0;
+
+        for (const entry of spool.matchedEntries(options.minConfidence)) {
+          try {
+            // Get track duration from database (scrobbles have no play time to fall back on)
+            const track = db.getTrackById(entry.matchedSpotifyId!);
+            const totalDuration = track?.duration_ms || entry.msPlayed || 180000;
+
+            const listenEvent = this.importMapper.toListenEvent(
+              entry,
+              entry.matchedSpotifyId!,
+              totalDuration
+            );
+            callbacks?.onListenRecorded?.(listenEvent);
+            historyImported++;
+          } catch (error) {
+            errors.push({
+              type: 'history',
+              item: `${entry.artistName} - ${entry.trackName}`,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+
+          if (i % 100 === 0) {
+            callbacks?.onProgress?.({
+              phase: 'importing',
+              progress: 0.4 + (i / total) * 0.3,
+              currentItem: `Recording history: ${entry.trackName}`,
+              source: entry.source ?? 'spotify',
+              stats: { imported: historyImported },
+            });
+          }
+          i++;
         }
       }
+    } finally {
+      // Released on failure too: the scratch file holds the whole history
+      if (spool) this.releaseHistory();
     }
 
     // Import playlists
@@ -367,6 +548,49 @@ export class SpotifyImportService {
     };
   }
 
+  /**
+   * Drop the history kept from the last parse, deleting its scratch file
+   */
+  releaseHistory(): void {
+    this.historySpool?.close();
+    this.historySpool = null;
+  }
+
+  /**
+   * Spool for a parse result's handle; only the latest parse is kept
+   */
+  private getHistorySpool(handle: string | null | undefined): HistorySpool | null {
+    if (!handle) return null;
+    if (this.historySpool?.handle !== handle) {
+      throw new Error('Parsed history is no longer available, parse the export again');
+    }
+    return this.historySpool;
+  }
+
+  /**
+   * Match each distinct track of the spooled history, source by source
+   */
+  private matchHistory(
+    spool: HistorySpool,
+    onProgress: (progress: number, source: HistorySource) => void
+  ): void {
+    const counts = spool.countBySource();
+    const sources = HISTORY_SOURCES.filter(source => counts[source]);
+
+    for (let i = 0; i < sources.length; i++) {
+      const source = sources[i];
+      onProgress(i / sources.length, source);
+
+      const matches = this.importMapper.matchAndConvertHistory(
+        spool.uniqueTracks(source),
+        p => onProgress((i + p) / sources.length, source)
+      );
+      spool.setMatches(source, matches);
+    }
+
+    spool.markMatched();
+  }
+
   /**
    * Full import flow: parse -> match -> import
    */
@@ -377,7 +601,7 @@ export class SpotifyImportService {
   ): Promise<ImportResult> {
     // Phase 1: Parse
     callbacks?.onProgress?.({ phase: 'parsing', progress: 0 });
-    const parsed = this.parseExportFiles(filePaths);
+    const parsed = await this.parseExportFiles(filePaths, callbacks);
     callbacks?.onProgress?.({ phase: 'parsing', progress: 1 });
 
     // Phase 2: Match
@@ -386,7 +610,7 @@ export class SpotifyImportService {
     // Phase 3: Import
     return await this.executeImport(options, {
       matchedLikedTracks: matched.matchedLikedTracks,
-      matchedHistory: matched.matchedHistory,
+      historyHandle: parsed.historyHandle,
       matchedPlaylists: matched.matchedPlaylists,
     }, callbacks);
   }
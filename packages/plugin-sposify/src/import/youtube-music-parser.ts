@@ -0,0 +1,84 @@
+/**
+ * YouTube Music History Parser
+ * Parses watch-history.json from a Google Takeout export
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  YouTubeWatchHistoryEntry,
+  NormalizedHistoryEntry,
+  ParseError,
+} from '../types';
+import { buildHistoryResult, type HistoryParseResult } from './history-parser';
+
+export class YouTubeMusicParser {
+  /**
+   * Parse a single watch history file, keeping YouTube Music plays only
+   */
+  parseFile(filePath: string): { entries: NormalizedHistoryEntry[]; errors: ParseError[] } {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const data = JSON.parse(content) as YouTubeWatchHistoryEntry[];
+
+      if (!Array.isArray(data)) {
+        errors.push({
+          file: path.basename(filePath),
+          error: 'File does not contain an array',
+        });
+        return { entries, errors };
+      }
+
+      for (const item of data) {
+        if (item.header !== 'YouTube Music' || !item.title || !item.time) continue;
+
+        const artist = item.subtitles?.[0]?.name?.replace(/\s+-\s+Topic$/, '');
+        if (!artist) continue;
+
+        entries.push({
+          trackName: item.title.replace(/^Watched\s+/, ''),
+          artistName: artist,
+          endTime: item.time,
+          msPlayed: 0,
+          source: 'youtube',
+        });
+      }
+    } catch (error) {
+      errors.push({
+        file: path.basename(filePath),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return { entries, errors };
+  }
+
+  /**
+   * Parse watch history files from file paths
+   */
+  parseFiles(filePaths: string[]): HistoryParseResult {
+    const entries: NormalizedHistoryEntry[] = [];
+    const errors: ParseError[] = [];
+
+    for (const filePath of filePaths) {
+      const result = this.parseFile(filePath);
+      entries.push(...result.entries);
+      errors.push(...result.errors);
+    }
+
+    return buildHistoryResult(entries, errors);
+  }
+}
+
+// Singleton
+let instance: YouTubeMusicParser | null = null;
+
+export function getYouTubeMusicParser(): YouTubeMusicParser {
+  if (!instance) {
+    instance = new YouTubeMusicParser();
+  }
+  return instance;
+}
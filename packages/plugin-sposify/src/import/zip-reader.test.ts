@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ZipArchive, archiveEntryPath, splitArchivePath } from './zip-reader';
+
+interface TestEntry {
+  name: string;
+  content?: string;
+  deflate?: boolean;
+  /** Extra field written to the local header only */
+  localExtra?: Buffer;
+}
+
+/**
+ * Write a minimal zip archive; CRCs are left at zero, the reader doesn't check them
+ */
+function writeZip(filePath: string, entries: TestEntry[]): void {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const raw = Buffer.from(entry.content ?? '', 'utf-8');
+    const data = entry.deflate ? zlib.deflateRawSync(raw) : raw;
+    const extra = entry.localExtra ?? Buffer.alloc(0);
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(extra.length, 28);
+    locals.push(local, name, extra, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += 30 + name.length + extra.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  fs.writeFileSync(filePath, Buffer.concat([...locals, directory, end]));
+}
+
+describe('ZipArchive', () => {
+  let dir: string;
+  let archivePath: string;
+  const history = JSON.stringify(Array.from({ length: 500 }, (_, i) => ({ trackName: `Track ${i}` })));
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sposify-zip-test-'));
+    archivePath = path.join(dir, 'my_spotify_data.zip');
+    writeZip(archivePath, [
+      { name: 'MyData/' },
+      { name: 'MyData/Playlist1.json', content: '{"playlists": []}' },
+      { name: 'MyData/StreamingHistory0.json', content: history, deflate: true, localExtra: Buffer.alloc(12) },
+      { name: 'MyData/Empty.json' },
+    ]);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists files, leaving out directories', () => {
+    const archive = new ZipArchive(archivePath);
+    expect(archive.entries.map(entry => entry.name)).toEqual([
+      'MyData/Playlist1.json',
+      'MyData/StreamingHistory0.json',
+      'MyData/Empty.json',
+    ]);
+    expect(archive.getEntry('MyData/StreamingHistory0.json')?.size).toBe(Buffer.byteLength(history));
+  });
+
+  it('reads stored and deflated entries', async () => {
+    const archive = new ZipArchive(archivePath);
+    expect(await archive.readText(archive.getEntry('MyData/Playlist1.json')!)).toBe('{"playlists": []}');
+    expect(await archive.readText(archive.getEntry('MyData/StreamingHistory0.json')!)).toBe(history);
+    expect(await archive.readText(archive.getEntry('MyData/Empty.json')!)).toBe('');
+  });
+
+  it('rejects files that are not zip archives', () => {
+    const notZip = path.join(dir, 'not.zip');
+    fs.writeFileSync(notZip, 'just text');
+    expect(() => new ZipArchive(notZip)).toThrow('Not a zip archive');
+  });
+
+  it('rejects unsupported compression methods', () => {
+    const archive = new ZipArchive(archivePath);
+    const entry = { ...archive.getEntry('MyData/Playlist1.json')!, method: 12 };
+    expect(() => archive.openStream(entry)).toThrow('unsupported compression method');
+  });
+});
+
+describe('archive entry paths', () => {
+  it('round-trips a path inside an archive', () => {
+    const filePath = archiveEntryPath('/data/Export.ZIP', 'MyData/Playlist1.json');
+    expect(splitArchivePath(filePath)).toEqual({
+      archivePath: '/data/Export.ZIP',
+      entryName: 'MyData/Playlist1.json',
+    });
+  });
+
+  it('returns null for ordinary paths', () => {
+    expect(splitArchivePath('/data/StreamingHistory0.json')).toBeNull();
+  });
+});
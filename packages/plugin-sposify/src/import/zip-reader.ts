@@ -0,0 +1,198 @@
+/**
+ * Sposify Zip Reader
+ * Reads files straight out of the export archive Spotify sends, without extracting it
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+
+// Separates an archive's path from the path of a file inside it
+const ARCHIVE_SEPARATOR = '!/';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Fixed record size plus the longest possible archive comment
+const END_RECORD_SEARCH_BYTES = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+  method: number;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  readonly entries: ZipEntry[];
+
+  /**
+   * Read the archive's table of contents; file data is only read when an
+   * entry is opened
+   */
+  constructor(readonly filePath: string) {
+    this.entries = readCentralDirectory(filePath);
+  }
+
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entries.find(entry => entry.name === name);
+  }
+
+  /**
+   * Stream an entry's uncompressed contents
+   */
+  openStream(entry: ZipEntry): Readable {
+    if (entry.encrypted) {
+      throw new Error(`${entry.name} is encrypted`);
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+    }
+
+    if (entry.compressedSize === 0) return Readable.from([]);
+
+    const dataStart = readDataOffset(this.filePath, entry);
+    const raw = fs.createReadStream(this.filePath, {
+      start: dataStart,
+      end: dataStart + entry.compressedSize - 1,
+    });
+
+    if (entry.method === METHOD_STORED) return raw;
+
+    const inflate = zlib.createInflateRaw();
+    raw.on('error', error => inflate.destroy(error));
+    return raw.pipe(inflate);
+  }
+
+  /**
+   * Read a whole entry as text (for small files such as playlists)
+   */
+  async readText(entry: ZipEntry): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.openStream(entry)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+}
+
+export function isZipFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.zip';
+}
+
+/**
+ * Path naming a file inside an archive, e.g. "my_spotify_data.zip!/MyData/Playlist1.json"
+ */
+export function archiveEntryPath(archivePath: string, entryName: string): string {
+  return `${archivePath}${ARCHIVE_SEPARATOR}${entryName}`;
+}
+
+/**
+ * Split a path made by archiveEntryPath; null for ordinary paths
+ */
+export function splitArchivePath(filePath: string): { archivePath: string; entryName: string } | null {
+  const index = filePath.toLowerCase().indexOf(`.zip${ARCHIVE_SEPARATOR}`);
+  if (index < 0) return null;
+
+  const archiveEnd = index + '.zip'.length;
+  return {
+    archivePath: filePath.slice(0, archiveEnd),
+    entryName: filePath.slice(archiveEnd + ARCHIVE_SEPARATOR.length),
+  };
+}
+
+function readCentralDirectory(filePath: string): ZipEntry[] {
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const tailSize = Math.min(fileSize, END_RECORD_SEARCH_BYTES);
+    const tail = Buffer.alloc(tailSize);
+    fs.readSync(fd, tail, 0, tailSize, fileSize - tailSize);
+
+    let endRecord = -1;
+    for (let i = tailSize - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        endRecord = i;
+        break;
+      }
+    }
+    if (endRecord < 0) {
+      throw new Error('Not a zip archive');
+    }
+
+    const entryCount = tail.readUInt16LE(endRecord + 10);
+    const directorySize = tail.readUInt32LE(endRecord + 12);
+    const directoryOffset = tail.readUInt32LE(endRecord + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('Zip64 archives are not supported; extract the archive first');
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    fs.readSync(fd, directory, 0, directorySize, directoryOffset);
+
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt zip central directory');
+      }
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      if (!name.endsWith('/')) {
+        const entry: ZipEntry = {
+          name,
+          size: directory.readUInt32LE(offset + 24),
+          compressedSize: directory.readUInt32LE(offset + 20),
+          method: directory.readUInt16LE(offset + 10),
+          encrypted: (flags & 0x1) !== 0,
+          localHeaderOffset: directory.readUInt32LE(offset + 42),
+        };
+        if (entry.size === 0xffffffff || entry.compressedSize === 0xffffffff || entry.localHeaderOffset === 0xffffffff) {
+          throw new Error('Zip64 archives are not supported; extract the archive first');
+        }
+        entries.push(entry);
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Where an entry's data starts; the local header's name and extra field
+ * lengths can differ from the central directory's
+ */
+function readDataOffset(filePath: string, entry: ZipEntry): number {
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    const header = Buffer.alloc(30);
+    fs.readSync(fd, header, 0, 30, entry.localHeaderOffset);
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry: ${entry.name}`);
+    }
+
+    return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -3,8 +3,10 @@
  *
  * Features:
  * - Import Spotify data export (streaming history, liked tracks, playlists)
+ * - Import Last.fm scrobble history, merged with Spotify history
+ * - Import ListenBrainz, Apple Music and YouTube Music history, with export auto-detection
  * - Audio features enrichment (tempo, key, danceability, energy, valence)
- * - ISRC metadata matching for local files
+ * - ISRC metadata matching for local files, with a review queue for uncertain matches
  * - Playlist discovery from 6.6M curated playlists
  */
 
@@ -26,7 +28,20 @@ export {
   IsrcMatcher,
   getIsrcMatcher,
   type LocalTrackInfo,
+  type MatchOptions,
   type MatchResult,
+  MatchReviewDatabase,
+  getMatchReviewDatabase,
+  closeMatchReviewDatabase,
+  parseTitle,
+  parseTrack,
+  splitArtists,
+  normalizeText,
+  transliterate,
+  loadKanjiReadings,
+  type ParsedTitle,
+  type ParsedTrack,
+  type VersionQualifier,
 } from './database';
 
 // Import
@@ -34,6 +49,25 @@ export {
   HistoryParser,
   getHistoryParser,
   type HistoryParseResult,
+  type HistoryInput,
+  LastfmParser,
+  getLastfmParser,
+  ListenBrainzParser,
+  getListenBrainzParser,
+  AppleMusicParser,
+  getAppleMusicParser,
+  YouTubeMusicParser,
+  getYouTubeMusicParser,
+  mergeHistory,
+  historyKey,
+  detectExport,
+  detectFile,
+  JsonArrayStream,
+  ZipArchive,
+  type ZipEntry,
+  isZipFile,
+  archiveEntryPath,
+  splitArchivePath,
   LibraryParser,
   getLibraryParser,
   type LibraryParseResult,
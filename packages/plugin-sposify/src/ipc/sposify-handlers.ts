@@ -10,11 +10,16 @@ import { getSposifyDatabase, closeSposifyDatabase } from '../database/sposify-db
 import { getPlaylistDatabase } from '../database/playlist-db';
 import { getAudioFeaturesDatabase } from '../database/audio-features-db';
 import { getIsrcMatcher, type LocalTrackInfo } from '../database/isrc-matcher';
+import { getMatchReviewDatabase, closeMatchReviewDatabase } from '../database/match-review-db';
+import { loadKanjiReadings } from '../database/track-normalizer';
 import { getSpotifyImportService, type ImportProgress } from '../import/spotify-import-service';
+import { detectExport } from '../import/export-detector';
 import type { SetupProgress } from '../database/database-setup';
 import type {
   DatabaseStatus,
   AudioFeatures,
+  MoodLabelQuery,
+  SpotifyMoodLabel,
   PlaylistPreview,
   PlaylistDetail,
   PlaylistSearchOptions,
@@ -22,8 +27,11 @@ import type {
   ImportResult,
   ParsedSpotifyData,
   MatchedTrack,
-  MatchedHistoryEntry,
   MatchedPlaylist,
+  DetectedExport,
+  MatchCandidate,
+  MatchReviewItem,
+  MatchReviewStatus,
 } from '../types';
 
 let mainWindow: BrowserWindow | null = null;
@@ -62,6 +70,8 @@ export function registerSposifyHandlers(userDataPath: string): void {
     fs.mkdirSync(dbPath, { recursive: true });
   }
 
+  getMatchReviewDatabase().initialize(userDataPath);
+
   // ============================================================================
   // Database Management
   // ============================================================================
@@ -69,9 +79,12 @@ export function registerSposifyHandlers(userDataPath: string): void {
   ipcMain.handle('sposify:init', async (): Promise<DatabaseStatus> => {
     try {
       const db = getSposifyDatabase();
-      return await db.initialize(userDataPath, {
-        onProgress: sendSetupProgress,
-      });
+      // Loads alongside the database, so matching reads kanji from the start
+      const [status] = await Promise.all([
+        db.initialize(userDataPath, { onProgress: sendSetupProgress }),
+        loadKanjiReadings(),
+      ]);
+      return status;
     } catch (error) {
       console.error('[Sposify] Init error:', error);
       return {
@@ -131,10 +144,10 @@ export function registerSposifyHandlers(userDataPath: string): void {
 
   ipcMain.handle('sposify:select-export-files', async (): Promise<string[] | null> => {
     const result = await dialog.showOpenDialog({
-      title: 'Select Spotify Export Files',
+      title: 'Select Listening History Export Files',
       properties: ['openFile', 'multiSelections'],
       filters: [
-        { name: 'JSON Files', extensions: ['json'] },
+        { name: 'Export Files', extensions: ['json', 'jsonl', 'csv', 'zip'] },
         { name: 'All Files', extensions: ['*'] },
       ],
     });
@@ -145,7 +158,7 @@ export function registerSposifyHandlers(userDataPath: string): void {
 
   ipcMain.handle('sposify:select-export-folder', async (): Promise<string | null> => {
     const result = await dialog.showOpenDialog({
-      title: 'Select Spotify Export Folder',
+      title: 'Select Export Folder',
       properties: ['openDirectory'],
     });
 
@@ -162,7 +175,7 @@ export function registerSposifyHandlers(userDataPath: string): void {
     filePaths: string[]
   ): Promise<ParsedSpotifyData> => {
     const importService = getSpotifyImportService();
-    return importService.parseExportFiles(filePaths);
+    return importService.parseExportFiles(filePaths, { onProgress: sendProgress });
   });
 
   ipcMain.handle('sposify:parse-export-folder', async (
@@ -170,7 +183,14 @@ export function registerSposifyHandlers(userDataPath: string): void {
     folderPath: string
   ): Promise<ParsedSpotifyData> => {
     const importService = getSpotifyImportService();
-    return importService.parseExportDirectory(folderPath);
+    return importService.parseExportDirectory(folderPath, { onProgress: sendProgress });
+  });
+
+  ipcMain.handle('sposify:detect-export', (
+    _event: IpcMainInvokeEvent,
+    paths: string[] | string
+  ): DetectedExport => {
+    return detectExport(Array.isArray(paths) ? paths : [paths]);
   });
 
   ipcMain.handle('sposify:match-tracks', async (
@@ -185,7 +205,7 @@ export function registerSposifyHandlers(userDataPath: string): void {
     }));
 
     const result = importService.matchParsedData({
-      history: [],
+      historyHandle: null,
       likedTracks: normalized,
       playlists: [],
       bannedTracks: [],
@@ -211,7 +231,7 @@ export function registerSposifyHandlers(userDataPath: string): void {
     _event: IpcMainInvokeEvent,
     data: {
       matchedLikedTracks?: MatchedTrack[];
-      matchedHistory?: MatchedHistoryEntry[];
+      historyHandle?: string | null;
       matchedPlaylists?: MatchedPlaylist[];
       options: ImportOptions;
     }
@@ -224,7 +244,7 @@ export function registerSposifyHandlers(userDataPath: string): void {
       data.options,
       {
         matchedLikedTracks: data.matchedLikedTracks || [],
-        matchedHistory: data.matchedHistory || [],
+        historyHandle: data.historyHandle,
         matchedPlaylists: data.matchedPlaylists || [],
       },
       {
@@ -271,6 +291,14 @@ export function registerSposifyHandlers(userDataPath: string): void {
     return audioDb.getByMetadata(title, artist);
   });
 
+  ipcMain.handle('sposify:get-mood-labels', (
+    _event: IpcMainInvokeEvent,
+    queries: MoodLabelQuery[]
+  ): Record<string, SpotifyMoodLabel> => {
+    const audioDb = getAudioFeaturesDatabase();
+    return audioDb.getMoodLabels(queries);
+  });
+
   ipcMain.handle('sposify:find-similar-by-features', (
     _event: IpcMainInvokeEvent,
     features: AudioFeatures,
@@ -292,12 +320,12 @@ export function registerSposifyHandlers(userDataPath: string): void {
       localId: string;
       spotifyId: string;
       confidence: number;
-      matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy';
+      matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy' | 'review';
     }>;
     unmatched: string[];
   } => {
     const matcher = getIsrcMatcher();
-    const result = matcher.matchTracks(tracks);
+    const result = matcher.matchTracks(tracks, undefined, { libraryTracks: true });
 
     return {
       matches: result.matches.map(m => ({
@@ -325,12 +353,19 @@ export function registerSposifyHandlers(userDataPath: string): void {
     const db = getSposifyDatabase();
     const audioDb = getAudioFeaturesDatabase();
 
-    const track = db.getTrackById(spotifyId);
+    // The user's review decision for this track overrides the caller's match
+    const decision = getMatchReviewDatabase().getDecisionByLocalId(localTrackId);
+    if (decision?.status === 'rejected') {
+      return { success: false };
+    }
+    const linkedId = decision?.spotifyId ?? spotifyId;
+
+    const track = db.getTrackById(linkedId);
     if (!track) {
       return { success: false };
     }
 
-    const audioFeatures = audioDb.getBySpotifyId(spotifyId);
+    const audioFeatures = audioDb.getBySpotifyId(linkedId);
     const genres = track.genres ? JSON.parse(track.genres) : undefined;
 
     return {
@@ -339,13 +374,73 @@ export function registerSposifyHandlers(userDataPath: string): void {
         genres,
         audioFeatures: audioFeatures || undefined,
         externalIds: {
-          spotify: spotifyId,
+          spotify: linkedId,
           isrc: track.isrc || undefined,
         },
       },
     };
   });
 
+  // ============================================================================
+  // Match Review
+  // ============================================================================
+
+  ipcMain.handle('sposify:review-list', (
+    _event: IpcMainInvokeEvent,
+    options?: { status?: MatchReviewStatus; limit?: number; offset?: number }
+  ): { items: MatchReviewItem[]; total: number; counts: Record<MatchReviewStatus, number> } => {
+    const reviewDb = getMatchReviewDatabase();
+    return {
+      ...reviewDb.list(options),
+      counts: reviewDb.getCounts(),
+    };
+  });
+
+  ipcMain.handle('sposify:review-accept', (
+    _event: IpcMainInvokeEvent,
+    trackKey: string,
+    spotifyId?: string
+  ): MatchReviewItem | null => {
+    if (spotifyId !== undefined && !getSposifyDatabase().getTrackById(spotifyId)) {
+      return null;
+    }
+    return getMatchReviewDatabase().accept(trackKey, spotifyId);
+  });
+
+  ipcMain.handle('sposify:review-reject', (
+    _event: IpcMainInvokeEvent,
+    trackKey: string
+  ): MatchReviewItem | null => {
+    return getMatchReviewDatabase().reject(trackKey);
+  });
+
+  ipcMain.handle('sposify:review-reopen', (
+    _event: IpcMainInvokeEvent,
+    trackKey: string
+  ): MatchReviewItem | null => {
+    return getMatchReviewDatabase().reopen(trackKey);
+  });
+
+  ipcMain.handle('sposify:review-search', (
+    _event: IpcMainInvokeEvent,
+    title: string,
+    artist: string,
+    limit: number = 10
+  ): MatchCandidate[] => {
+    return getIsrcMatcher().getCandidates({ title, artist }, limit);
+  });
+
+  ipcMain.handle('sposify:review-link', (
+    _event: IpcMainInvokeEvent,
+    trackKey: string,
+    spotifyId: string
+  ): MatchReviewItem | null => {
+    if (!getSposifyDatabase().getTrackById(spotifyId)) {
+      return null;
+    }
+    return getMatchReviewDatabase().link(trackKey, spotifyId);
+  });
+
   // ============================================================================
   // Playlist Discovery
   // ============================================================================
@@ -431,6 +526,7 @@ export function registerSposifyHandlers(userDataPath: string): void {
     config: {
       minMatchConfidence?: number;
       enableFuzzyMatching?: boolean;
+      reviewThreshold?: number;
       maxCacheSize?: number;
     }
   ): void => {
@@ -443,6 +539,9 @@ export function registerSposifyHandlers(userDataPath: string): void {
     if (config.enableFuzzyMatching !== undefined) {
       matcher.setFuzzyMatchingEnabled(config.enableFuzzyMatching);
     }
+    if (config.reviewThreshold !== undefined) {
+      matcher.setReviewThreshold(config.reviewThreshold);
+    }
     if (config.maxCacheSize !== undefined) {
       audioDb.setMaxCacheSize(config.maxCacheSize * 100); // Convert MB to entries approx
     }
@@ -469,15 +568,23 @@ export function unregisterSposifyHandlers(): void {
     'sposify:select-export-folder',
     'sposify:parse-export',
     'sposify:parse-export-folder',
+    'sposify:detect-export',
     'sposify:match-tracks',
     'sposify:import-to-library',
     'sposify:get-audio-features',
     'sposify:get-audio-features-batch',
     'sposify:get-features-by-isrc',
     'sposify:get-features-by-metadata',
+    'sposify:get-mood-labels',
     'sposify:find-similar-by-features',
     'sposify:match-by-metadata',
     'sposify:enrich-track',
+    'sposify:review-list',
+    'sposify:review-accept',
+    'sposify:review-reject',
+    'sposify:review-reopen',
+    'sposify:review-search',
+    'sposify:review-link',
     'sposify:search-playlists',
     'sposify:browse-playlists',
     'sposify:get-playlist',
@@ -494,6 +601,8 @@ export function unregisterSposifyHandlers(): void {
     ipcMain.removeHandler(channel);
   }
 
+  getSpotifyImportService().releaseHistory();
   closeSposifyDatabase();
+  closeMatchReviewDatabase();
   console.log('[Sposify] IPC handlers unregistered');
 }
@@ -0,0 +1,20 @@
+/**
+ * Types for Apple Music privacy data exports
+ * "Apple Music Play Activity.csv"; column names as in the export header
+ */
+
+export interface AppleMusicPlayActivityRow {
+  'Song Name'?: string;
+  'Content Name'?: string;
+  'Artist Name'?: string;
+  'Container Artist Name'?: string;
+  'Album Name'?: string;
+  'Container Album Name'?: string;
+  'Event Type'?: string;
+  'Event Start Timestamp'?: string;
+  'Event End Timestamp'?: string;
+  'End Reason Type'?: string;
+  'Media Type'?: string;
+  'Play Duration Milliseconds'?: string;
+  'Media Duration In Milliseconds'?: string;
+}
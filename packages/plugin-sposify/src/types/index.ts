@@ -4,3 +4,7 @@
 
 export * from './spotify-export';
 export * from './sposify-db';
+export * from './lastfm-export';
+export * from './listenbrainz-export';
+export * from './apple-music-export';
+export * from './youtube-export';
@@ -0,0 +1,34 @@
+/**
+ * Types for Last.fm scrobble exports
+ * Last.fm has no official export; these match the dumps of common export tools
+ */
+
+// A track from user.getRecentTracks, as saved by API-based backup tools
+export interface LastfmApiTrack {
+  name: string;
+  artist: { '#text'?: string; name?: string; mbid?: string } | string;
+  album?: { '#text'?: string; mbid?: string } | string;
+  date?: { uts: string; '#text'?: string };
+  mbid?: string;
+  '@attr'?: { nowplaying?: string };
+}
+
+// One page of user.getRecentTracks
+export interface LastfmApiPage {
+  recenttracks: {
+    track: LastfmApiTrack[];
+  };
+}
+
+// Flat scrobble record written by CSV/JSON export tools
+export interface LastfmFlatScrobble {
+  artist?: string;
+  track?: string;
+  name?: string;
+  title?: string;
+  album?: string;
+  /** Unix seconds or milliseconds, or a date string */
+  date?: string | number;
+  timestamp?: string | number;
+  uts?: string | number;
+}
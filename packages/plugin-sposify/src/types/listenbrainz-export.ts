@@ -0,0 +1,22 @@
+/**
+ * Types for ListenBrainz listen exports
+ * Older exports are one JSON array; newer ones are JSON Lines files per month
+ */
+
+export interface ListenBrainzListen {
+  /** Unix seconds */
+  listened_at: number;
+  recording_msid?: string;
+  track_metadata: {
+    artist_name: string;
+    track_name: string;
+    release_name?: string;
+    additional_info?: {
+      duration_ms?: number;
+      duration?: number;
+      spotify_id?: string;
+      isrc?: string;
+      [key: string]: unknown;
+    };
+  };
+}
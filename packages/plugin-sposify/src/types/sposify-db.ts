@@ -160,11 +160,69 @@ export interface TrackSearchOptions {
   minPopularity?: number;
 }
 
-// Match result
+// Match result ('review' when the user picked the track in the match review queue)
 export interface TrackMatch {
   localId: string;
   spotifyId: string;
   confidence: number;
-  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy';
+  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy' | 'review';
   track: TrackInfo;
 }
+
+// Match review queue record (writable user database)
+export interface DbMatchReview {
+  track_key: string;
+  local_id: string | null;
+  title: string;
+  artist: string;
+  album: string | null;
+  status: MatchReviewStatus;
+  candidates: string; // JSON array of MatchCandidate
+  spotify_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * pending: waiting for the user; accepted: linked to spotifyId;
+ * rejected: no track in the database is a match
+ */
+export type MatchReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface MatchCandidate {
+  spotifyId: string;
+  confidence: number;
+  track: TrackInfo;
+}
+
+export interface MatchReviewItem {
+  /** Normalized artist and title; the same track in later imports has the same key */
+  trackKey: string;
+  /** Library track ID, when the track came from the local library */
+  localId: string | null;
+  title: string;
+  artist: string;
+  album: string | null;
+  status: MatchReviewStatus;
+  /** Best candidates, most likely first */
+  candidates: MatchCandidate[];
+  /** Linked track once accepted */
+  spotifyId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Mood label lookup (weak labels for emotion model training)
+export interface MoodLabelQuery {
+  /** Caller's track ID, used to key the result */
+  id: string;
+  spotifyId?: string;
+  isrc?: string;
+  title?: string;
+  artist?: string;
+}
+
+export interface SpotifyMoodLabel {
+  valence: number; // 0.0-1.0
+  energy: number; // 0.0-1.0
+}
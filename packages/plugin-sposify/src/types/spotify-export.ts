@@ -100,7 +100,8 @@ export interface SpotifyPlaylistItem {
 
 // Parsed and normalized data
 export interface ParsedSpotifyData {
-  history: NormalizedHistoryEntry[];
+  /** Parsed history, kept in the main process for the import; null when there is none */
+  historyHandle: string | null;
   likedTracks: NormalizedTrack[];
   playlists: NormalizedPlaylist[];
   bannedTracks: NormalizedTrack[];
@@ -112,9 +113,23 @@ export interface ParsedSpotifyData {
     dateRange: { start: string; end: string } | null;
     likedTracksCount: number;
     playlistsCount: number;
+    /** Plays dropped because a source merged earlier already has them */
+    duplicatePlays?: number;
+    /** History entries kept per source */
+    sources?: Partial<Record<HistorySource, number>>;
   };
 }
 
+export type HistorySource = 'spotify' | 'lastfm' | 'listenbrainz' | 'applemusic' | 'youtube';
+
+// Export files found in a selection, by the service that produced them
+export interface DetectedExport {
+  sources: HistorySource[];
+  files: Partial<Record<HistorySource, string[]>>;
+  /** Files no parser recognised */
+  unrecognized: string[];
+}
+
 export interface NormalizedHistoryEntry {
   trackName: string;
   artistName: string;
@@ -123,6 +138,8 @@ export interface NormalizedHistoryEntry {
   msPlayed: number;
   spotifyUri?: string;
   skipped?: boolean;
+  /** Where the entry came from (Spotify when absent) */
+  source?: HistorySource;
 }
 
 export interface NormalizedTrack {
@@ -152,7 +169,7 @@ export interface MatchedTrack {
   spotifyId: string;
   isrc?: string;
   confidence: number;
-  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy';
+  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy' | 'review';
   audioFeatures?: AudioFeatures;
 }
 
@@ -0,0 +1,17 @@
+/**
+ * Types for Google Takeout YouTube exports
+ * watch-history.json, which holds both YouTube and YouTube Music plays
+ */
+
+export interface YouTubeWatchHistoryEntry {
+  /** "YouTube Music" for music plays */
+  header: string;
+  /** "Watched <title>" */
+  title: string;
+  titleUrl?: string;
+  /** Channel; "<Artist> - Topic" for auto-generated music channels */
+  subtitles?: Array<{ name: string; url?: string }>;
+  /** ISO timestamp */
+  time: string;
+  products?: string[];
+}
@@ -4,11 +4,15 @@
  */
 
 import React from 'react';
-import type { ImportPhase } from '../stores/sposify-store';
+import type { ImportPhase, HistorySource } from '../stores/sposify-store';
 
 interface ImportProgressProps {
   phase: ImportPhase;
   progress: number;
+  /** History source currently being parsed, matched or imported */
+  source?: HistorySource | null;
+  /** Bytes read while streaming large history files */
+  bytes?: { read: number; total: number } | null;
   error: string | null;
 }
 
@@ -23,9 +27,19 @@ const phaseLabels: Record<ImportPhase, string> = {
   error: 'Error',
 };
 
+export const sourceLabels: Record<HistorySource, string> = {
+  spotify: 'Spotify',
+  lastfm: 'Last.fm',
+  listenbrainz: 'ListenBrainz',
+  applemusic: 'Apple Music',
+  youtube: 'YouTube Music',
+};
+
 export const ImportProgress: React.FC<ImportProgressProps> = ({
   phase,
   progress,
+  source,
+  bytes,
   error,
 }) => {
   const percentage = Math.round(progress * 100);
@@ -55,15 +69,23 @@ export const ImportProgress: React.FC<ImportProgressProps> = ({
         <div className="spinner"></div>
       </div>
       <h3>{phaseLabels[phase]}</h3>
+      {source && <p className="progress-source">{sourceLabels[source]}</p>}
       <div className="progress-bar-container">
         <div
           className="progress-bar-fill"
           style={{ width: `${percentage}%` }}
         />
       </div>
-      <span className="progress-percentage">{percentage}%</span>
+      <span className="progress-percentage">
+        {percentage}%
+        {bytes && ` (${formatMegabytes(bytes.read)} of ${formatMegabytes(bytes.total)} MB)`}
+      </span>
     </div>
   );
 };
 
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
 export default ImportProgress;
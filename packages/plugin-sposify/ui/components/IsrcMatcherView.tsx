@@ -20,7 +20,7 @@ interface MatchResult {
   localId: string;
   spotifyId: string | null;
   confidence: number;
-  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy' | 'none';
+  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy' | 'review' | 'none';
   spotifyTitle?: string;
   spotifyArtist?: string;
 }
@@ -52,6 +52,7 @@ export const IsrcMatcherView: React.FC<IsrcMatcherViewProps> = ({
     exact: matchResults.filter((r) => r.matchedBy === 'exact').length,
     normalized: matchResults.filter((r) => r.matchedBy === 'normalized').length,
     fuzzy: matchResults.filter((r) => r.matchedBy === 'fuzzy').length,
+    review: matchResults.filter((r) => r.matchedBy === 'review').length,
     none: matchResults.filter((r) => r.matchedBy === 'none').length,
     total: matchResults.length,
     matchRate:
@@ -167,6 +168,8 @@ export const IsrcMatcherView: React.FC<IsrcMatcherViewProps> = ({
         return 'Normalized';
       case 'fuzzy':
         return 'Fuzzy';
+      case 'review':
+        return 'Reviewed';
       default:
         return 'No Match';
     }
@@ -223,6 +226,10 @@ export const IsrcMatcherView: React.FC<IsrcMatcherViewProps> = ({
             <span className="stat-value">{matchStats.fuzzy}</span>
             <span className="stat-label">Fuzzy</span>
           </div>
+          <div className="stat-item review">
+            <span className="stat-value">{matchStats.review}</span>
+            <span className="stat-label">Reviewed</span>
+          </div>
           <div className="stat-item none">
             <span className="stat-value">{matchStats.none}</span>
             <span className="stat-label">Unmatched</span>
@@ -0,0 +1,283 @@
+/**
+ * MatchReviewView Component
+ * Review queue for tracks the ISRC matcher was unsure about
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSposifyStore } from '../stores';
+import './MatchReviewView.css';
+
+type ReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+interface ReviewCandidate {
+  spotifyId: string;
+  confidence: number;
+  track: {
+    spotifyId: string;
+    title: string;
+    artistName: string;
+    albumName: string | null;
+  };
+}
+
+interface ReviewItem {
+  trackKey: string;
+  localId: string | null;
+  title: string;
+  artist: string;
+  album: string | null;
+  status: ReviewStatus;
+  candidates: ReviewCandidate[];
+  spotifyId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const PAGE_SIZE = 50;
+
+export const MatchReviewView: React.FC = () => {
+  const { databaseReady } = useSposifyStore();
+
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<Record<ReviewStatus, number>>({ pending: 0, accepted: 0, rejected: 0 });
+  const [page, setPage] = useState(0);
+  const [searchKey, setSearchKey] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState({ title: '', artist: '' });
+  const [searchResults, setSearchResults] = useState<ReviewCandidate[]>([]);
+
+  const loadItems = useCallback(async () => {
+    try {
+      const result = await window.api.sposify.reviewList({
+        status,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      });
+      setItems(result.items);
+      setTotal(result.total);
+      setCounts(result.counts);
+    } catch (error) {
+      console.error('[MatchReview] Failed to load review queue:', error);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    if (databaseReady) loadItems();
+  }, [databaseReady, loadItems]);
+
+  const runDecision = async (decision: () => Promise<ReviewItem | null>) => {
+    try {
+      await decision();
+      setSearchKey(null);
+      setSearchResults([]);
+      await loadItems();
+    } catch (error) {
+      console.error('[MatchReview] Failed to save decision:', error);
+    }
+  };
+
+  const openSearch = (item: ReviewItem) => {
+    setSearchKey(item.trackKey);
+    setSearchQuery({ title: item.title, artist: item.artist });
+    setSearchResults([]);
+  };
+
+  const runSearch = async () => {
+    try {
+      const results = await window.api.sposify.reviewSearch(searchQuery.title, searchQuery.artist, 10);
+      setSearchResults(results);
+    } catch (error) {
+      console.error('[MatchReview] Search failed:', error);
+    }
+  };
+
+  const changeStatus = (next: ReviewStatus) => {
+    setStatus(next);
+    setPage(0);
+    setSearchKey(null);
+  };
+
+  const renderCandidate = (item: ReviewItem, candidate: ReviewCandidate, link: boolean) => (
+    <div key={candidate.spotifyId} className="review-candidate">
+      <div className="candidate-info">
+        <span className="candidate-title">{candidate.track.title}</span>
+        <span className="candidate-artist">
+          {candidate.track.artistName}
+          {candidate.track.albumName ? ` · ${candidate.track.albumName}` : ''}
+        </span>
+      </div>
+      <span className="candidate-confidence">{Math.round(candidate.confidence * 100)}%</span>
+      <button
+        className="secondary-btn"
+        onClick={() =>
+          runDecision(() =>
+            link
+              ? window.api.sposify.reviewLink(item.trackKey, candidate.spotifyId)
+              : window.api.sposify.reviewAccept(item.trackKey, candidate.spotifyId)
+          )
+        }
+      >
+        {link ? 'Link' : 'Accept'}
+      </button>
+    </div>
+  );
+
+  if (!databaseReady) {
+    return (
+      <div className="sposify-match-review">
+        <div className="review-empty-state">
+          <h3>Database Not Ready</h3>
+          <p>Please wait for the Sposify database to initialize.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="sposify-match-review">
+      <header className="review-header">
+        <h2>Match Review</h2>
+        <div className="review-status-tabs">
+          {(['pending', 'accepted', 'rejected'] as const).map((value) => (
+            <button
+              key={value}
+              className={`review-status-tab ${status === value ? 'active' : ''}`}
+              onClick={() => changeStatus(value)}
+            >
+              {value.charAt(0).toUpperCase() + value.slice(1)} ({counts[value]})
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="review-list">
+        {items.length === 0 && (
+          <div className="review-empty-state">
+            <p>
+              {status === 'pending'
+                ? 'Nothing to review. Uncertain matches from imports and the ISRC matcher appear here.'
+                : `No ${status} tracks.`}
+            </p>
+          </div>
+        )}
+
+        {items.map((item) => {
+          const linked = item.candidates.find((c) => c.spotifyId === item.spotifyId);
+
+          return (
+            <div key={item.trackKey} className="review-item">
+              <div className="review-item-header">
+                <div className="track-info">
+                  <span className="track-title">{item.title}</span>
+                  <span className="track-artist">
+                    {item.artist}
+                    {item.album ? ` · ${item.album}` : ''}
+                  </span>
+                </div>
+
+                <div className="review-actions">
+                  {item.status === 'pending' ? (
+                    <>
+                      <button className="secondary-btn" onClick={() => openSearch(item)}>
+                        Search
+                      </button>
+                      <button
+                        className="secondary-btn danger"
+                        onClick={() => runDecision(() => window.api.sposify.reviewReject(item.trackKey))}
+                      >
+                        No Match
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      className="secondary-btn"
+                      onClick={() => runDecision(() => window.api.sposify.reviewReopen(item.trackKey))}
+                    >
+                      Undo
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {item.status === 'pending' &&
+                item.candidates.map((candidate) => renderCandidate(item, candidate, false))}
+
+              {item.status === 'pending' && item.candidates.length === 0 && searchKey !== item.trackKey && (
+                <p className="review-note">No candidates found. Search to link a track manually.</p>
+              )}
+
+              {item.status === 'accepted' && (
+                <p className="review-note">
+                  Linked to {linked ? `${linked.track.title} - ${linked.track.artistName}` : item.spotifyId}
+                </p>
+              )}
+
+              {searchKey === item.trackKey && (
+                <div className="review-search">
+                  <div className="review-search-form">
+                    <input
+                      type="text"
+                      placeholder="Title"
+                      value={searchQuery.title}
+                      onChange={(e) => setSearchQuery({ ...searchQuery, title: e.target.value })}
+                    />
+                    <input
+                      type="text"
+                      placeholder="Artist"
+                      value={searchQuery.artist}
+                      onChange={(e) => setSearchQuery({ ...searchQuery, artist: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && runSearch()}
+                    />
+                    <button className="primary-btn" onClick={runSearch}>
+                      Search
+                    </button>
+                  </div>
+                  {searchResults.map((candidate) => renderCandidate(item, candidate, true))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="review-pagination">
+          <button className="secondary-btn" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <button className="secondary-btn" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Add window.api type extension
+declare global {
+  interface Window {
+    api: {
+      sposify: Window['api']['sposify'] & {
+        reviewList: (options?: {
+          status?: ReviewStatus;
+          limit?: number;
+          offset?: number;
+        }) => Promise<{ items: ReviewItem[]; total: number; counts: Record<ReviewStatus, number> }>;
+        reviewAccept: (trackKey: string, spotifyId?: string) => Promise<ReviewItem | null>;
+        reviewReject: (trackKey: string) => Promise<ReviewItem | null>;
+        reviewReopen: (trackKey: string) => Promise<ReviewItem | null>;
+        reviewSearch: (title: string, artist: string, limit?: number) => Promise<ReviewCandidate[]>;
+        reviewLink: (trackKey: string, spotifyId: string) => Promise<ReviewItem | null>;
+      };
+    };
+  }
+}
+
+export default MatchReviewView;
@@ -10,9 +10,10 @@ import { SposifyWizard } from './SposifyWizard';
 import { PlaylistBrowser } from './PlaylistBrowser';
 import { AudioFeaturesPanel } from './AudioFeaturesPanel';
 import { IsrcMatcherView } from './IsrcMatcherView';
+import { MatchReviewView } from './MatchReviewView';
 import './SposifyView.css';
 
-type SposifyTab = 'import' | 'playlists' | 'features' | 'matcher';
+type SposifyTab = 'import' | 'playlists' | 'features' | 'matcher' | 'review';
 
 export const SposifyView: React.FC = () => {
   const [activeTab, setActiveTab] = useState<SposifyTab>('import');
@@ -77,6 +78,12 @@ export const SposifyView: React.FC = () => {
         >
           ISRC Matcher
         </button>
+        <button
+          className={`sposify-tab ${activeTab === 'review' ? 'active' : ''}`}
+          onClick={() => setActiveTab('review')}
+        >
+          Match Review
+        </button>
       </div>
 
       <div className="sposify-tab-content">
@@ -99,6 +106,7 @@ export const SposifyView: React.FC = () => {
         {activeTab === 'playlists' && <PlaylistBrowser />}
         {activeTab === 'features' && <AudioFeaturesPanel />}
         {activeTab === 'matcher' && <IsrcMatcherView />}
+        {activeTab === 'review' && <MatchReviewView />}
       </div>
 
       {wizardOpen && <SposifyWizard onClose={closeWizard} />}
@@ -6,11 +6,12 @@
 import React from 'react';
 import { useSposifyStore } from '../stores/sposify-store';
 import { FileDropZone } from './FileDropZone';
-import { ImportProgress } from './ImportProgress';
+import { ImportProgress, sourceLabels } from './ImportProgress';
+import type { DetectedExport } from '../stores/sposify-store';
 import './SposifyWizard.css';
 
 const WIZARD_STEPS = [
-  { title: 'Welcome', description: 'Import your Spotify data' },
+  { title: 'Welcome', description: 'Import your listening data' },
   { title: 'Select Files', description: 'Choose your export files' },
   { title: 'Options', description: 'Configure import settings' },
   { title: 'Preview', description: 'Review matched tracks' },
@@ -24,9 +25,12 @@ export const SposifyWizard: React.FC = () => {
     wizardStep,
     importPhase,
     importProgress,
+    importSource,
+    importBytes,
     importError,
     selectedFiles,
     selectedFolder,
+    detectedExport,
     parsedData,
     matchedLikedTracks,
     unmatchedLikedTracks,
@@ -98,6 +102,7 @@ export const SposifyWizard: React.FC = () => {
           <FileSelectionStep
             selectedFiles={selectedFiles}
             selectedFolder={selectedFolder}
+            detectedExport={detectedExport}
             onSelectFiles={selectFiles}
             onSelectFolder={selectFolder}
             onClear={clearSelection}
@@ -124,6 +129,8 @@ export const SposifyWizard: React.FC = () => {
           <ImportProgress
             phase={importPhase}
             progress={importProgress}
+            source={importSource}
+            bytes={importBytes}
             error={importError}
           />
         );
@@ -199,7 +206,7 @@ const WelcomeStep: React.FC = () => (
     <h3>Import Your Spotify Data</h3>
     <p>
       Sposify lets you import your Spotify listening history, liked songs, and playlists
-      into Audiio. Your data will be matched against our database of 1 million tracks to
+      into Audiio, along with history from Last.fm, ListenBrainz, Apple Music and YouTube Music. Your data will be matched against our database of 1 million tracks to
       enrich your library with audio features and personalize your recommendations.
     </p>
     <div className="sposify-features">
@@ -235,6 +242,7 @@ const WelcomeStep: React.FC = () => (
 interface FileSelectionStepProps {
   selectedFiles: string[];
   selectedFolder: string | null;
+  detectedExport: DetectedExport | null;
   onSelectFiles: () => void;
   onSelectFolder: () => void;
   onClear: () => void;
@@ -243,13 +251,14 @@ interface FileSelectionStepProps {
 const FileSelectionStep: React.FC<FileSelectionStepProps> = ({
   selectedFiles,
   selectedFolder,
+  detectedExport,
   onSelectFiles,
   onSelectFolder,
   onClear,
 }) => (
   <div className="sposify-step-content file-selection">
-    <h3>Select Your Spotify Export</h3>
-    <p>Choose either individual JSON files or the entire export folder.</p>
+    <h3>Select Your Export</h3>
+    <p>Choose either individual export files or the entire export folder.</p>
 
     <FileDropZone
       selectedFiles={selectedFiles}
@@ -259,12 +268,34 @@ const FileSelectionStep: React.FC<FileSelectionStepProps> = ({
       onClear={onClear}
     />
 
+    {detectedExport && (
+      <div className="sposify-file-types">
+        <h4>Detected:</h4>
+        {detectedExport.sources.length > 0 ? (
+          <ul>
+            {detectedExport.sources.map((source) => (
+              <li key={source}>
+                {sourceLabels[source]} - {detectedExport.files[source]?.length ?? 0} file(s)
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>No supported export files found in this selection.</p>
+        )}
+      </div>
+    )}
+
     <div className="sposify-file-types">
       <h4>Supported Files:</h4>
       <ul>
-        <li><code>StreamingHistory*.json</code> - Your listening history</li>
+        <li><code>my_spotify_data.zip</code> - The Spotify export as downloaded, no need to extract</li>
+        <li><code>StreamingHistory*.json</code> or <code>Streaming_History_Audio_*.json</code> - Your listening history</li>
         <li><code>YourLibrary.json</code> - Liked songs and saved albums</li>
         <li><code>Playlist*.json</code> - Your playlists</li>
+        <li><code>*.csv</code> or <code>scrobbles*.json</code> - Last.fm scrobble history</li>
+        <li><code>listens*.json</code> or <code>*.jsonl</code> - ListenBrainz listen history</li>
+        <li><code>Apple Music Play Activity.csv</code> - Apple Music play history</li>
+        <li><code>watch-history.json</code> - YouTube Music history from Google Takeout</li>
       </ul>
     </div>
   </div>
@@ -10,4 +10,5 @@ export { PlaylistBrowser } from './PlaylistBrowser';
 export { PlaylistCard } from './PlaylistCard';
 export { AudioFeaturesPanel } from './AudioFeaturesPanel';
 export { IsrcMatcherView } from './IsrcMatcherView';
+export { MatchReviewView } from './MatchReviewView';
 export { DatabaseSetup } from './DatabaseSetup';
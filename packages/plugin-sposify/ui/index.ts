@@ -14,6 +14,7 @@ export {
   PlaylistCard,
   AudioFeaturesPanel,
   IsrcMatcherView,
+  MatchReviewView,
   DatabaseSetup,
 } from './components';
 
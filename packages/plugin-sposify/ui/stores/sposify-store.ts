@@ -8,14 +8,8 @@ import { persist } from 'zustand/middleware';
 
 // Types for the store
 export interface ParsedSpotifyData {
-  history: Array<{
-    trackName: string;
-    artistName: string;
-    albumName?: string;
-    endTime: string;
-    msPlayed: number;
-    skipped?: boolean;
-  }>;
+  /** History stays in the main process; this refers to it for the import */
+  historyHandle: string | null;
   likedTracks: Array<{
     trackName: string;
     artistName: string;
@@ -42,9 +36,19 @@ export interface ParsedSpotifyData {
     dateRange: { start: string; end: string } | null;
     likedTracksCount: number;
     playlistsCount: number;
+    duplicatePlays?: number;
+    sources?: Partial<Record<HistorySource, number>>;
   };
 }
 
+export type HistorySource = 'spotify' | 'lastfm' | 'listenbrainz' | 'applemusic' | 'youtube';
+
+export interface DetectedExport {
+  sources: HistorySource[];
+  files: Partial<Record<HistorySource, string[]>>;
+  unrecognized: string[];
+}
+
 export interface MatchedTrack {
   original: {
     trackName: string;
@@ -54,7 +58,7 @@ export interface MatchedTrack {
   spotifyId: string;
   isrc?: string;
   confidence: number;
-  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy';
+  matchedBy: 'isrc' | 'exact' | 'normalized' | 'fuzzy' | 'review';
 }
 
 export interface MatchedPlaylist {
@@ -123,11 +127,16 @@ interface SposifyState {
   wizardStep: number;
   importPhase: ImportPhase;
   importProgress: number;
+  /** History source the current step is working on */
+  importSource: HistorySource | null;
+  /** Bytes read while streaming large history files */
+  importBytes: { read: number; total: number } | null;
   importError: string | null;
 
   // Selected files
   selectedFiles: string[];
   selectedFolder: string | null;
+  detectedExport: DetectedExport | null;
 
   // Parsed data
   parsedData: ParsedSpotifyData | null;
@@ -173,6 +182,7 @@ interface SposifyState {
   selectFiles: () => Promise<void>;
   selectFolder: () => Promise<void>;
   clearSelection: () => void;
+  detectSelection: () => Promise<void>;
 
   // Import flow
   parseSelectedFiles: () => Promise<void>;
@@ -221,10 +231,13 @@ export const useSposifyStore = create<SposifyState>()(
       wizardStep: 0,
       importPhase: 'idle',
       importProgress: 0,
+      importSource: null,
+      importBytes: null,
       importError: null,
 
       selectedFiles: [],
       selectedFolder: null,
+      detectedExport: null,
 
       parsedData: null,
 
@@ -296,9 +309,12 @@ export const useSposifyStore = create<SposifyState>()(
           wizardStep: 0,
           importPhase: 'idle',
           importProgress: 0,
+          importSource: null,
+          importBytes: null,
           importError: null,
           selectedFiles: [],
           selectedFolder: null,
+          detectedExport: null,
           parsedData: null,
           matchedLikedTracks: [],
           unmatchedLikedTracks: [],
@@ -331,6 +347,7 @@ export const useSposifyStore = create<SposifyState>()(
               selectedFolder: null,
               importPhase: 'idle',
             });
+            await get().detectSelection();
           } else {
             set({ importPhase: 'idle' });
           }
@@ -350,6 +367,7 @@ export const useSposifyStore = create<SposifyState>()(
               selectedFiles: [],
               importPhase: 'idle',
             });
+            await get().detectSelection();
           } else {
             set({ importPhase: 'idle' });
           }
@@ -363,15 +381,37 @@ export const useSposifyStore = create<SposifyState>()(
         set({
           selectedFiles: [],
           selectedFolder: null,
+          detectedExport: null,
           parsedData: null,
         });
       },
 
+      detectSelection: async () => {
+        const { selectedFolder, selectedFiles } = get();
+        try {
+          const detected = await window.api.sposify.detectExport(selectedFolder ?? selectedFiles);
+          set({ detectedExport: detected });
+        } catch (error) {
+          console.error('[Sposify] Export detection error:', error);
+          set({ detectedExport: null });
+        }
+      },
+
       // Import flow
       parseSelectedFiles: async () => {
         const state = get();
+        const unsubscribe = window.api.sposify.onImportProgress((progress) => {
+          set({
+            importProgress: progress.progress,
+            importSource: progress.source ?? null,
+            importBytes: progress.totalBytes
+              ? { read: progress.bytesRead ?? 0, total: progress.totalBytes }
+              : null,
+          });
+        });
+
         try {
-          set({ importPhase: 'parsing', importProgress: 0, importError: null });
+          set({ importPhase: 'parsing', importProgress: 0, importSource: null, importBytes: null, importError: null });
 
           let data: ParsedSpotifyData;
           if (state.selectedFolder) {
@@ -386,6 +426,8 @@ export const useSposifyStore = create<SposifyState>()(
             parsedData: data,
             importPhase: 'idle',
             importProgress: 1,
+            importSource: null,
+            importBytes: null,
           });
         } catch (error) {
           console.error('[Sposify] Parse error:', error);
@@ -393,6 +435,8 @@ export const useSposifyStore = create<SposifyState>()(
             importPhase: 'error',
             importError: error instanceof Error ? error.message : 'Failed to parse files',
           });
+        } finally {
+          unsubscribe();
         }
       },
 
@@ -433,12 +477,12 @@ export const useSposifyStore = create<SposifyState>()(
 
           // Set up progress listener
           const unsubscribe = window.api.sposify.onImportProgress((progress) => {
-            set({ importProgress: progress.progress });
+            set({ importProgress: progress.progress, importSource: progress.source ?? null });
           });
 
           const result = await window.api.sposify.importToLibrary({
             matchedLikedTracks: state.matchedLikedTracks,
-            matchedHistory: [], // Will be processed server-side
+            historyHandle: state.parsedData?.historyHandle ?? null,
             matchedPlaylists: state.matchedPlaylists,
             options: state.importOptions,
           });
@@ -448,6 +492,7 @@ export const useSposifyStore = create<SposifyState>()(
           set({
             importPhase: 'complete',
             importProgress: 1,
+            importSource: null,
             lastImportStats: {
               ...result,
               importedAt: Date.now(),
@@ -587,6 +632,7 @@ declare global {
         selectExportFolder: () => Promise<string | null>;
         parseExport: (filePaths: string[]) => Promise<ParsedSpotifyData>;
         parseExportFolder: (folderPath: string) => Promise<ParsedSpotifyData>;
+        detectExport: (paths: string[] | string) => Promise<DetectedExport>;
         matchTracks: (tracks: Array<{ trackName: string; artistName: string; albumName?: string }>) => Promise<{
           matched: MatchedTrack[];
           unmatched: Array<{ trackName: string; artistName: string }>;
@@ -597,7 +643,13 @@ declare global {
         getAudioFeaturesBatch: (spotifyIds: string[]) => Promise<Record<string, AudioFeatures>>;
         searchPlaylists: (query: string, options?: { limit?: number }) => Promise<{ playlists: PlaylistPreview[] }>;
         getTopPlaylists: (limit?: number) => Promise<PlaylistPreview[]>;
-        onImportProgress: (callback: (progress: { phase: string; progress: number }) => void) => () => void;
+        onImportProgress: (callback: (progress: {
+          phase: string;
+          progress: number;
+          source?: HistorySource;
+          bytesRead?: number;
+          totalBytes?: number;
+        }) => void) => () => void;
         onSetupProgress: (callback: (progress: SetupProgress) => void) => () => void;
       };
     };